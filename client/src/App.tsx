@@ -5,35 +5,68 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Inventory from "@/pages/inventory";
 import Orders from "@/pages/orders";
+import Customers from "@/pages/customers";
 import NotFound from "@/pages/not-found";
 import StockHistory from "@/pages/stock-history";
+import Locations from "@/pages/locations";
+import Purchasing from "@/pages/purchasing";
+import Stocktakes from "@/pages/stocktakes";
 import StoreCredits from "@/pages/store-credits";
-import { Navigation } from "@/components/navigation";
+import Users from "@/pages/users";
+import Audit from "@/pages/audit";
+import Taxes from "@/pages/taxes";
+import Login from "@/pages/login";
+import { Navigation, sections } from "@/components/navigation";
 import { Footer } from "@/components/footer";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { can } = useAuth();
+  // Sections a role can't use are left out, so their paths fall through to 404
+  const allowed = (href: string) => sections.some((section) => section.href === href && can(section.permission));
+
   return (
     <Switch>
-      <Route path="/" component={Inventory} />
-      <Route path="/orders" component={Orders} />
-      <Route path="/stock-history" component={StockHistory} />
-      <Route path="/store-credits" component={StoreCredits} />
+      {allowed("/") && <Route path="/" component={Inventory} />}
+      {allowed("/orders") && <Route path="/orders" component={Orders} />}
+      {allowed("/customers") && <Route path="/customers" component={Customers} />}
+      {allowed("/locations") && <Route path="/locations" component={Locations} />}
+      {allowed("/purchasing") && <Route path="/purchasing" component={Purchasing} />}
+      {allowed("/stocktakes") && <Route path="/stocktakes" component={Stocktakes} />}
+      {allowed("/stock-history") && <Route path="/stock-history" component={StockHistory} />}
+      {allowed("/store-credits") && <Route path="/store-credits" component={StoreCredits} />}
+      {allowed("/taxes") && <Route path="/taxes" component={Taxes} />}
+      {allowed("/audit") && <Route path="/audit" component={Audit} />}
+      {allowed("/users") && <Route path="/users" component={Users} />}
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function Shell() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) return null;
+  if (!user) return <Login />;
+
+  return (
+    <div className="flex flex-col h-screen">
+      <Navigation />
+      <main className="flex-1 overflow-hidden">
+        <Router />
+      </main>
+      <Footer />
+    </div>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <div className="flex flex-col h-screen">
-          <Navigation />
-          <main className="flex-1 overflow-hidden">
-            <Router />
-          </main>
-          <Footer />
-        </div>
+        <AuthProvider>
+          <Shell />
+        </AuthProvider>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,102 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { LoadMore } from "@/components/load-more";
+import { usePagedList } from "@/hooks/use-paged-list";
+import {
+  auditActionLabels,
+  auditEntityLabels,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEntityType,
+  type AuditEvent,
+} from "@shared/schema";
+
+export function auditActionLabel(action: string): string {
+  return auditActionLabels[action as AuditAction] ?? action;
+}
+
+export function auditEntityLabel(entityType: string): string {
+  return auditEntityLabels[entityType as AuditEntityType] ?? entityType;
+}
+
+// "stockQuantity" reads as "Stock quantity"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  return JSON.stringify(value);
+}
+
+// The fields an event changed, each as its old value and its new one
+export function AuditChangeList({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="text-muted-foreground">{fieldLabel(field)}</dt>
+          <dd className="break-all">
+            <span className="line-through text-muted-foreground">{displayValue(changes[field].before)}</span>
+            <span className="mx-1 text-muted-foreground">→</span>
+            <span>{displayValue(changes[field].after)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+// Everything recorded against one record, newest first
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const {
+    items: events,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePagedList<AuditEvent>("/api/audit-events", { entityType, entityId }, 20);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded</p>;
+  }
+
+  return (
+    <div data-testid={`audit-history-${entityId}`}>
+      <ol className="space-y-4">
+        {events.map((event) => (
+          <li key={event.id} className="rounded-md border p-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+              <Badge variant="outline" className="text-xs">{auditActionLabel(event.action)}</Badge>
+              <span className="font-medium">{event.actorName}</span>
+              {event.createdAt && (
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(event.createdAt), "MMM dd, yyyy HH:mm")}
+                </span>
+              )}
+            </div>
+            <AuditChangeList changes={event.changes} />
+          </li>
+        ))}
+      </ol>
+      <LoadMore hasNextPage={hasNextPage} isFetchingNextPage={isFetchingNextPage} fetchNextPage={fetchNextPage} />
+    </div>
+  );
+}
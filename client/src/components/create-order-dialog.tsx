@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { X, Plus, Search, Package, Scan, Clock } from "lucide-react";
+import { X, Plus, Search, Package, Scan, Clock, Percent, ShieldCheck } from "lucide-react";
 import { format } from "date-fns";
 import {
   Dialog,
@@ -37,17 +37,92 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertOrderSchema, type Product, type InsertOrder } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import {
+  fromCents,
+  orderDetailsSchema,
+  orderLineTaxCents,
+  manualDiscountCents,
+  taxJurisdictions,
+  taxRateFor,
+  toCents,
+  type DiscountType,
+  type Login,
+  type ManualDiscount,
+  type OrderDetails,
+  type OrderLine,
+  type Product,
+  type TaxClassWithRates,
+  type TaxSettings,
+} from "@shared/schema";
 import { QRScannerDialog } from "./qr-scanner-dialog";
 
+// A discount as it's being typed; it counts once it has a value
+interface DiscountDraft {
+  type: DiscountType;
+  value: string;
+  reason: string;
+}
+
 interface OrderItem {
   productId: string;
   productName: string;
   sku: string;
   unitPrice: string;
   quantity: number;
-  subtotal: string;
+  discount?: DiscountDraft;
+}
+
+const emptyDiscount: DiscountDraft = { type: "percent", value: "", reason: "" };
+
+function toDiscount(draft?: DiscountDraft): ManualDiscount | undefined {
+  return draft && parseFloat(draft.value) > 0 ? draft : undefined;
+}
+
+// The server prices the order itself; this shows what it will come to
+function lineCents(item: OrderItem): number {
+  const gross = toCents(item.unitPrice) * item.quantity;
+  return gross - Math.min(manualDiscountCents(toDiscount(item.discount), gross), gross);
+}
+
+interface DiscountFieldsProps {
+  discount: DiscountDraft;
+  onChange: (discount: DiscountDraft) => void;
+  testId: string;
+}
+
+function DiscountFields({ discount, onChange, testId }: DiscountFieldsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={discount.type} onValueChange={(type) => onChange({ ...discount, type: type as DiscountType })}>
+        <SelectTrigger className="w-[110px]" data-testid={`select-${testId}-type`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="percent">% off</SelectItem>
+          <SelectItem value="fixed">$ off</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        value={discount.value}
+        onChange={(e) => onChange({ ...discount, value: e.target.value })}
+        placeholder="0"
+        className="w-[100px]"
+        data-testid={`input-${testId}-value`}
+      />
+      <Input
+        value={discount.reason}
+        onChange={(e) => onChange({ ...discount, reason: e.target.value })}
+        placeholder="Reason"
+        className="flex-1 min-w-[160px]"
+        data-testid={`input-${testId}-reason`}
+      />
+    </div>
+  );
 }
 
 interface CreateOrderDialogProps {
@@ -60,7 +135,14 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [searchOpen, setSearchOpen] = useState(false);
   const [scannerOpen, setScannerOpen] = useState(false);
+  const [orderDiscount, setOrderDiscount] = useState<DiscountDraft | undefined>(undefined);
+  // Shown once the server says the discounts need a manager's sign-off
+  const [approvalNeeded, setApprovalNeeded] = useState(false);
+  const [approval, setApproval] = useState<Login>({ username: "", password: "" });
+  // Empty until another jurisdiction than the store's is picked
+  const [taxJurisdiction, setTaxJurisdiction] = useState("");
   const { toast } = useToast();
+  const { can } = useAuth();
 
   // Auto-add scanned product
   useEffect(() => {
@@ -73,36 +155,72 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
     queryKey: ["/api/products"],
   });
 
-  const form = useForm<InsertOrder>({
-    resolver: zodResolver(insertOrderSchema),
+  const { data: taxSettings } = useQuery<TaxSettings>({
+    queryKey: ["/api/tax-settings"],
+  });
+
+  const { data: taxClasses = [] } = useQuery<TaxClassWithRates[]>({
+    queryKey: ["/api/tax-classes"],
+  });
+
+  const form = useForm<OrderDetails>({
+    resolver: zodResolver(orderDetailsSchema),
     defaultValues: {
       customerName: "",
       customerEmail: "",
       customerPhone: "",
       status: "pending",
       notes: "",
-      totalAmount: "0",
     },
   });
 
+  const reset = () => {
+    form.reset();
+    setOrderItems([]);
+    setOrderDiscount(undefined);
+    setApprovalNeeded(false);
+    setApproval({ username: "", password: "" });
+    setTaxJurisdiction("");
+  };
+
   const createMutation = useMutation({
-    mutationFn: async (data: InsertOrder & { items: OrderItem[] }) => {
+    mutationFn: async (
+      data: OrderDetails & {
+        items: OrderLine[];
+        discount?: ManualDiscount;
+        approval?: Login;
+        taxJurisdiction?: string;
+        totalAmount?: string;
+      }
+    ) => {
       return await apiRequest("POST", "/api/orders", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
       toast({
         title: "Success",
         description: "Order created successfully",
       });
       onOpenChange(false);
-      form.reset();
-      setOrderItems([]);
+      reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.body?.details?.approvalRequired) {
+        setApprovalNeeded(true);
+      }
+      if (error instanceof ApiError && error.body?.details?.expectedTotal) {
+        // Prices or tax rates changed since they were loaded; refresh them before retrying
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tax-classes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tax-settings"] });
+      }
       toast({
         title: "Error",
-        description: "Failed to create order. Please try again.",
+        description: error.message || "Failed to create order. Please try again.",
         variant: "destructive",
       });
     },
@@ -123,7 +241,6 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
         sku: product.sku,
         unitPrice: product.price,
         quantity: 1,
-        subtotal: product.price,
       };
       setOrderItems([...orderItems, newItem]);
       toast({
@@ -139,11 +256,7 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
     setOrderItems(
       orderItems.map((item) =>
         item.productId === productId
-          ? {
-              ...item,
-              quantity,
-              subtotal: (parseFloat(item.unitPrice) * quantity).toFixed(2),
-            }
+          ? { ...item, quantity }
           : item
       )
     );
@@ -153,11 +266,31 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
     setOrderItems(orderItems.filter((item) => item.productId !== productId));
   };
 
-  const calculateTotal = () => {
-    return orderItems.reduce((sum, item) => sum + parseFloat(item.subtotal), 0).toFixed(2);
+  const setItemDiscount = (productId: string, discount?: DiscountDraft) => {
+    setOrderItems(orderItems.map((item) => (item.productId === productId ? { ...item, discount } : item)));
   };
 
-  const onSubmit = (data: InsertOrder) => {
+  const itemsCents = orderItems.reduce((sum, item) => sum + lineCents(item), 0);
+  const orderDiscountCents = Math.min(manualDiscountCents(toDiscount(orderDiscount), itemsCents), itemsCents);
+
+  // Taxed the way the server will: each line at its category's rate, once
+  // the order's discount is shared out
+  const jurisdiction = taxJurisdiction || taxSettings?.jurisdiction || "";
+  const jurisdictions = Array.from(new Set([jurisdiction, ...taxJurisdictions(taxClasses)])).filter(Boolean).sort();
+  const pricesIncludeTax = taxSettings?.pricesIncludeTax ?? false;
+  const taxTotalCents = orderLineTaxCents(
+    orderItems.map((item) => {
+      const category = products.find((product) => product.id === item.productId)?.category ?? "";
+      const rate = taxRateFor(taxClasses, category, jurisdiction);
+      return { cents: lineCents(item), rate: rate ? parseFloat(rate.rate) : 0 };
+    }),
+    orderDiscountCents,
+    pricesIncludeTax
+  ).reduce((sum, cents) => sum + cents, 0);
+  const calculateTotal = () =>
+    fromCents(itemsCents - orderDiscountCents + (pricesIncludeTax ? 0 : taxTotalCents));
+
+  const onSubmit = (data: OrderDetails) => {
     if (orderItems.length === 0) {
       toast({
         title: "Error",
@@ -167,11 +300,18 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
       return;
     }
 
-    const total = calculateTotal();
     createMutation.mutate({
       ...data,
-      totalAmount: total,
-      items: orderItems,
+      items: orderItems.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        discount: toDiscount(item.discount),
+      })),
+      discount: toDiscount(orderDiscount),
+      approval: approvalNeeded ? approval : undefined,
+      taxJurisdiction: taxJurisdiction || undefined,
+      // Only checked once the tax settings it was worked out with are known
+      totalAmount: taxSettings ? calculateTotal() : undefined,
     });
   };
 
@@ -237,7 +377,6 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
                     <SelectItem value="processing">Processing</SelectItem>
                     <SelectItem value="shipped">Shipped</SelectItem>
                     <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -352,8 +491,18 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
                                 +
                               </Button>
                             </div>
+                            <Button
+                              type="button"
+                              variant={item.discount ? "secondary" : "ghost"}
+                              size="icon"
+                              onClick={() => setItemDiscount(item.productId, item.discount ? undefined : emptyDiscount)}
+                              title={item.discount ? "Remove discount" : "Discount this line"}
+                              data-testid={`button-discount-item-${index}`}
+                            >
+                              <Percent className="h-4 w-4" />
+                            </Button>
                             <p className="font-semibold w-20 text-right" data-testid={`text-subtotal-${index}`}>
-                              ${item.subtotal}
+                              ${fromCents(lineCents(item))}
                             </p>
                             <Button
                               type="button"
@@ -366,9 +515,63 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
                             </Button>
                           </div>
                         </div>
+                        {item.discount && (
+                          <div className="mt-3">
+                            <DiscountFields
+                              discount={item.discount}
+                              onChange={(discount) => setItemDiscount(item.productId, discount)}
+                              testId={`item-discount-${index}`}
+                            />
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
+                  <div className="p-4 border-t space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">Order discount</p>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setOrderDiscount(orderDiscount ? undefined : emptyDiscount)}
+                        data-testid="button-order-discount"
+                      >
+                        {orderDiscount ? "Remove" : "Add discount"}
+                      </Button>
+                    </div>
+                    {orderDiscount && (
+                      <>
+                        <DiscountFields discount={orderDiscount} onChange={setOrderDiscount} testId="order-discount" />
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>Items ${fromCents(itemsCents)}</span>
+                          <span data-testid="text-order-discount">-${fromCents(orderDiscountCents)}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <div className="p-4 border-t flex items-center justify-between gap-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{pricesIncludeTax ? "Tax included" : "Tax"}</span>
+                      {jurisdictions.length > 1 ? (
+                        <Select value={jurisdiction} onValueChange={setTaxJurisdiction}>
+                          <SelectTrigger className="w-[120px] h-8" data-testid="select-tax-jurisdiction">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {jurisdictions.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {option}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        jurisdiction && <span className="font-mono text-muted-foreground">{jurisdiction}</span>
+                      )}
+                    </div>
+                    <span data-testid="text-order-tax">${fromCents(taxTotalCents)}</span>
+                  </div>
                   <div className="p-4 bg-muted/50 border-t flex items-center justify-between">
                     <p className="font-semibold text-lg">Total</p>
                     <p className="font-bold text-2xl" data-testid="text-order-total">
@@ -380,6 +583,37 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
             )}
           </div>
 
+          {approvalNeeded && !can("discounts.approve") && (
+            <Card className="border-amber-300 bg-amber-50 dark:bg-amber-950/20">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4" />
+                  <p className="font-medium">Manager approval</p>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  These discounts are over the limit. A manager can approve them by signing in here.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    value={approval.username}
+                    onChange={(e) => setApproval({ ...approval, username: e.target.value })}
+                    placeholder="Manager username"
+                    autoComplete="off"
+                    data-testid="input-approval-username"
+                  />
+                  <Input
+                    type="password"
+                    value={approval.password}
+                    onChange={(e) => setApproval({ ...approval, password: e.target.value })}
+                    placeholder="Password"
+                    autoComplete="off"
+                    data-testid="input-approval-password"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="notes">Order Notes</Label>
             <Textarea
@@ -402,8 +636,7 @@ export function CreateOrderDialog({ open, onOpenChange, initialProduct }: Create
                 variant="outline"
                 onClick={() => {
                   onOpenChange(false);
-                  form.reset();
-                  setOrderItems([]);
+                  reset();
                 }}
                 disabled={createMutation.isPending}
                 data-testid="button-cancel"
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -24,9 +24,28 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertReturnSchema, type OrderWithItems, type Product } from "@shared/schema";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import {
+  fromCents,
+  insertReturnSchema,
+  paidByProduct,
+  returnPaymentMethods,
+  returnTaxCents,
+  returnValueCents,
+  taxCents,
+  taxRateFor,
+  toCents,
+  type OrderWithItems,
+  type Product,
+  type ReturnableQuantity,
+  type ReturnItemError,
+  type ReturnWithItems,
+  type ReturnPaymentMethod,
+  type TaxClassWithRates,
+  type TaxSettings,
+} from "@shared/schema";
 import { QRScannerDialog } from "@/components/qr-scanner-dialog";
+import { paymentMethodLabels } from "@/components/return-payment-dialog";
 import { z } from "zod";
 
 interface ReturnItem {
@@ -35,7 +54,6 @@ interface ReturnItem {
   sku: string;
   quantity: number;
   unitPrice: string;
-  subtotal: string;
   exchangeProductId?: string;
   exchangeProductName?: string;
 }
@@ -53,19 +71,48 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
   const [currentExchangeItemId, setCurrentExchangeItemId] = useState<string | null>(null);
   const [manualSearchSKU, setManualSearchSKU] = useState("");
   const [showManualSearch, setShowManualSearch] = useState<string | null>(null);
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [settleAs, setSettleAs] = useState<"refund" | "credit">("refund");
+  const [paymentMethod, setPaymentMethod] = useState<ReturnPaymentMethod | undefined>(undefined);
   const { toast } = useToast();
 
   const { data: products = [] } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
 
+  const { data: returnable = [] } = useQuery<ReturnableQuantity[]>({
+    queryKey: ["/api/orders", order?.id, "returnable"],
+    enabled: open && !!order,
+  });
+
+  const { data: taxClasses = [] } = useQuery<TaxClassWithRates[]>({
+    queryKey: ["/api/tax-classes"],
+  });
+
+  const { data: taxSettings } = useQuery<TaxSettings>({
+    queryKey: ["/api/tax-settings"],
+  });
+
+  // Orders placed before taxes were set up are treated as the store's
+  const taxJurisdiction = order?.taxJurisdiction ?? taxSettings?.jurisdiction;
+
+  // What the customer paid for each product, after line and order discounts
+  const paid = useMemo(() => (order ? paidByProduct(order, order.items) : new Map()), [order]);
+
+  // Falls back to the ordered quantity until the server's numbers arrive
+  const maxReturnable = (productId: string) => {
+    const line = returnable.find(entry => entry.productId === productId);
+    if (line) return line.returnable;
+    return order?.items
+      .filter(item => item.productId === productId)
+      .reduce((sum, item) => sum + item.quantity, 0) ?? 0;
+  };
+
   const form = useForm({
     resolver: zodResolver(insertReturnSchema),
     defaultValues: {
       orderId: "",
       orderNumber: "",
-      customerName: "",
-      customerEmail: "",
       status: "pending" as const,
       reason: "",
       notes: "",
@@ -78,38 +125,59 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
     if (order && open) {
       form.setValue("orderId", order.id);
       form.setValue("orderNumber", order.orderNumber);
-      form.setValue("customerName", order.customerName);
-      form.setValue("customerEmail", order.customerEmail || "");
-      setReturnItems(order.items.map(item => ({
-        productId: item.productId,
-        productName: item.productName,
-        sku: item.sku,
-        quantity: 0,
-        unitPrice: item.unitPrice,
-        subtotal: "0",
-      })));
+      // Items come back at what was paid for them, after any discount
+      setReturnItems(order.items.map(item => {
+        const productPaid = paid.get(item.productId);
+        return {
+          productId: item.productId,
+          productName: item.productName,
+          sku: item.sku,
+          quantity: 0,
+          unitPrice: productPaid?.quantity ? fromCents(Math.round(productPaid.cents / productPaid.quantity)) : "0.00",
+        };
+      }));
+      setItemErrors({});
+      setSettleAs("refund");
+      setPaymentMethod(undefined);
     }
   }, [order, open]);
 
   const createReturnMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return await apiRequest("POST", "/api/returns", data);
+    mutationFn: async (data: any): Promise<ReturnWithItems> => {
+      const res = await apiRequest("POST", "/api/returns", data);
+      return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (ret: ReturnWithItems) => {
       queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/discount-codes"] });
-      const { credit } = calculateTotals();
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      if (ret.replacementOrderId) {
+        // The replacement order has already taken the exchange products out of stock
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      }
       toast({
         title: "Return Created",
-        description: credit > 0 
-          ? `Return has been created successfully. A store credit discount code for $${credit.toFixed(2)} has been sent to the customer's email.`
-          : "Return has been created successfully.",
+        description: ret.replacementOrderId
+          ? "Return is pending approval. A replacement order has been created for the exchanged items."
+          : "Return is pending approval. Items are restocked and store credit is issued once it is approved.",
       });
       onOpenChange(false);
       form.reset();
     },
     onError: (error: Error) => {
+      if (error instanceof ApiError && Array.isArray(error.body?.details)) {
+        const details = error.body.details as ReturnItemError[];
+        setItemErrors(Object.fromEntries(details.map(detail => [detail.productId, detail.message])));
+        queryClient.invalidateQueries({ queryKey: ["/api/orders", order?.id, "returnable"] });
+      } else if (error instanceof ApiError && error.body?.details?.mismatched) {
+        // Something changed since the dialog was opened; refresh what the
+        // amounts are worked out from so they can be checked and resent
+        queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tax-classes"] });
+      }
       toast({
         title: "Error",
         description: error.message,
@@ -122,13 +190,13 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
     setReturnItems(items =>
       items.map(item => {
         if (item.productId === productId) {
-          const quantity = Math.max(0, Math.min(newQuantity, parseInt(item.unitPrice)));
-          const subtotal = (quantity * parseFloat(item.unitPrice)).toFixed(2);
-          return { ...item, quantity, subtotal };
+          const quantity = Math.max(0, Math.min(newQuantity, maxReturnable(productId)));
+          return { ...item, quantity };
         }
         return item;
       })
     );
+    setItemErrors(({ [productId]: _cleared, ...rest }) => rest);
   };
 
   const setExchangeProduct = (productId: string, exchangeProductId: string) => {
@@ -181,36 +249,47 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
     }
   };
 
+  // Worked out the same way as on the server, which rejects the return if
+  // the two disagree
   const calculateTotals = () => {
     const itemsToReturn = returnItems.filter(item => item.quantity > 0);
 
-    let totalReturnValue = 0;
-    let totalExchangeValue = 0;
+    let returnCents = 0;
+    let returnTax = 0;
+    let exchangeCents = 0;
 
     itemsToReturn.forEach(item => {
-      const returnValue = parseFloat(item.subtotal);
-      totalReturnValue += returnValue;
+      const productPaid = paid.get(item.productId);
+      const returned = returnable.find(entry => entry.productId === item.productId)?.returned ?? 0;
+      if (productPaid) {
+        returnCents += returnValueCents(productPaid, returned, item.quantity);
+        returnTax += returnTaxCents(productPaid, returned, item.quantity);
+      }
 
       if (item.exchangeProductId) {
         const exchangeProduct = products.find(p => p.id === item.exchangeProductId);
-        if (exchangeProduct) {
-          totalExchangeValue += parseFloat(exchangeProduct.price) * item.quantity;
+        if (exchangeProduct && order) {
+          // Exchange products are taxed as the original order was
+          const exchangeLine = toCents(exchangeProduct.price) * item.quantity;
+          const rate = taxJurisdiction ? taxRateFor(taxClasses, exchangeProduct.category, taxJurisdiction) : undefined;
+          const exchangeTax = rate ? taxCents(exchangeLine, parseFloat(rate.rate), order.pricesIncludeTax) : 0;
+          exchangeCents += exchangeLine + (order.pricesIncludeTax ? 0 : exchangeTax);
         }
       }
     });
 
-    // Calculate refund or store credit for additional payment
-    const difference = totalReturnValue - totalExchangeValue;
-    const refundAmount = difference > 0 ? difference : 0;
-    // When additional payment is needed, save it as future store credit
-    const creditAmount = difference < 0 ? Math.abs(difference) : 0;
-
-    return { 
-      total: totalReturnValue, 
-      refund: refundAmount, 
-      credit: creditAmount,
-      exchangeValue: totalExchangeValue,
-      additionalPayment: 0 // Always 0, convert to credit instead
+    // Money owed to the customer is refunded or kept as store credit;
+    // money owed by the customer is a balance due collected before completion
+    const owedToCustomer = Math.max(0, returnCents - exchangeCents);
+    const balanceDue = Math.max(0, exchangeCents - returnCents);
+
+    return {
+      total: returnCents / 100,
+      tax: returnTax / 100,
+      refund: settleAs === "refund" ? owedToCustomer / 100 : 0,
+      credit: settleAs === "credit" ? owedToCustomer / 100 : 0,
+      exchangeValue: exchangeCents / 100,
+      additionalPayment: balanceDue / 100,
     };
   };
 
@@ -226,15 +305,24 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
       return;
     }
 
-    const { refund, credit, exchangeValue } = calculateTotals();
+    const { total, tax, refund, credit, exchangeValue, additionalPayment } = calculateTotals();
 
+    // The amounts are sent only so the server can check them against its own
     createReturnMutation.mutate({
       ...data,
+      settleAs,
+      returnValue: total.toFixed(2),
+      taxAmount: tax.toFixed(2),
       refundAmount: refund.toFixed(2),
       creditAmount: credit.toFixed(2),
       exchangeValue: exchangeValue.toFixed(2),
-      additionalPayment: "0.00",
-      items: itemsToReturn,
+      additionalPayment: additionalPayment.toFixed(2),
+      paymentMethod: additionalPayment > 0 ? paymentMethod : undefined,
+      items: itemsToReturn.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        exchangeProductId: item.exchangeProductId,
+      })),
     });
   });
 
@@ -261,7 +349,15 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
                       <div className="flex-1">
                         <p className="font-medium">{item.productName}</p>
                         <p className="text-sm text-muted-foreground">{item.sku}</p>
-                        <p className="text-sm">Price: ${item.unitPrice}</p>
+                        <p className="text-sm">Paid: ${item.unitPrice} each</p>
+                        <p className="text-xs text-muted-foreground" data-testid={`text-returnable-${item.productId}`}>
+                          {maxReturnable(item.productId)} returnable
+                        </p>
+                        {itemErrors[item.productId] && (
+                          <p className="text-sm text-destructive mt-1" data-testid={`error-return-item-${item.productId}`}>
+                            {itemErrors[item.productId]}
+                          </p>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-3">
@@ -284,6 +380,7 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
                               size="icon"
                               className="h-8 w-8"
                               onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                              disabled={item.quantity >= maxReturnable(item.productId)}
                             >
                               +
                             </Button>
@@ -416,7 +513,8 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
               <CardContent className="p-4">
                 <h3 className="font-semibold mb-3">Return Summary</h3>
                 {(() => {
-                  const { total: totalReturnValue, exchangeValue: totalExchangeValue, refund, additionalPayment } = calculateTotals();
+                  const { total: totalReturnValue, tax: totalTax, exchangeValue: totalExchangeValue, refund, credit, additionalPayment } = calculateTotals();
+                  const owedToCustomer = refund + credit;
 
                   return (
                     <div className="space-y-2 text-sm">
@@ -424,36 +522,78 @@ export function CreateReturnDialog({ open, onOpenChange, order }: CreateReturnDi
                         <span className="text-muted-foreground">Return Value:</span>
                         <span className="font-medium">${totalReturnValue.toFixed(2)}</span>
                       </div>
+                      {totalTax > 0 && (
+                        <div className="flex justify-between text-xs">
+                          <span className="text-muted-foreground">Tax included ({taxJurisdiction}):</span>
+                          <span data-testid="text-return-tax">${totalTax.toFixed(2)}</span>
+                        </div>
+                      )}
                       {totalExchangeValue > 0 && (
-                        <>
-                          <div className="flex justify-between">
-                            <span className="text-muted-foreground">Exchange Value:</span>
-                            <span className="font-medium">${totalExchangeValue.toFixed(2)}</span>
-                          </div>
-                          <div className="flex justify-between pt-2 border-t">
-                            {refund > 0 ? (
-                              <>
-                                <span className="font-semibold">Refund Amount:</span>
-                                <span className="font-semibold text-green-600">${refund.toFixed(2)}</span>
-                              </>
-                            ) : credit > 0 ? (
-                              <>
-                                <span className="font-semibold">Store Credit (Future Discount):</span>
-                                <span className="font-semibold text-blue-600">${credit.toFixed(2)}</span>
-                              </>
-                            ) : (
-                              <>
-                                <span className="font-semibold">Even Exchange:</span>
-                                <span className="font-semibold">$0.00</span>
-                              </>
-                            )}
-                          </div>
-                        </>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Exchange Value:</span>
+                          <span className="font-medium">${totalExchangeValue.toFixed(2)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between pt-2 border-t">
+                        {additionalPayment > 0 ? (
+                          <>
+                            <span className="font-semibold">Balance Due:</span>
+                            <span className="font-semibold text-orange-600" data-testid="text-balance-due">${additionalPayment.toFixed(2)}</span>
+                          </>
+                        ) : refund > 0 ? (
+                          <>
+                            <span className="font-semibold">Refund Amount:</span>
+                            <span className="font-semibold text-green-600">${refund.toFixed(2)}</span>
+                          </>
+                        ) : credit > 0 ? (
+                          <>
+                            <span className="font-semibold">Store Credit (Future Discount):</span>
+                            <span className="font-semibold text-blue-600">${credit.toFixed(2)}</span>
+                          </>
+                        ) : (
+                          <>
+                            <span className="font-semibold">Even Exchange:</span>
+                            <span className="font-semibold">$0.00</span>
+                          </>
+                        )}
+                      </div>
+                      {owedToCustomer > 0 && (
+                        <div className="space-y-2 pt-2">
+                          <Label htmlFor="settleAs">Settle As</Label>
+                          <Select value={settleAs} onValueChange={(value) => setSettleAs(value as "refund" | "credit")}>
+                            <SelectTrigger id="settleAs" data-testid="select-settle-as">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="refund">Refund</SelectItem>
+                              <SelectItem value="credit" disabled={!order?.customerEmail}>
+                                Store Credit{!order?.customerEmail && " (requires customer email)"}
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       )}
-                      {totalExchangeValue === 0 && (
-                        <div className="flex justify-between pt-2 border-t">
-                          <span className="font-semibold">Refund Amount:</span>
-                          <span className="font-semibold text-green-600">${totalReturnValue.toFixed(2)}</span>
+                      {additionalPayment > 0 && (
+                        <div className="space-y-2 pt-2">
+                          <Label htmlFor="paymentMethod">Payment Method</Label>
+                          <Select
+                            value={paymentMethod}
+                            onValueChange={(value) => setPaymentMethod(value as ReturnPaymentMethod)}
+                          >
+                            <SelectTrigger id="paymentMethod" data-testid="select-payment-method">
+                              <SelectValue placeholder="Select when collected" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {returnPaymentMethods.map((method) => (
+                                <SelectItem key={method} value={method}>
+                                  {paymentMethodLabels[method]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            The return can only be completed once the balance due is marked paid.
+                          </p>
                         </div>
                       )}
                     </div>
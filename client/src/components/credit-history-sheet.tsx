@@ -0,0 +1,107 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { OrderNumber } from "./order-number";
+import type { CreditTransaction, CreditTransactionType, DiscountCodeWithBalance } from "@shared/schema";
+
+interface CreditHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  credit: DiscountCodeWithBalance | null;
+}
+
+const transactionLabels: Record<CreditTransactionType, string> = {
+  issue: "Issued",
+  redeem: "Redeemed",
+  expire: "Expired",
+  adjust: "Adjusted",
+  reverse: "Reversed",
+};
+
+export function CreditHistorySheet({ open, onOpenChange, credit }: CreditHistorySheetProps) {
+  const { data: transactions = [], isLoading } = useQuery<CreditTransaction[]>({
+    queryKey: ["/api/discount-codes", credit?.code, "transactions"],
+    enabled: open && !!credit,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md overflow-y-auto" data-testid="sheet-credit-history">
+        <SheetHeader>
+          <SheetTitle>Credit History</SheetTitle>
+          <SheetDescription>
+            {credit && (
+              <>
+                <code className="font-mono">{credit.code}</code> for {credit.customerEmail}
+              </>
+            )}
+          </SheetDescription>
+        </SheetHeader>
+
+        {credit && (
+          <div className="mt-6 space-y-6">
+            <div className="flex justify-between text-sm">
+              <div>
+                <p className="text-muted-foreground">Issued</p>
+                <p className="font-semibold">${parseFloat(credit.amount).toFixed(2)}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-muted-foreground">Balance</p>
+                <p className="font-semibold text-green-600" data-testid="text-credit-balance">
+                  ${parseFloat(credit.balance).toFixed(2)}
+                </p>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions recorded</p>
+            ) : (
+              <ol className="space-y-3">
+                {transactions.map((transaction) => {
+                  const amount = parseFloat(transaction.amount);
+
+                  return (
+                    <li
+                      key={transaction.id}
+                      className="border rounded-md p-3 text-sm space-y-1"
+                      data-testid={`row-credit-transaction-${transaction.id}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline">
+                          {transactionLabels[transaction.type as CreditTransactionType] ?? transaction.type}
+                        </Badge>
+                        <span className={amount < 0 ? "font-semibold text-destructive" : "font-semibold text-green-600"}>
+                          {amount < 0 ? "-" : "+"}${Math.abs(amount).toFixed(2)}
+                        </span>
+                      </div>
+                      {transaction.orderId && (
+                        <p className="text-muted-foreground">
+                          Order <span className="font-mono"><OrderNumber orderId={transaction.orderId} /></span>
+                        </p>
+                      )}
+                      {transaction.note && <p className="text-muted-foreground">{transaction.note}</p>}
+                      {transaction.createdAt && (
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(transaction.createdAt), "MMM dd, yyyy HH:mm")}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { insertCustomerSchema, type Customer, type InsertCustomer } from "@shared/schema";
+
+interface CustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer?: Customer;
+}
+
+function formValues(customer?: Customer): InsertCustomer {
+  return {
+    name: customer?.name ?? "",
+    email: customer?.email ?? "",
+    phone: customer?.phone ?? "",
+    notes: customer?.notes ?? "",
+  };
+}
+
+export function CustomerDialog({ open, onOpenChange, customer }: CustomerDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertCustomer>({
+    resolver: zodResolver(insertCustomerSchema),
+    defaultValues: formValues(customer),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(formValues(customer));
+  }, [open, customer]);
+
+  // The server rejects a customer whose email or phone is already on file
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCustomer) => {
+      return customer
+        ? await apiRequest("PATCH", `/api/customers/${customer.id}`, data)
+        : await apiRequest("POST", "/api/customers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({
+        title: "Success",
+        description: customer ? "Customer updated successfully" : "Customer created successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save customer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-customer">
+        <DialogHeader>
+          <DialogTitle>{customer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+          <DialogDescription>
+            Orders placed with a matching email or phone number are linked to this customer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="customerName">Name *</Label>
+            <Input
+              id="customerName"
+              {...form.register("name")}
+              placeholder="John Doe"
+              data-testid="input-customer-name"
+            />
+            {form.formState.errors.name && (
+              <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="customerEmail">Email</Label>
+              <Input
+                id="customerEmail"
+                type="email"
+                {...form.register("email")}
+                placeholder="john@example.com"
+                data-testid="input-customer-email"
+              />
+              {form.formState.errors.email && (
+                <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customerPhone">Phone</Label>
+              <Input
+                id="customerPhone"
+                {...form.register("phone")}
+                placeholder="+1 234 567 8900"
+                data-testid="input-customer-phone"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customerNotes">Notes</Label>
+            <Textarea
+              id="customerNotes"
+              {...form.register("notes")}
+              rows={3}
+              data-testid="input-customer-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-customer">
+              {saveMutation.isPending ? "Saving..." : customer ? "Save Changes" : "Add Customer"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
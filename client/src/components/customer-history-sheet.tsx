@@ -0,0 +1,145 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import type { CustomerHistory, CustomerWithStats } from "@shared/schema";
+
+interface CustomerHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: CustomerWithStats | null;
+}
+
+function formatDate(date: Date | string | null) {
+  return date ? format(new Date(date), "MMM dd, yyyy") : "-";
+}
+
+export function CustomerHistorySheet({ open, onOpenChange, customer }: CustomerHistorySheetProps) {
+  const { data: history, isLoading } = useQuery<CustomerHistory>({
+    queryKey: ["/api/customers", customer?.id, "history"],
+    enabled: open && !!customer,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-lg overflow-y-auto" data-testid="sheet-customer-history">
+        <SheetHeader>
+          <SheetTitle>{customer?.name ?? "Customer"}</SheetTitle>
+          <SheetDescription>
+            {[customer?.email, customer?.phone].filter(Boolean).join(" · ") || "No contact details"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !history ? (
+          <p className="mt-6 text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Lifetime Value</p>
+                <p className="font-semibold">${history.customer.lifetimeValue}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Open Credit</p>
+                <p className="font-semibold text-green-600">${history.customer.openCredit}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Return Rate</p>
+                <p className="font-semibold">{(history.customer.returnRate * 100).toFixed(0)}%</p>
+              </div>
+            </div>
+
+            <section className="space-y-2">
+              <h3 className="font-semibold">Orders ({history.orders.length})</h3>
+              {history.orders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No orders</p>
+              ) : (
+                <ul className="space-y-2">
+                  {history.orders.map((order) => (
+                    <li
+                      key={order.id}
+                      className="border rounded-md p-3 text-sm flex items-center justify-between"
+                      data-testid={`row-customer-order-${order.id}`}
+                    >
+                      <div>
+                        <p className="font-mono">{order.orderNumber}</p>
+                        <p className="text-xs text-muted-foreground">{formatDate(order.createdAt)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold">${order.totalAmount}</p>
+                        <Badge variant="outline" className="capitalize">{order.status}</Badge>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="font-semibold">Returns ({history.returns.length})</h3>
+              {history.returns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No returns</p>
+              ) : (
+                <ul className="space-y-2">
+                  {history.returns.map((ret) => (
+                    <li
+                      key={ret.id}
+                      className="border rounded-md p-3 text-sm flex items-center justify-between"
+                      data-testid={`row-customer-return-${ret.id}`}
+                    >
+                      <div>
+                        <p className="font-mono">{ret.returnNumber}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Order {ret.orderNumber} · {formatDate(ret.createdAt)}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="capitalize">{ret.status}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="font-semibold">Store Credit ({history.credits.length})</h3>
+              {history.credits.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No store credit</p>
+              ) : (
+                <ul className="space-y-2">
+                  {history.credits.map((credit) => (
+                    <li
+                      key={credit.id}
+                      className="border rounded-md p-3 text-sm flex items-center justify-between"
+                      data-testid={`row-customer-credit-${credit.id}`}
+                    >
+                      <div>
+                        <code className="font-mono">{credit.code}</code>
+                        <p className="text-xs text-muted-foreground">
+                          {credit.voidedAt
+                            ? `Voided ${formatDate(credit.voidedAt)}`
+                            : credit.expiredAt
+                              ? `Expired ${formatDate(credit.expiredAt)}`
+                              : `Expires ${credit.expiresAt ? formatDate(credit.expiresAt) : "never"}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-green-600">${parseFloat(credit.balance).toFixed(2)}</p>
+                        <p className="text-xs text-muted-foreground">of ${parseFloat(credit.amount).toFixed(2)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
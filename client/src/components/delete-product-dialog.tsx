@@ -32,6 +32,7 @@ export function DeleteProductDialog({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
       toast({
         title: "Success",
         description: "Product deleted successfully",
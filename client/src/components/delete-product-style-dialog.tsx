@@ -0,0 +1,90 @@
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ProductStyleWithVariants } from "@shared/schema";
+
+interface DeleteProductStyleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  style: ProductStyleWithVariants;
+}
+
+export function DeleteProductStyleDialog({
+  open,
+  onOpenChange,
+  style,
+}: DeleteProductStyleDialogProps) {
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/product-styles/${style.id}`, null);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/product-styles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Success",
+        description: "Style deleted successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete style. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="dialog-delete-product-style">
+        <AlertDialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="rounded-full bg-destructive/10 p-3">
+              <AlertTriangle className="h-6 w-6 text-destructive" />
+            </div>
+            <AlertDialogTitle>Delete Style</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription className="pt-3">
+            Are you sure you want to delete{" "}
+            <span className="font-semibold text-foreground">{style.styleName}</span> and its{" "}
+            {style.variants.length} {style.variants.length === 1 ? "variant" : "variants"}?
+            This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={deleteMutation.isPending}
+            data-testid="button-cancel-delete-style"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            data-testid="button-confirm-delete-style"
+          >
+            {deleteMutation.isPending ? "Deleting..." : "Delete"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { RebuildStock, StockDrift } from "@shared/schema";
+
+interface LedgerDriftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Compares each product's stock with what its movement history adds up to
+export function LedgerDriftDialog({ open, onOpenChange }: LedgerDriftDialogProps) {
+  const { toast } = useToast();
+
+  const { data: drift = [], isLoading } = useQuery<StockDrift[]>({
+    queryKey: ["/api/stock-movements", "drift"],
+    enabled: open,
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: async (data: RebuildStock) => {
+      const res = await apiRequest("POST", "/api/stock-movements/rebuild", data);
+      return (await res.json()) as StockDrift[];
+    },
+    onSuccess: (rebuilt) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Stock Rebuilt",
+        description: `${rebuilt.length} ${rebuilt.length === 1 ? "product" : "products"} reset to the ledger`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rebuild stock. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-ledger-drift">
+        <DialogHeader>
+          <DialogTitle>Verify Stock Ledger</DialogTitle>
+          <DialogDescription>
+            Products whose stock differs from the sum of their movements. Rebuilding sets their stock to the
+            ledger figure; products with no recorded movements rebuild to zero.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground p-6">Checking...</p>
+        ) : drift.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <CheckCircle2 className="h-10 w-10 text-green-600 mb-3" />
+            <p className="text-sm text-muted-foreground" data-testid="text-no-drift">
+              Every product matches its movement history
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Ledger</TableHead>
+                  <TableHead className="text-right">Drift</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drift.map((row) => (
+                  <TableRow key={row.productId} data-testid={`row-drift-${row.productId}`}>
+                    <TableCell>
+                      <div className="font-medium">{row.productName}</div>
+                      <div className="text-sm text-muted-foreground font-mono">{row.sku}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.stockQuantity}</TableCell>
+                    <TableCell className="text-right">{row.ledgerQuantity}</TableCell>
+                    <TableCell
+                      className={cn("text-right font-semibold", row.drift > 0 ? "text-green-600" : "text-destructive")}
+                    >
+                      {row.drift > 0 ? `+${row.drift}` : row.drift}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => rebuildMutation.mutate({ productIds: [row.productId] })}
+                        disabled={rebuildMutation.isPending}
+                        data-testid={`button-rebuild-${row.productId}`}
+                      >
+                        Rebuild
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 border-t pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {drift.length > 0 && (
+            <Button
+              onClick={() => rebuildMutation.mutate({})}
+              disabled={rebuildMutation.isPending}
+              data-testid="button-rebuild-all"
+            >
+              {rebuildMutation.isPending ? "Rebuilding..." : `Rebuild ${drift.length} ${drift.length === 1 ? "Product" : "Products"}`}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { insertLocationSchema, type InsertLocation, type Location } from "@shared/schema";
+
+interface LocationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  location?: Location;
+}
+
+function formValues(location?: Location): InsertLocation {
+  return {
+    name: location?.name ?? "",
+    code: location?.code ?? "",
+    address: location?.address ?? "",
+  };
+}
+
+export function LocationDialog({ open, onOpenChange, location }: LocationDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertLocation>({
+    resolver: zodResolver(insertLocationSchema),
+    defaultValues: formValues(location),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(formValues(location));
+  }, [open, location]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertLocation) => {
+      return location
+        ? await apiRequest("PATCH", `/api/locations/${location.id}`, data)
+        : await apiRequest("POST", "/api/locations", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Success",
+        description: location ? "Location updated successfully" : "Location created successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save location. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-location">
+        <DialogHeader>
+          <DialogTitle>{location ? "Edit Location" : "Add Location"}</DialogTitle>
+          <DialogDescription>
+            A warehouse or store that holds its own stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="locationName">Name *</Label>
+              <Input
+                id="locationName"
+                {...form.register("name")}
+                placeholder="Downtown Store"
+                data-testid="input-location-name"
+              />
+              {form.formState.errors.name && (
+                <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="locationCode">Code *</Label>
+              <Input
+                id="locationCode"
+                {...form.register("code")}
+                placeholder="DT"
+                className="font-mono uppercase"
+                data-testid="input-location-code"
+              />
+              {form.formState.errors.code && (
+                <p className="text-sm text-destructive">{form.formState.errors.code.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="locationAddress">Address</Label>
+            <Textarea
+              id="locationAddress"
+              {...form.register("address")}
+              rows={2}
+              data-testid="input-location-address"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-location">
+              {saveMutation.isPending ? "Saving..." : location ? "Save Changes" : "Add Location"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
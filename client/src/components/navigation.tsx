@@ -1,12 +1,68 @@
-import { Package, ShoppingCart, TrendingUp, Ticket } from "lucide-react";
+import {
+  ClipboardCheck,
+  ClipboardList,
+  LogOut,
+  Package,
+  Receipt,
+  ScrollText,
+  ShoppingCart,
+  TrendingUp,
+  Ticket,
+  UserCog,
+  Users,
+  Warehouse,
+  type LucideIcon,
+} from "lucide-react";
 import { Link, useRoute } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import { isUserRole, userRoleLabels, type Permission } from "@shared/schema";
+
+interface Section {
+  href: string;
+  label: string;
+  icon: LucideIcon;
+  // What a role needs to see the section
+  permission: Permission;
+}
+
+export const sections: Section[] = [
+  { href: "/", label: "Inventory", icon: Package, permission: "products.view" },
+  { href: "/orders", label: "Orders", icon: ShoppingCart, permission: "orders.view" },
+  { href: "/customers", label: "Customers", icon: Users, permission: "customers.view" },
+  { href: "/locations", label: "Locations", icon: Warehouse, permission: "stock.adjust" },
+  { href: "/purchasing", label: "Purchasing", icon: ClipboardList, permission: "purchasing.view" },
+  { href: "/stocktakes", label: "Stocktakes", icon: ClipboardCheck, permission: "stocktakes.count" },
+  { href: "/stock-history", label: "Stock History", icon: TrendingUp, permission: "stock.adjust" },
+  { href: "/store-credits", label: "Store Credits", icon: Ticket, permission: "credits.view" },
+  { href: "/taxes", label: "Taxes", icon: Receipt, permission: "taxes.manage" },
+  { href: "/audit", label: "Audit Log", icon: ScrollText, permission: "audit.view" },
+  { href: "/users", label: "Users", icon: UserCog, permission: "users.manage" },
+];
+
+function NavLink({ href, label, icon: Icon }: Section) {
+  const [isActive] = useRoute(href);
+
+  return (
+    <Link href={href}>
+      <div
+        className={cn(
+          "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer",
+          isActive
+            ? "bg-primary text-primary-foreground"
+            : "text-muted-foreground hover:text-foreground hover:bg-muted"
+        )}
+      >
+        <Icon className="h-4 w-4" />
+        <span>{label}</span>
+      </div>
+    </Link>
+  );
+}
 
 export function Navigation() {
-  const [isInventory] = useRoute("/");
-  const [isOrders] = useRoute("/orders");
-  const [isStock] = useRoute("/stock-history");
-  const [isStoreCredits] = useRoute("/store-credits");
+  const { user, can, logout } = useAuth();
 
   return (
     <nav className="border-b bg-background">
@@ -18,62 +74,30 @@ export function Navigation() {
               <span className="text-xl font-bold">FABRIX</span>
             </div>
             <div className="flex gap-1">
-              <Link href="/">
-                <div
-                  className={cn(
-                    "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer",
-                    isInventory
-                      ? "bg-primary text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
-                  )}
-                >
-                  <Package className="h-4 w-4" />
-                  <span>Inventory</span>
-                </div>
-              </Link>
-              <Link href="/orders">
-                <div
-                  className={cn(
-                    "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer",
-                    isOrders
-                      ? "bg-primary text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
-                  )}
-                >
-                  <ShoppingCart className="h-4 w-4" />
-                  <span>Orders</span>
-                </div>
-              </Link>
-              <Link href="/stock-history">
-                <div
-                  className={cn(
-                    "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer",
-                    isStock
-                      ? "bg-primary text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
-                  )}
-                >
-                  <TrendingUp className="h-4 w-4" />
-                  <span>Stock History</span>
+              {sections
+                .filter((section) => can(section.permission))
+                .map((section) => (
+                  <NavLink key={section.href} {...section} />
+                ))}
+            </div>
+          </div>
+          {user && (
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <div className="text-sm font-medium" data-testid="text-current-user">
+                  {user.displayName}
                 </div>
-              </Link>
-              <Link href="/store-credits">
-                <div
-                  className={cn(
-                    "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer",
-                    isStoreCredits
-                      ? "bg-primary text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
-                  )}
-                >
-                  <Ticket className="h-4 w-4" />
-                  <span>Store Credits</span>
+                <div className="text-xs text-muted-foreground">
+                  {isUserRole(user.role) ? userRoleLabels[user.role] : user.role}
                 </div>
-              </Link>
+              </div>
+              <Button variant="ghost" size="icon" onClick={logout} title="Sign out" data-testid="button-logout">
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </nav>
   );
-}
\ No newline at end of file
+}
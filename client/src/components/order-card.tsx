@@ -1,13 +1,20 @@
 import { useState } from "react";
 import { format } from "date-fns";
-import { Calendar, Package, User, Mail, Phone, Download, RotateCcw, FileText } from "lucide-react";
+import { Calendar, Package, User, Mail, Phone, Download, RotateCcw, FileText, History, ArrowRightLeft, Check, X, CheckCheck, CreditCard, ScrollText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AuditHistory } from "./audit-history";
+import { OrderNumber } from "./order-number";
 import { CreateReturnDialog } from "./create-return-dialog";
-import { useQuery } from "@tanstack/react-query";
-import type { OrderWithItems, ReturnWithItems } from "@shared/schema";
+import { UpdateOrderStatusDialog } from "./update-order-status-dialog";
+import { RejectReturnDialog } from "./reject-return-dialog";
+import { ReturnPaymentDialog, paymentMethodLabels } from "./return-payment-dialog";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { orderStatusTransitions, type OrderStatus, type OrderStatusHistory, type OrderWithItems, type ReturnPaymentMethod, type ReturnWithItems } from "@shared/schema";
 
 interface OrderCardProps {
   order: OrderWithItems;
@@ -23,13 +30,58 @@ const statusVariants = {
 
 export function OrderCard({ order }: OrderCardProps) {
   const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [returnToReject, setReturnToReject] = useState<ReturnWithItems | null>(null);
+  const [returnToPay, setReturnToPay] = useState<ReturnWithItems | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
 
-  const { data: returns = [] } = useQuery<ReturnWithItems[]>({
-    queryKey: ["/api/returns"],
+  const { data: orderReturns = [] } = useQuery<ReturnWithItems[]>({
+    queryKey: ["/api/orders", order.id, "returns"],
   });
 
-  const orderReturns = returns.filter(ret => ret.orderId === order.id);
+  const { data: history = [], isLoading: isHistoryLoading } = useQuery<OrderStatusHistory[]>({
+    queryKey: ["/api/orders", order.id, "history"],
+    enabled: showTimeline,
+  });
+
+  const canChangeStatus = (orderStatusTransitions[order.status as OrderStatus] ?? []).length > 0;
+  const canReturn = order.status === "delivered";
+
+  const returnActionMutation = useMutation({
+    mutationFn: async ({ ret, action }: { ret: ReturnWithItems; action: "approve" | "complete" }) => {
+      return await apiRequest("POST", `/api/returns/${ret.id}/${action}`);
+    },
+    onSuccess: (_data, { ret, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", ret.orderId, "returns"] });
+      if (action === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/discount-codes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      }
+      const credit = ret.creditAmount ? parseFloat(ret.creditAmount) : 0;
+      toast({
+        title: action === "approve" ? "Return Approved" : "Return Completed",
+        description: action === "approve"
+          ? credit > 0 && ret.customerEmail
+            ? `Items restocked. A store credit discount code for $${credit.toFixed(2)} has been sent to the customer's email.`
+            : "Items have been restocked."
+          : `Return ${ret.returnNumber} has been completed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const downloadInvoice = async () => {
     try {
@@ -141,6 +193,24 @@ export function OrderCard({ order }: OrderCardProps) {
             <div>
               <p className="text-sm text-muted-foreground mb-1">Total Amount</p>
               <p className="text-2xl font-bold" data-testid={`text-total-${order.id}`}>${order.totalAmount}</p>
+              {parseFloat(order.discountAmount) > 0 && (
+                <p className="text-xs text-muted-foreground" data-testid={`text-discount-${order.id}`}>
+                  ${order.discountAmount} off · {order.discountReason}
+                  {order.discountApprovedBy && <> · approved by {order.discountApprovedBy}</>}
+                </p>
+              )}
+              {parseFloat(order.taxAmount) > 0 && (
+                <p className="text-xs text-muted-foreground" data-testid={`text-tax-${order.id}`}>
+                  ${order.taxAmount} tax {order.pricesIncludeTax ? "included" : "added"}
+                  {order.taxJurisdiction && <> · {order.taxJurisdiction}</>}
+                </p>
+              )}
+              {parseFloat(order.creditApplied) > 0 && (
+                <p className="text-xs text-blue-600" data-testid={`text-credit-applied-${order.id}`}>
+                  ${order.creditApplied} store credit
+                  {order.creditCodes && order.creditCodes.length > 0 && ` (${order.creditCodes.join(", ")})`}
+                </p>
+              )}
             </div>
             <div className="w-px h-12 bg-border hidden sm:block" />
             <div>
@@ -167,6 +237,16 @@ export function OrderCard({ order }: OrderCardProps) {
                     <span className="text-muted-foreground ml-2 font-mono text-xs">
                       ({item.sku})
                     </span>
+                    {parseFloat(item.discountAmount) > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Less ${item.discountAmount} · {item.discountReason}
+                      </p>
+                    )}
+                    {parseFloat(item.taxAmount) > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.taxName} {parseFloat(item.taxRate)}%: ${item.taxAmount}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center gap-4 flex-shrink-0">
                     <span className="text-muted-foreground">Qty: {item.quantity}</span>
@@ -185,6 +265,55 @@ export function OrderCard({ order }: OrderCardProps) {
           </div>
         )}
 
+        {showTimeline && (
+          <div className="mt-4 pt-4 border-t">
+            <p className="text-sm font-medium mb-3">Status Timeline:</p>
+            {isHistoryLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No status changes recorded</p>
+            ) : (
+              <ol className="relative border-l border-border ml-2 space-y-4" data-testid={`timeline-${order.id}`}>
+                {history.map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      {entry.fromStatus ? (
+                        <>
+                          <Badge variant="outline" className="text-xs">{entry.fromStatus}</Badge>
+                          <span className="text-muted-foreground">→</span>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Created as</span>
+                      )}
+                      <Badge variant="outline" className="text-xs">{entry.toStatus}</Badge>
+                      {entry.createdAt && (
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm")}
+                        </span>
+                      )}
+                    </div>
+                    {(entry.changedBy || entry.reason) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {entry.changedBy && <span>by {entry.changedBy}</span>}
+                        {entry.changedBy && entry.reason && <span> · </span>}
+                        {entry.reason}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {showAudit && (
+          <div className="mt-4 pt-4 border-t">
+            <p className="text-sm font-medium mb-3">Change History:</p>
+            <AuditHistory entityType="order" entityId={order.id} />
+          </div>
+        )}
+
         {orderReturns.length > 0 && (
           <div className="mt-4 pt-4 border-t">
             <p className="text-sm font-medium mb-3">Return/Exchange History:</p>
@@ -230,19 +359,95 @@ export function OrderCard({ order }: OrderCardProps) {
                         </div>
                       )}
                       {ret.additionalPayment && parseFloat(ret.additionalPayment) > 0 && (
-                        <div className="text-orange-600">
+                        <div className="text-orange-600" data-testid={`text-additional-payment-${ret.id}`}>
                           Additional Payment: <span className="font-semibold">${ret.additionalPayment}</span>
+                          {" "}
+                          {ret.paymentStatus === "paid" ? (
+                            <span className="text-green-600">
+                              (paid{ret.paymentMethod && ` by ${paymentMethodLabels[ret.paymentMethod as ReturnPaymentMethod]?.toLowerCase() ?? ret.paymentMethod}`})
+                            </span>
+                          ) : ret.paymentStatus === "pending" ? (
+                            <span>(unpaid)</span>
+                          ) : null}
                         </div>
                       )}
+                      {ret.replacementOrderId && (
+                        <div className="text-muted-foreground" data-testid={`text-replacement-order-${ret.id}`}>
+                          Replacement Order:{" "}
+                          <span className="font-mono font-medium">
+                            <OrderNumber orderId={ret.replacementOrderId} />
+                          </span>
+                        </div>
+                      )}
+                      {ret.creditCode && (
+                        <div className="text-blue-600">
+                          Store Credit: <span className="font-mono font-semibold">{ret.creditCode}</span>
+                        </div>
+                      )}
+                      {ret.rejectionReason && (
+                        <div className="text-destructive">
+                          Rejected: <span>{ret.rejectionReason}</span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {ret.status === "pending" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => returnActionMutation.mutate({ ret, action: "approve" })}
+                            disabled={returnActionMutation.isPending}
+                            data-testid={`button-approve-return-${ret.id}`}
+                          >
+                            <Check className="h-4 w-4 mr-2" />
+                            Approve
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setReturnToReject(ret)}
+                            disabled={returnActionMutation.isPending}
+                            data-testid={`button-reject-return-${ret.id}`}
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {ret.paymentStatus === "pending" && ret.status !== "rejected" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setReturnToPay(ret)}
+                          data-testid={`button-pay-return-${ret.id}`}
+                        >
+                          <CreditCard className="h-4 w-4 mr-2" />
+                          Mark Paid
+                        </Button>
+                      )}
+                      {ret.status === "approved" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => returnActionMutation.mutate({ ret, action: "complete" })}
+                          disabled={returnActionMutation.isPending || ret.paymentStatus === "pending"}
+                          title={ret.paymentStatus === "pending" ? "Mark the additional payment as paid first" : undefined}
+                          data-testid={`button-complete-return-${ret.id}`}
+                        >
+                          <CheckCheck className="h-4 w-4 mr-2" />
+                          Complete
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => downloadReturnInvoice(ret.id, ret.returnNumber)}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Invoice
+                      </Button>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => downloadReturnInvoice(ret.id, ret.returnNumber)}
-                    >
-                      <FileText className="h-4 w-4 mr-2" />
-                      Invoice
-                    </Button>
                   </div>
                 </div>
               ))}
@@ -261,11 +466,47 @@ export function OrderCard({ order }: OrderCardProps) {
           <Download className="h-4 w-4 mr-2" />
           Download Invoice
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowTimeline(!showTimeline)}
+          className="flex-1"
+          data-testid={`button-timeline-${order.id}`}
+        >
+          <History className="h-4 w-4 mr-2" />
+          {showTimeline ? "Hide Timeline" : "Timeline"}
+        </Button>
+        {can("audit.view") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAudit(!showAudit)}
+            className="flex-1"
+            data-testid={`button-audit-${order.id}`}
+          >
+            <ScrollText className="h-4 w-4 mr-2" />
+            {showAudit ? "Hide History" : "History"}
+          </Button>
+        )}
+        {canChangeStatus && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setStatusDialogOpen(true)}
+            className="flex-1"
+            data-testid={`button-update-status-${order.id}`}
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Update Status
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
           onClick={() => setReturnDialogOpen(true)}
           className="flex-1"
+          disabled={!canReturn}
+          title={canReturn ? undefined : "Returns are only available for delivered orders"}
         >
           <RotateCcw className="h-4 w-4 mr-2" />
           Create Return
@@ -278,6 +519,25 @@ export function OrderCard({ order }: OrderCardProps) {
       onOpenChange={setReturnDialogOpen}
       order={order}
     />
+    <UpdateOrderStatusDialog
+      open={statusDialogOpen}
+      onOpenChange={setStatusDialogOpen}
+      order={order}
+    />
+    {returnToReject && (
+      <RejectReturnDialog
+        open={!!returnToReject}
+        onOpenChange={(open) => !open && setReturnToReject(null)}
+        ret={returnToReject}
+      />
+    )}
+    {returnToPay && (
+      <ReturnPaymentDialog
+        open={!!returnToPay}
+        onOpenChange={(open) => !open && setReturnToPay(null)}
+        ret={returnToPay}
+      />
+    )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { OrderWithItems } from "@shared/schema";
+
+interface OrderNumberProps {
+  orderId: string;
+}
+
+// An order's number, looked up on its own; the id stands in until it loads
+// or when the order is gone
+export function OrderNumber({ orderId }: OrderNumberProps) {
+  const { data: order } = useQuery<OrderWithItems>({
+    queryKey: ["/api/orders", orderId],
+  });
+
+  return <>{order?.orderNumber ?? orderId}</>;
+}
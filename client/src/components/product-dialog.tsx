@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { X, Upload, Sparkles, Calendar as CalendarIcon } from "lucide-react";
 import { nanoid } from "nanoid";
 import {
@@ -27,11 +27,18 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertProductSchema, type Product, type InsertProduct } from "@shared/schema";
+import { insertProductSchema, type Product, type InsertProduct, type Supplier } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { AuditHistory } from "./audit-history";
 import { format } from "date-fns";
 
+// Blank number inputs clear the field rather than submitting NaN
+function optionalInteger(value: string | number | null): number | null {
+  return value === "" || value === null ? null : Number(value);
+}
+
 interface ProductDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -43,6 +50,12 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
   const [tagInput, setTagInput] = useState("");
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const showHistory = !!product && can("audit.view");
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
 
   const form = useForm<InsertProduct>({
     resolver: zodResolver(insertProductSchema),
@@ -61,6 +74,9 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
       costPrice: "",
       stockQuantity: 0,
       warehouse: "",
+      reorderPoint: null,
+      leadTimeDays: null,
+      supplierId: null,
       productImage: "",
       galleryImages: [],
       isFeatured: false,
@@ -76,6 +92,7 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
       toast({
         title: "Success",
         description: product ? "Product updated successfully" : "Product created successfully",
@@ -98,6 +115,7 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
       toast({
         title: "Success",
         description: "Product updated successfully",
@@ -152,11 +170,12 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
 
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Tabs value={currentTab} onValueChange={setCurrentTab}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className={cn("grid w-full", showHistory ? "grid-cols-5" : "grid-cols-4")}>
               <TabsTrigger value="basic" data-testid="tab-basic">Basic Info</TabsTrigger>
               <TabsTrigger value="variants" data-testid="tab-variants">Variants</TabsTrigger>
               <TabsTrigger value="pricing" data-testid="tab-pricing">Pricing & Stock</TabsTrigger>
               <TabsTrigger value="media" data-testid="tab-media">Media & More</TabsTrigger>
+              {showHistory && <TabsTrigger value="history" data-testid="tab-history">History</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="basic" className="space-y-6 pt-6">
@@ -423,6 +442,67 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                   />
                 </div>
               </div>
+
+              <div className="space-y-4 border-t pt-6">
+                <div>
+                  <h3 className="font-semibold">Replenishment</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Leave the reorder point blank to derive it from recent sales over the lead time.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="supplierId">Preferred Supplier</Label>
+                    <Select
+                      value={form.watch("supplierId") ?? "none"}
+                      onValueChange={(value) => form.setValue("supplierId", value === "none" ? null : value)}
+                    >
+                      <SelectTrigger id="supplierId" data-testid="select-preferred-supplier">
+                        <SelectValue placeholder="Select supplier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No preference</SelectItem>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="reorderPoint">Reorder Point</Label>
+                    <Input
+                      id="reorderPoint"
+                      {...form.register("reorderPoint", { setValueAs: optionalInteger })}
+                      type="number"
+                      min="0"
+                      placeholder="Automatic"
+                      data-testid="input-reorder-point"
+                    />
+                    {form.formState.errors.reorderPoint && (
+                      <p className="text-sm text-destructive">{form.formState.errors.reorderPoint.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="leadTimeDays">Lead Time (days)</Label>
+                    <Input
+                      id="leadTimeDays"
+                      {...form.register("leadTimeDays", { setValueAs: optionalInteger })}
+                      type="number"
+                      min="0"
+                      placeholder="Default"
+                      data-testid="input-lead-time"
+                    />
+                    {form.formState.errors.leadTimeDays && (
+                      <p className="text-sm text-destructive">{form.formState.errors.leadTimeDays.message}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
             </TabsContent>
 
             <TabsContent value="media" className="space-y-6 pt-6">
@@ -794,6 +874,12 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                 )}
               </div>
             </TabsContent>
+
+            {showHistory && (
+              <TabsContent value="history" className="pt-6">
+                <AuditHistory entityType="product" entityId={product.id} />
+              </TabsContent>
+            )}
           </Tabs>
 
           <div className="flex justify-end gap-3 pt-6 border-t">
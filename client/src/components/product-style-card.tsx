@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Edit, Trash2, Package, Grid3x3 } from "lucide-react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ProductStyleDialog } from "./product-style-dialog";
+import { VariantGridDialog } from "./variant-grid-dialog";
+import { DeleteProductStyleDialog } from "./delete-product-style-dialog";
+import { variantMatrix } from "@/lib/variant-matrix";
+import type { ProductStyleWithVariants } from "@shared/schema";
+
+interface ProductStyleCardProps {
+  style: ProductStyleWithVariants;
+  viewMode: "grid" | "list";
+}
+
+function priceRange(style: ProductStyleWithVariants) {
+  const prices = style.variants.map((variant) => parseFloat(variant.price));
+  if (prices.length === 0) return "-";
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  return min === max ? `$${min.toFixed(2)}` : `$${min.toFixed(2)} – $${max.toFixed(2)}`;
+}
+
+// Stock per color and size; a dash marks a combination the style doesn't have
+function AvailabilityMatrix({ style }: { style: ProductStyleWithVariants }) {
+  const layout = variantMatrix(style.variants);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs w-full" data-testid={`matrix-style-${style.id}`}>
+        <thead>
+          <tr>
+            <th />
+            {layout.sizes.map((size) => (
+              <th key={size} className="px-1 py-0.5 font-medium text-muted-foreground">
+                {size}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {layout.colors.map((color) => (
+            <tr key={color}>
+              <td className="pr-2 py-0.5 text-muted-foreground truncate max-w-24">{color}</td>
+              {layout.sizes.map((size) => {
+                const variant = layout.variantAt(color, size);
+                return (
+                  <td
+                    key={size}
+                    className={`px-1 py-0.5 text-center font-mono ${
+                      !variant
+                        ? "text-muted-foreground"
+                        : variant.stockQuantity === 0
+                          ? "text-destructive font-semibold"
+                          : variant.stockQuantity < 10
+                            ? "text-yellow-600 font-semibold"
+                            : ""
+                    }`}
+                    title={variant?.sku}
+                  >
+                    {variant ? variant.stockQuantity : "—"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function ProductStyleCard({ style, viewMode }: ProductStyleCardProps) {
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isGridDialogOpen, setIsGridDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const totalStock = style.variants.reduce((sum, variant) => sum + variant.stockQuantity, 0);
+
+  const actions = (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsGridDialogOpen(true)}
+        disabled={style.variants.length === 0}
+        title="Edit Variants"
+        data-testid={`button-variant-grid-${style.id}`}
+      >
+        <Grid3x3 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsEditDialogOpen(true)}
+        data-testid={`button-edit-style-${style.id}`}
+      >
+        <Edit className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsDeleteDialogOpen(true)}
+        data-testid={`button-delete-style-${style.id}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  const dialogs = (
+    <>
+      <ProductStyleDialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen} style={style} />
+      <VariantGridDialog open={isGridDialogOpen} onOpenChange={setIsGridDialogOpen} style={style} />
+      <DeleteProductStyleDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        style={style}
+      />
+    </>
+  );
+
+  const image = style.productImage ? (
+    <img src={style.productImage} alt={style.styleName} className="w-full h-full object-cover" />
+  ) : null;
+
+  if (viewMode === "list") {
+    return (
+      <>
+        <Card className="hover-elevate" data-testid={`card-style-${style.id}`}>
+          <CardContent className="p-6">
+            <div className="flex items-start gap-6">
+              <div className="w-20 h-20 rounded-md bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                {image ?? <Package className="h-8 w-8 text-muted-foreground" />}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-start gap-3">
+                  <h3 className="font-semibold text-lg truncate" data-testid={`text-style-name-${style.id}`}>
+                    {style.styleName}
+                  </h3>
+                  <Badge variant="outline" className="flex-shrink-0">
+                    {style.variants.length} variants
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                  <span className="font-mono">Style: {style.styleCode}</span>
+                  <span>•</span>
+                  <span>{style.brand}</span>
+                  <span>•</span>
+                  <span>{style.category}</span>
+                  <span>•</span>
+                  <span>{totalStock} in stock</span>
+                </div>
+                <AvailabilityMatrix style={style} />
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <div className="text-xl font-bold" data-testid={`text-style-price-${style.id}`}>
+                  {priceRange(style)}
+                </div>
+                <div className="flex gap-1">{actions}</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        {dialogs}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Card className="group overflow-hidden hover-elevate" data-testid={`card-style-${style.id}`}>
+        <div className="aspect-video bg-muted relative overflow-hidden">
+          {image ?? (
+            <div className="w-full h-full flex items-center justify-center">
+              <Package className="h-16 w-16 text-muted-foreground" />
+            </div>
+          )}
+          <Badge
+            variant={totalStock === 0 ? "destructive" : "default"}
+            className="absolute top-3 right-3"
+            data-testid={`badge-style-stock-${style.id}`}
+          >
+            {totalStock === 0 ? "Out" : totalStock}
+          </Badge>
+        </div>
+        <CardContent className="p-6 space-y-3">
+          <div>
+            <h3 className="font-semibold text-lg line-clamp-2" data-testid={`text-style-name-${style.id}`}>
+              {style.styleName}
+            </h3>
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <p className="font-mono">Style: {style.styleCode}</p>
+              <p>{style.brand} • {style.category}</p>
+            </div>
+          </div>
+          <AvailabilityMatrix style={style} />
+          <div className="text-2xl font-bold" data-testid={`text-style-price-${style.id}`}>
+            {priceRange(style)}
+          </div>
+        </CardContent>
+        <CardFooter className="p-6 pt-0 flex gap-2 justify-end">{actions}</CardFooter>
+      </Card>
+      {dialogs}
+    </>
+  );
+}
@@ -0,0 +1,355 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { parseList, variantMatrix } from "@/lib/variant-matrix";
+import {
+  insertProductStyleSchema,
+  variantSku,
+  type InsertProductStyle,
+  type ProductStyleWithVariants,
+  type VariantMatrix,
+} from "@shared/schema";
+
+interface ProductStyleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  style?: ProductStyleWithVariants;
+}
+
+function formValues(style?: ProductStyleWithVariants): InsertProductStyle {
+  return {
+    styleName: style?.styleName ?? "",
+    styleCode: style?.styleCode ?? "",
+    category: style?.category ?? "",
+    brand: style?.brand ?? "",
+    description: style?.description ?? "",
+    gender: style?.gender ?? "",
+    fabric: style?.fabric ?? "",
+    pattern: style?.pattern ?? "",
+    productImage: style?.productImage ?? "",
+  };
+}
+
+export function ProductStyleDialog({ open, onOpenChange, style }: ProductStyleDialogProps) {
+  const [colors, setColors] = useState("");
+  const [sizes, setSizes] = useState("");
+  const [price, setPrice] = useState("0");
+  const [costPrice, setCostPrice] = useState("");
+  const [stockQuantity, setStockQuantity] = useState(0);
+  const { toast } = useToast();
+
+  const form = useForm<InsertProductStyle>({
+    resolver: zodResolver(insertProductStyleSchema),
+    defaultValues: formValues(style),
+  });
+
+  // Editing starts from the style's current colors and sizes, so adding one
+  // only generates the combinations that are missing
+  useEffect(() => {
+    if (!open) return;
+    const layout = variantMatrix(style?.variants ?? []);
+    form.reset(formValues(style));
+    setColors(layout.colors.join(", "));
+    setSizes(layout.sizes.join(", "));
+    setPrice(style?.variants[0]?.price ?? "0");
+    setCostPrice(style?.variants[0]?.costPrice ?? "");
+    setStockQuantity(0);
+  }, [open, style]);
+
+  const styleCode = form.watch("styleCode");
+  const existingSkus = new Set(style?.variants.map((variant) => variant.sku) ?? []);
+  const newSkus = parseList(colors).flatMap((color) =>
+    parseList(sizes).map((size) => variantSku(styleCode || "STYLE", color, size))
+  ).filter((sku, index, skus) => !existingSkus.has(sku) && skus.indexOf(sku) === index);
+
+  const matrix = (): VariantMatrix => ({
+    colors: parseList(colors),
+    sizes: parseList(sizes),
+    price,
+    costPrice: costPrice || undefined,
+    stockQuantity,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertProductStyle) => {
+      if (!style) {
+        return await apiRequest("POST", "/api/product-styles", { style: data, matrix: matrix() });
+      }
+      await apiRequest("PATCH", `/api/product-styles/${style.id}`, data);
+      if (newSkus.length > 0) {
+        await apiRequest("POST", `/api/product-styles/${style.id}/variants`, matrix());
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/product-styles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Success",
+        description: style
+          ? "Style updated successfully"
+          : `Style created with ${newSkus.length} variants`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save style. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-product-style">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{style ? "Edit Style" : "Create Style"}</DialogTitle>
+          <DialogDescription>
+            Shared details apply to every variant; one variant is generated for each color and size.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="styleName">Style Name *</Label>
+              <Input
+                id="styleName"
+                {...form.register("styleName")}
+                placeholder="e.g., Men's Cotton T-Shirt"
+                data-testid="input-style-name"
+              />
+              {form.formState.errors.styleName && (
+                <p className="text-sm text-destructive">{form.formState.errors.styleName.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleCode">Style Code *</Label>
+              <Input
+                id="styleCode"
+                {...form.register("styleCode")}
+                placeholder="e.g., TEE"
+                className="font-mono uppercase"
+                readOnly={!!style}
+                data-testid="input-style-code"
+              />
+              {form.formState.errors.styleCode && (
+                <p className="text-sm text-destructive">{form.formState.errors.styleCode.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleCategory">Category *</Label>
+              <Select
+                value={form.watch("category")}
+                onValueChange={(value) => form.setValue("category", value)}
+              >
+                <SelectTrigger id="styleCategory" data-testid="select-style-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="T-Shirt">T-Shirt</SelectItem>
+                  <SelectItem value="Jeans">Jeans</SelectItem>
+                  <SelectItem value="Dress">Dress</SelectItem>
+                  <SelectItem value="Jacket">Jacket</SelectItem>
+                  <SelectItem value="Shirt">Shirt</SelectItem>
+                  <SelectItem value="Pants">Pants</SelectItem>
+                  <SelectItem value="Skirt">Skirt</SelectItem>
+                  <SelectItem value="Sweater">Sweater</SelectItem>
+                </SelectContent>
+              </Select>
+              {form.formState.errors.category && (
+                <p className="text-sm text-destructive">{form.formState.errors.category.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleBrand">Brand *</Label>
+              <Input
+                id="styleBrand"
+                {...form.register("brand")}
+                placeholder="e.g., Nike, Adidas"
+                data-testid="input-style-brand"
+              />
+              {form.formState.errors.brand && (
+                <p className="text-sm text-destructive">{form.formState.errors.brand.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleGender">Gender *</Label>
+              <Select
+                value={form.watch("gender")}
+                onValueChange={(value) => form.setValue("gender", value)}
+              >
+                <SelectTrigger id="styleGender" data-testid="select-style-gender">
+                  <SelectValue placeholder="Select gender" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Men">Men</SelectItem>
+                  <SelectItem value="Women">Women</SelectItem>
+                  <SelectItem value="Unisex">Unisex</SelectItem>
+                  <SelectItem value="Kids">Kids</SelectItem>
+                </SelectContent>
+              </Select>
+              {form.formState.errors.gender && (
+                <p className="text-sm text-destructive">{form.formState.errors.gender.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleImage">Image URL</Label>
+              <Input
+                id="styleImage"
+                {...form.register("productImage")}
+                placeholder="https://..."
+                data-testid="input-style-image"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="styleFabric">Fabric</Label>
+              <Input id="styleFabric" {...form.register("fabric")} placeholder="e.g., Cotton" />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="stylePattern">Pattern</Label>
+              <Input id="stylePattern" {...form.register("pattern")} placeholder="e.g., Solid" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="styleDescription">Description</Label>
+            <Textarea
+              id="styleDescription"
+              {...form.register("description")}
+              placeholder="Describe the style..."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="font-semibold text-lg">Variant Matrix</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="styleColors">Colors *</Label>
+                <Input
+                  id="styleColors"
+                  value={colors}
+                  onChange={(e) => setColors(e.target.value)}
+                  placeholder="Red, Navy Blue, Black"
+                  data-testid="input-style-colors"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="styleSizes">Sizes *</Label>
+                <Input
+                  id="styleSizes"
+                  value={sizes}
+                  onChange={(e) => setSizes(e.target.value)}
+                  placeholder="S, M, L, XL"
+                  data-testid="input-style-sizes"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stylePrice">Price for new variants *</Label>
+                <Input
+                  id="stylePrice"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  data-testid="input-style-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="styleCostPrice">Cost price</Label>
+                <Input
+                  id="styleCostPrice"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={costPrice}
+                  onChange={(e) => setCostPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="styleStock">Starting stock per variant</Label>
+                <Input
+                  id="styleStock"
+                  type="number"
+                  min="0"
+                  value={stockQuantity}
+                  onChange={(e) => setStockQuantity(parseInt(e.target.value) || 0)}
+                  data-testid="input-style-stock"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {newSkus.length === 0
+                  ? style
+                    ? "No new variants"
+                    : "Enter at least one color and one size"
+                  : `${newSkus.length} new ${newSkus.length === 1 ? "variant" : "variants"}`}
+              </p>
+              <div className="flex flex-wrap gap-2" data-testid="list-new-skus">
+                {newSkus.map((sku) => (
+                  <Badge key={sku} variant="outline" className="font-mono">
+                    {sku}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 border-t pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending || (!style && newSkus.length === 0)}
+              data-testid="button-save-style"
+            >
+              {saveMutation.isPending ? "Saving..." : style ? "Save Changes" : "Create Style"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
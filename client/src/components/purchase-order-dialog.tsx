@@ -0,0 +1,338 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { X, Plus, Package } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type {
+  CreatePurchaseOrder,
+  LocationWithStock,
+  Product,
+  PurchaseOrderWithItems,
+  Supplier,
+} from "@shared/schema";
+
+interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitCost: string;
+}
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrder?: PurchaseOrderWithItems;
+}
+
+function orderLines(purchaseOrder?: PurchaseOrderWithItems): PurchaseOrderLine[] {
+  return (purchaseOrder?.items ?? []).map((item) => ({
+    productId: item.productId,
+    productName: item.productName,
+    sku: item.sku,
+    quantity: item.quantityOrdered,
+    unitCost: item.unitCost,
+  }));
+}
+
+export function PurchaseOrderDialog({ open, onOpenChange, purchaseOrder }: PurchaseOrderDialogProps) {
+  const [supplierId, setSupplierId] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId(purchaseOrder?.supplierId ?? "");
+      setLocationId(purchaseOrder?.locationId ?? locations[0]?.id ?? "");
+      setNotes(purchaseOrder?.notes ?? "");
+      setLines(orderLines(purchaseOrder));
+    }
+  }, [open, purchaseOrder]);
+
+  // Lines start at the product's cost price, which can be overridden per order
+  const addProduct = (product: Product) => {
+    if (!lines.some((line) => line.productId === product.id)) {
+      setLines([
+        ...lines,
+        {
+          productId: product.id,
+          productName: product.productName,
+          sku: product.sku,
+          quantity: 1,
+          unitCost: product.costPrice ?? "",
+        },
+      ]);
+    }
+    setSearchOpen(false);
+  };
+
+  const updateLine = (productId: string, changes: Partial<PurchaseOrderLine>) => {
+    setLines(lines.map((line) => (line.productId === productId ? { ...line, ...changes } : line)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CreatePurchaseOrder) => {
+      return purchaseOrder
+        ? await apiRequest("PATCH", `/api/purchase-orders/${purchaseOrder.id}`, data)
+        : await apiRequest("POST", "/api/purchase-orders", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+      toast({
+        title: "Success",
+        description: purchaseOrder ? "Purchase order updated" : "Purchase order saved as a draft",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save purchase order. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    saveMutation.mutate({
+      supplierId,
+      locationId: locationId || undefined,
+      notes: notes || undefined,
+      items: lines.map((line) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitCost: line.unitCost || undefined,
+      })),
+    });
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * (parseFloat(line.unitCost) || 0), 0);
+  const hasInvalidLine = lines.some((line) => line.quantity < 1 || !line.unitCost);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-purchase-order">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">
+            {purchaseOrder ? `Edit ${purchaseOrder.poNumber}` : "New Purchase Order"}
+          </DialogTitle>
+          <DialogDescription>
+            Purchase orders stay editable as drafts until they are sent to the supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="poSupplier">Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger id="poSupplier" data-testid="select-po-supplier">
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="poLocation">Receive At</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="poLocation" data-testid="select-po-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Products</h3>
+              <Popover open={searchOpen} onOpenChange={setSearchOpen}>
+                <PopoverTrigger asChild>
+                  <Button type="button" variant="outline" size="sm" data-testid="button-add-po-product">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Product
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[400px] p-0" align="end">
+                  <Command>
+                    <CommandInput placeholder="Search products..." />
+                    <CommandList>
+                      <CommandEmpty>No products found.</CommandEmpty>
+                      <CommandGroup>
+                        {products.map((product) => (
+                          <CommandItem
+                            key={product.id}
+                            value={`${product.productName} ${product.sku}`}
+                            onSelect={() => addProduct(product)}
+                            data-testid={`command-po-item-${product.id}`}
+                          >
+                            <div className="flex items-center justify-between w-full gap-3">
+                              <div className="min-w-0">
+                                <p className="font-medium truncate">{product.productName}</p>
+                                <p className="text-xs text-muted-foreground">{product.sku}</p>
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                {product.costPrice ? `$${product.costPrice}` : "No cost"}
+                              </p>
+                            </div>
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {lines.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-8">
+                  <Package className="h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">No products added yet</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-0 divide-y">
+                  {lines.map((line, index) => (
+                    <div key={line.productId} className="p-4 flex items-center gap-4" data-testid={`po-line-${index}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{line.productName}</p>
+                        <p className="text-sm text-muted-foreground font-mono">{line.sku}</p>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Qty</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.productId, { quantity: parseInt(e.target.value) || 0 })}
+                          className="w-20"
+                          data-testid={`input-po-qty-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Unit Cost</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(line.productId, { unitCost: e.target.value })}
+                          className="w-28"
+                          data-testid={`input-po-cost-${index}`}
+                        />
+                      </div>
+                      <p className="w-24 text-right font-semibold">
+                        ${(line.quantity * (parseFloat(line.unitCost) || 0)).toFixed(2)}
+                      </p>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setLines(lines.filter((other) => other.productId !== line.productId))}
+                        data-testid={`button-remove-po-line-${index}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="p-4 flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span data-testid="text-po-total">${total.toFixed(2)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="poNotes">Notes</Label>
+            <Textarea
+              id="poNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              data-testid="input-po-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 border-t pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saveMutation.isPending || !supplierId || lines.length === 0 || hasInvalidLine}
+              data-testid="button-save-purchase-order"
+            >
+              {saveMutation.isPending ? "Saving..." : purchaseOrder ? "Save Changes" : "Save Draft"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { QrCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QRScannerDialog } from "@/components/qr-scanner-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import type {
+  Product,
+  PurchaseOrderItem,
+  PurchaseOrderLineError,
+  PurchaseOrderWithItems,
+  ReceivePurchaseOrder,
+} from "@shared/schema";
+
+interface ReceivePurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrder: PurchaseOrderWithItems;
+}
+
+function outstanding(item: PurchaseOrderItem): number {
+  return item.quantityOrdered - item.quantityReceived;
+}
+
+export function ReceivePurchaseOrderDialog({ open, onOpenChange, purchaseOrder }: ReceivePurchaseOrderDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setQuantities({});
+      setLineErrors({});
+      setNotes("");
+    }
+  }, [open]);
+
+  const setQuantity = (item: PurchaseOrderItem, quantity: number) => {
+    setQuantities((current) => ({ ...current, [item.id]: Math.max(0, Math.min(quantity, outstanding(item))) }));
+  };
+
+  // Each scan counts one unit against the line for that SKU
+  const handleScan = (product: Product) => {
+    const item = purchaseOrder.items.find((candidate) => candidate.productId === product.id);
+    if (!item) {
+      toast({
+        title: "Not on this order",
+        description: `${product.sku} is not part of ${purchaseOrder.poNumber}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const current = quantities[item.id] ?? 0;
+    if (current >= outstanding(item)) {
+      toast({
+        title: "Already complete",
+        description: `All outstanding units of ${item.sku} are counted`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setQuantity(item, current + 1);
+    toast({
+      title: "Scanned",
+      description: `${item.sku}: ${current + 1} of ${outstanding(item)}`,
+    });
+  };
+
+  const receiveMutation = useMutation({
+    mutationFn: async (data: ReceivePurchaseOrder) => {
+      return await apiRequest("POST", `/api/purchase-orders/${purchaseOrder.id}/receive`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Stock Received",
+        description: `${receivedUnits} ${receivedUnits === 1 ? "unit" : "units"} added to stock`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && Array.isArray(error.body?.details)) {
+        const details = error.body.details as PurchaseOrderLineError[];
+        setLineErrors(Object.fromEntries(details.map((detail) => [detail.itemId, detail.message])));
+        queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to receive stock. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receivedUnits = Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0);
+
+  const handleSubmit = () => {
+    receiveMutation.mutate({
+      notes: notes || undefined,
+      items: Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([itemId, quantity]) => ({ itemId, quantity })),
+    });
+  };
+
+  const receiveAll = () => {
+    setQuantities(Object.fromEntries(purchaseOrder.items.map((item) => [item.id, outstanding(item)])));
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-receive-purchase-order">
+          <DialogHeader>
+            <DialogTitle>Receive {purchaseOrder.poNumber}</DialogTitle>
+            <DialogDescription>
+              Enter or scan what arrived. Lines can be received over several deliveries.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={receiveAll} data-testid="button-receive-all">
+              Receive All Outstanding
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsScannerOpen(true)} data-testid="button-scan-receive">
+              <QrCode className="h-4 w-4 mr-2" />
+              Scan SKU
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Receiving Now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrder.items.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-receive-${item.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-sm text-muted-foreground font-mono">{item.sku}</div>
+                      {lineErrors[item.id] && (
+                        <p className="text-sm text-destructive">{lineErrors[item.id]}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantityOrdered}</TableCell>
+                    <TableCell className="text-right">{item.quantityReceived}</TableCell>
+                    <TableCell className="text-right">
+                      {outstanding(item) > 0 ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding(item)}
+                          value={quantities[item.id] ?? 0}
+                          onChange={(e) => setQuantity(item, parseInt(e.target.value) || 0)}
+                          className="w-24 ml-auto"
+                          data-testid={`input-receive-qty-${item.id}`}
+                        />
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Complete</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receiveNotes">Notes</Label>
+            <Textarea
+              id="receiveNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Delivery note number, damaged items..."
+              rows={2}
+              data-testid="input-receive-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 border-t pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={receiveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={receiveMutation.isPending || receivedUnits === 0}
+              data-testid="button-confirm-receive"
+            >
+              {receiveMutation.isPending ? "Receiving..." : `Receive ${receivedUnits} ${receivedUnits === 1 ? "Unit" : "Units"}`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <QRScannerDialog open={isScannerOpen} onOpenChange={setIsScannerOpen} onProductScanned={handleScan} />
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { XCircle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Return } from "@shared/schema";
+
+interface RejectReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ret: Return;
+}
+
+export function RejectReturnDialog({ open, onOpenChange, ret }: RejectReturnDialogProps) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/returns/${ret.id}/reject`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", ret.orderId, "returns"] });
+      // Rejected quantities become returnable again
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", ret.orderId, "returnable"] });
+      if (ret.replacementOrderId) {
+        // Cancelling the replacement order puts the exchange products back
+        queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      }
+      toast({
+        title: "Return Rejected",
+        description: `Return ${ret.returnNumber} has been rejected`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reject return. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="dialog-reject-return">
+        <AlertDialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="rounded-full bg-destructive/10 p-3">
+              <XCircle className="h-6 w-6 text-destructive" />
+            </div>
+            <AlertDialogTitle>Reject Return</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription className="pt-3">
+            Reject return <span className="font-semibold text-foreground font-mono">{ret.returnNumber}</span>?
+            No stock or store credit has been issued for it yet.
+            {ret.replacementOrderId && " Its replacement order will be cancelled."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="rejectionReason">Reason</Label>
+          <Textarea
+            id="rejectionReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Explain why the return was rejected..."
+            rows={3}
+            data-testid="input-rejection-reason"
+          />
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={rejectMutation.isPending}
+            data-testid="button-cancel-reject"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => rejectMutation.mutate()}
+            disabled={rejectMutation.isPending}
+            data-testid="button-confirm-reject"
+          >
+            {rejectMutation.isPending ? "Rejecting..." : "Reject"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
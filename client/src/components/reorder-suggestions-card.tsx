@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ShoppingCart, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type {
+  PurchaseOrderWithItems,
+  ReorderPurchaseOrders,
+  ReorderSuggestion,
+  Supplier,
+} from "@shared/schema";
+
+const velocityWindows = [14, 30, 60, 90];
+
+interface ReorderSuggestionsCardProps {
+  suppliers: Supplier[];
+}
+
+// Products at or below their reorder point, with the quantity and supplier
+// for each line editable before the drafts are created
+export function ReorderSuggestionsCard({ suppliers }: ReorderSuggestionsCardProps) {
+  const [windowDays, setWindowDays] = useState(30);
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [supplierChoices, setSupplierChoices] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const { data: suggestions = [], isLoading } = useQuery<ReorderSuggestion[]>({
+    queryKey: ["/api/reorder-suggestions", windowDays],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/reorder-suggestions?days=${windowDays}`);
+      return await res.json();
+    },
+  });
+
+  const quantityOf = (suggestion: ReorderSuggestion) => quantities[suggestion.productId] ?? suggestion.suggestedQuantity;
+  const supplierOf = (suggestion: ReorderSuggestion) =>
+    supplierChoices[suggestion.productId] ?? suggestion.supplierId ?? "";
+
+  const selected = suggestions.filter((suggestion) => !excluded[suggestion.productId] && quantityOf(suggestion) > 0);
+  const missingSupplier = selected.some((suggestion) => !supplierOf(suggestion));
+  const draftCount = new Set(selected.map(supplierOf)).size;
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ReorderPurchaseOrders) => {
+      const res = await apiRequest("POST", "/api/reorder-suggestions/purchase-orders", data);
+      return (await res.json()) as PurchaseOrderWithItems[];
+    },
+    onSuccess: (purchaseOrders) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+      setExcluded({});
+      setQuantities({});
+      setSupplierChoices({});
+      toast({
+        title: "Draft Purchase Orders Created",
+        description: purchaseOrders.map((purchaseOrder) => purchaseOrder.poNumber).join(", "),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create purchase orders. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      items: selected.map((suggestion) => ({
+        productId: suggestion.productId,
+        supplierId: supplierOf(suggestion),
+        quantity: quantityOf(suggestion),
+        unitCost: suggestion.unitCost ?? undefined,
+      })),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Suggested Reorders</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Velocity is net sales per day over the selected window
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(parseInt(value))}>
+            <SelectTrigger className="w-[140px]" data-testid="select-velocity-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {velocityWindows.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Last {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleCreate}
+            disabled={createMutation.isPending || selected.length === 0 || missingSupplier}
+            title={missingSupplier ? "Choose a supplier for every selected product" : undefined}
+            data-testid="button-create-reorder-purchase-orders"
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            {createMutation.isPending
+              ? "Creating..."
+              : `Create ${draftCount} Draft ${draftCount === 1 ? "PO" : "POs"}`}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground p-6">Loading...</p>
+        ) : suggestions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <TrendingDown className="h-10 w-10 text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground" data-testid="text-no-reorder-suggestions">
+              Nothing needs reordering right now
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Sold</TableHead>
+                <TableHead className="text-right">Per Day</TableHead>
+                <TableHead className="text-right">Days of Cover</TableHead>
+                <TableHead className="text-right">Reorder Point</TableHead>
+                <TableHead className="text-right">Order Qty</TableHead>
+                <TableHead>Supplier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((suggestion) => (
+                <TableRow key={suggestion.productId} data-testid={`row-reorder-${suggestion.productId}`}>
+                  <TableCell>
+                    <Checkbox
+                      checked={!excluded[suggestion.productId]}
+                      onCheckedChange={(checked) =>
+                        setExcluded((current) => ({ ...current, [suggestion.productId]: !checked }))
+                      }
+                      data-testid={`checkbox-reorder-${suggestion.productId}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{suggestion.productName}</div>
+                    <div className="text-sm text-muted-foreground font-mono">{suggestion.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{suggestion.onHand}</TableCell>
+                  <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                  <TableCell className="text-right">{suggestion.unitsSold}</TableCell>
+                  <TableCell className="text-right">{suggestion.dailyVelocity.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{suggestion.daysOfCover ?? "-"}</TableCell>
+                  <TableCell className="text-right" title={`Lead time ${suggestion.leadTimeDays} days`}>
+                    {suggestion.reorderPoint}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={quantityOf(suggestion)}
+                      onChange={(e) =>
+                        setQuantities((current) => ({
+                          ...current,
+                          [suggestion.productId]: Math.max(0, parseInt(e.target.value) || 0),
+                        }))
+                      }
+                      className="w-20 ml-auto"
+                      data-testid={`input-reorder-qty-${suggestion.productId}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={supplierOf(suggestion)}
+                      onValueChange={(value) =>
+                        setSupplierChoices((current) => ({ ...current, [suggestion.productId]: value }))
+                      }
+                    >
+                      <SelectTrigger className="w-[160px]" data-testid={`select-reorder-supplier-${suggestion.productId}`}>
+                        <SelectValue placeholder="Select supplier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CreditCard } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { returnPaymentMethods, type Return, type ReturnPaymentMethod } from "@shared/schema";
+
+export const paymentMethodLabels: Record<ReturnPaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  bank_transfer: "Bank Transfer",
+  other: "Other",
+};
+
+interface ReturnPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ret: Return;
+}
+
+export function ReturnPaymentDialog({ open, onOpenChange, ret }: ReturnPaymentDialogProps) {
+  const [paymentMethod, setPaymentMethod] = useState<ReturnPaymentMethod>("card");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setPaymentMethod((ret.paymentMethod as ReturnPaymentMethod | null) ?? "card");
+  }, [open]);
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/returns/${ret.id}/payment`, { paymentMethod });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", ret.orderId, "returns"] });
+      toast({
+        title: "Payment Recorded",
+        description: `Balance of $${ret.additionalPayment} for return ${ret.returnNumber} marked paid`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="dialog-return-payment">
+        <AlertDialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="rounded-full bg-primary/10 p-3">
+              <CreditCard className="h-6 w-6 text-primary" />
+            </div>
+            <AlertDialogTitle>Record Additional Payment</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription className="pt-3">
+            Mark the balance of <span className="font-semibold text-foreground">${ret.additionalPayment}</span> for
+            return <span className="font-semibold text-foreground font-mono">{ret.returnNumber}</span> as paid.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="returnPaymentMethod">Payment Method</Label>
+          <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as ReturnPaymentMethod)}>
+            <SelectTrigger id="returnPaymentMethod" data-testid="select-return-payment-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {returnPaymentMethods.map((method) => (
+                <SelectItem key={method} value={method}>
+                  {paymentMethodLabels[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={paymentMutation.isPending}
+            data-testid="button-cancel-payment"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => paymentMutation.mutate()}
+            disabled={paymentMutation.isPending}
+            data-testid="button-confirm-payment"
+          >
+            {paymentMutation.isPending ? "Saving..." : "Mark Paid"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -15,6 +15,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -24,7 +25,17 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertStockMovementSchema, type Product, type InsertStockMovement } from "@shared/schema";
+import {
+  insertStockMovementSchema,
+  movementReasons,
+  reasonAppliesTo,
+  type MovementReasonCode,
+  type StockMovementType,
+  type Product,
+  type InsertStockMovement,
+  type LocationWithStock,
+  type StockBalance,
+} from "@shared/schema";
 import { z } from "zod";
 
 interface StockMovementDialogProps {
@@ -37,6 +48,16 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
   const [selectedProductId, setSelectedProductId] = useState<string>("");
   const { toast } = useToast();
 
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+    enabled: open,
+  });
+
+  const { data: balances = [] } = useQuery<StockBalance[]>({
+    queryKey: ["/api/products", product?.id, "stock-levels"],
+    enabled: open && !!product,
+  });
+
   // Auto-select scanned product
   useEffect(() => {
     if (product && open) {
@@ -53,11 +74,19 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
       sku: product?.sku || "",
       type: "in",
       quantity: 1,
-      reason: "",
+      reason: undefined,
       notes: "",
+      locationId: "",
     },
   });
 
+  // Movements default to the default location, listed first
+  useEffect(() => {
+    if (open && locations.length > 0 && !form.getValues("locationId")) {
+      form.setValue("locationId", locations[0].id);
+    }
+  }, [open, locations]);
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertStockMovement) => {
       return await apiRequest("POST", "/api/stock-movements", data);
@@ -65,6 +94,7 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
       toast({
         title: "Success",
         description: "Stock movement recorded successfully",
@@ -72,20 +102,30 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
       onOpenChange(false);
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to record stock movement. Please try again.",
+        description: error.message || "Failed to record stock movement. Please try again.",
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: InsertStockMovement) => {
-    createMutation.mutate(data);
+    createMutation.mutate({ ...data, allowBackorder: data.type === "out" && !!data.allowBackorder });
   };
 
   const movementType = form.watch("type");
+  const reason = form.watch("reason");
+  const manualReasons = Object.values(movementReasons).filter(
+    (candidate) => candidate.manual && reasonAppliesTo(candidate.code, movementType)
+  );
+  const locationId = form.watch("locationId");
+  const location = locations.find((candidate) => candidate.id === locationId);
+  const stockAtLocation =
+    balances.find((balance) => balance.locationId === locationId)?.quantity ?? product?.stockQuantity ?? 0;
+  const change = form.watch("quantity") || 0;
+  const newStock = movementType === "out" ? stockAtLocation - change : stockAtLocation + change;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -119,6 +159,9 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
                   <p className="text-sm text-muted-foreground font-mono">SKU: {product.sku}</p>
                   <p className="text-sm text-muted-foreground">
                     Current Stock: <span className="font-semibold">{product.stockQuantity}</span> units
+                    {location && locations.length > 1 && (
+                      <> ({stockAtLocation} at {location.name})</>
+                    )}
                   </p>
                 </div>
               </div>
@@ -129,7 +172,12 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
             <Label htmlFor="type">Movement Type *</Label>
             <Select
               value={form.watch("type")}
-              onValueChange={(value) => form.setValue("type", value as any)}
+              onValueChange={(value) => {
+                form.setValue("type", value as StockMovementType);
+                if (reason && !reasonAppliesTo(reason, value as StockMovementType)) {
+                  form.resetField("reason");
+                }
+              }}
             >
               <SelectTrigger id="type" data-testid="select-type">
                 <SelectValue />
@@ -150,7 +198,7 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
                 <SelectItem value="adjustment">
                   <div className="flex items-center gap-2">
                     <RefreshCw className="h-4 w-4 text-blue-600" />
-                    <span>Adjustment (Set to)</span>
+                    <span>Adjustment (+/-)</span>
                   </div>
                 </SelectItem>
               </SelectContent>
@@ -160,66 +208,90 @@ export function StockMovementDialog({ open, onOpenChange, product }: StockMoveme
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="locationId">Location *</Label>
+            <Select
+              value={locationId ?? ""}
+              onValueChange={(value) => form.setValue("locationId", value)}
+            >
+              <SelectTrigger id="locationId" data-testid="select-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              To move stock between locations, create a transfer from the Locations page
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="quantity">
-              {movementType === "adjustment" ? "New Quantity *" : "Quantity *"}
+              {movementType === "adjustment" ? "Change *" : "Quantity *"}
             </Label>
             <Input
               id="quantity"
               {...form.register("quantity", { valueAsNumber: true })}
               type="number"
-              min="1"
-              placeholder="0"
+              min={movementType === "adjustment" ? undefined : "1"}
+              placeholder={movementType === "adjustment" ? "e.g. -3 or 5" : "0"}
               data-testid="input-quantity"
             />
             {form.formState.errors.quantity && (
               <p className="text-sm text-destructive">{form.formState.errors.quantity.message}</p>
             )}
-            {product && movementType !== "adjustment" && (
-              <p className="text-sm text-muted-foreground">
-                {movementType === "in" && `New stock will be: ${product.stockQuantity + (form.watch("quantity") || 0)} units`}
-                {movementType === "out" && `New stock will be: ${Math.max(0, product.stockQuantity - (form.watch("quantity") || 0))} units`}
+            {product && (
+              <p className={newStock < 0 ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+                New stock will be: {newStock} units
               </p>
             )}
           </div>
 
+          {movementType === "out" && (
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="allowBackorder"
+                checked={!!form.watch("allowBackorder")}
+                onCheckedChange={(checked) => form.setValue("allowBackorder", !!checked)}
+                data-testid="checkbox-allow-backorder"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="allowBackorder">Allow backorder</Label>
+                <p className="text-xs text-muted-foreground">
+                  Let stock at this location go below zero instead of rejecting the movement
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="reason">Reason *</Label>
             <Select
-              value={form.watch("reason")}
-              onValueChange={(value) => form.setValue("reason", value)}
+              value={reason ?? ""}
+              onValueChange={(value) => form.setValue("reason", value as MovementReasonCode)}
             >
               <SelectTrigger id="reason" data-testid="select-reason">
                 <SelectValue placeholder="Select reason" />
               </SelectTrigger>
               <SelectContent>
-                {movementType === "in" && (
-                  <>
-                    <SelectItem value="Purchase">New Purchase</SelectItem>
-                    <SelectItem value="Return">Customer Return</SelectItem>
-                    <SelectItem value="Transfer In">Transfer In</SelectItem>
-                  </>
-                )}
-                {movementType === "out" && (
-                  <>
-                    <SelectItem value="Sale">Sale</SelectItem>
-                    <SelectItem value="Damaged">Damaged/Defective</SelectItem>
-                    <SelectItem value="Transfer Out">Transfer Out</SelectItem>
-                    <SelectItem value="Lost">Lost/Stolen</SelectItem>
-                  </>
-                )}
-                {movementType === "adjustment" && (
-                  <>
-                    <SelectItem value="Physical Count">Physical Count</SelectItem>
-                    <SelectItem value="Correction">Correction</SelectItem>
-                    <SelectItem value="Initial Stock">Initial Stock</SelectItem>
-                  </>
-                )}
+                {manualReasons.map((candidate) => (
+                  <SelectItem key={candidate.code} value={candidate.code}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             {form.formState.errors.reason && (
               <p className="text-sm text-destructive">{form.formState.errors.reason.message}</p>
             )}
+            {reason && movementReasons[reason].affectsCogs && (
+              <p className="text-xs text-muted-foreground">Counts toward cost of goods sold</p>
+            )}
           </div>
 
           <div className="space-y-2">
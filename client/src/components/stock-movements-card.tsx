@@ -0,0 +1,185 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LoadMore } from "@/components/load-more";
+import { usePagedList } from "@/hooks/use-paged-list";
+import { cn } from "@/lib/utils";
+import {
+  isMovementReasonCode,
+  movementReasons,
+  type MovementSourceType,
+  type OrderWithItems,
+  type ReturnWithItems,
+  type StockMovement,
+} from "@shared/schema";
+
+const typeVariants: Record<string, "default" | "destructive" | "secondary"> = {
+  in: "default",
+  out: "destructive",
+  adjustment: "secondary",
+};
+
+// Pages that list each kind of source document, for the ones without a
+// page of their own to link to
+const sourcePages: Record<Exclude<MovementSourceType, "order" | "return" | "manual">, { href: string; label: string }> = {
+  purchase_order: { href: "/purchasing", label: "Purchase order" },
+  transfer: { href: "/locations", label: "Transfer" },
+  stocktake: { href: "/stocktakes", label: "Stocktake" },
+};
+
+interface StockMovementsCardProps {
+  locationId?: string;
+}
+
+// Orders and returns are looked up one at a time, as their movements show;
+// a movement whose document is gone keeps only its kind
+function OrderSource({ orderId }: { orderId: string }) {
+  const { data: order, isError } = useQuery<OrderWithItems>({
+    queryKey: ["/api/orders", orderId],
+  });
+
+  if (isError) return <span className="text-muted-foreground">Deleted order</span>;
+  if (!order) return <span className="text-muted-foreground">Order</span>;
+  return (
+    <Link href={`/orders?search=${encodeURIComponent(order.orderNumber)}`} className="text-primary hover:underline">
+      Order {order.orderNumber}
+    </Link>
+  );
+}
+
+function ReturnSource({ returnId }: { returnId: string }) {
+  const { data: ret, isError } = useQuery<ReturnWithItems>({
+    queryKey: ["/api/returns", returnId],
+  });
+
+  if (isError) return <span className="text-muted-foreground">Deleted return</span>;
+  if (!ret) return <span className="text-muted-foreground">Return</span>;
+  return (
+    <Link href={`/orders?search=${encodeURIComponent(ret.orderNumber)}`} className="text-primary hover:underline">
+      Return {ret.returnNumber}
+    </Link>
+  );
+}
+
+// Movements newest first, each linked to the document that recorded it;
+// older ones load as the list is scrolled
+export function StockMovementsCard({ locationId }: StockMovementsCardProps) {
+  const {
+    items: recent,
+    total,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePagedList<StockMovement>("/api/stock-movements", { locationId });
+
+  const sourceLink = (movement: StockMovement) => {
+    const sourceType = movement.sourceType as MovementSourceType;
+    if (sourceType === "order") {
+      if (!movement.sourceId) return <span className="text-muted-foreground">Deleted order</span>;
+      return <OrderSource orderId={movement.sourceId} />;
+    }
+    if (sourceType === "return") {
+      if (!movement.sourceId) return <span className="text-muted-foreground">Deleted return</span>;
+      return <ReturnSource returnId={movement.sourceId} />;
+    }
+    if (sourceType === "manual") return <span className="text-muted-foreground">Manual</span>;
+
+    const page = sourcePages[sourceType];
+    return (
+      <Link href={page.href} className="text-primary hover:underline">
+        {page.label}
+      </Link>
+    );
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Recent Stock Movements</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Showing {recent.length} of {total} movements
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Level</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {isLoading ? "Loading..." : "No stock movements yet"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                recent.map((movement) => {
+                  const change = movement.type === "out" ? -movement.quantity : movement.quantity;
+                  // Adjustments recorded before the ledger kept levels set an absolute quantity
+                  const legacyAdjustment = movement.type === "adjustment" && movement.quantityBefore === null;
+                  return (
+                    <TableRow key={movement.id} data-testid={`row-movement-${movement.id}`}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {movement.createdAt && format(new Date(movement.createdAt), "MMM dd, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{movement.productName}</div>
+                        <div className="text-sm text-muted-foreground font-mono">{movement.sku}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={typeVariants[movement.type] ?? "outline"}>{movement.type}</Badge>
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-semibold",
+                          !legacyAdjustment && (change > 0 ? "text-green-600" : "text-red-600")
+                        )}
+                      >
+                        {legacyAdjustment ? `= ${movement.quantity}` : change > 0 ? `+${change}` : change}
+                      </TableCell>
+                      <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                        {movement.quantityBefore === null ? "-" : `${movement.quantityBefore} → ${movement.quantityAfter}`}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {isMovementReasonCode(movement.reason) ? movementReasons[movement.reason].label : movement.reason}
+                        {movement.notes && <div className="text-xs text-muted-foreground">{movement.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm" data-testid={`link-movement-source-${movement.id}`}>
+                        {sourceLink(movement)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <LoadMore
+          hasNextPage={hasNextPage}
+          isFetchingNextPage={isFetchingNextPage}
+          fetchNextPage={fetchNextPage}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { X, Plus, Package } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CreateStockTransfer, LocationWithStock, Product, StockBalance } from "@shared/schema";
+
+interface TransferLine {
+  product: Product;
+  quantity: number;
+}
+
+interface StockTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StockTransferDialog({ open, onOpenChange }: StockTransferDialogProps) {
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: balances = [] } = useQuery<StockBalance[]>({
+    queryKey: ["/api/products", "stock-levels"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFromLocationId(locations[0]?.id ?? "");
+      setToLocationId("");
+      setNotes("");
+      setLines([]);
+    }
+  }, [open]);
+
+  // Only what the source location holds can leave it
+  const availableAt = (productId: string) =>
+    balances.find((balance) => balance.productId === productId && balance.locationId === fromLocationId)
+      ?.quantity ?? 0;
+  const stockedProducts = products.filter((product) => availableAt(product.id) > 0);
+
+  const addProduct = (product: Product) => {
+    if (!lines.some((line) => line.product.id === product.id)) {
+      setLines([...lines, { product, quantity: 1 }]);
+    }
+    setSearchOpen(false);
+  };
+
+  const updateQuantity = (productId: string, quantity: number) => {
+    setLines(lines.map((line) => (line.product.id === productId ? { ...line, quantity } : line)));
+  };
+
+  const changeSource = (locationId: string) => {
+    setFromLocationId(locationId);
+    setLines([]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateStockTransfer) => {
+      return await apiRequest("POST", "/api/stock-transfers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Transfer Created",
+        description: "Stock is in transit until the destination receives it",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create transfer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    createMutation.mutate({
+      fromLocationId,
+      toLocationId,
+      notes: notes || undefined,
+      items: lines.map((line) => ({ productId: line.product.id, quantity: line.quantity })),
+    });
+  };
+
+  const exceedsStock = lines.some((line) => line.quantity < 1 || line.quantity > availableAt(line.product.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-stock-transfer">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">New Transfer</DialogTitle>
+          <DialogDescription>
+            Stock leaves the source location now and arrives when the destination receives it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fromLocation">From *</Label>
+              <Select value={fromLocationId} onValueChange={changeSource}>
+                <SelectTrigger id="fromLocation" data-testid="select-transfer-from">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="toLocation">To *</Label>
+              <Select value={toLocationId} onValueChange={setToLocationId}>
+                <SelectTrigger id="toLocation" data-testid="select-transfer-to">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations
+                    .filter((location) => location.id !== fromLocationId)
+                    .map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Products</h3>
+              <Popover open={searchOpen} onOpenChange={setSearchOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!fromLocationId}
+                    data-testid="button-add-transfer-product"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Product
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[400px] p-0" align="end">
+                  <Command>
+                    <CommandInput placeholder="Search products..." />
+                    <CommandList>
+                      <CommandEmpty>No stock at this location.</CommandEmpty>
+                      <CommandGroup>
+                        {stockedProducts.map((product) => (
+                          <CommandItem
+                            key={product.id}
+                            value={`${product.productName} ${product.sku}`}
+                            onSelect={() => addProduct(product)}
+                            data-testid={`command-transfer-item-${product.id}`}
+                          >
+                            <div className="flex items-center justify-between w-full gap-3">
+                              <div className="min-w-0">
+                                <p className="font-medium truncate">{product.productName}</p>
+                                <p className="text-xs text-muted-foreground">{product.sku}</p>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{availableAt(product.id)} available</p>
+                            </div>
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {lines.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-8">
+                  <Package className="h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">No products added yet</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-0 divide-y">
+                  {lines.map((line, index) => (
+                    <div key={line.product.id} className="p-4 flex items-center gap-4" data-testid={`transfer-line-${index}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{line.product.productName}</p>
+                        <p className="text-sm text-muted-foreground font-mono">{line.product.sku}</p>
+                      </div>
+                      <p className="text-sm text-muted-foreground">of {availableAt(line.product.id)}</p>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={availableAt(line.product.id)}
+                        value={line.quantity}
+                        onChange={(e) => updateQuantity(line.product.id, parseInt(e.target.value) || 0)}
+                        className="w-24"
+                        data-testid={`input-transfer-qty-${index}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setLines(lines.filter((other) => other.product.id !== line.product.id))}
+                        data-testid={`button-remove-transfer-line-${index}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transferNotes">Notes</Label>
+            <Textarea
+              id="transferNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              data-testid="input-transfer-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 border-t pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={
+                createMutation.isPending || !fromLocationId || !toLocationId || lines.length === 0 || exceedsStock
+              }
+              data-testid="button-create-transfer"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Transfer"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { QrCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QRScannerDialog } from "@/components/qr-scanner-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type {
+  Product,
+  RecordStocktakeCounts,
+  StocktakeItem,
+  StocktakeLineError,
+  StocktakeWithItems,
+} from "@shared/schema";
+
+interface StocktakeCountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stocktakeId: string;
+}
+
+function varianceOf(item: StocktakeItem): number | null {
+  return item.countedQuantity === null ? null : item.countedQuantity - item.systemQuantity;
+}
+
+export function StocktakeCountDialog({ open, onOpenChange, stocktakeId }: StocktakeCountDialogProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: stocktake } = useQuery<StocktakeWithItems>({
+    queryKey: ["/api/stocktakes", stocktakeId],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setDrafts({});
+      setLineErrors({});
+    }
+  }, [open]);
+
+  const isOpen = stocktake?.status === "open";
+
+  const saveStocktake = (updated: StocktakeWithItems) => {
+    queryClient.setQueryData(["/api/stocktakes", stocktakeId], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"], exact: true });
+  };
+
+  const countMutation = useMutation({
+    mutationFn: async (data: RecordStocktakeCounts) => {
+      const res = await apiRequest("POST", `/api/stocktakes/${stocktakeId}/counts`, data);
+      return (await res.json()) as StocktakeWithItems;
+    },
+    onSuccess: (updated, data) => {
+      saveStocktake(updated);
+      const saved = new Set(data.items.map((item) => item.productId));
+      setDrafts((current) => Object.fromEntries(Object.entries(current).filter(([productId]) => !saved.has(productId))));
+      setLineErrors({});
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && Array.isArray(error.body?.details)) {
+        const details = error.body.details as StocktakeLineError[];
+        setLineErrors(Object.fromEntries(details.map((detail) => [detail.productId, detail.message])));
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record counts. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: "post" | "cancel") => {
+      const res = await apiRequest("POST", `/api/stocktakes/${stocktakeId}/${action}`);
+      return (await res.json()) as StocktakeWithItems;
+    },
+    onSuccess: (updated, action) => {
+      saveStocktake(updated);
+      if (action === "post") {
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      }
+      toast({
+        title: action === "post" ? "Stocktake Posted" : "Stocktake Cancelled",
+        description:
+          action === "post"
+            ? `${approvedVariances.length} ${approvedVariances.length === 1 ? "correction" : "corrections"} applied to stock`
+            : "No stock was changed",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update stocktake. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitDraft = (item: StocktakeItem) => {
+    const draft = drafts[item.productId];
+    if (draft === undefined) return;
+    const countedQuantity = draft === "" ? null : Math.max(0, parseInt(draft) || 0);
+    if (countedQuantity === item.countedQuantity) {
+      setDrafts(({ [item.productId]: _, ...rest }) => rest);
+      return;
+    }
+    countMutation.mutate({ items: [{ productId: item.productId, countedQuantity }] });
+  };
+
+  // Each scan counts one more unit of that SKU
+  const handleScan = (product: Product) => {
+    const item = stocktake?.items.find((candidate) => candidate.productId === product.id);
+    if (!item) {
+      toast({
+        title: "Not in this stocktake",
+        description: `${product.sku} is outside the category being counted`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const countedQuantity = (item.countedQuantity ?? 0) + 1;
+    countMutation.mutate({ items: [{ productId: item.productId, countedQuantity }] });
+    toast({
+      title: "Counted",
+      description: `${item.sku}: ${countedQuantity}`,
+    });
+  };
+
+  const items = stocktake?.items ?? [];
+  const countedItems = items.filter((item) => item.countedQuantity !== null);
+  const unapprovedVariances = countedItems.filter((item) => varianceOf(item) !== 0 && !item.approved);
+  const approvedVariances = countedItems.filter((item) => varianceOf(item) !== 0 && item.approved);
+
+  const approveAll = () => {
+    countMutation.mutate({
+      items: unapprovedVariances.map((item) => ({ productId: item.productId, approved: true })),
+    });
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-stocktake-count">
+          <DialogHeader>
+            <DialogTitle>{stocktake ? `Count ${stocktake.stocktakeNumber}` : "Stocktake"}</DialogTitle>
+            <DialogDescription>
+              {countedItems.length} of {items.length} counted. Variances are measured against what the location
+              held when each product was counted; approved variances are applied when the stocktake is posted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isOpen && (
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={approveAll}
+                disabled={countMutation.isPending || unapprovedVariances.length === 0}
+                data-testid="button-approve-all-variances"
+              >
+                Approve All Variances
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsScannerOpen(true)} data-testid="button-scan-count">
+                <QrCode className="h-4 w-4 mr-2" />
+                Scan SKU
+              </Button>
+            </div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">System</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-center">Approve</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const variance = varianceOf(item);
+                  return (
+                    <TableRow key={item.id} data-testid={`row-stocktake-${item.productId}`}>
+                      <TableCell>
+                        <div className="font-medium">{item.productName}</div>
+                        <div className="text-sm text-muted-foreground font-mono">{item.sku}</div>
+                        {lineErrors[item.productId] && (
+                          <p className="text-sm text-destructive">{lineErrors[item.productId]}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{item.systemQuantity}</TableCell>
+                      <TableCell className="text-right">
+                        {isOpen ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            value={drafts[item.productId] ?? item.countedQuantity ?? ""}
+                            placeholder="-"
+                            onChange={(e) => setDrafts((current) => ({ ...current, [item.productId]: e.target.value }))}
+                            onBlur={() => commitDraft(item)}
+                            onKeyDown={(e) => e.key === "Enter" && commitDraft(item)}
+                            className="w-24 ml-auto"
+                            data-testid={`input-count-${item.productId}`}
+                          />
+                        ) : (
+                          item.countedQuantity ?? "-"
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-semibold",
+                          variance !== null && variance > 0 && "text-green-600",
+                          variance !== null && variance < 0 && "text-destructive"
+                        )}
+                      >
+                        {variance === null ? "-" : variance > 0 ? `+${variance}` : variance}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox
+                          checked={item.approved}
+                          disabled={!isOpen || item.countedQuantity === null || countMutation.isPending}
+                          onCheckedChange={(checked) =>
+                            countMutation.mutate({ items: [{ productId: item.productId, approved: !!checked }] })
+                          }
+                          data-testid={`checkbox-approve-${item.productId}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end gap-3 border-t pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            {isOpen && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => statusMutation.mutate("cancel")}
+                  disabled={statusMutation.isPending}
+                  data-testid="button-cancel-stocktake"
+                >
+                  Cancel Stocktake
+                </Button>
+                <Button
+                  onClick={() => statusMutation.mutate("post")}
+                  disabled={statusMutation.isPending || countMutation.isPending}
+                  data-testid="button-post-stocktake"
+                >
+                  {statusMutation.isPending
+                    ? "Posting..."
+                    : `Post ${approvedVariances.length} ${approvedVariances.length === 1 ? "Variance" : "Variances"}`}
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <QRScannerDialog open={isScannerOpen} onOpenChange={setIsScannerOpen} onProductScanned={handleScan} />
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CreateStocktake, LocationWithStock, Product, StocktakeWithItems } from "@shared/schema";
+
+interface StocktakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (stocktake: StocktakeWithItems) => void;
+}
+
+export function StocktakeDialog({ open, onOpenChange, onCreated }: StocktakeDialogProps) {
+  const [locationId, setLocationId] = useState("");
+  const [category, setCategory] = useState("all");
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const categories = Array.from(new Set(products.map((product) => product.category))).sort();
+
+  useEffect(() => {
+    if (open) {
+      setLocationId(locations[0]?.id ?? "");
+      setCategory("all");
+      setNotes("");
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateStocktake) => {
+      const res = await apiRequest("POST", "/api/stocktakes", data);
+      return (await res.json()) as StocktakeWithItems;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      toast({
+        title: "Stocktake Started",
+        description: `${stocktake.items.length} ${stocktake.items.length === 1 ? "product" : "products"} to count`,
+      });
+      onOpenChange(false);
+      onCreated?.(stocktake);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start stocktake. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    createMutation.mutate({
+      locationId: locationId || undefined,
+      category: category === "all" ? undefined : category,
+      notes: notes || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-stocktake">
+        <DialogHeader>
+          <DialogTitle>New Stocktake</DialogTitle>
+          <DialogDescription>
+            Count one category, or everything, at a single location.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stocktakeLocation">Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="stocktakeLocation" data-testid="select-stocktake-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="stocktakeCategory">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="stocktakeCategory" data-testid="select-stocktake-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {categories.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stocktakeNotes">Notes</Label>
+            <Textarea
+              id="stocktakeNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Quarterly count, aisle 3..."
+              rows={2}
+              data-testid="input-stocktake-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={createMutation.isPending} data-testid="button-start-stocktake">
+              {createMutation.isPending ? "Starting..." : "Start Counting"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { insertSupplierSchema, type InsertSupplier, type Supplier } from "@shared/schema";
+
+interface SupplierDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier;
+}
+
+function formValues(supplier?: Supplier): InsertSupplier {
+  return {
+    name: supplier?.name ?? "",
+    contactName: supplier?.contactName ?? "",
+    email: supplier?.email ?? "",
+    phone: supplier?.phone ?? "",
+    address: supplier?.address ?? "",
+    notes: supplier?.notes ?? "",
+  };
+}
+
+export function SupplierDialog({ open, onOpenChange, supplier }: SupplierDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertSupplier>({
+    resolver: zodResolver(insertSupplierSchema),
+    defaultValues: formValues(supplier),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(formValues(supplier));
+  }, [open, supplier]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSupplier) => {
+      return supplier
+        ? await apiRequest("PATCH", `/api/suppliers/${supplier.id}`, data)
+        : await apiRequest("POST", "/api/suppliers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: "Success",
+        description: supplier ? "Supplier updated successfully" : "Supplier created successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save supplier. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-supplier">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          <DialogDescription>
+            A vendor that purchase orders are placed with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Name *</Label>
+              <Input id="supplierName" {...form.register("name")} data-testid="input-supplier-name" />
+              {form.formState.errors.name && (
+                <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplierContact">Contact Person</Label>
+              <Input
+                id="supplierContact"
+                {...form.register("contactName")}
+                data-testid="input-supplier-contact"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplierEmail">Email</Label>
+              <Input
+                id="supplierEmail"
+                type="email"
+                {...form.register("email")}
+                data-testid="input-supplier-email"
+              />
+              {form.formState.errors.email && (
+                <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplierPhone">Phone</Label>
+              <Input id="supplierPhone" {...form.register("phone")} data-testid="input-supplier-phone" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplierAddress">Address</Label>
+            <Textarea
+              id="supplierAddress"
+              {...form.register("address")}
+              rows={2}
+              data-testid="input-supplier-address"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplierNotes">Notes</Label>
+            <Textarea
+              id="supplierNotes"
+              {...form.register("notes")}
+              rows={2}
+              data-testid="input-supplier-notes"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-supplier">
+              {saveMutation.isPending ? "Saving..." : supplier ? "Save Changes" : "Add Supplier"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { InsertTaxClass, ProductFacets, TaxClassWithRates } from "@shared/schema";
+
+interface TaxRateLine {
+  jurisdiction: string;
+  name: string;
+  rate: string;
+}
+
+interface TaxClassDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taxClass?: TaxClassWithRates;
+  // Every class, so categories already taxed elsewhere can be pointed out
+  taxClasses: TaxClassWithRates[];
+}
+
+function rateLines(taxClass?: TaxClassWithRates): TaxRateLine[] {
+  return (taxClass?.rates ?? []).map((rate) => ({
+    jurisdiction: rate.jurisdiction,
+    name: rate.name,
+    rate: String(parseFloat(rate.rate)),
+  }));
+}
+
+export function TaxClassDialog({ open, onOpenChange, taxClass, taxClasses }: TaxClassDialogProps) {
+  const [name, setName] = useState("");
+  const [categories, setCategories] = useState<string[]>([]);
+  const [rates, setRates] = useState<TaxRateLine[]>([]);
+  const { toast } = useToast();
+
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
+  });
+
+  useEffect(() => {
+    if (open) {
+      setName(taxClass?.name ?? "");
+      setCategories(taxClass?.categories ?? []);
+      setRates(rateLines(taxClass));
+    }
+  }, [open, taxClass]);
+
+  // Categories no product uses any more stay listed while the class has them
+  const allCategories = Array.from(new Set([...(facets?.categories ?? []), ...categories])).sort();
+
+  const otherClassFor = (category: string) =>
+    taxClasses.find((other) => other.id !== taxClass?.id && other.categories.includes(category));
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setCategories(checked ? [...categories, category] : categories.filter((other) => other !== category));
+  };
+
+  const updateRate = (index: number, changes: Partial<TaxRateLine>) => {
+    setRates(rates.map((line, other) => (other === index ? { ...line, ...changes } : line)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertTaxClass) => {
+      return taxClass
+        ? await apiRequest("PATCH", `/api/tax-classes/${taxClass.id}`, data)
+        : await apiRequest("POST", "/api/tax-classes", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-classes"] });
+      toast({
+        title: "Success",
+        description: taxClass ? "Tax class updated successfully" : "Tax class created successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tax class. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    saveMutation.mutate({ name, categories, rates });
+  };
+
+  const hasInvalidRate = rates.some((line) => !line.jurisdiction.trim() || !line.name.trim() || line.rate === "");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-tax-class">
+        <DialogHeader>
+          <DialogTitle>{taxClass ? "Edit Tax Class" : "Add Tax Class"}</DialogTitle>
+          <DialogDescription>
+            Products in the class's categories are taxed at its rate for the jurisdiction an order is taxed in.
+            Orders already placed keep the rates they were charged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="taxClassName">Name *</Label>
+            <Input
+              id="taxClassName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Standard rate"
+              data-testid="input-tax-class-name"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold">Categories</h3>
+            {allCategories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No product categories yet</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {allCategories.map((category) => {
+                  const otherClass = otherClassFor(category);
+                  return (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={categories.includes(category)}
+                        onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                        disabled={!!otherClass}
+                        data-testid={`checkbox-tax-category-${category}`}
+                      />
+                      <span className={otherClass ? "text-muted-foreground" : undefined}>
+                        {category}
+                        {otherClass && ` (${otherClass.name})`}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Rates</h3>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setRates([...rates, { jurisdiction: "", name: "", rate: "" }])}
+                data-testid="button-add-tax-rate"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </div>
+
+            {rates.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="py-6 text-center text-sm text-muted-foreground">
+                  Without rates, products in these categories are not taxed anywhere
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-0 divide-y">
+                  {rates.map((line, index) => (
+                    <div key={index} className="p-4 flex items-end gap-3" data-testid={`tax-rate-line-${index}`}>
+                      <div className="space-y-1 flex-1">
+                        <Label className="text-xs text-muted-foreground">Jurisdiction</Label>
+                        <Input
+                          value={line.jurisdiction}
+                          onChange={(e) => updateRate(index, { jurisdiction: e.target.value })}
+                          placeholder="UK"
+                          className="font-mono uppercase"
+                          data-testid={`input-tax-jurisdiction-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1 flex-1">
+                        <Label className="text-xs text-muted-foreground">Tax Name</Label>
+                        <Input
+                          value={line.name}
+                          onChange={(e) => updateRate(index, { name: e.target.value })}
+                          placeholder="VAT"
+                          data-testid={`input-tax-name-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Rate %</Label>
+                        <Input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          max="100"
+                          value={line.rate}
+                          onChange={(e) => updateRate(index, { rate: e.target.value })}
+                          className="w-24"
+                          data-testid={`input-tax-rate-${index}`}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRates(rates.filter((_, other) => other !== index))}
+                        data-testid={`button-remove-tax-rate-${index}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saveMutation.isPending || !name.trim() || hasInvalidRate}
+              data-testid="button-save-tax-class"
+            >
+              {saveMutation.isPending ? "Saving..." : taxClass ? "Save Changes" : "Add Tax Class"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  orderStatusChangeSchema,
+  orderStatusTransitions,
+  type Order,
+  type OrderStatus,
+  type OrderStatusChange,
+} from "@shared/schema";
+
+interface UpdateOrderStatusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: Order;
+}
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export function UpdateOrderStatusDialog({ open, onOpenChange, order }: UpdateOrderStatusDialogProps) {
+  const { toast } = useToast();
+  const nextStatuses = orderStatusTransitions[order.status as OrderStatus] ?? [];
+
+  const form = useForm<OrderStatusChange>({
+    resolver: zodResolver(orderStatusChangeSchema),
+    defaultValues: {
+      status: nextStatuses[0],
+      reason: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ status: nextStatuses[0], reason: "" });
+    }
+  }, [open, order.status]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: OrderStatusChange) => {
+      return await apiRequest("POST", `/api/orders/${order.id}/status`, data);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      if (variables.status === "cancelled") {
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/discount-codes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      }
+      toast({
+        title: "Success",
+        description: `Order marked as ${statusLabels[variables.status].toLowerCase()}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update order status. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedStatus = form.watch("status");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-update-order-status">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Update Order Status</DialogTitle>
+          <DialogDescription>
+            Order #{order.orderNumber} is currently {statusLabels[order.status as OrderStatus]?.toLowerCase() ?? order.status}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="status">New Status *</Label>
+            <Select
+              value={selectedStatus}
+              onValueChange={(value) => form.setValue("status", value as OrderStatus)}
+            >
+              <SelectTrigger id="status" data-testid="select-next-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {nextStatuses.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedStatus === "cancelled" && (
+              <p className="text-sm text-muted-foreground">
+                Cancelling puts the ordered items back into stock and returns any store credit used. This cannot be undone.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              {...form.register("reason")}
+              placeholder="Why is the status changing?"
+              rows={3}
+              data-testid="input-status-reason"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={updateMutation.isPending}
+              data-testid="button-cancel-status"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={selectedStatus === "cancelled" ? "destructive" : "default"}
+              disabled={updateMutation.isPending || !selectedStatus}
+              data-testid="button-submit-status"
+            >
+              {updateMutation.isPending ? "Updating..." : "Update Status"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -39,7 +39,7 @@ import {
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertOrderSchema, type Product, type InsertOrder, type DiscountCode, type OrderWithItems } from "@shared/schema";
+import { orderDetailsSchema, type Product, type OrderDetails, type OrderLine, type CustomerWithStats, type DiscountCodeWithBalance, type OrderCredit, type OrderWithItems } from "@shared/schema";
 
 interface OrderItem {
   productId: string;
@@ -53,7 +53,7 @@ interface OrderItem {
 interface UseCreditDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  credit: DiscountCode | null;
+  credit: DiscountCodeWithBalance | null;
 }
 
 export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogProps) {
@@ -66,20 +66,21 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
     queryKey: ["/api/products"],
   });
 
-  const { data: previousOrders = [] } = useQuery<OrderWithItems[]>({
-    queryKey: ["/api/orders/customer", credit?.customerEmail],
-    enabled: !!credit?.customerEmail,
+  // Credit issued to a customer on file carries their id; older credit
+  // only has the email it was sent to
+  const { data: customer } = useQuery<CustomerWithStats>({
+    queryKey: ["/api/customers", credit?.customerId],
+    enabled: !!credit?.customerId,
   });
 
-  const form = useForm<InsertOrder>({
-    resolver: zodResolver(insertOrderSchema),
+  const form = useForm<OrderDetails>({
+    resolver: zodResolver(orderDetailsSchema),
     defaultValues: {
       customerName: "",
       customerEmail: "",
       customerPhone: "",
       status: "pending",
       notes: "",
-      totalAmount: "0",
     },
   });
 
@@ -88,62 +89,48 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
     if (credit && open) {
       form.setValue("customerEmail", credit.customerEmail);
       form.setValue("notes", `Store credit code: ${credit.code}`);
-      
-      if (previousOrders.length > 0) {
-        const mostRecentOrder = previousOrders.sort(
-          (a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
-        )[0];
-        
-        form.setValue("customerName", mostRecentOrder.customerName);
-        if (mostRecentOrder.customerPhone) {
-          form.setValue("customerPhone", mostRecentOrder.customerPhone);
+
+      if (customer) {
+        form.setValue("customerId", customer.id);
+        form.setValue("customerName", customer.name);
+        if (customer.phone) {
+          form.setValue("customerPhone", customer.phone);
         }
-        form.setValue("status", mostRecentOrder.status as "pending" | "processing" | "shipped" | "delivered" | "cancelled");
       }
     }
-  }, [credit, open, previousOrders]);
+  }, [credit, open, customer]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: InsertOrder & { items: OrderItem[]; creditCode: string; amountUsed: string }) => {
-      return await apiRequest("POST", "/api/orders", data);
+    // The server redeems the credit in the same transaction that creates the order
+    mutationFn: async (data: OrderDetails & { items: OrderLine[]; credits: OrderCredit[] }): Promise<OrderWithItems> => {
+      const res = await apiRequest("POST", "/api/orders", data);
+      return await res.json();
     },
-    onSuccess: async (data, variables) => {
+    onSuccess: (order) => {
       if (credit) {
-        try {
-          const response = await apiRequest("POST", `/api/discount-codes/${credit.code}/use`, {
-            amountUsed: variables.amountUsed,
-          }) as { success: boolean; remainingCredit: DiscountCode | null; fullyUsed: boolean };
-          
-          if (response.remainingCredit) {
-            toast({
-              title: "Success",
-              description: `Order created successfully. Remaining credit: $${response.remainingCredit.amount}`,
-            });
-          } else if (response.fullyUsed) {
-            toast({
-              title: "Success",
-              description: "Order created successfully. Store credit fully used.",
-            });
-          }
-        } catch (error) {
-          toast({
-            title: "Warning",
-            description: "Order created but failed to update store credit. Please check store credits page.",
-            variant: "destructive",
-          });
-        }
+        const remaining = Math.max(0, parseFloat(credit.balance) - parseFloat(order.creditApplied));
+        toast({
+          title: "Success",
+          description: remaining > 0
+            ? `Order created successfully. Remaining credit: $${remaining.toFixed(2)}`
+            : "Order created successfully. Store credit fully used.",
+        });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/discount-codes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       onOpenChange(false);
       form.reset();
       setOrderItems([]);
       setAdditionalPayment("0");
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create order. Please try again.",
+        description: error.message || "Failed to create order. Please try again.",
         variant: "destructive",
       });
     },
@@ -200,7 +187,7 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
 
   const calculatePaymentBreakdown = () => {
     const orderTotal = parseFloat(calculateTotal());
-    const creditAmount = credit ? parseFloat(credit.amount) : 0;
+    const creditAmount = credit ? parseFloat(credit.balance) : 0;
     const remaining = Math.max(0, orderTotal - creditAmount);
     const creditUsed = Math.min(orderTotal, creditAmount);
     
@@ -212,7 +199,7 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
     };
   };
 
-  const onSubmit = (data: InsertOrder) => {
+  const onSubmit = (data: OrderDetails) => {
     if (orderItems.length === 0) {
       toast({
         title: "Error",
@@ -243,13 +230,10 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
       return;
     }
 
-    const total = calculateTotal();
     createMutation.mutate({
       ...data,
-      totalAmount: total,
-      items: orderItems,
-      creditCode: credit.code,
-      amountUsed: breakdown.creditUsed.toFixed(2),
+      items: orderItems.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      credits: [{ code: credit.code, amount: breakdown.creditUsed.toFixed(2) }],
     });
   };
 
@@ -274,7 +258,7 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
                   <div>
                     <p className="text-sm text-muted-foreground">Available Store Credit</p>
                     <p className="text-2xl font-bold text-green-600">
-                      ${parseFloat(credit.amount).toFixed(2)}
+                      ${parseFloat(credit.balance).toFixed(2)}
                     </p>
                   </div>
                   <div className="text-right">
@@ -335,7 +319,6 @@ export function UseCreditDialog({ open, onOpenChange, credit }: UseCreditDialogP
                     <SelectItem value="processing">Processing</SelectItem>
                     <SelectItem value="shipped">Shipped</SelectItem>
                     <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -0,0 +1,201 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  insertUserSchema,
+  updateUserSchema,
+  userRoleLabels,
+  userRoles,
+  type InsertUser,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+
+type UserFormValues = InsertUser & { active: boolean };
+
+// When editing, a blank password keeps the current one
+const editUserSchema = updateUserSchema.required({ displayName: true, role: true, active: true }).extend({
+  password: z.union([z.literal(""), z.string().min(8, "Password must be at least 8 characters")]),
+});
+
+const roleDescriptions: Record<UserRole, string> = {
+  owner: "Everything, including user accounts",
+  manager: "Everything except user accounts",
+  cashier: "Orders, customers, returns and store credit",
+  warehouse: "Stock adjustments, transfers, stocktakes and receiving",
+};
+
+interface UserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user?: User;
+}
+
+function formValues(user?: User): UserFormValues {
+  return {
+    username: user?.username ?? "",
+    displayName: user?.displayName ?? "",
+    password: "",
+    role: (user?.role as UserRole) ?? "cashier",
+    active: user?.active ?? true,
+  };
+}
+
+export function UserDialog({ open, onOpenChange, user }: UserDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(user ? editUserSchema : insertUserSchema),
+    defaultValues: formValues(user),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(formValues(user));
+  }, [open, user]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UserFormValues) => {
+      if (!user) {
+        const { active: _active, ...created } = data;
+        return await apiRequest("POST", "/api/users", created);
+      }
+      const { username: _username, password, ...changes } = data;
+      return await apiRequest("PATCH", `/api/users/${user.id}`, password ? { ...changes, password } : changes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: user ? "User updated successfully" : "User created successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save user. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const role = form.watch("role");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-user">
+        <DialogHeader>
+          <DialogTitle>{user ? "Edit User" : "Add User"}</DialogTitle>
+          <DialogDescription>
+            {user ? `Signs in as ${user.username}.` : "Someone who signs in to the store."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="userDisplayName">Name *</Label>
+              <Input id="userDisplayName" {...form.register("displayName")} data-testid="input-user-name" />
+              {form.formState.errors.displayName && (
+                <p className="text-sm text-destructive">{form.formState.errors.displayName.message}</p>
+              )}
+            </div>
+
+            {!user && (
+              <div className="space-y-2">
+                <Label htmlFor="userUsername">Username *</Label>
+                <Input id="userUsername" {...form.register("username")} data-testid="input-user-username" />
+                {form.formState.errors.username && (
+                  <p className="text-sm text-destructive">{form.formState.errors.username.message}</p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="userPassword">{user ? "New Password" : "Password *"}</Label>
+              <Input
+                id="userPassword"
+                type="password"
+                autoComplete="new-password"
+                placeholder={user ? "Leave blank to keep" : undefined}
+                {...form.register("password")}
+                data-testid="input-user-password"
+              />
+              {form.formState.errors.password && (
+                <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role *</Label>
+              <Select value={role} onValueChange={(value) => form.setValue("role", value as UserRole)}>
+                <SelectTrigger data-testid="select-user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {userRoleLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{roleDescriptions[role]}</p>
+            </div>
+          </div>
+
+          {user && (
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="userActive">Active</Label>
+                <p className="text-xs text-muted-foreground">Inactive users can't sign in</p>
+              </div>
+              <Switch
+                id="userActive"
+                checked={form.watch("active")}
+                onCheckedChange={(checked) => form.setValue("active", checked)}
+                data-testid="switch-user-active"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-user">
+              {saveMutation.isPending ? "Saving..." : user ? "Save Changes" : "Add User"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
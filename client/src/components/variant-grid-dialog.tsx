@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { variantMatrix } from "@/lib/variant-matrix";
+import type { ProductStyleWithVariants, VariantUpdate } from "@shared/schema";
+
+interface VariantGridDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  style: ProductStyleWithVariants;
+}
+
+interface CellValues {
+  price: string;
+  stockQuantity: string;
+}
+
+function cellValues(style: ProductStyleWithVariants): Record<string, CellValues> {
+  return Object.fromEntries(
+    style.variants.map((variant) => [
+      variant.id,
+      { price: variant.price, stockQuantity: String(variant.stockQuantity) },
+    ])
+  );
+}
+
+export function VariantGridDialog({ open, onOpenChange, style }: VariantGridDialogProps) {
+  const [cells, setCells] = useState<Record<string, CellValues>>({});
+  const { toast } = useToast();
+  const layout = variantMatrix(style.variants);
+
+  useEffect(() => {
+    if (open) setCells(cellValues(style));
+  }, [open, style]);
+
+  const setCell = (id: string, field: keyof CellValues, value: string) => {
+    setCells((current) => ({ ...current, [id]: { ...current[id], [field]: value } }));
+  };
+
+  // Only cells that differ from the saved variant are sent; stock changes are
+  // recorded by the server as corrections in the stock history
+  const changes: VariantUpdate[] = style.variants.flatMap((variant) => {
+    const cell = cells[variant.id];
+    if (!cell) return [];
+    const update: VariantUpdate = { id: variant.id };
+    if (cell.price !== variant.price) update.price = cell.price;
+    const stockQuantity = parseInt(cell.stockQuantity);
+    if (!isNaN(stockQuantity) && stockQuantity !== variant.stockQuantity) {
+      update.stockQuantity = stockQuantity;
+    }
+    return Object.keys(update).length > 1 ? [update] : [];
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/product-styles/${style.id}/variants`, { variants: changes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/product-styles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Success",
+        description: `${changes.length} ${changes.length === 1 ? "variant" : "variants"} updated`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update variants. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-variant-grid">
+        <DialogHeader>
+          <DialogTitle>{style.styleName} Variants</DialogTitle>
+          <DialogDescription>
+            Edit stock and price for each color and size of {style.styleCode}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left p-2 font-medium text-muted-foreground">Color</th>
+                {layout.sizes.map((size) => (
+                  <th key={size} className="p-2 font-medium text-muted-foreground">
+                    {size}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {layout.colors.map((color) => (
+                <tr key={color} className="border-t">
+                  <td className="p-2 font-medium">{color}</td>
+                  {layout.sizes.map((size) => {
+                    const variant = layout.variantAt(color, size);
+                    const cell = variant && cells[variant.id];
+                    return (
+                      <td key={size} className="p-2 align-top">
+                        {variant && cell ? (
+                          <div className="space-y-1 min-w-24">
+                            <Input
+                              type="number"
+                              min="0"
+                              value={cell.stockQuantity}
+                              onChange={(e) => setCell(variant.id, "stockQuantity", e.target.value)}
+                              title={`${variant.sku} stock`}
+                              data-testid={`input-grid-stock-${variant.id}`}
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={cell.price}
+                              onChange={(e) => setCell(variant.id, "price", e.target.value)}
+                              title={`${variant.sku} price`}
+                              data-testid={`input-grid-price-${variant.id}`}
+                            />
+                          </div>
+                        ) : (
+                          <p className="text-center text-muted-foreground">—</p>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-3 border-t pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saveMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || changes.length === 0}
+            data-testid="button-save-variant-grid"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { hasPermission, type Login, type Permission, type SetupOwner, type User } from "@shared/schema";
+
+interface AuthContextValue {
+  user: User | null;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+  login: (credentials: Login) => Promise<User>;
+  setupOwner: (owner: SetupOwner) => Promise<User>;
+  logout: () => void;
+  isSigningIn: boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const userQueryKey = ["/api/auth/user"];
+
+// Signing in or out switches to another person's view of everything, so
+// nothing cached for the previous one is kept
+function startSession(user: User | null) {
+  queryClient.clear();
+  queryClient.setQueryData(userQueryKey, user);
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<User | null>({
+    queryKey: userQueryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // A session that ends while the app is open (it expired, or the user was
+  // deactivated) shows up as a 401 from some other request; checking again
+  // brings back the sign-in page
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe((event) => {
+      if (
+        event.type === "updated" &&
+        event.action.type === "error" &&
+        event.action.error instanceof ApiError &&
+        event.action.error.status === 401 &&
+        event.query.queryKey !== userQueryKey
+      ) {
+        queryClient.invalidateQueries({ queryKey: userQueryKey });
+      }
+    });
+  }, []);
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Login) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as User;
+    },
+    onSuccess: startSession,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (owner: SetupOwner) => {
+      const res = await apiRequest("POST", "/api/auth/setup", owner);
+      return (await res.json()) as User;
+    },
+    onSuccess: startSession,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => startSession(null),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const value: AuthContextValue = {
+    user,
+    isLoading,
+    can: (permission) => !!user && hasPermission(user.role, permission),
+    login: loginMutation.mutateAsync,
+    setupOwner: setupMutation.mutateAsync,
+    logout: () => logoutMutation.mutate(),
+    isSigningIn: loginMutation.isPending || setupMutation.isPending,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Page } from "@shared/schema";
+
+export type PagedListParams = Record<string, string | undefined>;
+
+// Fetches a list endpoint a page at a time. The key starts with the
+// endpoint's path, so invalidating the plain list refreshes the pages too.
+// A path given in segments, as query keys are, is refreshed along with the
+// list its first segment names.
+export function usePagedList<T>(path: string | string[], params: PagedListParams, limit = 50) {
+  const segments = typeof path === "string" ? [path] : path;
+  const query = useInfiniteQuery({
+    queryKey: [...segments, "page", params],
+    queryFn: async ({ pageParam }) => {
+      const search = new URLSearchParams({ limit: String(limit) });
+      for (const [key, value] of Object.entries(params)) {
+        if (value) search.set(key, value);
+      }
+      if (pageParam) search.set("cursor", pageParam);
+      const res = await apiRequest("GET", `${segments.join("/")}?${search}`);
+      return (await res.json()) as Page<T>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+  };
+}
@@ -0,0 +1,29 @@
+import type { Product } from "@shared/schema";
+
+export interface VariantMatrixLayout {
+  colors: string[];
+  sizes: string[];
+  variantAt: (color: string, size: string) => Product | undefined;
+}
+
+// Lays out a style's variants as a color x size grid, keeping colors and
+// sizes in the order they were first added
+export function variantMatrix(variants: Product[]): VariantMatrixLayout {
+  const colors = Array.from(new Set(variants.map((variant) => variant.color)));
+  const sizes = Array.from(new Set(variants.map((variant) => variant.size)));
+  const byCell = new Map(variants.map((variant) => [`${variant.color}|${variant.size}`, variant]));
+
+  return {
+    colors,
+    sizes,
+    variantAt: (color, size) => byCell.get(`${color}|${size}`),
+  };
+}
+
+// "Red, Navy Blue ,," -> ["Red", "Navy Blue"]
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
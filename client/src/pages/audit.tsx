@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ScrollText, Search } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LoadMore } from "@/components/load-more";
+import { AuditChangeList, auditActionLabel, auditEntityLabel } from "@/components/audit-history";
+import { usePagedList } from "@/hooks/use-paged-list";
+import {
+  auditActionLabels,
+  auditActions,
+  auditEntityLabels,
+  auditEntityTypes,
+  type AuditActor,
+  type AuditEvent,
+} from "@shared/schema";
+
+export default function Audit() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [entityType, setEntityType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [action, setAction] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const { data: actors = [] } = useQuery<AuditActor[]>({
+    queryKey: ["/api/audit-events", "actors"],
+  });
+
+  const {
+    items: events,
+    total,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePagedList<AuditEvent>("/api/audit-events", {
+    search: searchQuery.trim(),
+    entityType: entityType === "all" ? undefined : entityType,
+    actorId: actorId === "all" ? undefined : actorId,
+    action: action === "all" ? undefined : action,
+    from: fromDate,
+    to: toDate,
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col gap-6">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                Audit Log
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Who changed what, and what it was before
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by user, SKU or document number..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-search-audit"
+                />
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                <Input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="w-[150px]"
+                  aria-label="From date"
+                  data-testid="input-audit-from"
+                />
+                <Input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="w-[150px]"
+                  aria-label="To date"
+                  data-testid="input-audit-to"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2 flex-wrap">
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger className="w-[180px]" data-testid="select-audit-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {auditEntityTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {auditEntityLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger className="w-[180px]" data-testid="select-audit-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {/* Changes made by the system have no user to filter on */}
+                  {actors
+                    .filter((actor): actor is AuditActor & { actorId: string } => !!actor.actorId)
+                    .map((actor) => (
+                      <SelectItem key={actor.actorId} value={actor.actorId}>
+                        {actor.actorName}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger className="w-[180px]" data-testid="select-audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {auditActions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {auditActionLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes</CardTitle>
+              <p className="text-sm text-muted-foreground" data-testid="text-audit-count">
+                Showing {events.length} of {total} changes
+              </p>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : events.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <ScrollText className="h-10 w-10 text-muted-foreground mb-3" />
+                  <p className="text-sm text-muted-foreground">No changes recorded</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id} className="align-top" data-testid={`row-audit-${event.id}`}>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {event.createdAt && format(new Date(event.createdAt), "MMM dd, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell className="font-medium">{event.actorName}</TableCell>
+                        <TableCell>
+                          <div className="text-sm">{auditEntityLabel(event.entityType)}</div>
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {event.entityLabel ?? event.entityId}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{auditActionLabel(event.action)}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-md">
+                          <AuditChangeList changes={event.changes} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <LoadMore hasNextPage={hasNextPage} isFetchingNextPage={isFetchingNextPage} fetchNextPage={fetchNextPage} />
+        </div>
+      </div>
+    </div>
+  );
+}
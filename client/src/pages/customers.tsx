@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, Pencil, Plus, Search, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CustomerWithStats } from "@shared/schema";
+import { CustomerDialog } from "@/components/customer-dialog";
+import { CustomerHistorySheet } from "@/components/customer-history-sheet";
+
+export default function Customers() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<CustomerWithStats | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<CustomerWithStats | null>(null);
+  const { toast } = useToast();
+
+  const { data: customers = [], isLoading } = useQuery<CustomerWithStats[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  // Only customers with nothing on record can be deleted; the server says why otherwise
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/customers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({
+        title: "Deleted",
+        description: "Customer has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete customer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const search = searchQuery.toLowerCase();
+  const filteredCustomers = customers.filter(
+    (customer) =>
+      customer.name.toLowerCase().includes(search) ||
+      (customer.email ?? "").includes(search) ||
+      (customer.phone ?? "").includes(search)
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col gap-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                  Customers
+                </h1>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Customer records with their orders, returns and store credit
+                </p>
+              </div>
+              <Button
+                onClick={() => setIsCreateDialogOpen(true)}
+                data-testid="button-create-customer"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, email or phone..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-customers"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isLoading ? (
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-center text-muted-foreground">Loading...</p>
+              </CardContent>
+            </Card>
+          ) : filteredCustomers.length === 0 ? (
+            <Card className="border-dashed">
+              <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+                <div className="rounded-full bg-muted p-6 mb-4">
+                  <Users className="h-10 w-10 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-semibold mb-2">No customers found</h3>
+                <p className="text-sm text-muted-foreground">
+                  {searchQuery
+                    ? "No customers match your search"
+                    : "Customers are added automatically when orders are placed"}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Lifetime Value</TableHead>
+                      <TableHead className="text-right">Open Credit</TableHead>
+                      <TableHead className="text-right">Return Rate</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredCustomers.map((customer) => (
+                      <TableRow key={customer.id} data-testid={`row-customer-${customer.id}`}>
+                        <TableCell className="font-medium">{customer.name}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          <div>{customer.email ?? "-"}</div>
+                          {customer.phone && <div>{customer.phone}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">{customer.orderCount}</TableCell>
+                        <TableCell className="text-right font-semibold">
+                          ${customer.lifetimeValue}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {parseFloat(customer.openCredit) > 0 ? (
+                            <span className="text-green-600 font-semibold">${customer.openCredit}</span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {customer.unitsOrdered > 0 ? (
+                            <span title={`${customer.unitsReturned} of ${customer.unitsOrdered} units returned`}>
+                              {(customer.returnRate * 100).toFixed(0)}%
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryCustomer(customer)}
+                              title="History"
+                              data-testid={`button-customer-history-${customer.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingCustomer(customer)}
+                              title="Edit"
+                              data-testid={`button-edit-customer-${customer.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(customer.id)}
+                              disabled={deleteMutation.isPending}
+                              title="Delete"
+                              data-testid={`button-delete-customer-${customer.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <CustomerDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} />
+
+      <CustomerDialog
+        open={!!editingCustomer}
+        onOpenChange={(open) => !open && setEditingCustomer(null)}
+        customer={editingCustomer ?? undefined}
+      />
+
+      <CustomerHistorySheet
+        open={!!historyCustomer}
+        onOpenChange={(open) => !open && setHistoryCustomer(null)}
+        customer={historyCustomer}
+      />
+    </div>
+  );
+}
@@ -1,42 +1,124 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Plus, Search, QrCode, Grid3x3, List, Filter } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Search, QrCode, Grid3x3, List, Filter, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ProductDialog } from "@/components/product-dialog";
 import { QRScannerDialog } from "@/components/qr-scanner-dialog";
 import { ProductCard } from "@/components/product-card";
-import type { Product } from "@shared/schema";
+import { ProductStyleDialog } from "@/components/product-style-dialog";
+import { ProductStyleCard } from "@/components/product-style-card";
+import { LoadMore } from "@/components/load-more";
+import { usePagedList } from "@/hooks/use-paged-list";
+import type {
+  LocationWithStock,
+  Product,
+  ProductFacets,
+  ProductStyleWithVariants,
+  StockBalance,
+} from "@shared/schema";
+
+// Each option is a sort key and direction, as the product list takes them
+const sortOptions = [
+  { value: "productName:asc", label: "Name (A-Z)" },
+  { value: "productName:desc", label: "Name (Z-A)" },
+  { value: "sku:asc", label: "SKU" },
+  { value: "price:asc", label: "Price: Low to High" },
+  { value: "price:desc", label: "Price: High to Low" },
+  { value: "stockQuantity:asc", label: "Stock: Low to High" },
+  { value: "stockQuantity:desc", label: "Stock: High to Low" },
+  { value: "createdAt:desc", label: "Newest First" },
+];
 
 export default function Inventory() {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [selectedLocation, setSelectedLocation] = useState<string>("all");
+  const [selectedBrand, setSelectedBrand] = useState<string>("all");
+  const [sortOption, setSortOption] = useState(sortOptions[0].value);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isCreateStyleDialogOpen, setIsCreateStyleDialogOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  // Variants are shown on their style's card, so only standalone products get their own
+  const [sort, order] = sortOption.split(":");
+  const {
+    items: products,
+    total: productTotal,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePagedList<Product>("/api/products", {
+    standalone: "true",
+    search: searchQuery.trim(),
+    category: selectedCategory === "all" ? undefined : selectedCategory,
+    brand: selectedBrand === "all" ? undefined : selectedBrand,
+    locationId: selectedLocation === "all" ? undefined : selectedLocation,
+    sort,
+    order,
+  });
+
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
+  });
+
+  const { data: styles = [], isLoading: isLoadingStyles } = useQuery<ProductStyleWithVariants[]>({
+    queryKey: ["/api/product-styles"],
   });
 
   const { data: lowStockProducts = [] } = useQuery<Product[]>({
     queryKey: ["/api/stock-movements/low-stock"],
   });
 
-  const filteredProducts = products.filter((product) => {
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: balances = [] } = useQuery<StockBalance[]>({
+    queryKey: ["/api/products", "stock-levels"],
+    enabled: selectedLocation !== "all",
+  });
+
+  const search = searchQuery.toLowerCase();
+
+  // Picking a location narrows the catalog to what is on hand there
+  const isStockedAt = (productId: string) =>
+    selectedLocation === "all" ||
+    balances.some(
+      (balance) =>
+        balance.productId === productId && balance.locationId === selectedLocation && balance.quantity > 0
+    );
+
+  const filteredStyles = styles.filter((style) => {
     const matchesSearch =
-      product.productName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      product.sku.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      product.brand.toLowerCase().includes(searchQuery.toLowerCase());
+      style.styleName.toLowerCase().includes(search) ||
+      style.styleCode.toLowerCase().includes(search) ||
+      style.brand.toLowerCase().includes(search) ||
+      style.variants.some((variant) => variant.sku.toLowerCase().includes(search));
     const matchesCategory =
-      selectedCategory === "all" || product.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+      selectedCategory === "all" || style.category === selectedCategory;
+    const matchesBrand = selectedBrand === "all" || style.brand === selectedBrand;
+    const matchesLocation = style.variants.some((variant) => isStockedAt(variant.id));
+    return matchesSearch && matchesCategory && matchesBrand && matchesLocation;
   });
 
-  const categories = ["all", ...new Set(products.map((p) => p.category))];
+  const categories = ["all", ...(facets?.categories ?? [])];
+  const itemCount = filteredStyles.length + productTotal;
+  const isFiltered =
+    !!searchQuery || selectedCategory !== "all" || selectedBrand !== "all" || selectedLocation !== "all";
 
   return (
     <div className="flex flex-col h-full">
@@ -61,6 +143,14 @@ export default function Inventory() {
                   <QrCode className="h-4 w-4 mr-2" />
                   Scan QR
                 </Button>
+                <Button
+                  onClick={() => setIsCreateStyleDialogOpen(true)}
+                  variant="outline"
+                  data-testid="button-create-style"
+                >
+                  <Layers className="h-4 w-4 mr-2" />
+                  Create Style
+                </Button>
                 <Button
                   onClick={() => setIsCreateDialogOpen(true)}
                   data-testid="button-create-product"
@@ -82,7 +172,49 @@ export default function Inventory() {
                   data-testid="input-search-products"
                 />
               </div>
-              <div className="flex gap-2">
+              <div className="flex gap-2 flex-wrap">
+                {(facets?.brands.length ?? 0) > 1 && (
+                  <Select value={selectedBrand} onValueChange={setSelectedBrand}>
+                    <SelectTrigger className="w-[160px]" data-testid="select-inventory-brand">
+                      <SelectValue placeholder="All Brands" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Brands</SelectItem>
+                      {facets?.brands.map((brand) => (
+                        <SelectItem key={brand} value={brand}>
+                          {brand}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select value={sortOption} onValueChange={setSortOption}>
+                  <SelectTrigger className="w-[180px]" data-testid="select-inventory-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {locations.length > 1 && (
+                  <Select value={selectedLocation} onValueChange={setSelectedLocation}>
+                    <SelectTrigger className="w-[180px]" data-testid="select-inventory-location">
+                      <SelectValue placeholder="All Locations" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Locations</SelectItem>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Button
                   variant={viewMode === "grid" ? "secondary" : "outline"}
                   size="icon"
@@ -133,7 +265,10 @@ export default function Inventory() {
                       Low Stock Alert
                     </h3>
                     <p className="text-sm text-yellow-800 dark:text-yellow-200 mt-1">
-                      {lowStockProducts.length} {lowStockProducts.length === 1 ? "product" : "products"} running low on stock (less than 10 units)
+                      {lowStockProducts.length} {lowStockProducts.length === 1 ? "product is" : "products are"} at or below the reorder point (under 10 units where none is set).{" "}
+                      <Link href="/purchasing" className="font-medium underline" data-testid="link-reorder-suggestions">
+                        Review suggested reorders
+                      </Link>
                     </p>
                   </div>
                 </div>
@@ -143,11 +278,11 @@ export default function Inventory() {
 
           <div className="mb-4 flex items-center justify-between">
             <p className="text-sm text-muted-foreground" data-testid="text-product-count">
-              {filteredProducts.length} {filteredProducts.length === 1 ? "product" : "products"}
+              {itemCount} {itemCount === 1 ? "product" : "products"}
             </p>
           </div>
 
-          {isLoading ? (
+          {isLoading || isLoadingStyles ? (
             <div
               className={
                 viewMode === "grid"
@@ -165,7 +300,7 @@ export default function Inventory() {
                 </Card>
               ))}
             </div>
-          ) : filteredProducts.length === 0 ? (
+          ) : itemCount === 0 ? (
             <Card className="border-dashed">
               <CardContent className="flex flex-col items-center justify-center py-16 text-center">
                 <div className="rounded-full bg-muted p-6 mb-4">
@@ -175,11 +310,11 @@ export default function Inventory() {
                   No products found
                 </h3>
                 <p className="text-sm text-muted-foreground mb-6 max-w-sm">
-                  {searchQuery || selectedCategory !== "all"
+                  {isFiltered
                     ? "Try adjusting your search or filter criteria"
                     : "Get started by creating your first product"}
                 </p>
-                {!searchQuery && selectedCategory === "all" && (
+                {!isFiltered && (
                   <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-first-product">
                     <Plus className="h-4 w-4 mr-2" />
                     Create Your First Product
@@ -195,11 +330,20 @@ export default function Inventory() {
                   : "flex flex-col gap-4"
               }
             >
-              {filteredProducts.map((product) => (
+              {filteredStyles.map((style) => (
+                <ProductStyleCard key={style.id} style={style} viewMode={viewMode} />
+              ))}
+              {products.map((product) => (
                 <ProductCard key={product.id} product={product} viewMode={viewMode} />
               ))}
             </div>
           )}
+
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+          />
         </div>
       </div>
 
@@ -207,6 +351,10 @@ export default function Inventory() {
         open={isCreateDialogOpen}
         onOpenChange={setIsCreateDialogOpen}
       />
+      <ProductStyleDialog
+        open={isCreateStyleDialogOpen}
+        onOpenChange={setIsCreateStyleDialogOpen}
+      />
       <QRScannerDialog open={isScannerOpen} onOpenChange={setIsScannerOpen} />
     </div>
   );
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowRight, Check, Pencil, Plus, Trash2, Truck, Warehouse, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { LocationWithStock, StockTransferWithItems, TransferStatus } from "@shared/schema";
+import { LocationDialog } from "@/components/location-dialog";
+import { StockTransferDialog } from "@/components/stock-transfer-dialog";
+
+const transferStatusColors: Record<TransferStatus, string> = {
+  in_transit: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  received: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+  cancelled: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
+};
+
+const transferStatusLabels: Record<TransferStatus, string> = {
+  in_transit: "In Transit",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export default function Locations() {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<LocationWithStock | null>(null);
+  const { toast } = useToast();
+
+  const { data: locations = [], isLoading } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: transfers = [], isLoading: isLoadingTransfers } = useQuery<StockTransferWithItems[]>({
+    queryKey: ["/api/stock-transfers"],
+  });
+
+  const locationName = (id: string) =>
+    locations.find((location) => location.id === id)?.name ?? "Unknown";
+
+  // Locations that still hold stock or have transfers on the way can't be deleted; the server says why
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Deleted",
+        description: "Location has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete location",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "receive" | "cancel" }) => {
+      return await apiRequest("POST", `/api/stock-transfers/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: action === "receive" ? "Transfer Received" : "Transfer Cancelled",
+        description:
+          action === "receive"
+            ? "Stock has been added to the destination"
+            : "Stock has been returned to the source",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                Locations
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Warehouses and stores, and the stock moving between them
+              </p>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Button
+                variant="outline"
+                onClick={() => setIsTransferDialogOpen(true)}
+                disabled={locations.length < 2}
+                data-testid="button-create-transfer"
+              >
+                <Truck className="h-4 w-4 mr-2" />
+                New Transfer
+              </Button>
+              <Button
+                onClick={() => setIsCreateDialogOpen(true)}
+                data-testid="button-create-location"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Location
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead className="text-right">Units On Hand</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {locations.map((location) => (
+                      <TableRow key={location.id} data-testid={`row-location-${location.id}`}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <Warehouse className="h-4 w-4 text-muted-foreground" />
+                            {location.name}
+                            {location.isDefault && <Badge variant="secondary">Default</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{location.code}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {location.address ?? "-"}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{location.unitsOnHand}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingLocation(location)}
+                              title="Edit"
+                              data-testid={`button-edit-location-${location.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {!location.isDefault && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteMutation.mutate(location.id)}
+                                disabled={deleteMutation.isPending}
+                                title="Delete"
+                                data-testid={`button-delete-location-${location.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfers</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoadingTransfers ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : transfers.length === 0 ? (
+                <p className="text-center text-muted-foreground p-6" data-testid="text-no-transfers">
+                  No transfers yet
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Transfer</TableHead>
+                      <TableHead>Route</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transfers.map((transfer) => (
+                      <TableRow key={transfer.id} data-testid={`row-transfer-${transfer.id}`}>
+                        <TableCell>
+                          <div className="font-mono text-sm">{transfer.transferNumber}</div>
+                          {transfer.notes && (
+                            <div className="text-xs text-muted-foreground">{transfer.notes}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2 text-sm">
+                            {locationName(transfer.fromLocationId)}
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            {locationName(transfer.toLocationId)}
+                          </div>
+                        </TableCell>
+                        <TableCell
+                          className="text-right"
+                          title={transfer.items.map((item) => `${item.quantity} × ${item.productName}`).join("\n")}
+                        >
+                          {transfer.items.reduce((sum, item) => sum + item.quantity, 0)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={transferStatusColors[transfer.status as TransferStatus]}>
+                            {transferStatusLabels[transfer.status as TransferStatus]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {transfer.receivedAt
+                            ? `Received ${format(new Date(transfer.receivedAt), "MMM dd, yyyy")}`
+                            : transfer.cancelledAt
+                              ? `Cancelled ${format(new Date(transfer.cancelledAt), "MMM dd, yyyy")}`
+                              : transfer.createdAt
+                                ? format(new Date(transfer.createdAt), "MMM dd, yyyy")
+                                : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {transfer.status === "in_transit" && (
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => transferMutation.mutate({ id: transfer.id, action: "receive" })}
+                                disabled={transferMutation.isPending}
+                                title="Receive"
+                                data-testid={`button-receive-transfer-${transfer.id}`}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => transferMutation.mutate({ id: transfer.id, action: "cancel" })}
+                                disabled={transferMutation.isPending}
+                                title="Cancel"
+                                data-testid={`button-cancel-transfer-${transfer.id}`}
+                              >
+                                <X className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <LocationDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} />
+
+      <LocationDialog
+        open={!!editingLocation}
+        onOpenChange={(open) => !open && setEditingLocation(null)}
+        location={editingLocation ?? undefined}
+      />
+
+      <StockTransferDialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen} />
+    </div>
+  );
+}
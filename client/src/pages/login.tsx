@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { loginSchema, setupOwnerSchema, type Login as LoginData, type SetupOwner } from "@shared/schema";
+
+function LoginForm() {
+  const { login, isSigningIn } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const onSubmit = async (data: LoginData) => {
+    setError(null);
+    try {
+      await login(data);
+    } catch (err) {
+      setError((err as Error).message || "Failed to sign in. Please try again.");
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="loginUsername">Username</Label>
+        <Input id="loginUsername" autoComplete="username" {...form.register("username")} data-testid="input-login-username" />
+        {form.formState.errors.username && (
+          <p className="text-sm text-destructive">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="loginPassword">Password</Label>
+        <Input
+          id="loginPassword"
+          type="password"
+          autoComplete="current-password"
+          {...form.register("password")}
+          data-testid="input-login-password"
+        />
+        {form.formState.errors.password && (
+          <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" data-testid="text-login-error">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSigningIn} data-testid="button-login">
+        {isSigningIn ? "Signing in..." : "Sign In"}
+      </Button>
+    </form>
+  );
+}
+
+function SetupForm() {
+  const { setupOwner, isSigningIn } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<SetupOwner>({
+    resolver: zodResolver(setupOwnerSchema),
+    defaultValues: { username: "", displayName: "", password: "" },
+  });
+
+  const onSubmit = async (data: SetupOwner) => {
+    setError(null);
+    try {
+      await setupOwner(data);
+    } catch (err) {
+      setError((err as Error).message || "Failed to create the account. Please try again.");
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="setupName">Your Name</Label>
+        <Input id="setupName" {...form.register("displayName")} data-testid="input-setup-name" />
+        {form.formState.errors.displayName && (
+          <p className="text-sm text-destructive">{form.formState.errors.displayName.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="setupUsername">Username</Label>
+        <Input id="setupUsername" autoComplete="username" {...form.register("username")} data-testid="input-setup-username" />
+        {form.formState.errors.username && (
+          <p className="text-sm text-destructive">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="setupPassword">Password</Label>
+        <Input
+          id="setupPassword"
+          type="password"
+          autoComplete="new-password"
+          {...form.register("password")}
+          data-testid="input-setup-password"
+        />
+        {form.formState.errors.password && (
+          <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={isSigningIn} data-testid="button-setup">
+        {isSigningIn ? "Creating..." : "Create Owner Account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function Login() {
+  const { data: setup, isLoading } = useQuery<{ required: boolean }>({
+    queryKey: ["/api/auth", "setup"],
+  });
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-muted/30 px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <Package className="h-6 w-6 text-primary" />
+            <span className="text-xl font-bold">FABRIX</span>
+          </div>
+          <CardTitle>{setup?.required ? "Set Up Your Store" : "Sign In"}</CardTitle>
+          <CardDescription>
+            {setup?.required
+              ? "Create the owner account. You can add your staff once you're in."
+              : "Sign in with the account your store owner gave you"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-muted-foreground">Loading...</p>
+          ) : setup?.required ? (
+            <SetupForm />
+          ) : (
+            <LoginForm />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,34 +1,65 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { Plus, Search, Package, QrCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { CreateOrderDialog } from "@/components/create-order-dialog";
 import { OrderCard } from "@/components/order-card";
 import { QRScannerDialog } from "@/components/qr-scanner-dialog";
+import { LoadMore } from "@/components/load-more";
+import { usePagedList } from "@/hooks/use-paged-list";
 import type { OrderWithItems } from "@shared/schema";
 
+// Each option is a sort key and direction, as the order list takes them
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest First" },
+  { value: "createdAt:asc", label: "Oldest First" },
+  { value: "orderNumber:asc", label: "Order Number" },
+  { value: "customerName:asc", label: "Customer (A-Z)" },
+  { value: "totalAmount:desc", label: "Total: High to Low" },
+  { value: "totalAmount:asc", label: "Total: Low to High" },
+];
+
 export default function Orders() {
-  const [searchQuery, setSearchQuery] = useState("");
+  // Links from elsewhere (e.g. a stock movement's source) open the page
+  // filtered to one order with ?search=
+  const search = useSearch();
+  const [searchQuery, setSearchQuery] = useState(() => new URLSearchParams(search).get("search") ?? "");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [sortOption, setSortOption] = useState(sortOptions[0].value);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
 
-  const { data: orders = [], isLoading } = useQuery<OrderWithItems[]>({
-    queryKey: ["/api/orders"],
+  const [sort, order] = sortOption.split(":");
+  const {
+    items: orders,
+    total,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePagedList<OrderWithItems>("/api/orders", {
+    search: searchQuery.trim(),
+    status: selectedStatus === "all" ? undefined : selectedStatus,
+    from: fromDate,
+    to: toDate,
+    sort,
+    order,
   });
 
-  const filteredOrders = orders.filter((order) => {
-    const matchesSearch =
-      order.orderNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.customerName.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus =
-      selectedStatus === "all" || order.status === selectedStatus;
-    return matchesSearch && matchesStatus;
-  });
+  const isFiltered = !!searchQuery || selectedStatus !== "all" || !!fromDate || !!toDate;
 
   const statuses = [
     { value: "all", label: "All Orders" },
@@ -78,15 +109,47 @@ export default function Orders() {
               </div>
             </div>
 
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search orders by number or customer name..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-                data-testid="input-search-orders"
-              />
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search orders by number, customer name or email..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-search-orders"
+                />
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                <Input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="w-[150px]"
+                  aria-label="From date"
+                  data-testid="input-orders-from"
+                />
+                <Input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="w-[150px]"
+                  aria-label="To date"
+                  data-testid="input-orders-to"
+                />
+                <Select value={sortOption} onValueChange={setSortOption}>
+                  <SelectTrigger className="w-[180px]" data-testid="select-orders-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="flex gap-2 flex-wrap">
@@ -110,7 +173,7 @@ export default function Orders() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="mb-4 flex items-center justify-between">
             <p className="text-sm text-muted-foreground" data-testid="text-order-count">
-              {filteredOrders.length} {filteredOrders.length === 1 ? "order" : "orders"}
+              {total} {total === 1 ? "order" : "orders"}
             </p>
           </div>
 
@@ -131,7 +194,7 @@ export default function Orders() {
                 </Card>
               ))}
             </div>
-          ) : filteredOrders.length === 0 ? (
+          ) : orders.length === 0 ? (
             <Card className="border-dashed">
               <CardContent className="flex flex-col items-center justify-center py-16 text-center">
                 <div className="rounded-full bg-muted p-6 mb-4">
@@ -141,11 +204,11 @@ export default function Orders() {
                   No orders found
                 </h3>
                 <p className="text-sm text-muted-foreground mb-6 max-w-sm">
-                  {searchQuery || selectedStatus !== "all"
+                  {isFiltered
                     ? "Try adjusting your search or filter criteria"
                     : "Get started by creating your first order"}
                 </p>
-                {!searchQuery && selectedStatus === "all" && (
+                {!isFiltered && (
                   <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-first-order">
                     <Plus className="h-4 w-4 mr-2" />
                     Create Your First Order
@@ -155,11 +218,17 @@ export default function Orders() {
             </Card>
           ) : (
             <div className="flex flex-col gap-4">
-              {filteredOrders.map((order) => (
+              {orders.map((order) => (
                 <OrderCard key={order.id} order={order} />
               ))}
             </div>
           )}
+
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+          />
         </div>
       </div>
 
@@ -0,0 +1,399 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ClipboardList, PackageCheck, Pencil, Plus, Send, Trash2, Truck, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type {
+  LocationWithStock,
+  PurchaseOrderStatus,
+  PurchaseOrderWithItems,
+  Supplier,
+} from "@shared/schema";
+import { SupplierDialog } from "@/components/supplier-dialog";
+import { PurchaseOrderDialog } from "@/components/purchase-order-dialog";
+import { ReceivePurchaseOrderDialog } from "@/components/receive-purchase-order-dialog";
+import { ReorderSuggestionsCard } from "@/components/reorder-suggestions-card";
+
+const purchaseOrderStatusColors: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20",
+  sent: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  partially_received: "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 border-yellow-500/20",
+  closed: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+};
+
+const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  closed: "Closed",
+};
+
+type PurchaseOrderAction = "send" | "close";
+
+export default function Purchasing() {
+  const [isSupplierDialogOpen, setIsSupplierDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [isPurchaseOrderDialogOpen, setIsPurchaseOrderDialogOpen] = useState(false);
+  const [editingPurchaseOrder, setEditingPurchaseOrder] = useState<PurchaseOrderWithItems | null>(null);
+  const [receivingPurchaseOrder, setReceivingPurchaseOrder] = useState<PurchaseOrderWithItems | null>(null);
+  const { toast } = useToast();
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrderWithItems[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const { data: suppliers = [], isLoading: isLoadingSuppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const supplierName = (id: string) => suppliers.find((supplier) => supplier.id === id)?.name ?? "Unknown";
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name ?? "Unknown";
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: PurchaseOrderAction }) => {
+      return await apiRequest("POST", `/api/purchase-orders/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+      toast({
+        title: action === "send" ? "Purchase Order Sent" : "Purchase Order Closed",
+        description:
+          action === "send"
+            ? "It can now be received as deliveries arrive"
+            : "Anything still outstanding will no longer be received",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePurchaseOrderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/purchase-orders/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+      toast({
+        title: "Deleted",
+        description: "Draft purchase order has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Suppliers with purchase orders on record can't be deleted; the server says so
+  const deleteSupplierMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/suppliers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: "Deleted",
+        description: "Supplier has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete supplier",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                Purchasing
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Suppliers and the purchase orders that restock inventory
+              </p>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Button
+                variant="outline"
+                onClick={() => setIsSupplierDialogOpen(true)}
+                data-testid="button-create-supplier"
+              >
+                <Truck className="h-4 w-4 mr-2" />
+                Add Supplier
+              </Button>
+              <Button
+                onClick={() => setIsPurchaseOrderDialogOpen(true)}
+                disabled={suppliers.length === 0}
+                data-testid="button-create-purchase-order"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Purchase Order
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          <ReorderSuggestionsCard suppliers={suppliers} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase Orders</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : purchaseOrders.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <ClipboardList className="h-10 w-10 text-muted-foreground mb-3" />
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-purchase-orders">
+                    {suppliers.length === 0
+                      ? "Add a supplier to start ordering stock"
+                      : "No purchase orders yet"}
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Purchase Order</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Receive At</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Total Cost</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {purchaseOrders.map((purchaseOrder) => {
+                      const status = purchaseOrder.status as PurchaseOrderStatus;
+                      const ordered = purchaseOrder.items.reduce((sum, item) => sum + item.quantityOrdered, 0);
+                      const received = purchaseOrder.items.reduce((sum, item) => sum + item.quantityReceived, 0);
+                      const totalCost = purchaseOrder.items.reduce(
+                        (sum, item) => sum + item.quantityOrdered * parseFloat(item.unitCost),
+                        0
+                      );
+
+                      return (
+                        <TableRow key={purchaseOrder.id} data-testid={`row-purchase-order-${purchaseOrder.id}`}>
+                          <TableCell>
+                            <div className="font-mono text-sm">{purchaseOrder.poNumber}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {purchaseOrder.createdAt && format(new Date(purchaseOrder.createdAt), "MMM dd, yyyy")}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-medium">{supplierName(purchaseOrder.supplierId)}</TableCell>
+                          <TableCell className="text-sm">{locationName(purchaseOrder.locationId)}</TableCell>
+                          <TableCell
+                            className="text-right"
+                            title={purchaseOrder.items
+                              .map((item) => `${item.sku}: ${item.quantityReceived} of ${item.quantityOrdered}`)
+                              .join("\n")}
+                          >
+                            {received} / {ordered}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">${totalCost.toFixed(2)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={purchaseOrderStatusColors[status]}>
+                              {purchaseOrderStatusLabels[status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex gap-2 justify-end">
+                              {status === "draft" && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setEditingPurchaseOrder(purchaseOrder)}
+                                    title="Edit"
+                                    data-testid={`button-edit-purchase-order-${purchaseOrder.id}`}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => statusMutation.mutate({ id: purchaseOrder.id, action: "send" })}
+                                    disabled={statusMutation.isPending}
+                                    title="Mark as sent"
+                                    data-testid={`button-send-purchase-order-${purchaseOrder.id}`}
+                                  >
+                                    <Send className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => deletePurchaseOrderMutation.mutate(purchaseOrder.id)}
+                                    disabled={deletePurchaseOrderMutation.isPending}
+                                    title="Delete"
+                                    data-testid={`button-delete-purchase-order-${purchaseOrder.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                  </Button>
+                                </>
+                              )}
+                              {(status === "sent" || status === "partially_received") && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setReceivingPurchaseOrder(purchaseOrder)}
+                                    title="Receive"
+                                    data-testid={`button-receive-purchase-order-${purchaseOrder.id}`}
+                                  >
+                                    <PackageCheck className="h-4 w-4 text-green-600" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => statusMutation.mutate({ id: purchaseOrder.id, action: "close" })}
+                                    disabled={statusMutation.isPending}
+                                    title="Close without receiving the rest"
+                                    data-testid={`button-close-purchase-order-${purchaseOrder.id}`}
+                                  >
+                                    <XCircle className="h-4 w-4 text-destructive" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Suppliers</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoadingSuppliers ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : suppliers.length === 0 ? (
+                <p className="text-center text-muted-foreground p-6" data-testid="text-no-suppliers">
+                  No suppliers yet
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead className="text-right">Open Orders</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suppliers.map((supplier) => {
+                      const openOrders = purchaseOrders.filter(
+                        (purchaseOrder) => purchaseOrder.supplierId === supplier.id && purchaseOrder.status !== "closed"
+                      ).length;
+
+                      return (
+                        <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                          <TableCell className="font-medium">{supplier.name}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {supplier.contactName && <div>{supplier.contactName}</div>}
+                            <div>{[supplier.email, supplier.phone].filter(Boolean).join(" · ") || "-"}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{openOrders}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEditingSupplier(supplier)}
+                                title="Edit"
+                                data-testid={`button-edit-supplier-${supplier.id}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteSupplierMutation.mutate(supplier.id)}
+                                disabled={deleteSupplierMutation.isPending}
+                                title="Delete"
+                                data-testid={`button-delete-supplier-${supplier.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <SupplierDialog open={isSupplierDialogOpen} onOpenChange={setIsSupplierDialogOpen} />
+
+      <SupplierDialog
+        open={!!editingSupplier}
+        onOpenChange={(open) => !open && setEditingSupplier(null)}
+        supplier={editingSupplier ?? undefined}
+      />
+
+      <PurchaseOrderDialog open={isPurchaseOrderDialogOpen} onOpenChange={setIsPurchaseOrderDialogOpen} />
+
+      <PurchaseOrderDialog
+        open={!!editingPurchaseOrder}
+        onOpenChange={(open) => !open && setEditingPurchaseOrder(null)}
+        purchaseOrder={editingPurchaseOrder ?? undefined}
+      />
+
+      {receivingPurchaseOrder && (
+        <ReceivePurchaseOrderDialog
+          open={!!receivingPurchaseOrder}
+          onOpenChange={(open) => !open && setReceivingPurchaseOrder(null)}
+          purchaseOrder={receivingPurchaseOrder}
+        />
+      )}
+    </div>
+  );
+}
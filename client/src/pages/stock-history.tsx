@@ -1,6 +1,6 @@
-import { useState, useMemo } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { TrendingUp, TrendingDown, RefreshCw, Package, QrCode, ShoppingCart, Truck, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { TrendingUp, TrendingDown, RefreshCw, Package, QrCode, ShoppingCart, Truck, ArrowUpDown, ArrowUp, ArrowDown, ShieldCheck } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -22,167 +22,140 @@ import {
 } from "@/components/ui/select";
 import { QRScannerDialog } from "@/components/qr-scanner-dialog";
 import { StockMovementDialog } from "@/components/stock-movement-dialog";
-import type { StockMovement, Product } from "@shared/schema";
+import { LedgerDriftDialog } from "@/components/ledger-drift-dialog";
+import { StockMovementsCard } from "@/components/stock-movements-card";
+import { LoadMore } from "@/components/load-more";
+import { usePagedList } from "@/hooks/use-paged-list";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Product,
+  LocationWithStock,
+  ProductFacets,
+  StockFigures,
+  ProductStockFigures,
+  StockFigureSortKey,
+  SortOrder,
+  OrderWithItems,
+  ReturnWithItems,
+} from "@shared/schema";
 import { format } from "date-fns";
 
-type SortField = "productName" | "sku" | "category" | "available" | "sold" | "returned";
-type SortOrder = "asc" | "desc";
+
+// An order's returns, fetched for that order alone
+function OrderReturnsHistory({ orderId }: { orderId: string }) {
+  const { data: returns = [] } = useQuery<ReturnWithItems[]>({
+    queryKey: ["/api/orders", orderId, "returns"],
+  });
+
+  if (returns.length === 0) return null;
+
+  return (
+    <div className="ml-16 space-y-3 pt-3 border-t">
+      <p className="text-sm font-medium text-muted-foreground">Associated Returns:</p>
+      {returns.map((ret) => (
+        <div key={ret.id} className="flex items-start gap-4 bg-muted/50 p-4 rounded-lg">
+          <div className="rounded-lg bg-background p-2 flex items-center justify-center flex-shrink-0">
+            <RefreshCw className="h-4 w-4 text-blue-600" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <div className="flex-1 min-w-0">
+                <h4 className="font-semibold">
+                  Return {ret.returnNumber}
+                </h4>
+                <p className="text-sm text-muted-foreground">
+                  Reason: {ret.reason}
+                </p>
+              </div>
+              <Badge variant="secondary">
+                Return
+              </Badge>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Total Items</p>
+                <p className="font-semibold">
+                  {ret.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Date</p>
+                <p className="font-semibold">
+                  {ret.createdAt && format(new Date(ret.createdAt), "MMM dd, yyyy HH:mm")}
+                </p>
+              </div>
+            </div>
+            {ret.items.length > 0 && (
+              <div className="mt-2">
+                <p className="text-sm text-muted-foreground mb-1">Products:</p>
+                <div className="space-y-1">
+                  {ret.items.map((item) => (
+                    <p key={item.id} className="text-sm">
+                      • {item.productName} - {item.quantity} units (SKU: {item.sku})
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function StockHistory() {
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [isStockDialogOpen, setIsStockDialogOpen] = useState(false);
+  const [isLedgerDialogOpen, setIsLedgerDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [sortField, setSortField] = useState<SortField>("productName");
+  const [sortField, setSortField] = useState<StockFigureSortKey>("productName");
   const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [locationFilter, setLocationFilter] = useState<string>("all");
 
-  const { data: movements = [], isLoading } = useQuery<StockMovement[]>({
-    queryKey: ["/api/stock-movements"],
-  });
+  const locationId = locationFilter === "all" ? undefined : locationFilter;
 
-  const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
   });
 
-  const { data: orders = [] } = useQuery<any[]>({
-    queryKey: ["/api/orders"],
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
   });
 
-  const { data: returns = [] } = useQuery<any[]>({
-    queryKey: ["/api/returns"],
+  const { data: statistics = { available: 0, sold: 0, returned: 0 } } = useQuery<StockFigures>({
+    queryKey: ["/api/stock-movements", "totals", locationId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/stock-movements/totals${locationId ? `?locationId=${locationId}` : ""}`);
+      return await res.json();
+    },
   });
 
-  // Calculate statistics
-  const statistics = useMemo(() => {
-    const totalSold = movements
-      .filter(m => m.type === "out" && m.reason === "sale")
-      .reduce((sum, m) => sum + m.quantity, 0);
-    
-    const totalReturned = movements
-      .filter(m => m.type === "in" && m.reason === "return")
-      .reduce((sum, m) => sum + m.quantity, 0);
-    
-    const totalAvailable = products.reduce((sum, p) => sum + p.stockQuantity, 0);
-
-    return {
-      available: totalAvailable,
-      sold: totalSold,
-      returned: totalReturned,
-    };
-  }, [movements, products]);
-
-  // Calculate per-product statistics
-  const productStats = useMemo(() => {
-    return products.map(product => {
-      const sold = movements
-        .filter(m => m.productId === product.id && m.type === "out" && m.reason === "sale")
-        .reduce((sum, m) => sum + m.quantity, 0);
-      
-      const returned = movements
-        .filter(m => m.productId === product.id && m.type === "in" && m.reason === "return")
-        .reduce((sum, m) => sum + m.quantity, 0);
-
-      return {
-        ...product,
-        sold,
-        returned,
-        available: product.stockQuantity,
-      };
-    });
-  }, [products, movements]);
-
-  // Get unique categories
-  const categories = useMemo(() => {
-    return ["all", ...new Set(products.map(p => p.category))];
-  }, [products]);
-
-  // Group orders with their returns
-  const groupedTransactions = useMemo(() => {
-    const transactions: any[] = [];
-
-    // Add all orders
-    orders.forEach(order => {
-      const orderReturns = returns.filter(ret => ret.orderId === order.id);
-      transactions.push({
-        type: 'order',
-        data: order,
-        returns: orderReturns,
-        date: order.createdAt,
-      });
-    });
-
-    // Add standalone returns (if any without order)
-    returns.forEach(ret => {
-      if (!ret.orderId) {
-        transactions.push({
-          type: 'return',
-          data: ret,
-          returns: [],
-          date: ret.createdAt,
-        });
-      }
-    });
-
-    return transactions.sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateB - dateA;
-    });
-  }, [orders, returns]);
-
-  // Filter and sort products
-  const filteredAndSortedProducts = useMemo(() => {
-    let filtered = productStats;
-
-    // Apply category filter
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter(p => p.category === categoryFilter);
-    }
-
-    // Apply sorting
-    return filtered.sort((a, b) => {
-      let aValue: string | number;
-      let bValue: string | number;
+  const {
+    items: productStats,
+    hasNextPage: hasMoreProducts,
+    isFetchingNextPage: isFetchingMoreProducts,
+    fetchNextPage: fetchMoreProducts,
+  } = usePagedList<ProductStockFigures>(["/api/stock-movements", "by-product"], {
+    locationId,
+    category: categoryFilter === "all" ? undefined : categoryFilter,
+    sort: sortField,
+    order: sortOrder,
+  });
 
-      switch (sortField) {
-        case "productName":
-          aValue = a.productName.toLowerCase();
-          bValue = b.productName.toLowerCase();
-          break;
-        case "sku":
-          aValue = a.sku.toLowerCase();
-          bValue = b.sku.toLowerCase();
-          break;
-        case "category":
-          aValue = a.category.toLowerCase();
-          bValue = b.category.toLowerCase();
-          break;
-        case "available":
-          aValue = a.available;
-          bValue = b.available;
-          break;
-        case "sold":
-          aValue = a.sold;
-          bValue = b.sold;
-          break;
-        case "returned":
-          aValue = a.returned;
-          bValue = b.returned;
-          break;
-        default:
-          aValue = a.productName.toLowerCase();
-          bValue = b.productName.toLowerCase();
-      }
+  const {
+    items: orders,
+    total: orderTotal,
+    isLoading,
+    hasNextPage: hasMoreOrders,
+    isFetchingNextPage: isFetchingMoreOrders,
+    fetchNextPage: fetchMoreOrders,
+  } = usePagedList<OrderWithItems>("/api/orders", {}, 20);
 
-      if (sortOrder === "asc") {
-        return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
-      } else {
-        return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
-      }
-    });
-  }, [productStats, categoryFilter, sortField, sortOrder]);
+  const categories = ["all", ...(facets?.categories ?? [])];
 
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: StockFigureSortKey) => {
     if (sortField === field) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
     } else {
@@ -191,7 +164,7 @@ export default function StockHistory() {
     }
   };
 
-  const SortIcon = ({ field }: { field: SortField }) => {
+  const SortIcon = ({ field }: { field: StockFigureSortKey }) => {
     if (sortField !== field) {
       return <ArrowUpDown className="h-4 w-4 ml-1" />;
     }
@@ -252,13 +225,23 @@ export default function StockHistory() {
                 Track all inventory movements and changes
               </p>
             </div>
-            <Button
-              onClick={() => setIsScannerOpen(true)}
-              data-testid="button-scan-for-stock"
-            >
-              <QrCode className="h-4 w-4 mr-2" />
-              Scan to Update Stock
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setIsLedgerDialogOpen(true)}
+                data-testid="button-verify-ledger"
+              >
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Verify Ledger
+              </Button>
+              <Button
+                onClick={() => setIsScannerOpen(true)}
+                data-testid="button-scan-for-stock"
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                Scan to Update Stock
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -279,7 +262,9 @@ export default function StockHistory() {
                   {statistics.available.toLocaleString()}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Total units in inventory
+                  {locationFilter === "all"
+                    ? "Total units in inventory"
+                    : `Units at ${locations.find(l => l.id === locationFilter)?.name ?? "this location"}`}
                 </p>
               </CardContent>
             </Card>
@@ -324,7 +309,21 @@ export default function StockHistory() {
             <CardHeader>
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                 <CardTitle>Product Stock Overview</CardTitle>
-                <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm text-muted-foreground">Location:</span>
+                  <Select value={locationFilter} onValueChange={setLocationFilter}>
+                    <SelectTrigger className="w-[180px]" data-testid="select-location-filter">
+                      <SelectValue placeholder="All Locations" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Locations</SelectItem>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <span className="text-sm text-muted-foreground">Category:</span>
                   <Select value={categoryFilter} onValueChange={setCategoryFilter}>
                     <SelectTrigger className="w-[180px]">
@@ -409,14 +408,14 @@ export default function StockHistory() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredAndSortedProducts.length === 0 ? (
+                    {productStats.length === 0 ? (
                       <TableRow>
                         <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                           No products found
                         </TableCell>
                       </TableRow>
                     ) : (
-                      filteredAndSortedProducts.map((product) => (
+                      productStats.map((product) => (
                         <TableRow key={product.id} className="cursor-pointer hover:bg-muted/50">
                           <TableCell className="font-medium">{product.productName}</TableCell>
                           <TableCell className="font-mono text-sm">{product.sku}</TableCell>
@@ -446,14 +445,21 @@ export default function StockHistory() {
                   </TableBody>
                 </Table>
               </div>
+              <LoadMore
+                hasNextPage={hasMoreProducts}
+                isFetchingNextPage={isFetchingMoreProducts}
+                fetchNextPage={fetchMoreProducts}
+              />
             </CardContent>
           </Card>
 
+          <StockMovementsCard locationId={locationId} />
+
           {/* Stock Movement History */}
           <div className="mb-4">
             <h2 className="text-xl font-semibold mb-2">Order & Return History</h2>
             <p className="text-sm text-muted-foreground" data-testid="text-movement-count">
-              {groupedTransactions.length} {groupedTransactions.length === 1 ? "transaction" : "transactions"}
+              Showing {orders.length} of {orderTotal} {orderTotal === 1 ? "order" : "orders"}
             </p>
           </div>
 
@@ -467,7 +473,7 @@ export default function StockHistory() {
                 </Card>
               ))}
             </div>
-          ) : groupedTransactions.length === 0 ? (
+          ) : orders.length === 0 ? (
             <Card className="border-dashed">
               <CardContent className="flex flex-col items-center justify-center py-16 text-center">
                 <div className="rounded-full bg-muted p-6 mb-4">
@@ -483,173 +489,71 @@ export default function StockHistory() {
             </Card>
           ) : (
             <div className="flex flex-col gap-4">
-              {groupedTransactions.map((transaction, idx) => {
-                const isOrder = transaction.type === 'order';
-                const order = isOrder ? transaction.data : null;
-                const returnData = !isOrder ? transaction.data : null;
-                
-                return (
-                  <Card key={`${transaction.type}-${isOrder ? order?.id : returnData?.id}-${idx}`} className="hover-elevate">
-                    <CardContent className="p-6">
-                      {isOrder && order ? (
-                        <div className="space-y-4">
-                          <div className="flex items-start gap-4">
-                            <div className="rounded-lg bg-muted p-3 flex items-center justify-center flex-shrink-0">
-                              <ShoppingCart className="h-5 w-5 text-blue-600" />
-                            </div>
+              {orders.map((order) => (
+                <Card key={order.id} className="hover-elevate">
+                  <CardContent className="p-6">
+                    <div className="space-y-4">
+                      <div className="flex items-start gap-4">
+                        <div className="rounded-lg bg-muted p-3 flex items-center justify-center flex-shrink-0">
+                          <ShoppingCart className="h-5 w-5 text-blue-600" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-4 mb-2">
                             <div className="flex-1 min-w-0">
-                              <div className="flex items-start justify-between gap-4 mb-2">
-                                <div className="flex-1 min-w-0">
-                                  <h3 className="font-semibold text-lg">
-                                    Order {order.orderNumber}
-                                  </h3>
-                                  <p className="text-sm text-muted-foreground">
-                                    Customer: {order.customerName}
-                                  </p>
-                                </div>
-                                <Badge variant="default">
-                                  Order
-                                </Badge>
-                              </div>
-                              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
-                                <div>
-                                  <p className="text-sm text-muted-foreground">Total Items</p>
-                                  <p className="font-semibold">
-                                    {order.items?.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0} units
-                                  </p>
-                                </div>
-                                <div>
-                                  <p className="text-sm text-muted-foreground">Status</p>
-                                  <p className="font-semibold capitalize">{order.status}</p>
-                                </div>
-                                <div>
-                                  <p className="text-sm text-muted-foreground">Date</p>
-                                  <p className="font-semibold">
-                                    {order.createdAt && format(new Date(order.createdAt), "MMM dd, yyyy HH:mm")}
-                                  </p>
-                                </div>
-                              </div>
-                              {order.items && order.items.length > 0 && (
-                                <div className="mt-3 pt-3 border-t">
-                                  <p className="text-sm text-muted-foreground mb-2">Products:</p>
-                                  <div className="space-y-1">
-                                    {order.items.map((item: any, itemIdx: number) => (
-                                      <p key={itemIdx} className="text-sm">
-                                        • {item.productName} - {item.quantity} units (SKU: {item.sku})
-                                      </p>
-                                    ))}
-                                  </div>
-                                </div>
-                              )}
+                              <h3 className="font-semibold text-lg">
+                                Order {order.orderNumber}
+                              </h3>
+                              <p className="text-sm text-muted-foreground">
+                                Customer: {order.customerName}
+                              </p>
                             </div>
+                            <Badge variant="default">
+                              Order
+                            </Badge>
                           </div>
-                          
-                          {transaction.returns.length > 0 && (
-                            <div className="ml-16 space-y-3 pt-3 border-t">
-                              <p className="text-sm font-medium text-muted-foreground">Associated Returns:</p>
-                              {transaction.returns.map((ret: any, retIdx: number) => (
-                                <div key={retIdx} className="flex items-start gap-4 bg-muted/50 p-4 rounded-lg">
-                                  <div className="rounded-lg bg-background p-2 flex items-center justify-center flex-shrink-0">
-                                    <RefreshCw className="h-4 w-4 text-blue-600" />
-                                  </div>
-                                  <div className="flex-1 min-w-0">
-                                    <div className="flex items-start justify-between gap-4 mb-2">
-                                      <div className="flex-1 min-w-0">
-                                        <h4 className="font-semibold">
-                                          Return {ret.returnNumber}
-                                        </h4>
-                                        <p className="text-sm text-muted-foreground">
-                                          Reason: {ret.reason}
-                                        </p>
-                                      </div>
-                                      <Badge variant="secondary">
-                                        Return
-                                      </Badge>
-                                    </div>
-                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
-                                      <div>
-                                        <p className="text-sm text-muted-foreground">Total Items</p>
-                                        <p className="font-semibold">
-                                          {ret.items?.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0} units
-                                        </p>
-                                      </div>
-                                      <div>
-                                        <p className="text-sm text-muted-foreground">Date</p>
-                                        <p className="font-semibold">
-                                          {ret.createdAt && format(new Date(ret.createdAt), "MMM dd, yyyy HH:mm")}
-                                        </p>
-                                      </div>
-                                    </div>
-                                    {ret.items && ret.items.length > 0 && (
-                                      <div className="mt-2">
-                                        <p className="text-sm text-muted-foreground mb-1">Products:</p>
-                                        <div className="space-y-1">
-                                          {ret.items.map((item: any, itemIdx: number) => (
-                                            <p key={itemIdx} className="text-sm">
-                                              • {item.productName} - {item.quantity} units (SKU: {item.sku})
-                                            </p>
-                                          ))}
-                                        </div>
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              ))}
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                            <div>
+                              <p className="text-sm text-muted-foreground">Total Items</p>
+                              <p className="font-semibold">
+                                {order.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                              </p>
                             </div>
-                          )}
-                        </div>
-                      ) : returnData ? (
-                        <div className="flex items-start gap-4">
-                          <div className="rounded-lg bg-muted p-3 flex items-center justify-center flex-shrink-0">
-                            <RefreshCw className="h-5 w-5 text-blue-600" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-start justify-between gap-4 mb-2">
-                              <div className="flex-1 min-w-0">
-                                <h3 className="font-semibold text-lg">
-                                  Return {returnData.returnNumber}
-                                </h3>
-                                <p className="text-sm text-muted-foreground">
-                                  Reason: {returnData.reason}
-                                </p>
-                              </div>
-                              <Badge variant="secondary">
-                                Standalone Return
-                              </Badge>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Status</p>
+                              <p className="font-semibold capitalize">{order.status}</p>
                             </div>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                              <div>
-                                <p className="text-sm text-muted-foreground">Total Items</p>
-                                <p className="font-semibold">
-                                  {returnData.items?.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0} units
-                                </p>
-                              </div>
-                              <div>
-                                <p className="text-sm text-muted-foreground">Date</p>
-                                <p className="font-semibold">
-                                  {returnData.createdAt && format(new Date(returnData.createdAt), "MMM dd, yyyy HH:mm")}
-                                </p>
-                              </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Date</p>
+                              <p className="font-semibold">
+                                {order.createdAt && format(new Date(order.createdAt), "MMM dd, yyyy HH:mm")}
+                              </p>
                             </div>
-                            {returnData.items && returnData.items.length > 0 && (
-                              <div className="mt-3 pt-3 border-t">
-                                <p className="text-sm text-muted-foreground mb-2">Products:</p>
-                                <div className="space-y-1">
-                                  {returnData.items.map((item: any, itemIdx: number) => (
-                                    <p key={itemIdx} className="text-sm">
-                                      • {item.productName} - {item.quantity} units (SKU: {item.sku})
-                                    </p>
-                                  ))}
-                                </div>
-                              </div>
-                            )}
                           </div>
+                          {order.items.length > 0 && (
+                            <div className="mt-3 pt-3 border-t">
+                              <p className="text-sm text-muted-foreground mb-2">Products:</p>
+                              <div className="space-y-1">
+                                {order.items.map((item) => (
+                                  <p key={item.id} className="text-sm">
+                                    • {item.productName} - {item.quantity} units (SKU: {item.sku})
+                                  </p>
+                                ))}
+                              </div>
+                            </div>
+                          )}
                         </div>
-                      ) : null}
-                    </CardContent>
-                  </Card>
-                );
-              })}
+                      </div>
+
+                      <OrderReturnsHistory orderId={order.id} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+              <LoadMore
+                hasNextPage={hasMoreOrders}
+                isFetchingNextPage={isFetchingMoreOrders}
+                fetchNextPage={fetchMoreOrders}
+              />
             </div>
           )}
         </div>
@@ -673,6 +577,7 @@ export default function StockHistory() {
           product={selectedProduct}
         />
       )}
+      <LedgerDriftDialog open={isLedgerDialogOpen} onOpenChange={setIsLedgerDialogOpen} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ClipboardCheck, Eye, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LocationWithStock, StocktakeStatus, StocktakeWithItems } from "@shared/schema";
+import { StocktakeDialog } from "@/components/stocktake-dialog";
+import { StocktakeCountDialog } from "@/components/stocktake-count-dialog";
+
+const stocktakeStatusColors: Record<StocktakeStatus, string> = {
+  open: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  posted: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+  cancelled: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
+};
+
+const stocktakeStatusLabels: Record<StocktakeStatus, string> = {
+  open: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+export default function Stocktakes() {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [countingId, setCountingId] = useState<string | null>(null);
+
+  const { data: stocktakes = [], isLoading } = useQuery<StocktakeWithItems[]>({
+    queryKey: ["/api/stocktakes"],
+  });
+
+  const { data: locations = [] } = useQuery<LocationWithStock[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name ?? "Unknown";
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                Stocktakes
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Count physical stock and reconcile it with the system
+              </p>
+            </div>
+            <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-stocktake">
+              <Plus className="h-4 w-4 mr-2" />
+              New Stocktake
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sessions</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : stocktakes.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <ClipboardCheck className="h-10 w-10 text-muted-foreground mb-3" />
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-stocktakes">
+                    No stocktakes yet
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stocktake</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Variances</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stocktakes.map((stocktake) => {
+                      const status = stocktake.status as StocktakeStatus;
+                      const counted = stocktake.items.filter((item) => item.countedQuantity !== null);
+                      const variances = counted.filter((item) => item.countedQuantity !== item.systemQuantity).length;
+
+                      return (
+                        <TableRow key={stocktake.id} data-testid={`row-stocktake-${stocktake.id}`}>
+                          <TableCell>
+                            <div className="font-mono text-sm">{stocktake.stocktakeNumber}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {stocktake.createdAt && format(new Date(stocktake.createdAt), "MMM dd, yyyy")}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{locationName(stocktake.locationId)}</TableCell>
+                          <TableCell className="text-sm">{stocktake.category ?? "All Categories"}</TableCell>
+                          <TableCell className="text-right">
+                            {counted.length} / {stocktake.items.length}
+                          </TableCell>
+                          <TableCell className="text-right">{variances}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={stocktakeStatusColors[status]}>
+                              {stocktakeStatusLabels[status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setCountingId(stocktake.id)}
+                              title={status === "open" ? "Count" : "View"}
+                              data-testid={`button-open-stocktake-${stocktake.id}`}
+                            >
+                              {status === "open" ? <ClipboardCheck className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <StocktakeDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        onCreated={(stocktake) => setCountingId(stocktake.id)}
+      />
+
+      {countingId && (
+        <StocktakeCountDialog
+          open={!!countingId}
+          onOpenChange={(open) => !open && setCountingId(null)}
+          stocktakeId={countingId}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Trash2, Search, Ticket, ShoppingCart } from "lucide-react";
+import { Ban, Search, Ticket, ShoppingCart, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -15,36 +15,39 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { DiscountCode } from "@shared/schema";
+import type { DiscountCodeWithBalance } from "@shared/schema";
 import { format } from "date-fns";
 import { CreateOrderDialog } from "@/components/create-order-dialog";
 import { UseCreditDialog } from "@/components/use-credit-dialog";
+import { CreditHistorySheet } from "@/components/credit-history-sheet";
 
 export default function StoreCredits() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCredit, setSelectedCredit] = useState<DiscountCode | null>(null);
+  const [selectedCredit, setSelectedCredit] = useState<DiscountCodeWithBalance | null>(null);
   const [useCreditDialogOpen, setUseCreditDialogOpen] = useState(false);
+  const [historyCredit, setHistoryCredit] = useState<DiscountCodeWithBalance | null>(null);
   const { toast } = useToast();
 
-  const { data: discountCodes = [], isLoading } = useQuery<DiscountCode[]>({
+  const { data: discountCodes = [], isLoading } = useQuery<DiscountCodeWithBalance[]>({
     queryKey: ["/api/discount-codes"],
   });
 
-  const deleteMutation = useMutation({
+  // Voiding writes off the remaining balance but keeps the code and its history
+  const voidMutation = useMutation({
     mutationFn: async (id: string) => {
       return await apiRequest("DELETE", `/api/discount-codes/${id}`, {});
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/discount-codes"] });
       toast({
-        title: "Deleted",
-        description: "Store credit has been deleted successfully",
+        title: "Voided",
+        description: "Store credit has been voided",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete store credit",
+        description: error.message || "Failed to void store credit",
         variant: "destructive",
       });
     },
@@ -57,8 +60,8 @@ export default function StoreCredits() {
     return matchesSearch;
   });
 
-  const unusedCodes = filteredCodes.filter((code) => !code.isUsed);
-  const usedCodes = filteredCodes.filter((code) => code.isUsed);
+  const unusedCodes = filteredCodes.filter((code) => !code.isUsed && !code.voidedAt && !code.expiredAt);
+  const usedCodes = filteredCodes.filter((code) => code.isUsed || code.voidedAt || code.expiredAt);
 
   return (
     <div className="flex flex-col h-full">
@@ -127,7 +130,7 @@ export default function StoreCredits() {
                         <TableRow>
                           <TableHead>Customer Email</TableHead>
                           <TableHead>Code</TableHead>
-                          <TableHead>Credit Amount</TableHead>
+                          <TableHead>Balance</TableHead>
                           <TableHead>Issued Date</TableHead>
                           <TableHead>Expires</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
@@ -144,8 +147,15 @@ export default function StoreCredits() {
                                 {code.code}
                               </code>
                             </TableCell>
-                            <TableCell className="text-green-600 font-semibold">
-                              ${parseFloat(code.amount).toFixed(2)}
+                            <TableCell>
+                              <span className="text-green-600 font-semibold">
+                                ${parseFloat(code.balance).toFixed(2)}
+                              </span>
+                              {code.balance !== code.amount && (
+                                <span className="text-xs text-muted-foreground ml-2">
+                                  of ${parseFloat(code.amount).toFixed(2)}
+                                </span>
+                              )}
                             </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
                               {code.createdAt
@@ -173,10 +183,21 @@ export default function StoreCredits() {
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => deleteMutation.mutate(code.id)}
-                                  disabled={deleteMutation.isPending}
+                                  onClick={() => setHistoryCredit(code)}
+                                  title="History"
+                                  data-testid={`button-credit-history-${code.id}`}
                                 >
-                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                  <History className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => voidMutation.mutate(code.id)}
+                                  disabled={voidMutation.isPending}
+                                  title="Void"
+                                  data-testid={`button-void-credit-${code.id}`}
+                                >
+                                  <Ban className="h-4 w-4 text-destructive" />
                                 </Button>
                               </div>
                             </TableCell>
@@ -194,7 +215,7 @@ export default function StoreCredits() {
                 <div className="flex items-center gap-2 mb-4">
                   <Ticket className="h-5 w-5 text-muted-foreground" />
                   <h2 className="text-xl font-semibold text-muted-foreground">
-                    Used Store Credits
+                    Used, Voided & Expired Store Credits
                   </h2>
                   <span className="text-sm text-muted-foreground">
                     ({usedCodes.length})
@@ -210,7 +231,7 @@ export default function StoreCredits() {
                           <TableHead>Code</TableHead>
                           <TableHead>Credit Amount</TableHead>
                           <TableHead>Issued Date</TableHead>
-                          <TableHead>Used Date</TableHead>
+                          <TableHead>Used / Voided / Expired</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -234,18 +255,23 @@ export default function StoreCredits() {
                                 : "-"}
                             </TableCell>
                             <TableCell className="text-sm text-muted-foreground">
-                              {code.usedAt
-                                ? format(new Date(code.usedAt), "MMM dd, yyyy")
-                                : "-"}
+                              {code.voidedAt
+                                ? `Voided ${format(new Date(code.voidedAt), "MMM dd, yyyy")}`
+                                : code.expiredAt
+                                  ? `Expired ${format(new Date(code.expiredAt), "MMM dd, yyyy")}`
+                                  : code.usedAt
+                                    ? format(new Date(code.usedAt), "MMM dd, yyyy")
+                                    : "-"}
                             </TableCell>
                             <TableCell className="text-right">
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => deleteMutation.mutate(code.id)}
-                                disabled={deleteMutation.isPending}
+                                onClick={() => setHistoryCredit(code)}
+                                title="History"
+                                data-testid={`button-credit-history-${code.id}`}
                               >
-                                <Trash2 className="h-4 w-4 text-destructive" />
+                                <History className="h-4 w-4" />
                               </Button>
                             </TableCell>
                           </TableRow>
@@ -265,6 +291,12 @@ export default function StoreCredits() {
         onOpenChange={setUseCreditDialogOpen}
         credit={selectedCredit}
       />
+
+      <CreditHistorySheet
+        open={!!historyCredit}
+        onOpenChange={(open) => !open && setHistoryCredit(null)}
+        credit={historyCredit}
+      />
     </div>
   );
 }
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Pencil, Plus, Receipt, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { TaxClassWithRates, TaxSettings } from "@shared/schema";
+import { TaxClassDialog } from "@/components/tax-class-dialog";
+
+export default function Taxes() {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingClass, setEditingClass] = useState<TaxClassWithRates | null>(null);
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<TaxSettings>({
+    queryKey: ["/api/tax-settings"],
+  });
+
+  const { data: taxClasses = [], isLoading } = useQuery<TaxClassWithRates[]>({
+    queryKey: ["/api/tax-classes"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/tax-classes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-classes"] });
+      toast({
+        title: "Deleted",
+        description: "Tax class has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete tax class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+                Taxes
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Tax rates by product category and jurisdiction
+              </p>
+            </div>
+            <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-tax-class">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tax Class
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-muted/30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          {settings && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Store Settings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p data-testid="text-tax-jurisdiction">
+                  Orders are taxed in <span className="font-mono font-semibold">{settings.jurisdiction}</span> unless
+                  another jurisdiction is chosen for them.
+                </p>
+                <p className="text-muted-foreground" data-testid="text-tax-pricing">
+                  {settings.pricesIncludeTax
+                    ? "Product prices include tax."
+                    : "Tax is added on top of product prices."}{" "}
+                  Both are set in the server's environment.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <p className="text-center text-muted-foreground p-6">Loading...</p>
+              ) : taxClasses.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Receipt className="h-10 w-10 text-muted-foreground mb-3" />
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-tax-classes">
+                    No tax classes yet; orders are not taxed
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Categories</TableHead>
+                      <TableHead>Rates</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxClasses.map((taxClass) => (
+                      <TableRow key={taxClass.id} className="align-top" data-testid={`row-tax-class-${taxClass.id}`}>
+                        <TableCell className="font-medium">{taxClass.name}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 flex-wrap">
+                            {taxClass.categories.length === 0 ? (
+                              <span className="text-sm text-muted-foreground">-</span>
+                            ) : (
+                              taxClass.categories.map((category) => (
+                                <Badge key={category} variant="secondary">
+                                  {category}
+                                </Badge>
+                              ))
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {taxClass.rates.length === 0 ? (
+                            <span className="text-muted-foreground">Not taxed</span>
+                          ) : (
+                            taxClass.rates.map((rate) => (
+                              <div key={rate.id}>
+                                <span className="font-mono">{rate.jurisdiction}</span> {rate.name}{" "}
+                                {parseFloat(rate.rate)}%
+                              </div>
+                            ))
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingClass(taxClass)}
+                              title="Edit"
+                              data-testid={`button-edit-tax-class-${taxClass.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(taxClass.id)}
+                              disabled={deleteMutation.isPending}
+                              title="Delete"
+                              data-testid={`button-delete-tax-class-${taxClass.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <TaxClassDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} taxClasses={taxClasses} />
+
+      <TaxClassDialog
+        open={!!editingClass}
+        onOpenChange={(open) => !open && setEditingClass(null)}
+        taxClass={editingClass ?? undefined}
+        taxClasses={taxClasses}
+      />
+    </div>
+  );
+}
@@ -11,4 +11,6 @@ export default defineConfig({
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
+  // Login sessions live in a table connect-pg-simple manages itself
+  tablesFilter: ["!session"],
 });
@@ -0,0 +1,68 @@
+import type { Request } from "express";
+import { storage, type IStorage } from "./storage";
+import type { AuditAction, AuditChanges, AuditEntityType } from "@shared/schema";
+
+type Snapshot = object | null | undefined;
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string | null;
+  action: AuditAction;
+  before?: Snapshot;
+  after?: Snapshot;
+}
+
+// Set by the database rather than by anyone's change
+const ignoredFields = new Set(["id", "createdAt"]);
+
+// Compared through JSON, so dates, decimals and nested items such as an
+// order's lines count as changed only when their stored form differs
+export function auditChanges(before: Snapshot, after: Snapshot): AuditChanges {
+  const previous = JSON.parse(JSON.stringify(before ?? {})) as Record<string, unknown>;
+  const next = JSON.parse(JSON.stringify(after ?? {})) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  for (const field of fields) {
+    if (ignoredFields.has(field)) continue;
+    const before = previous[field] ?? null;
+    const after = next[field] ?? null;
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+    changes[field] = { before, after };
+  }
+  return changes;
+}
+
+// Makes a change through `change` and records it as the signed-in user in
+// one transaction, so the change and its audit events are saved together or
+// not at all. `change` works through the storage it is handed and passes
+// what it did to `record`; a "before" snapshot is read there after
+// `lockEntity`, so it is the state the change was made to. Updates that
+// changed nothing are left out.
+export async function audited<T>(
+  req: Request,
+  change: (store: IStorage, record: (...entries: AuditEntry[]) => void) => Promise<T>
+): Promise<T> {
+  const actorId = req.user?.id ?? null;
+  const actorName = req.user?.displayName ?? "System";
+
+  return storage.transaction(async (store) => {
+    const entries: AuditEntry[] = [];
+    const result = await change(store, (...recorded) => entries.push(...recorded));
+
+    const events = entries
+      .map((entry) => ({
+        actorId,
+        actorName,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        entityLabel: entry.entityLabel ?? null,
+        action: entry.action,
+        changes: auditChanges(entry.before, entry.after),
+      }))
+      .filter((event) => event.action !== "update" || Object.keys(event.changes).length > 0);
+    await store.createAuditEvents(events);
+    return result;
+  });
+}
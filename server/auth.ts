@@ -0,0 +1,232 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { pool } from "./db";
+import { storage, StorageError } from "./storage";
+import { audited } from "./audit";
+import { readInteger } from "./env";
+import {
+  hasPermission,
+  loginSchema,
+  setupOwnerSchema,
+  type Login,
+  type Permission,
+  type User as AppUser,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends AppUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const keyLength = 64;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, keyLength)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, keyLength)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Sessions are kept in Postgres alongside everything else when there is a
+// database, and in memory otherwise, like the storage itself
+function sessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Sessions won't survive a restart, which is fine while developing
+  return randomBytes(32).toString("hex");
+}
+
+// 401 for anyone not signed in, 403 for those whose role doesn't allow it
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Sign in to continue" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
+
+// Who signs off on something that needs `permission`: the signed-in user
+// when their role has it, otherwise a manager who enters their own username
+// and password at the till. Null when nobody has.
+export async function approvingUser(
+  req: Request,
+  permission: Permission,
+  approval?: Login
+): Promise<AppUser | null> {
+  if (req.user && hasPermission(req.user.role, permission)) return req.user;
+  if (!approval) return null;
+
+  const credentials = await storage.getUserCredentials(approval.username);
+  if (!credentials || !credentials.active || !(await verifyPassword(approval.password, credentials.passwordHash))) {
+    throw new StorageError("Incorrect manager username or password", 403, { approvalRequired: true });
+  }
+  if (!hasPermission(credentials.role, permission)) {
+    throw new StorageError(`${credentials.displayName} can't approve this`, 403, { approvalRequired: true });
+  }
+  const { passwordHash: _passwordHash, ...user } = credentials;
+  return user;
+}
+
+export function setupAuth(app: Express): void {
+  // X-Forwarded-* headers are only believed from as many proxies as
+  // TRUST_PROXY says sit in front of the app. Behind a proxy that ends TLS
+  // it has to be set, or production's secure session cookie is never sent.
+  const trustedProxies = readInteger("TRUST_PROXY", 0);
+  if (trustedProxies > 0) {
+    app.set("trust proxy", trustedProxies);
+  }
+  app.use(
+    session({
+      secret: sessionSecret(),
+      store: sessionStore(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    })
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const credentials = await storage.getUserCredentials(username.trim().toLowerCase());
+        if (!credentials || !credentials.active || !(await verifyPassword(password, credentials.passwordHash))) {
+          return done(null, false);
+        }
+        const { passwordHash: _passwordHash, ...user } = credentials;
+        done(null, user);
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  // A user deactivated while signed in is signed out on their next request
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user?.active ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.get("/api/auth/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    req.body = parsed.data;
+
+    passport.authenticate("local", (error: unknown, user: AppUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Incorrect username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  // Until the first account exists nobody can sign in, so whoever opens the
+  // app first creates it, as the owner
+  app.get("/api/auth/setup", async (_req, res) => {
+    try {
+      const count = await storage.countUsers();
+      res.json({ required: count === 0 });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check setup" });
+    }
+  });
+
+  app.post("/api/auth/setup", async (req, res, next) => {
+    try {
+      const parsed = setupOwnerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { password, ...owner } = parsed.data;
+      const passwordHash = await hashPassword(password);
+      const user = await audited(req, async (store, record) => {
+        const after = await store.createOwner({ ...owner, passwordHash });
+        if (after) {
+          record({
+            entityType: "user",
+            entityId: after.id,
+            entityLabel: after.username,
+            action: "create",
+            after,
+          });
+        }
+        return after;
+      });
+      if (!user) {
+        return res.status(409).json({ error: "Setup is already complete" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create the owner account" });
+    }
+  });
+}
@@ -0,0 +1,26 @@
+import { storage } from "./storage";
+import { creditPolicy } from "./credit-policy";
+import { log } from "./vite";
+
+// Periodically writes off the balance of store credit that has expired.
+// Runs once at startup and then every STORE_CREDIT_EXPIRY_CHECK_MINUTES.
+export function startCreditExpiryJob(): NodeJS.Timeout | null {
+  if (creditPolicy.checkIntervalMinutes === 0) return null;
+
+  const run = async () => {
+    try {
+      const expired = await storage.expireDiscountCodes();
+      if (expired.length > 0) {
+        log(`expired ${expired.length} store credit code(s)`, "credit-expiry");
+      }
+    } catch (error) {
+      console.error("Store credit expiry check failed:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, creditPolicy.checkIntervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for the sweep
+  timer.unref();
+  return timer;
+}
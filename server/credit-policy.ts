@@ -0,0 +1,29 @@
+import { readInteger } from './env';
+
+export const creditPolicy = {
+  // How long new credit stays valid; 0 means it never expires
+  expiryMonths: readInteger('STORE_CREDIT_EXPIRY_MONTHS', 6),
+  // Days past expiry a credit is still honoured
+  graceDays: readInteger('STORE_CREDIT_GRACE_DAYS', 0),
+  // How often expired credit is swept
+  checkIntervalMinutes: readInteger('STORE_CREDIT_EXPIRY_CHECK_MINUTES', 60),
+};
+
+// Expiry date for credit issued at `issuedAt`, or null when credit never expires
+export function creditExpiryDate(issuedAt: Date = new Date()): Date | null {
+  if (creditPolicy.expiryMonths === 0) return null;
+
+  const expiresAt = new Date(issuedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + creditPolicy.expiryMonths);
+  return expiresAt;
+}
+
+// Whether credit with this expiry date can no longer be redeemed, once the
+// grace period has run out
+export function isCreditExpired(expiresAt: Date | string | null, now: Date = new Date()): boolean {
+  if (!expiresAt) return false;
+
+  const cutoff = new Date(expiresAt);
+  cutoff.setDate(cutoff.getDate() + creditPolicy.graceDays);
+  return cutoff.getTime() <= now.getTime();
+}
@@ -1,28 +1,15 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from 'ws';
+import * as schema from '@shared/schema';
 
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+neonConfig.webSocketConstructor = ws;
 
-// For development, we'll use a local in-memory database simulation
-// In production, this would connect to a real Neon database
+// The database is optional in development: without DATABASE_URL the app
+// falls back to the in-memory storage (see server/storage.ts).
+// The pooled (websocket) driver is used instead of neon-http because the
+// storage layer relies on interactive transactions.
 const connectionString = process.env.DATABASE_URL || '';
 
-let sql: ReturnType<typeof neon>;
-let db: ReturnType<typeof drizzle>;
-
-if (connectionString) {
-  sql = neon(connectionString);
-  db = drizzle(sql);
-} else {
-  // Fallback for development without a database
-  // This creates a minimal mock that allows the app to run
-  const mockSql = (() => {
-    const mock: any = async () => ({ rows: [] });
-    mock.transaction = async (cb: any) => cb(mock);
-    return mock;
-  })();
-  
-  sql = mockSql as any;
-  db = drizzle(mockSql as any);
-}
-
-export { db, sql };
+export const pool = connectionString ? new Pool({ connectionString }) : null;
+export const db = pool ? drizzle({ client: pool, schema }) : null;
@@ -0,0 +1,13 @@
+import { readNumber } from './env';
+
+export const discountPolicy = {
+  // Largest manual discount, as a share of an order's value at list price,
+  // given without a manager's approval
+  approvalLimitPercent: readNumber('DISCOUNT_APPROVAL_LIMIT_PERCENT', 10),
+};
+
+// Whether discounts worth `discountCents` off an order worth `listCents`
+// need a manager to approve them
+export function discountNeedsApproval(listCents: number, discountCents: number): boolean {
+  return discountCents * 100 > listCents * discountPolicy.approvalLimitPercent;
+}
@@ -17,7 +17,7 @@ export class EmailService {
     });
   }
 
-  async sendDiscountCode(email: string, code: string, amount: string, expiresAt: Date) {
+  async sendDiscountCode(email: string, code: string, amount: string, expiresAt: Date | null) {
     const mailOptions = {
       from: process.env.SMTP_FROM || 'noreply@inventory.com',
       to: email,
@@ -31,7 +31,7 @@ export class EmailService {
             <h3 style="margin: 0; color: #555;">Your Discount Code</h3>
             <p style="font-size: 24px; font-weight: bold; color: #4CAF50; margin: 10px 0;">${code}</p>
             <p style="margin: 5px 0;"><strong>Credit Amount:</strong> $${amount}</p>
-            <p style="margin: 5px 0;"><strong>Expires:</strong> ${new Date(expiresAt).toLocaleDateString()}</p>
+            <p style="margin: 5px 0;"><strong>Expires:</strong> ${expiresAt ? new Date(expiresAt).toLocaleDateString() : 'Never'}</p>
           </div>
           
           <p>Use this code at checkout to apply your store credit to your next purchase.</p>
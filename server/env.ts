@@ -0,0 +1,24 @@
+// Settings read from the environment. A variable that is unset, blank or
+// can't be read as the expected kind of value falls back to the default.
+
+export function readInteger(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function readNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function readString(name: string, fallback: string): string {
+  return (process.env[name] || '').trim() || fallback;
+}
+
+// 'true'/'1' and 'false'/'0', in any case
+export function readBoolean(name: string, fallback: boolean): boolean {
+  const value = (process.env[name] || '').trim().toLowerCase();
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return fallback;
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startCreditExpiryJob } from "./credit-expiry";
+import { migrateStockMovements } from "./movement-migrations";
 
 const app = express();
 
@@ -77,5 +79,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    void migrateStockMovements();
+    startCreditExpiryJob();
   });
 })();
@@ -0,0 +1,21 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Brings stock movements recorded by earlier versions up to date: free-text
+// reasons become reason codes, then movements whose notes name an order,
+// return, purchase order, transfer or stocktake are linked to it. Runs once
+// at startup; movements that are already current are left alone.
+export async function migrateStockMovements(): Promise<void> {
+  try {
+    const migrated = await storage.migrateMovementReasons();
+    if (migrated > 0) {
+      log(`migrated ${migrated} stock movement reason(s) to reason codes`, "movement-migrations");
+    }
+    const linked = await storage.linkMovementSources();
+    if (linked > 0) {
+      log(`linked ${linked} stock movement(s) to their source documents`, "movement-migrations");
+    }
+  } catch (error) {
+    console.error("Stock movement migration failed:", error);
+  }
+}
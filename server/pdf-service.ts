@@ -1,6 +1,6 @@
 
 import PDFDocument from 'pdfkit';
-import type { OrderWithItems, ReturnWithItems } from '@shared/schema';
+import { fromCents, toCents, type OrderWithItems, type ReturnWithItems } from '@shared/schema';
 
 export class PDFService {
   async generateReturnInvoice(returnData: ReturnWithItems, order: OrderWithItems): Promise<Buffer> {
@@ -106,6 +106,12 @@ export class PDFService {
         doc.text(`$${totalReturnValue.toFixed(2)}`, 480, yPosition, { align: 'right' });
         yPosition += 20;
 
+        // Returned items come back at what was paid for them, tax included
+        const taxJurisdiction = order.taxJurisdiction ? ` (${order.taxJurisdiction})` : '';
+        doc.text(`Tax included${taxJurisdiction}:`, 320, yPosition);
+        doc.text(`$${returnData.taxAmount}`, 480, yPosition, { align: 'right' });
+        yPosition += 20;
+
         if (returnData.exchangeValue && parseFloat(returnData.exchangeValue) > 0) {
           doc.text('Exchange Value:', 320, yPosition);
           doc.text(`$${returnData.exchangeValue}`, 480, yPosition, { align: 'right' });
@@ -121,6 +127,18 @@ export class PDFService {
           } else if (returnData.additionalPayment && parseFloat(returnData.additionalPayment) > 0) {
             doc.text('Additional Payment:', 320, yPosition);
             doc.text(`$${returnData.additionalPayment}`, 480, yPosition, { align: 'right' });
+            yPosition += 18;
+            doc.fontSize(10).font('Helvetica');
+            doc.text(
+              returnData.paymentStatus === 'paid'
+                ? `Paid${returnData.paymentMethod ? ` (${returnData.paymentMethod.replace('_', ' ')})` : ''}`
+                : 'Payment pending',
+              320,
+              yPosition
+            );
+          } else if (returnData.creditAmount && parseFloat(returnData.creditAmount) > 0) {
+            doc.text('Store Credit:', 320, yPosition);
+            doc.text(`$${returnData.creditAmount}`, 480, yPosition, { align: 'right' });
           } else {
             doc.text('Even Exchange:', 320, yPosition);
             doc.text('$0.00', 480, yPosition, { align: 'right' });
@@ -129,8 +147,13 @@ export class PDFService {
           doc.moveTo(50, yPosition).lineTo(550, yPosition).stroke();
           yPosition += 15;
           doc.fontSize(12).font('Helvetica-Bold');
-          doc.text('Refund Amount:', 320, yPosition);
-          doc.text(`$${returnData.refundAmount}`, 480, yPosition, { align: 'right' });
+          if (returnData.creditAmount && parseFloat(returnData.creditAmount) > 0) {
+            doc.text('Store Credit:', 320, yPosition);
+            doc.text(`$${returnData.creditAmount}`, 480, yPosition, { align: 'right' });
+          } else {
+            doc.text('Refund Amount:', 320, yPosition);
+            doc.text(`$${returnData.refundAmount}`, 480, yPosition, { align: 'right' });
+          }
         }
 
         // Reason
@@ -211,12 +234,43 @@ export class PDFService {
           doc.text(item.quantity.toString(), 320, yPosition);
           doc.text(`$${item.unitPrice}`, 380, yPosition);
           doc.text(`$${item.subtotal}`, 480, yPosition, { align: 'right' });
-          yPosition += 25;
+          yPosition += 15;
+          if (parseFloat(item.discountAmount) > 0) {
+            doc.fontSize(8).text(`Less $${item.discountAmount} (${item.discountReason})`, 200, yPosition);
+            doc.fontSize(10);
+            yPosition += 12;
+          }
+          if (item.taxName) {
+            doc.fontSize(8).text(
+              `${item.taxName} ${parseFloat(item.taxRate)}%: $${item.taxAmount}${order.pricesIncludeTax ? ' included' : ''}`,
+              200,
+              yPosition
+            );
+            doc.fontSize(10);
+            yPosition += 12;
+          }
+          yPosition += 10;
         });
 
         // Total
         doc.moveTo(50, yPosition).lineTo(550, yPosition).stroke();
         yPosition += 15;
+        if (parseFloat(order.discountAmount) > 0) {
+          doc.text(`Discount (${order.discountReason}):`, 280, yPosition);
+          doc.text(`-$${order.discountAmount}`, 480, yPosition, { align: 'right' });
+          yPosition += 20;
+        }
+
+        // Net and tax always add up to the total, whichever way prices were quoted
+        const netAmount = fromCents(toCents(order.totalAmount) - toCents(order.taxAmount));
+        const jurisdiction = order.taxJurisdiction ? ` (${order.taxJurisdiction})` : '';
+        doc.text('Subtotal (excl. tax):', 280, yPosition);
+        doc.text(`$${netAmount}`, 480, yPosition, { align: 'right' });
+        yPosition += 20;
+        doc.text(`${order.pricesIncludeTax ? 'Tax included' : 'Tax'}${jurisdiction}:`, 280, yPosition);
+        doc.text(`$${order.taxAmount}`, 480, yPosition, { align: 'right' });
+        yPosition += 20;
+
         doc.fontSize(12).font('Helvetica-Bold');
         doc.text('Total:', 380, yPosition);
         doc.text(`$${order.totalAmount}`, 480, yPosition, { align: 'right' });
@@ -0,0 +1,52 @@
+import type { Product, ReorderSuggestion } from "@shared/schema";
+import { readInteger } from "./env";
+
+export const reorderPolicy = {
+  // Days of sales the velocity is averaged over
+  velocityWindowDays: readInteger('REORDER_VELOCITY_WINDOW_DAYS', 30),
+  // Lead time for products without their own
+  leadTimeDays: readInteger('REORDER_LEAD_TIME_DAYS', 14),
+  // Days of sales a reorder should cover beyond the reorder point
+  coverDays: readInteger('REORDER_COVER_DAYS', 30),
+};
+
+// Start of the velocity window ending at `now`
+export function velocityWindowStart(windowDays: number, now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setDate(start.getDate() - windowDays);
+  return start;
+}
+
+// A product needs reordering once what is on hand plus on order has fallen
+// to its reorder point. Without a reorder point of its own, that is what it
+// is expected to sell over its lead time. The suggested quantity brings it
+// back up to the reorder point plus the cover period's worth of sales.
+export function reorderSuggestion(
+  product: Product,
+  unitsSold: number,
+  onOrder: number,
+  windowDays: number
+): ReorderSuggestion {
+  const dailyVelocity = windowDays > 0 ? Math.max(unitsSold, 0) / windowDays : 0;
+  const leadTimeDays = product.leadTimeDays ?? reorderPolicy.leadTimeDays;
+  const reorderPoint = product.reorderPoint ?? Math.ceil(dailyVelocity * leadTimeDays);
+  const position = product.stockQuantity + onOrder;
+  const target = reorderPoint + Math.ceil(dailyVelocity * reorderPolicy.coverDays);
+
+  return {
+    productId: product.id,
+    productName: product.productName,
+    sku: product.sku,
+    supplierId: product.supplierId,
+    unitCost: product.costPrice,
+    onHand: product.stockQuantity,
+    onOrder,
+    unitsSold: Math.max(unitsSold, 0),
+    windowDays,
+    dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+    daysOfCover: dailyVelocity > 0 ? Math.floor(product.stockQuantity / dailyVelocity) : null,
+    leadTimeDays,
+    reorderPoint,
+    suggestedQuantity: position <= reorderPoint ? Math.max(target - position, 0) : 0,
+  };
+}
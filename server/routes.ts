@@ -1,19 +1,75 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
+import { storage, StorageError } from "./storage";
+import { setupAuth, requirePermission, hashPassword, approvingUser } from "./auth";
+import { audited } from "./audit";
 import { qrCodeService } from "./qr-service";
+import { reorderPolicy } from "./reorder-policy";
+import { taxPolicy } from "./tax-policy";
 import {
+  insertCustomerSchema,
   insertProductSchema,
-  insertOrderSchema,
-  insertOrderItemSchema,
+  insertProductStyleSchema,
+  createProductStyleSchema,
+  variantMatrixSchema,
+  variantGridSchema,
+  insertTaxClassSchema,
+  taxJurisdictionSchema,
+  orderDetailsSchema,
+  orderLineSchema,
+  manualDiscountSchema,
+  loginSchema,
   insertStockMovementSchema,
-  insertReturnSchema,
-  insertReturnItemSchema,
+  rebuildStockSchema,
+  insertLocationSchema,
+  createStockTransferSchema,
+  createStocktakeSchema,
+  recordStocktakeCountsSchema,
+  insertSupplierSchema,
+  createPurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  reorderPurchaseOrdersSchema,
+  moneySchema,
+  returnDetailsSchema,
+  returnLineSchema,
+  updateReturnSchema,
+  orderStatusChangeSchema,
+  orderCreditSchema,
+  rejectReturnSchema,
+  returnPaymentSchema,
+  creditAdjustmentSchema,
+  auditEventListQuerySchema,
+  insertUserSchema,
+  updateUserSchema,
+  productListQuerySchema,
+  orderListQuerySchema,
+  returnListQuerySchema,
+  stockMovementListQuerySchema,
+  stockFigureListQuerySchema,
+  type Customer,
+  type CustomerWithStats,
+  type Location,
+  type LocationWithStock,
 } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// List endpoints return a page when asked for one with `limit` or `cursor`,
+// and the whole collection otherwise
+function wantsPage(query: Record<string, unknown>): boolean {
+  return query.limit !== undefined || query.cursor !== undefined;
+}
+
+// Audited as the records they are, without the figures worked out for display
+function customerRecord({ orderCount, lifetimeValue, openCredit, unitsOrdered, unitsReturned, returnRate, ...customer }: CustomerWithStats): Customer {
+  return customer;
+}
+
+function locationRecord({ unitsOnHand, ...location }: LocationWithStock): Location {
+  return location;
+}
+
 // Configure multer for file uploads (in-memory storage)
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -31,8 +87,12 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and sign-in come first; every route below names the permission
+  // it needs
+  setupAuth(app);
+
   // QR Code generation endpoint
-  app.post("/api/qr-code/generate", async (req, res) => {
+  app.post("/api/qr-code/generate", requirePermission("products.view"), async (req, res) => {
     try {
       const { data } = req.body;
       if (!data || typeof data !== "string") {
@@ -47,7 +107,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get QR code as image
-  app.get("/api/qr-code/:data", async (req, res) => {
+  app.get("/api/qr-code/:data", requirePermission("products.view"), async (req, res) => {
     try {
       const data = decodeURIComponent(req.params.data);
       const buffer = await qrCodeService.generateQRCodeBuffer(data);
@@ -59,7 +119,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Image upload endpoint
-  app.post("/api/upload/image", upload.single("image"), async (req, res) => {
+  app.post("/api/upload/image", requirePermission("products.manage"), upload.single("image"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No image file provided" });
@@ -76,7 +136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Multiple image upload endpoint
-  app.post("/api/upload/images", upload.array("images", 5), async (req, res) => {
+  app.post("/api/upload/images", requirePermission("products.manage"), upload.array("images", 5), async (req, res) => {
     try {
       if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
         return res.status(400).json({ error: "No image files provided" });
@@ -93,16 +153,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   // Product routes
-  app.get("/api/products", async (_req, res) => {
+  app.get("/api/products", requirePermission("products.view"), async (req, res) => {
     try {
-      const products = await storage.getProducts();
-      res.json(products);
+      if (!wantsPage(req.query)) {
+        const products = await storage.getProducts();
+        return res.json(products);
+      }
+      const parsed = productListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listProducts(parsed.data);
+      res.json(page);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to fetch products" });
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  // Categories and brands to filter the product list by; registered before /:id
+  app.get("/api/products/facets", requirePermission("products.view"), async (_req, res) => {
+    try {
+      const facets = await storage.getProductFacets();
+      res.json(facets);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch product facets" });
+    }
+  });
+
+  // Non-zero stock per product and location; registered before /:id
+  app.get("/api/products/stock-levels", requirePermission("stock.view"), async (_req, res) => {
+    try {
+      const balances = await storage.getStockBalances();
+      res.json(balances);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock levels" });
+    }
+  });
+
+  app.get("/api/products/:id/stock-levels", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const balances = await storage.getStockBalances(product.id);
+      res.json(balances);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock levels" });
+    }
+  });
+
+  app.get("/api/products/:id", requirePermission("products.view"), async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
       if (!product) {
@@ -114,7 +218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requirePermission("products.manage"), async (req, res) => {
     try {
       const parsed = insertProductSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -128,14 +232,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Product with this SKU already exists" });
       }
 
-      const product = await storage.createProduct(parsed.data);
+      const product = await audited(req, async (store, record) => {
+        const after = await store.createProduct(parsed.data);
+        record({
+          entityType: "product",
+          entityId: after.id,
+          entityLabel: after.sku,
+          action: "create",
+          after,
+        });
+        return after;
+      });
       res.status(201).json(product);
     } catch (error) {
       res.status(500).json({ error: "Failed to create product" });
     }
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", requirePermission("products.manage"), async (req, res) => {
     try {
       const parsed = insertProductSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -149,366 +263,2111 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Product with this SKU already exists" });
       }
 
-      const product = await storage.updateProduct(req.params.id, parsed.data);
+      const product = await audited(req, async (store, record) => {
+        await store.lockEntity("product", req.params.id);
+        const before = await store.getProduct(req.params.id);
+        const after = await store.updateProduct(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "product",
+            entityId: after.id,
+            entityLabel: after.sku,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
       if (!product) {
         return res.status(404).json({ error: "Product not found" });
       }
       res.json(product);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update product" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.delete("/api/products/:id", requirePermission("products.manage"), async (req, res) => {
     try {
-      const success = await storage.deleteProduct(req.params.id);
-      if (!success) {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("product", req.params.id);
+        const before = await store.getProduct(req.params.id);
+        if (!before || !(await store.deleteProduct(req.params.id))) return false;
+        record({
+          entityType: "product",
+          entityId: before.id,
+          entityLabel: before.sku,
+          action: "delete",
+          before,
+        });
+        return true;
+      });
+      if (!deleted) {
         return res.status(404).json({ error: "Product not found" });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to delete product" });
     }
   });
 
-  // Order routes
-  app.get("/api/orders", async (_req, res) => {
+  // Product style routes
+  app.get("/api/product-styles", requirePermission("products.view"), async (_req, res) => {
     try {
-      const orders = await storage.getOrders();
-      res.json(orders);
+      const styles = await storage.getProductStyles();
+      res.json(styles);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      res.status(500).json({ error: "Failed to fetch product styles" });
     }
   });
 
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/product-styles/:id", requirePermission("products.view"), async (req, res) => {
     try {
-      const order = await storage.getOrder(req.params.id);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const style = await storage.getProductStyle(req.params.id);
+      if (!style) {
+        return res.status(404).json({ error: "Product style not found" });
       }
-      res.json(order);
+      res.json(style);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch order" });
+      res.status(500).json({ error: "Failed to fetch product style" });
     }
   });
 
-  app.get("/api/orders/customer/:email", async (req, res) => {
+  // Creates a style together with a variant for every color and size
+  app.post("/api/product-styles", requirePermission("products.manage"), async (req, res) => {
     try {
-      const orders = await storage.getOrdersByCustomerEmail(req.params.email);
-      res.json(orders);
+      const parsed = createProductStyleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const style = await audited(req, async (store, record) => {
+        const after = await store.createProductStyle(parsed.data.style, parsed.data.matrix);
+        record({
+          entityType: "product_style",
+          entityId: after.id,
+          entityLabel: after.styleCode,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(style);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create product style" });
     }
   });
 
-  app.post("/api/orders", async (req, res) => {
+  app.patch("/api/product-styles/:id", requirePermission("products.manage"), async (req, res) => {
     try {
-      const { items, ...orderData } = req.body;
-
-      const parsedOrder = insertOrderSchema.safeParse(orderData);
-      if (!parsedOrder.success) {
-        const error = fromZodError(parsedOrder.error);
+      const parsed = insertProductStyleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
         return res.status(400).json({ error: error.message });
       }
 
-      // Validate items
-      if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: "Order must have at least one item" });
-      }
-
-      const orderItemsSchema = z.array(insertOrderItemSchema);
-      const parsedItems = orderItemsSchema.safeParse(items);
-      if (!parsedItems.success) {
-        const error = fromZodError(parsedItems.error);
-        return res.status(400).json({ error: error.message });
+      const style = await audited(req, async (store, record) => {
+        await store.lockEntity("product_style", req.params.id);
+        const before = await store.getProductStyle(req.params.id);
+        const after = await store.updateProductStyle(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "product_style",
+            entityId: after.id,
+            entityLabel: after.styleCode,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!style) {
+        return res.status(404).json({ error: "Product style not found" });
       }
-
-      const order = await storage.createOrder(parsedOrder.data, parsedItems.data);
-      res.status(201).json(order);
+      res.json(style);
     } catch (error) {
-      res.status(500).json({ error: "Failed to create order" });
+      res.status(500).json({ error: "Failed to update product style" });
     }
   });
 
-  app.patch("/api/orders/:id", async (req, res) => {
+  // Adds the color/size combinations the style doesn't have yet
+  app.post("/api/product-styles/:id/variants", requirePermission("products.manage"), async (req, res) => {
     try {
-      const parsed = insertOrderSchema.safeParse(req.body);
+      const parsed = variantMatrixSchema.safeParse(req.body);
       if (!parsed.success) {
         const error = fromZodError(parsed.error);
         return res.status(400).json({ error: error.message });
       }
 
-      const order = await storage.updateOrder(req.params.id, parsed.data);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const style = await audited(req, async (store, record) => {
+        await store.lockEntity("product_style", req.params.id);
+        const before = await store.getProductStyle(req.params.id);
+        const after = await store.addStyleVariants(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "product_style",
+            entityId: after.id,
+            entityLabel: after.styleCode,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!style) {
+        return res.status(404).json({ error: "Product style not found" });
       }
-      res.json(order);
+      res.status(201).json(style);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update order" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to add variants" });
     }
   });
 
-  app.delete("/api/orders/:id", async (req, res) => {
+  // Saves price and stock edits from the variant grid
+  app.put("/api/product-styles/:id/variants", requirePermission("products.manage"), async (req, res) => {
     try {
-      const success = await storage.deleteOrder(req.params.id);
-      if (!success) {
-        return res.status(404).json({ error: "Order not found" });
+      const parsed = variantGridSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
       }
-      res.status(204).send();
-    } catch (error) {
-      res.status(500).json({ error: "Failed to delete order" });
-    }
-  });
 
-  // Stock Movement routes
-  app.get("/api/stock-movements", async (req, res) => {
-    try {
-      const productId = req.query.productId as string | undefined;
-      const movements = await storage.getStockMovements(productId);
-      res.json(movements);
+      const style = await audited(req, async (store, record) => {
+        await store.lockEntity("product_style", req.params.id);
+        const before = await store.getProductStyle(req.params.id);
+        const after = await store.updateStyleVariants(req.params.id, parsed.data.variants);
+        // Grid edits change the variants themselves, so each is logged as its product
+        record(
+          ...(after?.variants ?? []).map((variant) => ({
+            entityType: "product" as const,
+            entityId: variant.id,
+            entityLabel: variant.sku,
+            action: "update" as const,
+            before: before?.variants.find((previous) => previous.id === variant.id),
+            after: variant,
+          }))
+        );
+        return after;
+      });
+      if (!style) {
+        return res.status(404).json({ error: "Product style not found" });
+      }
+      res.json(style);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch stock movements" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update variants" });
     }
   });
 
-  app.post("/api/stock-movements", async (req, res) => {
+  app.delete("/api/product-styles/:id", requirePermission("products.manage"), async (req, res) => {
     try {
-      const parsed = insertStockMovementSchema.safeParse(req.body);
-      if (!parsed.success) {
-        const error = fromZodError(parsed.error);
-        return res.status(400).json({ error: error.message });
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("product_style", req.params.id);
+        const before = await store.getProductStyle(req.params.id);
+        if (!before || !(await store.deleteProductStyle(req.params.id))) return false;
+        record({
+          entityType: "product_style",
+          entityId: before.id,
+          entityLabel: before.styleCode,
+          action: "delete",
+          before,
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Product style not found" });
       }
-
-      const movement = await storage.createStockMovement(parsed.data);
-      res.status(201).json(movement);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to create stock movement" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete product style" });
     }
   });
 
-  app.get("/api/stock-movements/low-stock", async (req, res) => {
+  // Customer routes
+  app.get("/api/customers", requirePermission("customers.view"), async (req, res) => {
     try {
-      const threshold = req.query.threshold ? parseInt(req.query.threshold as string) : 10;
-      const products = await storage.getLowStockProducts(threshold);
-      res.json(products);
+      const search = typeof req.query.search === "string" ? req.query.search : undefined;
+      const customers = await storage.getCustomers(search);
+      res.json(customers);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch low stock products" });
+      res.status(500).json({ error: "Failed to fetch customers" });
     }
   });
 
-  // Return routes
-  app.get("/api/returns", async (_req, res) => {
+  app.get("/api/customers/:id", requirePermission("customers.view"), async (req, res) => {
     try {
-      const returns = await storage.getReturns();
-      res.json(returns);
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json(customer);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch returns" });
+      res.status(500).json({ error: "Failed to fetch customer" });
     }
   });
 
-  app.get("/api/returns/:id", async (req, res) => {
+  app.get("/api/customers/:id/history", requirePermission("customers.view"), async (req, res) => {
     try {
-      const ret = await storage.getReturn(req.params.id);
-      if (!ret) {
-        return res.status(404).json({ error: "Return not found" });
+      const history = await storage.getCustomerHistory(req.params.id);
+      if (!history) {
+        return res.status(404).json({ error: "Customer not found" });
       }
-      res.json(ret);
+      res.json(history);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch return" });
+      res.status(500).json({ error: "Failed to fetch customer history" });
     }
   });
 
-  app.post("/api/returns", async (req, res) => {
+  app.post("/api/customers", requirePermission("customers.manage"), async (req, res) => {
     try {
-      const { items, ...returnData } = req.body;
-
-      const parsedReturn = insertReturnSchema.safeParse(returnData);
-      if (!parsedReturn.success) {
-        const error = fromZodError(parsedReturn.error);
+      const parsed = insertCustomerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
         return res.status(400).json({ error: error.message });
       }
 
-      if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: "Return must have at least one item" });
+      const customer = await audited(req, async (store, record) => {
+        const after = await store.createCustomer(parsed.data);
+        record({
+          entityType: "customer",
+          entityId: after.id,
+          entityLabel: after.name,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
       }
+      res.status(500).json({ error: "Failed to create customer" });
+    }
+  });
 
-      const returnItemsSchema = z.array(insertReturnItemSchema);
-      const parsedItems = returnItemsSchema.safeParse(items);
-      if (!parsedItems.success) {
-        const error = fromZodError(parsedItems.error);
+  app.patch("/api/customers/:id", requirePermission("customers.manage"), async (req, res) => {
+    try {
+      const parsed = insertCustomerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
         return res.status(400).json({ error: error.message });
       }
 
-      const ret = await storage.createReturn(parsedReturn.data, parsedItems.data);
-      
-      // Generate discount code if there's credit (including when exchange value > return value)
-      if (ret.creditAmount && parseFloat(ret.creditAmount) > 0 && ret.customerEmail) {
-        try {
-          const code = `CREDIT-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
-          const expiresAt = new Date();
-          expiresAt.setMonth(expiresAt.getMonth() + 6); // 6 months expiry
-          
-          const discountCode = await storage.createDiscountCode({
-            code,
-            customerEmail: ret.customerEmail,
-            amount: ret.creditAmount,
-            expiresAt,
+      const customer = await audited(req, async (store, record) => {
+        await store.lockEntity("customer", req.params.id);
+        const before = await store.getCustomer(req.params.id);
+        const after = await store.updateCustomer(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "customer",
+            entityId: after.id,
+            entityLabel: after.name,
+            action: "update",
+            before: before && customerRecord(before),
+            after,
           });
-          
-          // Send email with discount code
-          try {
-            const { emailService } = await import('./email-service');
-            await emailService.sendDiscountCode(
-              ret.customerEmail,
-              code,
-              ret.creditAmount,
-              expiresAt
-            );
-          } catch (emailError) {
-            console.error('Failed to send discount code email:', emailError);
-          }
-        } catch (discountError) {
-          console.error('Failed to create discount code:', discountError);
         }
+        return after;
+      });
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
       }
-      
-      res.status(201).json(ret);
+      res.json(customer);
     } catch (error) {
-      res.status(500).json({ error: "Failed to create return" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to update customer" });
     }
   });
 
-  app.patch("/api/returns/:id", async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission("customers.manage"), async (req, res) => {
     try {
-      const parsed = insertReturnSchema.safeParse(req.body);
-      if (!parsed.success) {
-        const error = fromZodError(parsed.error);
-        return res.status(400).json({ error: error.message });
-      }
-
-      const ret = await storage.updateReturn(req.params.id, parsed.data);
-      if (!ret) {
-        return res.status(404).json({ error: "Return not found" });
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("customer", req.params.id);
+        const before = await store.getCustomer(req.params.id);
+        if (!before || !(await store.deleteCustomer(req.params.id))) return false;
+        record({
+          entityType: "customer",
+          entityId: before.id,
+          entityLabel: before.name,
+          action: "delete",
+          before: customerRecord(before),
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Customer not found" });
       }
-      res.json(ret);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to update return" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete customer" });
     }
   });
 
-  // Discount code routes
-  app.get("/api/discount-codes", async (req, res) => {
+  // Tax routes. Anyone who can see orders can see how they are taxed.
+  app.get("/api/tax-settings", requirePermission("orders.view"), (_req, res) => {
+    res.json(taxPolicy);
+  });
+
+  app.get("/api/tax-classes", requirePermission("orders.view"), async (_req, res) => {
     try {
-      const customerEmail = req.query.customerEmail as string | undefined;
-      const codes = await storage.getDiscountCodes(customerEmail);
-      res.json(codes);
+      const taxClasses = await storage.getTaxClasses();
+      res.json(taxClasses);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch discount codes" });
+      res.status(500).json({ error: "Failed to fetch tax classes" });
     }
   });
 
-  app.get("/api/discount-codes/:code", async (req, res) => {
+  app.post("/api/tax-classes", requirePermission("taxes.manage"), async (req, res) => {
     try {
-      const code = await storage.getDiscountCode(req.params.code);
-      if (!code) {
-        return res.status(404).json({ error: "Discount code not found" });
+      const parsed = insertTaxClassSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
       }
-      res.json(code);
+
+      const taxClass = await audited(req, async (store, record) => {
+        const after = await store.createTaxClass(parsed.data);
+        record({
+          entityType: "tax_class",
+          entityId: after.id,
+          entityLabel: after.name,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(taxClass);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch discount code" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create tax class" });
     }
   });
 
-  app.post("/api/discount-codes/:code/use", async (req, res) => {
+  app.patch("/api/tax-classes/:id", requirePermission("taxes.manage"), async (req, res) => {
     try {
-      const schema = z.object({
-        amountUsed: z.string().refine((val) => {
-          const num = parseFloat(val);
-          return !isNaN(num) && num > 0;
-        }, { message: "Amount used must be a positive number" }),
-      });
-      
-      const parsed = schema.safeParse(req.body);
+      const parsed = insertTaxClassSchema.safeParse(req.body);
       if (!parsed.success) {
         const error = fromZodError(parsed.error);
         return res.status(400).json({ error: error.message });
       }
-      
-      const result = await storage.useDiscountCode(req.params.code, parsed.data.amountUsed);
-      
-      if (!result.wasFound) {
-        return res.status(404).json({ error: "Discount code not found" });
+
+      const taxClass = await audited(req, async (store, record) => {
+        await store.lockEntity("tax_class", req.params.id);
+        const before = await store.getTaxClass(req.params.id);
+        const after = await store.updateTaxClass(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "tax_class",
+            entityId: after.id,
+            entityLabel: after.name,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!taxClass) {
+        return res.status(404).json({ error: "Tax class not found" });
       }
-      
-      if (result.error) {
-        return res.status(400).json({ error: result.error });
+      res.json(taxClass);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
       }
-      
-      res.json({ 
-        success: true, 
-        remainingCredit: result.updated,
-        fullyUsed: result.wasDeleted 
+      res.status(500).json({ error: "Failed to update tax class" });
+    }
+  });
+
+  app.delete("/api/tax-classes/:id", requirePermission("taxes.manage"), async (req, res) => {
+    try {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("tax_class", req.params.id);
+        const before = await store.getTaxClass(req.params.id);
+        if (!before || !(await store.deleteTaxClass(req.params.id))) return false;
+        record({
+          entityType: "tax_class",
+          entityId: before.id,
+          entityLabel: before.name,
+          action: "delete",
+          before,
+        });
+        return true;
       });
+      if (!deleted) {
+        return res.status(404).json({ error: "Tax class not found" });
+      }
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to use discount code" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete tax class" });
     }
   });
 
-  app.delete("/api/discount-codes/:id", async (req, res) => {
+  // Order routes
+  app.get("/api/orders", requirePermission("orders.view"), async (req, res) => {
     try {
-      const success = await storage.deleteDiscountCode(req.params.id);
-      if (!success) {
-        return res.status(404).json({ error: "Discount code not found" });
+      if (!wantsPage(req.query)) {
+        const orders = await storage.getOrders();
+        return res.json(orders);
       }
-      res.status(204).send();
+      const parsed = orderListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listOrders(parsed.data);
+      res.json(page);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete discount code" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch orders" });
     }
   });
 
-  // Invoice generation
-  app.get("/api/orders/:id/invoice", async (req, res) => {
+  app.get("/api/orders/:id", requirePermission("orders.view"), async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
       if (!order) {
         return res.status(404).json({ error: "Order not found" });
       }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
 
-      const { pdfService } = await import('./pdf-service');
-      const pdfBuffer = await pdfService.generateInvoice(order);
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="invoice-${order.orderNumber}.pdf"`);
-      res.send(pdfBuffer);
+  app.get("/api/orders/customer/:email", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const orders = await storage.getOrdersByCustomerEmail(req.params.email);
+      res.json(orders);
     } catch (error) {
-      console.error('Invoice generation error:', error);
-      res.status(500).json({ error: "Failed to generate invoice" });
+      res.status(500).json({ error: "Failed to fetch orders" });
     }
   });
 
-  // Return invoice generation
-  app.get("/api/returns/:id/invoice", async (req, res) => {
+  app.post("/api/orders", requirePermission("orders.manage"), async (req, res) => {
     try {
-      const returnData = await storage.getReturn(req.params.id);
-      if (!returnData) {
-        return res.status(404).json({ error: "Return not found" });
+      const { items, credits, discount, approval, totalAmount, taxJurisdiction, ...orderData } = req.body;
+
+      const parsedOrder = orderDetailsSchema.safeParse(orderData);
+      if (!parsedOrder.success) {
+        const error = fromZodError(parsedOrder.error);
+        return res.status(400).json({ error: error.message });
       }
 
-      const order = await storage.getOrder(returnData.orderId);
-      if (!order) {
-        return res.status(404).json({ error: "Original order not found" });
+      // Validate items
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "Order must have at least one item" });
       }
 
-      const { pdfService } = await import('./pdf-service');
-      const pdfBuffer = await pdfService.generateReturnInvoice(returnData, order);
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="return-invoice-${returnData.returnNumber}.pdf"`);
-      res.send(pdfBuffer);
-    } catch (error) {
-      console.error('Return invoice generation error:', error);
-      res.status(500).json({ error: "Failed to generate return invoice" });
+      // Only products and quantities are taken from the request; prices come
+      // from the products themselves
+      const orderItemsSchema = z.array(orderLineSchema);
+      const parsedItems = orderItemsSchema.safeParse(items);
+      if (!parsedItems.success) {
+        const error = fromZodError(parsedItems.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const parsedDiscount = manualDiscountSchema.optional().safeParse(discount);
+      if (!parsedDiscount.success) {
+        const error = fromZodError(parsedDiscount.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      // Store credit is redeemed in the same transaction that creates the order
+      const parsedCredits = z.array(orderCreditSchema).optional().safeParse(credits);
+      if (!parsedCredits.success) {
+        const error = fromZodError(parsedCredits.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const parsedApproval = loginSchema.optional().safeParse(approval);
+      if (!parsedApproval.success) {
+        const error = fromZodError(parsedApproval.error);
+        return res.status(400).json({ error: error.message });
+      }
+      const approver = await approvingUser(req, "discounts.approve", parsedApproval.data);
+
+      // A total sent along is what the till showed; it must match the server's
+      const parsedTotal = moneySchema.optional().safeParse(totalAmount);
+      if (!parsedTotal.success) {
+        const error = fromZodError(parsedTotal.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      // Orders are taxed where the store is unless they name another jurisdiction
+      const parsedJurisdiction = taxJurisdictionSchema.optional().safeParse(taxJurisdiction);
+      if (!parsedJurisdiction.success) {
+        const error = fromZodError(parsedJurisdiction.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const order = await audited(req, async (store, record) => {
+        const after = await store.createOrder(parsedOrder.data, parsedItems.data, {
+          discount: parsedDiscount.data,
+          credits: parsedCredits.data,
+          approvedBy: approver?.displayName ?? null,
+          expectedTotal: parsedTotal.data,
+          taxJurisdiction: parsedJurisdiction.data,
+        });
+        record({
+          entityType: "order",
+          entityId: after.id,
+          entityLabel: after.orderNumber,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create order" });
+    }
+  });
+
+  app.patch("/api/orders/:id", requirePermission("orders.manage"), async (req, res) => {
+    try {
+      const parsed = orderDetailsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const order = await audited(req, async (store, record) => {
+        await store.lockEntity("order", req.params.id);
+        const before = await store.getOrder(req.params.id);
+        const after = await store.updateOrder(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "order",
+            entityId: after.id,
+            entityLabel: after.orderNumber,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update order" });
+    }
+  });
+
+  app.post("/api/orders/:id/status", requirePermission("orders.manage"), async (req, res) => {
+    try {
+      const parsed = orderStatusChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const order = await audited(req, async (store, record) => {
+        await store.lockEntity("order", req.params.id);
+        const before = await store.getOrder(req.params.id);
+        const after = await store.updateOrderStatus(req.params.id, parsed.data, req.user?.displayName);
+        if (after) {
+          record({
+            entityType: "order",
+            entityId: after.id,
+            entityLabel: after.orderNumber,
+            action: "status_change",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update order status" });
+    }
+  });
+
+  app.get("/api/orders/:id/history", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const history = await storage.getOrderStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order history" });
+    }
+  });
+
+  app.get("/api/orders/:id/returnable", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const returnable = await storage.getReturnableQuantities(req.params.id);
+      if (!returnable) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(returnable);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch returnable quantities" });
+    }
+  });
+
+  app.get("/api/orders/:id/returns", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const returns = await storage.getOrderReturns(req.params.id);
+      res.json(returns);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order returns" });
+    }
+  });
+
+  app.delete("/api/orders/:id", requirePermission("orders.delete"), async (req, res) => {
+    try {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("order", req.params.id);
+        const before = await store.getOrder(req.params.id);
+        if (!before || !(await store.deleteOrder(req.params.id))) return false;
+        record({
+          entityType: "order",
+          entityId: before.id,
+          entityLabel: before.orderNumber,
+          action: "delete",
+          before,
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete order" });
+    }
+  });
+
+  // Stock Movement routes
+  app.get("/api/stock-movements", requirePermission("stock.view"), async (req, res) => {
+    try {
+      if (!wantsPage(req.query)) {
+        const productId = req.query.productId as string | undefined;
+        const movements = await storage.getStockMovements(productId);
+        return res.json(movements);
+      }
+      const parsed = stockMovementListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listStockMovements(parsed.data);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.get("/api/stock-movements/by-product", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const parsed = stockFigureListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listStockFigures(parsed.data);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch stock figures" });
+    }
+  });
+
+  app.get("/api/stock-movements/totals", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const locationId = req.query.locationId as string | undefined;
+      const totals = await storage.getStockTotals(locationId);
+      res.json(totals);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch stock totals" });
+    }
+  });
+
+  app.post("/api/stock-movements", requirePermission("stock.adjust"), async (req, res) => {
+    try {
+      const parsed = insertStockMovementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      // Movements posted here are entered by hand; documents record their own
+      const movement = await audited(req, async (store, record) => {
+        const after = await store.createStockMovement({ ...parsed.data, sourceType: "manual", sourceId: null });
+        record({
+          entityType: "stock_movement",
+          entityId: after.id,
+          entityLabel: after.sku,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(movement);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create stock movement" });
+    }
+  });
+
+  app.get("/api/stock-movements/drift", requirePermission("stock.view"), async (_req, res) => {
+    try {
+      const drift = await storage.getStockDrift();
+      res.json(drift);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify stock ledger" });
+    }
+  });
+
+  app.post("/api/stock-movements/rebuild", requirePermission("stock.rebuild"), async (req, res) => {
+    try {
+      const parsed = rebuildStockSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const rebuilt = await audited(req, async (store, record) => {
+        const rows = await store.rebuildStock(parsed.data);
+        record(
+          ...rows.map((row) => ({
+            entityType: "product" as const,
+            entityId: row.productId,
+            entityLabel: row.sku,
+            action: "rebuild" as const,
+            before: { stockQuantity: row.stockQuantity },
+            after: { stockQuantity: row.ledgerQuantity },
+          }))
+        );
+        return rows;
+      });
+      res.json(rebuilt);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rebuild stock from ledger" });
+    }
+  });
+
+  app.get("/api/stock-movements/low-stock", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const threshold = req.query.threshold ? parseInt(req.query.threshold as string) : 10;
+      const products = await storage.getLowStockProducts(threshold);
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch low stock products" });
+    }
+  });
+
+  // Location routes
+  app.get("/api/locations", requirePermission("stock.view"), async (_req, res) => {
+    try {
+      const locations = await storage.getLocations();
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch locations" });
+    }
+  });
+
+  app.get("/api/locations/:id", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const location = await storage.getLocation(req.params.id);
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch location" });
+    }
+  });
+
+  app.post("/api/locations", requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const parsed = insertLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const location = await audited(req, async (store, record) => {
+        const after = await store.createLocation(parsed.data);
+        record({
+          entityType: "location",
+          entityId: after.id,
+          entityLabel: after.code,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(location);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create location" });
+    }
+  });
+
+  app.patch("/api/locations/:id", requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const parsed = insertLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const location = await audited(req, async (store, record) => {
+        await store.lockEntity("location", req.params.id);
+        const before = await store.getLocation(req.params.id);
+        const after = await store.updateLocation(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "location",
+            entityId: after.id,
+            entityLabel: after.code,
+            action: "update",
+            before: before && locationRecord(before),
+            after,
+          });
+        }
+        return after;
+      });
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+
+  app.delete("/api/locations/:id", requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("location", req.params.id);
+        const before = await store.getLocation(req.params.id);
+        if (!before || !(await store.deleteLocation(req.params.id))) return false;
+        record({
+          entityType: "location",
+          entityId: before.id,
+          entityLabel: before.code,
+          action: "delete",
+          before: locationRecord(before),
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete location" });
+    }
+  });
+
+  // Stock transfer routes
+  app.get("/api/stock-transfers", requirePermission("stock.view"), async (_req, res) => {
+    try {
+      const transfers = await storage.getStockTransfers();
+      res.json(transfers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock transfers" });
+    }
+  });
+
+  app.get("/api/stock-transfers/:id", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const transfer = await storage.getStockTransfer(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock transfer" });
+    }
+  });
+
+  // Takes the stock out of the source location; it stays in transit until received
+  app.post("/api/stock-transfers", requirePermission("stock.adjust"), async (req, res) => {
+    try {
+      const parsed = createStockTransferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const transfer = await audited(req, async (store, record) => {
+        const after = await store.createStockTransfer(parsed.data);
+        record({
+          entityType: "stock_transfer",
+          entityId: after.id,
+          entityLabel: after.transferNumber,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/receive", requirePermission("stock.adjust"), async (req, res) => {
+    try {
+      const transfer = await audited(req, async (store, record) => {
+        await store.lockEntity("stock_transfer", req.params.id);
+        const before = await store.getStockTransfer(req.params.id);
+        const after = await store.receiveStockTransfer(req.params.id);
+        if (after) {
+          record({
+            entityType: "stock_transfer",
+            entityId: after.id,
+            entityLabel: after.transferNumber,
+            action: "receive",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!transfer) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to receive stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/cancel", requirePermission("stock.adjust"), async (req, res) => {
+    try {
+      const transfer = await audited(req, async (store, record) => {
+        await store.lockEntity("stock_transfer", req.params.id);
+        const before = await store.getStockTransfer(req.params.id);
+        const after = await store.cancelStockTransfer(req.params.id);
+        if (after) {
+          record({
+            entityType: "stock_transfer",
+            entityId: after.id,
+            entityLabel: after.transferNumber,
+            action: "cancel",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!transfer) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to cancel stock transfer" });
+    }
+  });
+
+  // Stocktake routes
+  app.get("/api/stocktakes", requirePermission("stock.view"), async (_req, res) => {
+    try {
+      const stocktakes = await storage.getStocktakes();
+      res.json(stocktakes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stocktakes" });
+    }
+  });
+
+  app.get("/api/stocktakes/:id", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const stocktake = await storage.getStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ error: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes", requirePermission("stocktakes.count"), async (req, res) => {
+    try {
+      const parsed = createStocktakeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const stocktake = await audited(req, async (store, record) => {
+        const after = await store.createStocktake(parsed.data);
+        record({
+          entityType: "stocktake",
+          entityId: after.id,
+          entityLabel: after.stocktakeNumber,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/counts", requirePermission("stocktakes.count"), async (req, res) => {
+    try {
+      const parsed = recordStocktakeCountsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const stocktake = await audited(req, async (store, record) => {
+        await store.lockEntity("stocktake", req.params.id);
+        const before = await store.getStocktake(req.params.id);
+        const after = await store.recordStocktakeCounts(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "stocktake",
+            entityId: after.id,
+            entityLabel: after.stocktakeNumber,
+            action: "count",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!stocktake) {
+        return res.status(404).json({ error: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to record counts" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/post", requirePermission("stocktakes.post"), async (req, res) => {
+    try {
+      const stocktake = await audited(req, async (store, record) => {
+        await store.lockEntity("stocktake", req.params.id);
+        const before = await store.getStocktake(req.params.id);
+        const after = await store.postStocktake(req.params.id);
+        if (after) {
+          record({
+            entityType: "stocktake",
+            entityId: after.id,
+            entityLabel: after.stocktakeNumber,
+            action: "post",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!stocktake) {
+        return res.status(404).json({ error: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to post stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", requirePermission("stocktakes.post"), async (req, res) => {
+    try {
+      const stocktake = await audited(req, async (store, record) => {
+        await store.lockEntity("stocktake", req.params.id);
+        const before = await store.getStocktake(req.params.id);
+        const after = await store.cancelStocktake(req.params.id);
+        if (after) {
+          record({
+            entityType: "stocktake",
+            entityId: after.id,
+            entityLabel: after.stocktakeNumber,
+            action: "cancel",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!stocktake) {
+        return res.status(404).json({ error: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to cancel stocktake" });
+    }
+  });
+
+  // Supplier routes
+  app.get("/api/suppliers", requirePermission("purchasing.view"), async (_req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.get("/api/suppliers/:id", requirePermission("purchasing.view"), async (req, res) => {
+    try {
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch supplier" });
+    }
+  });
+
+  app.post("/api/suppliers", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const parsed = insertSupplierSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const supplier = await audited(req, async (store, record) => {
+        const after = await store.createSupplier(parsed.data);
+        record({
+          entityType: "supplier",
+          entityId: after.id,
+          entityLabel: after.name,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(supplier);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create supplier" });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const parsed = insertSupplierSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const supplier = await audited(req, async (store, record) => {
+        await store.lockEntity("supplier", req.params.id);
+        const before = await store.getSupplier(req.params.id);
+        const after = await store.updateSupplier(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "supplier",
+            entityId: after.id,
+            entityLabel: after.name,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update supplier" });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("supplier", req.params.id);
+        const before = await store.getSupplier(req.params.id);
+        if (!before || !(await store.deleteSupplier(req.params.id))) return false;
+        record({
+          entityType: "supplier",
+          entityId: before.id,
+          entityLabel: before.name,
+          action: "delete",
+          before,
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete supplier" });
+    }
+  });
+
+  // Purchase order routes
+  app.get("/api/purchase-orders", requirePermission("purchasing.view"), async (_req, res) => {
+    try {
+      const purchaseOrders = await storage.getPurchaseOrders();
+      res.json(purchaseOrders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", requirePermission("purchasing.view"), async (req, res) => {
+    try {
+      const purchaseOrder = await storage.getPurchaseOrder(req.params.id);
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase order" });
+    }
+  });
+
+  // New purchase orders start as drafts
+  app.post("/api/purchase-orders", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const parsed = createPurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const purchaseOrder = await audited(req, async (store, record) => {
+        const after = await store.createPurchaseOrder(parsed.data);
+        record({
+          entityType: "purchase_order",
+          entityId: after.id,
+          entityLabel: after.poNumber,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create purchase order" });
+    }
+  });
+
+  app.patch("/api/purchase-orders/:id", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const parsed = createPurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const purchaseOrder = await audited(req, async (store, record) => {
+        await store.lockEntity("purchase_order", req.params.id);
+        const before = await store.getPurchaseOrder(req.params.id);
+        const after = await store.updatePurchaseOrder(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "purchase_order",
+            entityId: after.id,
+            entityLabel: after.poNumber,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update purchase order" });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const deleted = await audited(req, async (store, record) => {
+        await store.lockEntity("purchase_order", req.params.id);
+        const before = await store.getPurchaseOrder(req.params.id);
+        if (!before || !(await store.deletePurchaseOrder(req.params.id))) return false;
+        record({
+          entityType: "purchase_order",
+          entityId: before.id,
+          entityLabel: before.poNumber,
+          action: "delete",
+          before,
+        });
+        return true;
+      });
+      if (!deleted) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/send", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const purchaseOrder = await audited(req, async (store, record) => {
+        await store.lockEntity("purchase_order", req.params.id);
+        const before = await store.getPurchaseOrder(req.params.id);
+        const after = await store.sendPurchaseOrder(req.params.id);
+        if (after) {
+          record({
+            entityType: "purchase_order",
+            entityId: after.id,
+            entityLabel: after.poNumber,
+            action: "send",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to send purchase order" });
+    }
+  });
+
+  // Adds the received quantities to stock at the purchase order's location
+  app.post("/api/purchase-orders/:id/receive", requirePermission("purchasing.receive"), async (req, res) => {
+    try {
+      const parsed = receivePurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const purchaseOrder = await audited(req, async (store, record) => {
+        await store.lockEntity("purchase_order", req.params.id);
+        const before = await store.getPurchaseOrder(req.params.id);
+        const after = await store.receivePurchaseOrder(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "purchase_order",
+            entityId: after.id,
+            entityLabel: after.poNumber,
+            action: "receive",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to receive purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/close", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const purchaseOrder = await audited(req, async (store, record) => {
+        await store.lockEntity("purchase_order", req.params.id);
+        const before = await store.getPurchaseOrder(req.params.id);
+        const after = await store.closePurchaseOrder(req.params.id);
+        if (after) {
+          record({
+            entityType: "purchase_order",
+            entityId: after.id,
+            entityLabel: after.poNumber,
+            action: "close",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to close purchase order" });
+    }
+  });
+
+  // Reorder routes. Only products that need reordering are listed unless
+  // all=true is passed.
+  app.get("/api/reorder-suggestions", requirePermission("purchasing.view"), async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : reorderPolicy.velocityWindowDays;
+      if (isNaN(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: "days must be between 1 and 365" });
+      }
+
+      const suggestions = await storage.getReorderSuggestions(days);
+      res.json(req.query.all === "true" ? suggestions : suggestions.filter((s) => s.suggestedQuantity > 0));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  app.post("/api/reorder-suggestions/purchase-orders", requirePermission("purchasing.manage"), async (req, res) => {
+    try {
+      const parsed = reorderPurchaseOrdersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const purchaseOrders = await audited(req, async (store, record) => {
+        const created = await store.createReorderPurchaseOrders(parsed.data);
+        record(
+          ...created.map((purchaseOrder) => ({
+            entityType: "purchase_order" as const,
+            entityId: purchaseOrder.id,
+            entityLabel: purchaseOrder.poNumber,
+            action: "create" as const,
+            after: purchaseOrder,
+          }))
+        );
+        return created;
+      });
+      res.status(201).json(purchaseOrders);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create purchase orders" });
+    }
+  });
+
+  // Return routes
+  app.get("/api/returns", requirePermission("orders.view"), async (req, res) => {
+    try {
+      if (!wantsPage(req.query)) {
+        const returns = await storage.getReturns();
+        return res.json(returns);
+      }
+      const parsed = returnListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listReturns(parsed.data);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch returns" });
+    }
+  });
+
+  app.get("/api/returns/:id", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const ret = await storage.getReturn(req.params.id);
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(ret);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch return" });
+    }
+  });
+
+  app.post("/api/returns", requirePermission("returns.manage"), async (req, res) => {
+    try {
+      const { items, ...returnData } = req.body;
+
+      const parsedReturn = returnDetailsSchema.safeParse(returnData);
+      if (!parsedReturn.success) {
+        const error = fromZodError(parsedReturn.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "Return must have at least one item" });
+      }
+
+      // Only what comes back is taken from the client; prices and amounts
+      // are worked out from the order
+      const parsedItems = z.array(returnLineSchema).safeParse(items);
+      if (!parsedItems.success) {
+        const error = fromZodError(parsedItems.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      // Returns start pending: stock and store credit wait for approval
+      const ret = await audited(req, async (store, record) => {
+        const after = await store.createReturn(parsedReturn.data, parsedItems.data);
+        record({
+          entityType: "return",
+          entityId: after.id,
+          entityLabel: after.returnNumber,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create return" });
+    }
+  });
+
+  app.patch("/api/returns/:id", requirePermission("returns.manage"), async (req, res) => {
+    try {
+      const parsed = updateReturnSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const ret = await audited(req, async (store, record) => {
+        await store.lockEntity("return", req.params.id);
+        const before = await store.getReturn(req.params.id);
+        const after = await store.updateReturn(req.params.id, parsed.data);
+        if (after) {
+          record({
+            entityType: "return",
+            entityId: after.id,
+            entityLabel: after.returnNumber,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update return" });
+    }
+  });
+
+  app.post("/api/returns/:id/approve", requirePermission("returns.approve"), async (req, res) => {
+    try {
+      const ret = await audited(req, async (store, record) => {
+        await store.lockEntity("return", req.params.id);
+        const before = await store.getReturn(req.params.id);
+        const after = await store.approveReturn(req.params.id);
+        if (after) {
+          record({
+            entityType: "return",
+            entityId: after.id,
+            entityLabel: after.returnNumber,
+            action: "approve",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      // Send email with the store credit issued on approval
+      if (ret.creditCode && ret.customerEmail) {
+        try {
+          const discountCode = await storage.getDiscountCode(ret.creditCode);
+          if (discountCode) {
+            const { emailService } = await import('./email-service');
+            await emailService.sendDiscountCode(
+              ret.customerEmail,
+              discountCode.code,
+              discountCode.amount,
+              discountCode.expiresAt
+            );
+          }
+        } catch (emailError) {
+          console.error('Failed to send discount code email:', emailError);
+        }
+      }
+
+      res.json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to approve return" });
+    }
+  });
+
+  app.post("/api/returns/:id/reject", requirePermission("returns.approve"), async (req, res) => {
+    try {
+      const parsed = rejectReturnSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const ret = await audited(req, async (store, record) => {
+        await store.lockEntity("return", req.params.id);
+        const before = await store.getReturn(req.params.id);
+        const after = await store.rejectReturn(req.params.id, parsed.data.reason, req.user?.displayName);
+        if (after) {
+          record({
+            entityType: "return",
+            entityId: after.id,
+            entityLabel: after.returnNumber,
+            action: "reject",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to reject return" });
+    }
+  });
+
+  app.post("/api/returns/:id/complete", requirePermission("returns.manage"), async (req, res) => {
+    try {
+      const ret = await audited(req, async (store, record) => {
+        await store.lockEntity("return", req.params.id);
+        const before = await store.getReturn(req.params.id);
+        const after = await store.completeReturn(req.params.id);
+        if (after) {
+          record({
+            entityType: "return",
+            entityId: after.id,
+            entityLabel: after.returnNumber,
+            action: "complete",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to complete return" });
+    }
+  });
+
+  app.post("/api/returns/:id/payment", requirePermission("returns.manage"), async (req, res) => {
+    try {
+      const parsed = returnPaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const ret = await audited(req, async (store, record) => {
+        await store.lockEntity("return", req.params.id);
+        const before = await store.getReturn(req.params.id);
+        const after = await store.markReturnPaid(req.params.id, parsed.data.paymentMethod);
+        if (after) {
+          record({
+            entityType: "return",
+            entityId: after.id,
+            entityLabel: after.returnNumber,
+            action: "payment",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!ret) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(ret);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
+
+  // Discount code routes
+  app.get("/api/discount-codes", requirePermission("credits.view"), async (req, res) => {
+    try {
+      const customerEmail = req.query.customerEmail as string | undefined;
+      const codes = await storage.getDiscountCodes(customerEmail);
+      res.json(codes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch discount codes" });
+    }
+  });
+
+  app.get("/api/discount-codes/:code", requirePermission("credits.view"), async (req, res) => {
+    try {
+      const code = await storage.getDiscountCode(req.params.code);
+      if (!code) {
+        return res.status(404).json({ error: "Discount code not found" });
+      }
+      res.json(code);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch discount code" });
+    }
+  });
+
+  app.get("/api/discount-codes/:code/transactions", requirePermission("credits.view"), async (req, res) => {
+    try {
+      const code = await storage.getDiscountCode(req.params.code);
+      if (!code) {
+        return res.status(404).json({ error: "Discount code not found" });
+      }
+      const transactions = await storage.getCreditTransactions(code.code);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch credit transactions" });
+    }
+  });
+
+  app.post("/api/discount-codes/:code/adjust", requirePermission("credits.manage"), async (req, res) => {
+    try {
+      const parsed = creditAdjustmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const error = fromZodError(parsed.error);
+        return res.status(400).json({ error: error.message });
+      }
+
+      const updated = await audited(req, async (store, record) => {
+        const found = await store.getDiscountCode(req.params.code);
+        if (!found) return null;
+        // Read again once locked, as the balance may have moved in between
+        await store.lockEntity("discount_code", found.id);
+        const before = await store.getDiscountCode(req.params.code);
+        const after = await store.adjustDiscountCode(req.params.code, parsed.data.amount, parsed.data.note);
+        if (after) {
+          record({
+            entityType: "discount_code",
+            entityId: after.id,
+            entityLabel: after.code,
+            action: "adjust",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!updated) {
+        return res.status(404).json({ error: "Discount code not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to adjust discount code" });
+    }
+  });
+
+  // Codes are voided rather than removed so their ledger history survives
+  app.delete("/api/discount-codes/:id", requirePermission("credits.manage"), async (req, res) => {
+    try {
+      const voided = await audited(req, async (store, record) => {
+        await store.lockEntity("discount_code", req.params.id);
+        const before = await store.getDiscountCodeById(req.params.id);
+        const after = await store.voidDiscountCode(req.params.id);
+        if (after) {
+          record({
+            entityType: "discount_code",
+            entityId: after.id,
+            entityLabel: after.code,
+            action: "void",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!voided) {
+        return res.status(404).json({ error: "Discount code not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to void discount code" });
+    }
+  });
+
+  // Invoice generation
+  app.get("/api/orders/:id/invoice", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const { pdfService } = await import('./pdf-service');
+      const pdfBuffer = await pdfService.generateInvoice(order);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="invoice-${order.orderNumber}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error('Invoice generation error:', error);
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  // Return invoice generation
+  app.get("/api/returns/:id/invoice", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const returnData = await storage.getReturn(req.params.id);
+      if (!returnData) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      const order = await storage.getOrder(returnData.orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Original order not found" });
+      }
+
+      const { pdfService } = await import('./pdf-service');
+      const pdfBuffer = await pdfService.generateReturnInvoice(returnData, order);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="return-invoice-${returnData.returnNumber}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error('Return invoice generation error:', error);
+      res.status(500).json({ error: "Failed to generate return invoice" });
+    }
+  });
+
+  // Audit log
+  app.get("/api/audit-events", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const parsed = auditEventListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const page = await storage.listAuditEvents(parsed.data);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get("/api/audit-events/actors", requirePermission("audit.view"), async (_req, res) => {
+    try {
+      const actors = await storage.getAuditActors();
+      res.json(actors);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch audit actors" });
+    }
+  });
+
+  // User accounts
+  app.get("/api/users", requirePermission("users.manage"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { password, ...user } = parsed.data;
+      const passwordHash = await hashPassword(password);
+      const created = await audited(req, async (store, record) => {
+        const after = await store.createUser({ ...user, passwordHash });
+        record({
+          entityType: "user",
+          entityId: after.id,
+          entityLabel: after.username,
+          action: "create",
+          after,
+        });
+        return after;
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { password, ...changes } = parsed.data;
+      const passwordHash = password ? await hashPassword(password) : undefined;
+      const user = await audited(req, async (store, record) => {
+        await store.lockEntity("user", req.params.id);
+        const before = await store.getUser(req.params.id);
+        const after = await store.updateUser(req.params.id, { ...changes, ...(passwordHash ? { passwordHash } : {}) });
+        if (after) {
+          record({
+            entityType: "user",
+            entityId: after.id,
+            entityLabel: after.username,
+            action: "update",
+            before,
+            after,
+          });
+        }
+        return after;
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(user);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update user" });
     }
   });
 
@@ -0,0 +1,592 @@
+// Runs the same suite against MemStorage and DatabaseStorage, the latter on
+// pglite, an in-process Postgres, so both can be checked without a database
+// server:
+//   npm test
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { auditEventListQuerySchema, hasPermission, productListQuerySchema } from "@shared/schema";
+import { DatabaseStorage, MemStorage, StorageError, type Database, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load its own dependencies, so its API is
+// required instead
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+// A fresh database with every table, as `npm run db:push` would create them
+async function freshDatabaseStorage(): Promise<DatabaseStorage> {
+  const db = drizzle(new PGlite(), { schema });
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(statement);
+  }
+  return new DatabaseStorage(db as unknown as Database);
+}
+
+const storages: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", freshDatabaseStorage],
+];
+
+function newProduct(storage: IStorage, sku: string, stockQuantity: number, price = "10.00") {
+  return storage.createProduct({
+    productName: `Tee ${sku}`,
+    sku,
+    category: "Tops",
+    brand: "Fabrix",
+    color: "Red",
+    size: "M",
+    gender: "Unisex",
+    price,
+    stockQuantity,
+  });
+}
+
+async function stockOf(storage: IStorage, productId: string): Promise<number | undefined> {
+  return (await storage.getProduct(productId))?.stockQuantity;
+}
+
+async function defaultLocation(storage: IStorage) {
+  return (await storage.getLocations()).find((location) => location.isDefault)!;
+}
+
+async function quantityAt(storage: IStorage, productId: string, locationId: string): Promise<number | undefined> {
+  return (await storage.getStockBalances(productId)).find((balance) => balance.locationId === locationId)?.quantity;
+}
+
+async function rejects(promise: Promise<unknown>, status: number, message: RegExp): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof StorageError);
+    assert.equal(error.status, status);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+const ada = { customerName: "Ada", customerEmail: "ada@example.com", status: "pending" as const };
+const delivered = { ...ada, status: "delivered" as const };
+
+for (const [name, freshStorage] of storages) {
+  describe(name, () => {
+    test("orders take stock when created and put it back when cancelled", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "ORD-1", 5);
+
+      const order = await storage.createOrder({ customerName: "Ada", status: "pending" }, [
+        { productId: product.id, quantity: 3 },
+      ]);
+      assert.equal(order.totalAmount, "30.00");
+      assert.equal(await stockOf(storage, product.id), 2);
+
+      await storage.updateOrderStatus(order.id, { status: "cancelled", reason: "Changed mind" }, "Grace");
+      assert.equal(await stockOf(storage, product.id), 5);
+      const history = await storage.getOrderStatusHistory(order.id);
+      assert.deepEqual(
+        history.map((entry) => entry.toStatus),
+        ["pending", "cancelled"]
+      );
+      assert.equal(history[1].changedBy, "Grace");
+
+      // Cancelled is final, so stock can't be put back twice
+      await rejects(storage.updateOrderStatus(order.id, { status: "cancelled" }), 409, /cannot move/);
+      assert.equal(await stockOf(storage, product.id), 5);
+    });
+
+    test("an order that can't be filled leaves nothing behind", async () => {
+      const storage = await freshStorage();
+      const plenty = await newProduct(storage, "ORD-2", 10);
+      const scarce = await newProduct(storage, "ORD-3", 1);
+
+      await rejects(
+        storage.createOrder({ customerName: "Ada", status: "pending" }, [
+          { productId: plenty.id, quantity: 4 },
+          { productId: scarce.id, quantity: 2 },
+        ]),
+        409,
+        /stock/i
+      );
+      assert.equal(await stockOf(storage, plenty.id), 10);
+      assert.equal(await stockOf(storage, scarce.id), 1);
+      assert.equal((await storage.getOrders()).length, 0);
+    });
+
+    test("returns restock and issue credit only once approved", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "RET-1", 10, "20.00");
+      const order = await storage.createOrder(delivered, [{ productId: product.id, quantity: 3 }]);
+      const details = { orderId: order.id, orderNumber: order.orderNumber, status: "pending" as const, reason: "Too small" };
+
+      await rejects(
+        storage.createReturn({ ...details, settleAs: "refund" }, [{ productId: product.id, quantity: 4 }]),
+        409,
+        /exceed the quantity that can be returned/
+      );
+
+      const ret = await storage.createReturn({ ...details, settleAs: "credit" }, [{ productId: product.id, quantity: 2 }]);
+      assert.equal(ret.returnValue, "40.00");
+      assert.equal(ret.creditAmount, "40.00");
+      assert.equal(await stockOf(storage, product.id), 7);
+      assert.deepEqual(await storage.getReturnableQuantities(order.id), [
+        { productId: product.id, ordered: 3, returned: 2, returnable: 1 },
+      ]);
+
+      await rejects(storage.completeReturn(ret.id), 409, /cannot move from pending to completed/);
+
+      const approved = await storage.approveReturn(ret.id);
+      assert.equal(approved?.status, "approved");
+      assert.equal(await stockOf(storage, product.id), 9);
+      assert.equal((await storage.getDiscountCode(approved!.creditCode!))?.balance, "40.00");
+      assert.equal((await storage.completeReturn(ret.id))?.status, "completed");
+    });
+
+    test("a rejected return leaves stock alone and frees its quantity", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "RET-2", 10);
+      const order = await storage.createOrder(delivered, [{ productId: product.id, quantity: 2 }]);
+
+      const ret = await storage.createReturn(
+        { orderId: order.id, orderNumber: order.orderNumber, status: "pending", reason: "Worn", settleAs: "refund" },
+        [{ productId: product.id, quantity: 2 }]
+      );
+      const rejected = await storage.rejectReturn(ret.id, "Worn outside");
+      assert.equal(rejected?.status, "rejected");
+      assert.equal(rejected?.rejectionReason, "Worn outside");
+      assert.equal(await stockOf(storage, product.id), 8);
+      assert.equal((await storage.getReturnableQuantities(order.id))?.[0].returnable, 2);
+      assert.deepEqual(
+        (await storage.getOrderReturns(order.id)).map((entry) => entry.id),
+        [ret.id]
+      );
+    });
+
+    test("an up-value exchange ships a replacement order and can't complete until the balance is paid", async () => {
+      const storage = await freshStorage();
+      const returned = await newProduct(storage, "EXC-1", 10, "20.00");
+      const replacement = await newProduct(storage, "EXC-2", 10, "30.00");
+      const order = await storage.createOrder(delivered, [{ productId: returned.id, quantity: 1 }]);
+
+      const exchange = await storage.createReturn(
+        { orderId: order.id, orderNumber: order.orderNumber, status: "pending", reason: "Size", settleAs: "refund" },
+        [{ productId: returned.id, quantity: 1, exchangeProductId: replacement.id }]
+      );
+      assert.equal(exchange.exchangeValue, "30.00");
+      assert.equal(exchange.additionalPayment, "10.00");
+      assert.equal(exchange.paymentStatus, "pending");
+      assert.equal(exchange.refundAmount, "0.00");
+      assert.equal(await stockOf(storage, replacement.id), 9);
+
+      const shipment = await storage.getOrder(exchange.replacementOrderId!);
+      assert.equal(shipment?.status, "pending");
+      assert.equal(shipment?.totalAmount, "10.00");
+      assert.deepEqual(
+        shipment?.items.map((item) => [item.productId, item.quantity]),
+        [[replacement.id, 1]]
+      );
+
+      await storage.approveReturn(exchange.id);
+      await rejects(storage.completeReturn(exchange.id), 409, /Additional payment of \$10\.00 must be marked paid/);
+      assert.equal((await storage.markReturnPaid(exchange.id, "card"))?.paymentStatus, "paid");
+      assert.equal((await storage.completeReturn(exchange.id))?.status, "completed");
+    });
+
+    test("store credit is redeemed with the order and given back when it is cancelled", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "CRD-1", 5);
+      await storage.createDiscountCode({ code: "CREDIT-1", customerEmail: "ada@example.com", amount: "25.00" });
+
+      const order = await storage.createOrder(ada, [{ productId: product.id, quantity: 2 }], {
+        credits: [{ code: "CREDIT-1", amount: "15.00" }],
+      });
+      assert.equal(order.creditApplied, "15.00");
+      assert.equal((await storage.getDiscountCode("CREDIT-1"))?.balance, "10.00");
+
+      // More than is left on the code is refused, and takes no stock
+      await rejects(
+        storage.createOrder(ada, [{ productId: product.id, quantity: 2 }], {
+          credits: [{ code: "CREDIT-1", amount: "12.00" }],
+        }),
+        400,
+        /exceeds available credit/
+      );
+      assert.equal(await stockOf(storage, product.id), 3);
+
+      await storage.updateOrderStatus(order.id, { status: "cancelled" });
+      assert.equal((await storage.getDiscountCode("CREDIT-1"))?.balance, "25.00");
+    });
+
+    test("store credit can't be used once expired, voided or by another customer", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "CRD-2", 10);
+      const redeem = (code: string) =>
+        storage.createOrder(ada, [{ productId: product.id, quantity: 1 }], { credits: [{ code, amount: "5.00" }] });
+
+      await storage.createDiscountCode({
+        code: "OLD",
+        customerEmail: "ada@example.com",
+        amount: "15.00",
+        expiresAt: new Date(Date.now() - 86_400_000),
+      });
+      await rejects(redeem("OLD"), 409, /expired on/);
+      const expired = await storage.expireDiscountCodes();
+      assert.deepEqual(
+        expired.map((code) => [code.code, code.balance]),
+        [["OLD", "0.00"]]
+      );
+      assert.deepEqual(
+        (await storage.getCreditTransactions("OLD")).map((entry) => [entry.type, entry.amount]),
+        [["issue", "15.00"], ["expire", "-15.00"]]
+      );
+
+      await storage.createDiscountCode({ code: "BOB", customerEmail: "bob@example.com", amount: "15.00" });
+      await rejects(redeem("BOB"), 403, /belongs to a different customer/);
+      assert.equal((await storage.adjustDiscountCode("BOB", "-5.00", "Goodwill"))?.balance, "10.00");
+
+      const code = await storage.createDiscountCode({ code: "VOID", customerEmail: "ada@example.com", amount: "15.00" });
+      const voided = await storage.voidDiscountCode(code.id);
+      assert.equal(voided?.balance, "0.00");
+      assert.ok(voided?.voidedAt);
+      await rejects(redeem("VOID"), 409, /has been voided/);
+      await rejects(storage.voidDiscountCode(code.id), 409, /has been voided/);
+      assert.equal(await stockOf(storage, product.id), 10);
+    });
+
+    test("orders with an email or phone are filed under a customer and walk-ins aren't", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "CUS-1", 10);
+
+      const first = await storage.createOrder(ada, [{ productId: product.id, quantity: 1 }]);
+      const second = await storage.createOrder({ ...ada, customerEmail: "ADA@example.com" }, [
+        { productId: product.id, quantity: 2 },
+      ]);
+      const walkIn = await storage.createOrder({ customerName: "Walk-in", status: "pending" }, [
+        { productId: product.id, quantity: 1 },
+      ]);
+      assert.ok(first.customerId);
+      assert.equal(second.customerId, first.customerId);
+      assert.equal(walkIn.customerId, null);
+
+      const customers = await storage.getCustomers();
+      assert.equal(customers.length, 1);
+      assert.equal(customers[0].orderCount, 2);
+      assert.equal(customers[0].lifetimeValue, "30.00");
+    });
+
+    test("a style's variant matrix makes one product per color and size", async () => {
+      const storage = await freshStorage();
+      const style = await storage.createProductStyle(
+        { styleName: "Polo", styleCode: "POLO", category: "Tops", brand: "Fabrix", gender: "Unisex" },
+        { colors: ["Navy Blue", "Red"], sizes: ["S", "XL"], price: "25.00", stockQuantity: 2 }
+      );
+      assert.deepEqual(style.variants.map((variant) => variant.sku).sort(), [
+        "POLO-NAVYBLUE-S",
+        "POLO-NAVYBLUE-XL",
+        "POLO-RED-S",
+        "POLO-RED-XL",
+      ]);
+      assert.ok(style.variants.every((variant) => variant.styleId === style.id));
+
+      await rejects(
+        storage.addStyleVariants(style.id, { colors: ["Red"], sizes: ["S"], price: "25.00", stockQuantity: 0 }),
+        409,
+        /./
+      );
+    });
+
+    test("transfers hold stock in transit until received and give it back when cancelled", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "TRF-1", 10);
+      const main = await defaultLocation(storage);
+      const shop = await storage.createLocation({ name: "Shop", code: "SHOP" });
+      const transfer = (from: string, to: string, quantity: number) =>
+        storage.createStockTransfer({ fromLocationId: from, toLocationId: to, items: [{ productId: product.id, quantity }] });
+
+      await rejects(transfer(main.id, shop.id, 11), 409, /Insufficient stock/);
+
+      const sent = await transfer(main.id, shop.id, 4);
+      assert.equal(sent.status, "in_transit");
+      assert.equal(await quantityAt(storage, product.id, main.id), 6);
+      assert.equal(await stockOf(storage, product.id), 6);
+
+      assert.equal((await storage.receiveStockTransfer(sent.id))?.status, "received");
+      assert.equal(await quantityAt(storage, product.id, shop.id), 4);
+      assert.equal(await stockOf(storage, product.id), 10);
+      await rejects(storage.receiveStockTransfer(sent.id), 409, /already been received/);
+
+      const back = await transfer(shop.id, main.id, 1);
+      assert.equal((await storage.cancelStockTransfer(back.id))?.status, "cancelled");
+      assert.equal(await quantityAt(storage, product.id, shop.id), 4);
+      assert.equal(await quantityAt(storage, product.id, main.id), 6);
+    });
+
+    test("posting a stocktake adjusts stock to the approved counts", async () => {
+      const storage = await freshStorage();
+      const counted = await newProduct(storage, "STK-1", 6);
+      const unapproved = await newProduct(storage, "STK-2", 6);
+      const main = await defaultLocation(storage);
+
+      const stocktake = await storage.createStocktake({ locationId: main.id });
+      assert.equal(stocktake.status, "open");
+      assert.equal(stocktake.items.find((item) => item.productId === counted.id)?.systemQuantity, 6);
+
+      await storage.recordStocktakeCounts(stocktake.id, {
+        items: [
+          { productId: counted.id, countedQuantity: 4, approved: true },
+          { productId: unapproved.id, countedQuantity: 1 },
+        ],
+      });
+      assert.equal((await storage.postStocktake(stocktake.id))?.status, "posted");
+      assert.equal(await stockOf(storage, counted.id), 4);
+      assert.equal(await stockOf(storage, unapproved.id), 6);
+
+      const movement = (await storage.getStockMovements(counted.id)).find((entry) => entry.reason === "stocktake")!;
+      assert.deepEqual(
+        [movement.type, movement.reason, movement.quantity, movement.sourceType, movement.sourceId],
+        ["adjustment", "stocktake", -2, "stocktake", stocktake.id]
+      );
+    });
+
+    test("purchase orders are received in parts and close once everything has arrived", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "PO-1", 2);
+      const supplier = await storage.createSupplier({ name: "Mills" });
+      const po = await storage.createPurchaseOrder({
+        supplierId: supplier.id,
+        items: [{ productId: product.id, quantity: 5, unitCost: "8.00" }],
+      });
+      const receive = (quantity: number) =>
+        storage.receivePurchaseOrder(po.id, { items: [{ itemId: po.items[0].id, quantity }] });
+
+      await rejects(receive(2), 409, /must be sent/);
+      await storage.sendPurchaseOrder(po.id);
+
+      assert.equal((await receive(2))?.status, "partially_received");
+      assert.equal(await stockOf(storage, product.id), 4);
+      await rejects(receive(4), 409, /exceed the quantity still to be received/);
+      assert.equal((await receive(3))?.status, "closed");
+      assert.equal(await stockOf(storage, product.id), 7);
+
+      const movement = (await storage.getStockMovements(product.id)).find((entry) => entry.reason === "purchase")!;
+      assert.deepEqual(
+        [movement.reason, movement.sourceType, movement.sourceId],
+        ["purchase", "purchase_order", po.id]
+      );
+    });
+
+    test("reorder suggestions cover the lead time at the recent sales rate", async () => {
+      const storage = await freshStorage();
+      const supplier = await storage.createSupplier({ name: "Mills" });
+      const { id, createdAt, styleId, ...fields } = await newProduct(storage, "REO-1", 3);
+      const product = (await storage.updateProduct(id, { ...fields, supplierId: supplier.id, leadTimeDays: 14 }))!;
+      await storage.createOrder(delivered, [{ productId: product.id, quantity: 3 }]);
+
+      const suggestion = (await storage.getReorderSuggestions(30)).find((entry) => entry.productId === product.id);
+      assert.equal(suggestion?.unitsSold, 3);
+      assert.equal(suggestion?.reorderPoint, 2);
+      assert.equal(suggestion?.suggestedQuantity, 5);
+    });
+
+    test("stock movements record signed changes and refuse to go below zero", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "MOV-1", 4);
+      const movement = (type: "in" | "out" | "adjustment", quantity: number, reason: schema.MovementReasonCode) =>
+        storage.createStockMovement({
+          productId: product.id,
+          productName: product.productName,
+          sku: product.sku,
+          type,
+          quantity,
+          reason,
+        });
+
+      const received = await movement("in", 6, "purchase");
+      assert.equal(received.quantityBefore, 4);
+      assert.equal(received.quantityAfter, 10);
+
+      const corrected = await movement("adjustment", -2, "correction");
+      assert.equal(corrected.quantityBefore, 10);
+      assert.equal(corrected.quantityAfter, 8);
+      assert.equal(await stockOf(storage, product.id), 8);
+
+      await rejects(movement("out", 9, "damaged"), 409, /Insufficient stock/);
+      assert.equal(await stockOf(storage, product.id), 8);
+
+      const recorded = (await storage.getStockMovements()).length;
+      await rejects(
+        storage.createStockMovement({
+          productId: "missing",
+          productName: "Missing",
+          sku: "MISSING",
+          type: "in",
+          quantity: 1,
+          reason: "purchase",
+        }),
+        404,
+        /Product not found/
+      );
+      assert.equal((await storage.getStockMovements()).length, recorded);
+    });
+
+    test("movements name the document they were recorded for", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "SRC-1", 5);
+      const order = await storage.createOrder(ada, [{ productId: product.id, quantity: 1 }]);
+
+      const movement = (await storage.getStockMovements(product.id)).find((entry) => entry.type === "out")!;
+      assert.deepEqual(
+        [movement.type, movement.reason, movement.sourceType, movement.sourceId],
+        ["out", "sale", "order", order.id]
+      );
+    });
+
+    test("list pages follow their cursor to the end without repeats", async () => {
+      const storage = await freshStorage();
+      for (const sku of ["PAG-E", "PAG-B", "PAG-D", "PAG-A", "PAG-C"]) {
+        await newProduct(storage, sku, 1);
+      }
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.listProducts(productListQuerySchema.parse({ limit: 2, cursor, search: "PAG" }));
+        assert.equal(page.total, 5);
+        assert.ok(page.items.length <= 2);
+        seen.push(...page.items.map((product) => product.sku));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      assert.deepEqual(seen, ["PAG-A", "PAG-B", "PAG-C", "PAG-D", "PAG-E"]);
+
+      const descending = await storage.listProducts(
+        productListQuerySchema.parse({ limit: 2, search: "PAG", sort: "sku", order: "desc" })
+      );
+      assert.deepEqual(
+        descending.items.map((product) => product.sku),
+        ["PAG-E", "PAG-D"]
+      );
+    });
+
+    test("only the first user becomes the owner", async () => {
+      const storage = await freshStorage();
+      const owner = await storage.createOwner({ username: "owner", displayName: "Owner", passwordHash: "hash" });
+      assert.equal(owner?.role, "owner");
+      assert.equal(
+        await storage.createOwner({ username: "second", displayName: "Second", passwordHash: "hash" }),
+        undefined
+      );
+    });
+
+    test("audit events are listed by the record they describe", async () => {
+      const storage = await freshStorage();
+      await storage.createAuditEvents([
+        { actorId: null, actorName: "System", entityType: "order", entityId: "o1", entityLabel: "ORD-1", action: "create", changes: {} },
+        { actorId: null, actorName: "System", entityType: "product", entityId: "p1", entityLabel: "SKU-1", action: "update", changes: {} },
+      ]);
+
+      const page = await storage.listAuditEvents(auditEventListQuerySchema.parse({ entityType: "order" }));
+      assert.deepEqual(
+        page.items.map((event) => event.entityId),
+        ["o1"]
+      );
+    });
+
+    test("manual discounts over the limit need a manager and totals must match", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "DSC-1", 10, "20.00");
+      const halfOff = { type: "percent" as const, value: "50", reason: "Friend" };
+
+      await rejects(
+        storage.createOrder(ada, [{ productId: product.id, quantity: 2 }], { discount: halfOff }),
+        403,
+        /need a manager's approval/
+      );
+      const approved = await storage.createOrder(ada, [{ productId: product.id, quantity: 2 }], {
+        discount: halfOff,
+        approvedBy: "Manager",
+      });
+      assert.equal(approved.totalAmount, "20.00");
+      assert.equal(approved.discountAmount, "20.00");
+
+      await rejects(
+        storage.createOrder(ada, [{ productId: product.id, quantity: 1 }], { expectedTotal: "19.00" }),
+        409,
+        /doesn't match/
+      );
+    });
+
+    test("tax is added at the rate for the order's jurisdiction", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "TAX-1", 10, "20.00");
+      await storage.createTaxClass({
+        name: "VAT",
+        categories: ["Tops"],
+        rates: [
+          { jurisdiction: "DEFAULT", name: "VAT", rate: "20" },
+          { jurisdiction: "NY", name: "Sales tax", rate: "8.875" },
+        ],
+      });
+
+      const local = await storage.createOrder(ada, [{ productId: product.id, quantity: 1 }]);
+      assert.equal(local.taxJurisdiction, "DEFAULT");
+      assert.equal(local.items[0].taxRate, "20.000");
+      assert.equal(local.taxAmount, "4.00");
+      assert.equal(local.totalAmount, "24.00");
+
+      const ny = await storage.createOrder(ada, [{ productId: product.id, quantity: 3 }], { taxJurisdiction: "NY" });
+      assert.equal(ny.taxAmount, "5.33");
+      assert.equal(ny.totalAmount, "65.33");
+    });
+
+    test("a product can't be deleted while a transfer or return still has to move its stock", async () => {
+      const storage = await freshStorage();
+      const product = await newProduct(storage, "DEL-1", 10);
+      const main = await defaultLocation(storage);
+      const shop = await storage.createLocation({ name: "Shop", code: "SHOP" });
+
+      const transfer = await storage.createStockTransfer({
+        fromLocationId: main.id,
+        toLocationId: shop.id,
+        items: [{ productId: product.id, quantity: 2 }],
+      });
+      await rejects(storage.deleteProduct(product.id), 409, /transfer in transit/);
+
+      await storage.receiveStockTransfer(transfer.id);
+      const order = await storage.createOrder({ customerName: "Ada", status: "delivered" }, [
+        { productId: product.id, quantity: 1 },
+      ]);
+      const ret = await storage.createReturn(
+        { orderId: order.id, orderNumber: order.orderNumber, status: "pending", reason: "Too small", settleAs: "refund" },
+        [{ productId: product.id, quantity: 1 }]
+      );
+      await rejects(storage.deleteProduct(product.id), 409, /pending return/);
+
+      await storage.approveReturn(ret.id);
+      assert.equal(await storage.deleteProduct(product.id), true);
+    });
+  });
+}
+
+test("roles only carry the permissions granted to them", () => {
+  assert.equal(hasPermission("cashier", "returns.approve"), false);
+  assert.equal(hasPermission("manager", "returns.approve"), true);
+  assert.equal(hasPermission("manager", "users.manage"), false);
+  assert.equal(hasPermission("owner", "users.manage"), true);
+  assert.equal(hasPermission("warehouse", "orders.manage"), false);
+  assert.equal(hasPermission("unknown", "products.view"), false);
+});
+
+// MemStorage runs its work directly, so only the database can roll back
+test("a DatabaseStorage transaction's changes are undone when anything in it fails", async () => {
+  const storage = await freshDatabaseStorage();
+  const product = await newProduct(storage, "TXN-1", 5);
+
+  // As when the audit events for an order can't be written
+  await assert.rejects(
+    storage.transaction(async (store) => {
+      await store.createOrder({ customerName: "Ada", status: "pending" }, [{ productId: product.id, quantity: 2 }]);
+      await store.createAuditEvents([{ actorId: null, actorName: "System", entityType: "order", entityId: "x", entityLabel: null, action: "create", changes: null as never }]);
+    })
+  );
+  assert.equal(await stockOf(storage, product.id), 5);
+  assert.equal((await storage.getOrders()).length, 0);
+});
@@ -1,11 +1,41 @@
 import {
+  customers,
+  productStyles,
   products,
   orders,
   orderItems,
   stockMovements,
+  locations,
+  stockLevels,
+  stockTransfers,
+  stockTransferItems,
+  stocktakes,
+  users,
+  auditEvents,
+  stocktakeItems,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
   returns,
   returnItems,
   discountCodes,
+  creditTransactions,
+  orderStatusHistory,
+  canTransitionOrder,
+  canTransitionReturn,
+  canTransitionPurchaseOrder,
+  isMovementReasonCode,
+  movementReasonCodes,
+  type Customer,
+  type InsertCustomer,
+  type CustomerWithStats,
+  type CustomerHistory,
+  type ProductStyle,
+  type InsertProductStyle,
+  type ProductStyleWithVariants,
+  type VariantMatrix,
+  type VariantUpdate,
+  variantSku,
   type Product,
   type InsertProduct,
   type Order,
@@ -13,425 +43,6011 @@ import {
   type OrderItem,
   type InsertOrderItem,
   type OrderWithItems,
+  type OrderCredit,
+  type OrderStatusChange,
+  type OrderStatusHistory,
   type StockMovement,
   type InsertStockMovement,
+  type StockDrift,
+  type RebuildStock,
+  type MovementReasonCode,
+  type MovementSourceType,
+  type Location,
+  type InsertLocation,
+  type LocationWithStock,
+  type StockLevel,
+  type StockBalance,
+  type StockTransfer,
+  type StockTransferItem,
+  type StockTransferWithItems,
+  type CreateStockTransfer,
+  type Stocktake,
+  type StocktakeItem,
+  type StocktakeWithItems,
+  type StocktakeLineError,
+  type CreateStocktake,
+  type RecordStocktakeCounts,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type PurchaseOrderWithItems,
+  type PurchaseOrderLineError,
+  type CreatePurchaseOrder,
+  type ReceivePurchaseOrder,
+  type ReorderSuggestion,
+  type ReorderPurchaseOrders,
   type Return,
-  type InsertReturn,
   type ReturnItem,
-  type InsertReturnItem,
   type ReturnWithItems,
+  type ReturnableQuantity,
+  type ReturnItemError,
+  type ReturnPaymentMethod,
   type DiscountCode,
+  type DiscountCodeWithBalance,
   type InsertDiscountCode,
+  type CreditTransaction,
+  type InsertCreditTransaction,
+  type Page,
+  type SortOrder,
+  type ProductListQuery,
+  type ProductSortKey,
+  type ProductFacets,
+  type OrderListQuery,
+  type OrderSortKey,
+  type ReturnListQuery,
+  type ReturnSortKey,
+  type StockMovementListQuery,
+  type StockMovementSortKey,
+  type StockFigures,
+  type ProductStockFigures,
+  type StockFigureListQuery,
+  type StockFigureSortKey,
+  type User,
+  type UserRecord,
+  type InsertUser,
+  type UpdateUser,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditActor,
+  type AuditEntityType,
+  type AuditEventListQuery,
+  type OrderDetails,
+  type OrderLine,
+  type ManualDiscount,
+  manualDiscountCents,
+  toCents,
+  fromCents,
+  paidByProduct,
+  returnValueCents,
+  returnTaxCents,
+  orderLineTaxCents,
+  taxCents,
+  taxRateFor,
+  taxClasses,
+  taxRates,
+  type TaxClass,
+  type TaxRate,
+  type TaxClassWithRates,
+  type InsertTaxClass,
+  type ReturnDetails,
+  type ReturnLine,
+  type UpdateReturn,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { sql, eq } from "drizzle-orm";
+import { sql, eq, ne, and, or, gt, gte, lt, lte, desc, asc, ilike, inArray, notInArray, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import { db } from "./db";
+import { creditExpiryDate, isCreditExpired } from "./credit-policy";
+import { reorderSuggestion, velocityWindowStart } from "./reorder-policy";
+import { discountNeedsApproval, discountPolicy } from "./discount-policy";
+import { taxPolicy } from "./tax-policy";
 
+// Any drizzle Postgres database (neon, node-postgres, pglite, ...) can back
+// DatabaseStorage, which keeps it usable against a local stand-in.
+export type Database = PgDatabase<PgQueryResultHKT, Record<string, unknown>>;
+
+// Thrown when a request conflicts with the current state of the data
+// (e.g. not enough stock); routes turn it into a response with `status`.
+// `details` carries structured information the client can show alongside
+// the message, such as per-line return errors.
+export class StorageError extends Error {
+  constructor(message: string, public status: number = 400, public details?: unknown) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+function insufficientStockError(
+  product: Product,
+  requested: number,
+  available: number,
+  location: Location
+): StorageError {
+  return new StorageError(
+    `Insufficient stock for ${product.sku}: ${requested} requested, ${available} available at ${location.name}`,
+    409
+  );
+}
+
+type StyleFields = Pick<
+  Product,
+  "productName" | "category" | "brand" | "description" | "gender" | "fabric" | "pattern" | "productImage" | "galleryImages"
+>;
+
+function styleRow(data: InsertProductStyle): Omit<ProductStyle, "id" | "createdAt"> {
+  return {
+    ...data,
+    styleCode: data.styleCode.toUpperCase(),
+    description: data.description || null,
+    fabric: data.fabric || null,
+    pattern: data.pattern || null,
+    productImage: data.productImage || null,
+    galleryImages: data.galleryImages?.length ? data.galleryImages : null,
+  };
+}
+
+// What every variant copies from its style
+function styleFields(style: Omit<ProductStyle, "id" | "createdAt">): StyleFields {
+  return {
+    productName: style.styleName,
+    category: style.category,
+    brand: style.brand,
+    description: style.description,
+    gender: style.gender,
+    fabric: style.fabric,
+    pattern: style.pattern,
+    productImage: style.productImage,
+    galleryImages: style.galleryImages,
+  };
+}
+
+function variantKey(color: string, size: string): string {
+  return `${color.trim().toLowerCase()}|${size.trim().toLowerCase()}`;
+}
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// The variants a matrix adds to a style: every color/size combination it
+// doesn't have yet, in the order the colors and sizes were given
+function matrixVariants(
+  style: ProductStyle,
+  matrix: VariantMatrix,
+  existing: Product[]
+): Omit<Product, "id" | "createdAt">[] {
+  const taken = new Set(existing.map((variant) => variantKey(variant.color, variant.size)));
+  const variants = uniqueValues(matrix.colors).flatMap((color) =>
+    uniqueValues(matrix.sizes)
+      .filter((size) => !taken.has(variantKey(color, size)))
+      .map((size) => ({
+        ...styleFields(style),
+        styleId: style.id,
+        sku: variantSku(style.styleCode, color, size),
+        color,
+        size,
+        price: matrix.price,
+        costPrice: matrix.costPrice || null,
+        stockQuantity: matrix.stockQuantity,
+        warehouse: null,
+        reorderPoint: null,
+        leadTimeDays: null,
+        supplierId: null,
+        isFeatured: false,
+        launchDate: null,
+        rating: null,
+        tags: null,
+      }))
+  );
+
+  if (variants.length === 0) {
+    throw new StorageError("Every color and size combination already exists for this style", 409);
+  }
+  return variants;
+}
+
+// Generated SKUs must be new, and distinct among themselves: colors such as
+// "Navy Blue" and "navy-blue" would otherwise collide
+function assertSkusAvailable(skus: string[], taken: string[]): void {
+  const clashes = skus.filter((sku, index) => taken.includes(sku) || skus.indexOf(sku) !== index);
+  if (clashes.length > 0) {
+    throw new StorageError(`SKU already in use: ${Array.from(new Set(clashes)).join(", ")}`, 409, { skus: clashes });
+  }
+}
+
+function assertVariantsOfStyle(variants: Product[], updates: VariantUpdate[]): void {
+  for (const update of updates) {
+    if (!variants.some((variant) => variant.id === update.id)) {
+      throw new StorageError(`Product ${update.id} is not a variant of this style`);
+    }
+  }
+}
+
+// Stock set directly on a product or from the variant grid is the new total
+// across locations, so the difference is adjusted at the default location
+function stockCorrection(product: Product, stockQuantity: number, notes: string): InsertStockMovement | null {
+  const change = stockQuantity - product.stockQuantity;
+  if (change === 0) return null;
+  return {
+    productId: product.id,
+    productName: product.productName,
+    sku: product.sku,
+    type: "adjustment",
+    quantity: change,
+    reason: "correction",
+    notes,
+  };
+}
+
+// A product's own columns from the form, with what was left out stored as
+// null the way the database stores it
+function productColumns(data: InsertProduct) {
+  return {
+    ...data,
+    description: data.description ?? null,
+    fabric: data.fabric ?? null,
+    pattern: data.pattern ?? null,
+    costPrice: data.costPrice ?? null,
+    warehouse: data.warehouse ?? null,
+    reorderPoint: data.reorderPoint ?? null,
+    leadTimeDays: data.leadTimeDays ?? null,
+    supplierId: data.supplierId ?? null,
+    productImage: data.productImage ?? null,
+    galleryImages: data.galleryImages ?? null,
+    isFeatured: data.isFeatured ?? false,
+    launchDate: data.launchDate ?? null,
+    rating: data.rating ?? null,
+    tags: data.tags ?? null,
+  };
+}
+
+// Products start from zero and take their initial stock in through the
+// ledger like any other movement
+function openingStock(product: Product, stockQuantity: number): InsertStockMovement | null {
+  if (stockQuantity <= 0) return null;
+  return {
+    productId: product.id,
+    productName: product.productName,
+    sku: product.sku,
+    type: "in",
+    quantity: stockQuantity,
+    reason: "opening_stock",
+  };
+}
+
+// Unfinished work a product is on. Each would move the product's stock when
+// it is finished, so the product can't be deleted until it is.
+interface ProductCommitments {
+  transfers: number;
+  returns: number;
+  stocktakes: number;
+  purchaseOrders: number;
+}
+
+function assertProductRemovable(product: Product, open: ProductCommitments): void {
+  const pending = [
+    open.transfers > 0 && "a transfer in transit",
+    open.returns > 0 && "a pending return",
+    open.stocktakes > 0 && "an open stocktake",
+    open.purchaseOrders > 0 && "an open purchase order",
+  ].filter(Boolean);
+  if (pending.length > 0) {
+    throw new StorageError(
+      `${product.sku} is on ${pending.join(", ")}; finish or cancel it before deleting the product`,
+      409
+    );
+  }
+}
+
+// Every store has a default location; DatabaseStorage creates it the first
+// time it is needed
+const defaultLocationFields = { name: "Main Warehouse", code: "MAIN", address: null, isDefault: true };
+
+function locationFields(data: InsertLocation): Omit<Location, "id" | "isDefault" | "createdAt"> {
+  return {
+    name: data.name.trim(),
+    code: data.code.toUpperCase(),
+    address: data.address?.trim() || null,
+  };
+}
+
+function assertLocationCodeFree(existing: Location | undefined, code: string): void {
+  if (existing) {
+    throw new StorageError(`A location with code ${code} already exists`, 409, { locationId: existing.id });
+  }
+}
+
+function byDefaultThenName(a: Location, b: Location): number {
+  if (a.isDefault !== b.isDefault) return a.isDefault ? -1 : 1;
+  return a.name.localeCompare(b.name);
+}
+
+// Quantity of a product at a location. Levels are only stored for
+// non-default locations; the default location holds the rest of the total.
+function quantityAt(product: Product, location: Location, levels: StockLevel[]): number {
+  const own = levels.filter((level) => level.productId === product.id);
+  if (!location.isDefault) {
+    return own.find((level) => level.locationId === location.id)?.quantity ?? 0;
+  }
+  return product.stockQuantity - own.reduce((sum, level) => sum + level.quantity, 0);
+}
+
+// Quantity at a location after a movement there
+function levelAfter(current: number, movement: { type: string; quantity: number }): number {
+  if (movement.type === "out") return current - movement.quantity;
+  return current + movement.quantity;
+}
+
+// A location only goes below zero on a backorder
+function assertLevelAllowed(
+  product: Product,
+  location: Location,
+  current: number,
+  next: number,
+  movement: InsertStockMovement
+): void {
+  if (next < 0 && next < current && !movement.allowBackorder) {
+    throw insufficientStockError(product, current - next, current, location);
+  }
+}
+
+// A movement as recorded: what it did to the level at its location
+function recordedMovement(
+  { allowBackorder, ...movement }: InsertStockMovement,
+  location: Location,
+  levels: { before: number; after: number }
+): Omit<StockMovement, "id" | "createdAt"> {
+  return {
+    ...movement,
+    notes: movement.notes ?? null,
+    sourceType: movement.sourceType ?? "manual",
+    sourceId: movement.sourceId ?? null,
+    locationId: location.id,
+    quantityBefore: levels.before,
+    quantityAfter: levels.after,
+  };
+}
+
+// Replays a location's level through a recorded movement. Movements from
+// before the ledger kept quantityBefore follow the rules they were recorded
+// under: adjustments set the level and outs stopped at zero.
+function replayedLevel(level: number, movement: StockMovement): number {
+  if (movement.quantityBefore !== null) return levelAfter(level, movement);
+  if (movement.type === "in") return level + movement.quantity;
+  if (movement.type === "out") return Math.max(0, level - movement.quantity);
+  return Math.max(0, movement.quantity);
+}
+
+// Levels per product and location that the movements, oldest first, replay to
+function ledgerLevels(movements: StockMovement[], defaultLocationId: string): Map<string, Map<string, number>> {
+  const ledger = new Map<string, Map<string, number>>();
+  for (const movement of movements) {
+    const levels = ledger.get(movement.productId) ?? new Map<string, number>();
+    const locationId = movement.locationId ?? defaultLocationId;
+    levels.set(locationId, replayedLevel(levels.get(locationId) ?? 0, movement));
+    ledger.set(movement.productId, levels);
+  }
+  return ledger;
+}
+
+function ledgerTotal(levels: Map<string, number> | undefined): number {
+  return Array.from(levels?.values() ?? []).reduce((sum, quantity) => sum + quantity, 0);
+}
+
+function stockDrift(productRows: Product[], ledger: Map<string, Map<string, number>>): StockDrift[] {
+  return productRows
+    .map((product) => {
+      const ledgerQuantity = ledgerTotal(ledger.get(product.id));
+      return {
+        productId: product.id,
+        productName: product.productName,
+        sku: product.sku,
+        stockQuantity: product.stockQuantity,
+        ledgerQuantity,
+        drift: product.stockQuantity - ledgerQuantity,
+      };
+    })
+    .filter((row) => row.drift !== 0)
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+// Labels that hand-recorded and system movements used before reasons became
+// codes, normalised to lower_snake_case. Anything else that still isn't a
+// code becomes "other", keeping the original text in the notes.
+const legacyMovementReasons: Record<string, MovementReasonCode> = {
+  new_purchase: "purchase",
+  customer_return: "return",
+  damaged_defective: "damaged",
+  lost_stolen: "lost",
+  initial_stock: "opening_stock",
+};
+
+function migratedReason(movement: StockMovement): Pick<StockMovement, "reason" | "notes"> | null {
+  if (isMovementReasonCode(movement.reason)) return null;
+
+  const key = movement.reason.trim().toLowerCase().replace(/[\s/]+/g, "_");
+  const code = legacyMovementReasons[key] ?? (isMovementReasonCode(key) ? key : null);
+  if (code) return { reason: code, notes: movement.notes };
+  return {
+    reason: "other",
+    notes: movement.notes ? `${movement.reason}: ${movement.notes}` : movement.reason,
+  };
+}
+
+// The kind of document that records movements for each reason. Movements
+// from before sources were recorded only name their document in the notes.
+const documentReasons: Partial<Record<MovementReasonCode, MovementSourceType>> = {
+  sale: "order",
+  order_cancelled: "order",
+  return: "return",
+  purchase: "purchase_order",
+  transfer_out: "transfer",
+  transfer_in: "transfer",
+  transfer_cancelled: "transfer",
+  stocktake: "stocktake",
+};
+
+interface SourceDocument {
+  sourceType: MovementSourceType;
+  id: string;
+  number: string;
+}
+
+function inferredSource(
+  movement: StockMovement,
+  documents: SourceDocument[]
+): Pick<StockMovement, "sourceType" | "sourceId"> | null {
+  if (movement.sourceId || !movement.notes) return null;
+  const sourceType = documentReasons[movement.reason as MovementReasonCode];
+  if (!sourceType) return null;
+
+  const document = documents.find(
+    (candidate) => candidate.sourceType === sourceType && movement.notes!.includes(candidate.number)
+  );
+  return document ? { sourceType, sourceId: document.id } : null;
+}
+
+// The drifting products a rebuild covers
+function driftToRebuild(drift: StockDrift[], rebuild: RebuildStock): StockDrift[] {
+  return rebuild.productIds ? drift.filter((row) => rebuild.productIds!.includes(row.productId)) : drift;
+}
+
+function stockBalances(productRows: Product[], locationRows: Location[], levels: StockLevel[]): StockBalance[] {
+  return productRows.flatMap((product) =>
+    locationRows.map((location) => ({
+      productId: product.id,
+      locationId: location.id,
+      quantity: quantityAt(product, location, levels),
+    }))
+  );
+}
+
+function withUnitsOnHand(
+  locationRows: Location[],
+  totalOnHand: number,
+  levels: Pick<StockLevel, "locationId" | "quantity">[]
+): LocationWithStock[] {
+  const held = new Map<string, number>();
+  for (const level of levels) {
+    held.set(level.locationId, (held.get(level.locationId) ?? 0) + level.quantity);
+  }
+  const heldElsewhere = Array.from(held.values()).reduce((sum, units) => sum + units, 0);
+
+  return locationRows.sort(byDefaultThenName).map((location) => ({
+    ...location,
+    unitsOnHand: location.isDefault ? totalOnHand - heldElsewhere : held.get(location.id) ?? 0,
+  }));
+}
+
+function assertLocationRemovable(location: LocationWithStock, transfersInTransit: number): void {
+  if (location.isDefault) {
+    throw new StorageError("The default location can't be deleted", 409);
+  }
+  if (location.unitsOnHand > 0) {
+    throw new StorageError(
+      `${location.name} still holds ${location.unitsOnHand} units; transfer them out first`,
+      409
+    );
+  }
+  if (transfersInTransit > 0) {
+    throw new StorageError(`${location.name} has transfers in transit`, 409);
+  }
+}
+
+function transferLocations(
+  from: Location | undefined,
+  to: Location | undefined
+): { from: Location; to: Location } {
+  if (!from) throw new StorageError("Source location not found", 404);
+  if (!to) throw new StorageError("Destination location not found", 404);
+  if (from.id === to.id) {
+    throw new StorageError("Source and destination must be different locations");
+  }
+  return { from, to };
+}
+
+// One line per product, each checked against what the source location holds
+function transferItems(
+  data: CreateStockTransfer,
+  productsById: Map<string, Product>,
+  from: Location,
+  levels: StockLevel[]
+): Omit<StockTransferItem, "id" | "transferId">[] {
+  const requested = new Map<string, number>();
+  for (const item of data.items) {
+    requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity);
+  }
+
+  return Array.from(requested).map(([productId, quantity]) => {
+    const product = productsById.get(productId);
+    if (!product) {
+      throw new StorageError(`Product ${productId} not found`, 404);
+    }
+    const available = quantityAt(product, from, levels);
+    if (available < quantity) {
+      throw insufficientStockError(product, quantity, available, from);
+    }
+    return { productId, productName: product.productName, sku: product.sku, quantity };
+  });
+}
+
+function assertTransferInTransit(transfer: StockTransfer): void {
+  if (transfer.status !== "in_transit") {
+    throw new StorageError(
+      `Transfer ${transfer.transferNumber} has already been ${transfer.status}`,
+      409
+    );
+  }
+}
+
+function transferMovements(
+  transfer: StockTransferWithItems,
+  type: "in" | "out",
+  location: Location,
+  reason: MovementReasonCode,
+  notes: string
+): InsertStockMovement[] {
+  return transfer.items.map((item) => ({
+    productId: item.productId,
+    productName: item.productName,
+    sku: item.sku,
+    type,
+    quantity: item.quantity,
+    reason,
+    notes,
+    locationId: location.id,
+    sourceType: "transfer",
+    sourceId: transfer.id,
+  }));
+}
+
+function transferNumber(): string {
+  return `TRF-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+}
+
+// Every product in the category, in name order, with what the location
+// holds now as the starting system quantity
+function stocktakeLines(
+  productRows: Product[],
+  location: Location,
+  levels: StockLevel[],
+  category: string | null
+): Omit<StocktakeItem, "id" | "stocktakeId">[] {
+  const lines = productRows
+    .filter((product) => !category || product.category === category)
+    .sort((a, b) => a.productName.localeCompare(b.productName) || a.sku.localeCompare(b.sku))
+    .map((product) => ({
+      productId: product.id,
+      productName: product.productName,
+      sku: product.sku,
+      systemQuantity: quantityAt(product, location, levels),
+      countedQuantity: null,
+      approved: false,
+      countedAt: null,
+    }));
+  if (lines.length === 0) {
+    throw new StorageError(category ? `There are no ${category} products to count` : "There are no products to count");
+  }
+  return lines;
+}
+
+function assertStocktakeOpen(stocktake: Stocktake): void {
+  if (stocktake.status !== "open") {
+    throw new StorageError(`Stocktake ${stocktake.stocktakeNumber} has already been ${stocktake.status}`, 409);
+  }
+}
+
+// Applies counts and approvals to the session's lines. A new count takes
+// the location's current quantity as the system quantity and needs
+// approving again.
+function countedLines(
+  stocktake: StocktakeWithItems,
+  counts: RecordStocktakeCounts,
+  productsById: Map<string, Product>,
+  location: Location,
+  levels: StockLevel[]
+): StocktakeItem[] {
+  const errors: StocktakeLineError[] = [];
+  const updated = new Map<string, StocktakeItem>();
+  for (const count of counts.items) {
+    const item = updated.get(count.productId) ?? stocktake.items.find((line) => line.productId === count.productId);
+    if (!item) {
+      errors.push({ productId: count.productId, message: "This product is not part of the stocktake" });
+      continue;
+    }
+
+    let line = item;
+    if (count.countedQuantity !== undefined) {
+      const product = productsById.get(item.productId);
+      line = {
+        ...line,
+        systemQuantity: product ? quantityAt(product, location, levels) : line.systemQuantity,
+        countedQuantity: count.countedQuantity,
+        countedAt: count.countedQuantity === null ? null : new Date(),
+        approved: false,
+      };
+    }
+    if (count.approved !== undefined) {
+      if (count.approved && line.countedQuantity === null) {
+        errors.push({ productId: item.productId, message: "Count this product before approving it" });
+        continue;
+      }
+      line = { ...line, approved: count.approved };
+    }
+    updated.set(item.productId, line);
+  }
+
+  if (errors.length > 0) {
+    throw new StorageError("Some counts could not be recorded", 400, errors);
+  }
+  return Array.from(updated.values());
+}
+
+// Approved variances become adjustments for the difference, so stock that
+// moved since the line was counted is kept. Product order keeps row locks in
+// a fixed order.
+function stocktakeMovements(stocktake: StocktakeWithItems, location: Location): InsertStockMovement[] {
+  return stocktake.items
+    .filter((item) => item.approved && item.countedQuantity !== null && item.countedQuantity !== item.systemQuantity)
+    .sort((a, b) => a.productId.localeCompare(b.productId))
+    .map((item) => ({
+      productId: item.productId,
+      productName: item.productName,
+      sku: item.sku,
+      type: "adjustment",
+      quantity: item.countedQuantity! - item.systemQuantity,
+      reason: "stocktake",
+      sourceType: "stocktake",
+      sourceId: stocktake.id,
+      notes: `${stocktake.stocktakeNumber}: counted ${item.countedQuantity}, expected ${item.systemQuantity}`,
+      locationId: location.id,
+    }));
+}
+
+function stocktakeNumber(): string {
+  return `ST-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+}
+
+function supplierFields(data: InsertSupplier): Omit<Supplier, "id" | "createdAt"> {
+  return {
+    name: data.name.trim(),
+    contactName: data.contactName || null,
+    email: normalizeEmail(data.email),
+    phone: data.phone || null,
+    address: data.address || null,
+    notes: data.notes || null,
+  };
+}
+
+function assertSupplierRemovable(purchaseOrderCount: number): void {
+  if (purchaseOrderCount > 0) {
+    throw new StorageError("Suppliers with purchase orders on record cannot be deleted", 409);
+  }
+}
+
+// One line per product, costed at the given unit cost or else the
+// product's cost price
+function purchaseOrderLines(
+  data: CreatePurchaseOrder,
+  productsById: Map<string, Product>
+): Omit<PurchaseOrderItem, "id" | "purchaseOrderId">[] {
+  const lines = new Map<string, Omit<PurchaseOrderItem, "id" | "purchaseOrderId">>();
+  for (const item of data.items) {
+    const existing = lines.get(item.productId);
+    if (existing) {
+      existing.quantityOrdered += item.quantity;
+      continue;
+    }
+
+    const product = productsById.get(item.productId);
+    if (!product) {
+      throw new StorageError(`Product ${item.productId} not found`, 404);
+    }
+    const unitCost = item.unitCost ?? product.costPrice;
+    if (!unitCost) {
+      throw new StorageError(`${product.sku} has no cost price; enter a unit cost`);
+    }
+    lines.set(item.productId, {
+      productId: product.id,
+      productName: product.productName,
+      sku: product.sku,
+      unitCost: fromCents(toCents(unitCost)),
+      quantityOrdered: item.quantity,
+      quantityReceived: 0,
+    });
+  }
+  return Array.from(lines.values());
+}
+
+function assertPurchaseOrderDraft(purchaseOrder: PurchaseOrder): void {
+  if (purchaseOrder.status !== "draft") {
+    throw new StorageError(`Purchase order ${purchaseOrder.poNumber} has been sent and can no longer be changed`, 409);
+  }
+}
+
+function assertPurchaseOrderTransition(purchaseOrder: PurchaseOrder, to: string): void {
+  if (!canTransitionPurchaseOrder(purchaseOrder.status, to)) {
+    throw new StorageError(
+      `Purchase order ${purchaseOrder.poNumber} cannot move from ${purchaseOrder.status} to ${to}`,
+      409
+    );
+  }
+}
+
+function assertPurchaseOrderReceivable(purchaseOrder: PurchaseOrder): void {
+  if (purchaseOrder.status === "draft") {
+    throw new StorageError(`Purchase order ${purchaseOrder.poNumber} must be sent before it can be received`, 409);
+  }
+  if (purchaseOrder.status === "closed") {
+    throw new StorageError(`Purchase order ${purchaseOrder.poNumber} is closed`, 409);
+  }
+}
+
+// Matches each received quantity to its line and checks it against what is
+// still outstanding. Quantities for the same line are added up first.
+function receivedLines(
+  purchaseOrder: PurchaseOrderWithItems,
+  receipt: ReceivePurchaseOrder
+): { item: PurchaseOrderItem; quantity: number }[] {
+  const requested = new Map<string, number>();
+  for (const line of receipt.items) {
+    requested.set(line.itemId, (requested.get(line.itemId) ?? 0) + line.quantity);
+  }
+
+  const errors: PurchaseOrderLineError[] = [];
+  const received: { item: PurchaseOrderItem; quantity: number }[] = [];
+  for (const [itemId, quantity] of Array.from(requested.entries())) {
+    const item = purchaseOrder.items.find((candidate) => candidate.id === itemId);
+    if (!item) {
+      errors.push({ itemId, message: "This line is not part of the purchase order" });
+      continue;
+    }
+    const outstanding = item.quantityOrdered - item.quantityReceived;
+    if (quantity > outstanding) {
+      errors.push({
+        itemId,
+        message: outstanding === 0
+          ? `All ${item.quantityOrdered} ordered have already been received`
+          : item.quantityReceived === 0
+            ? `Only ${item.quantityOrdered} were ordered`
+            : `Only ${outstanding} of ${item.quantityOrdered} ordered are still to be received`,
+      });
+      continue;
+    }
+    received.push({ item, quantity });
+  }
+
+  if (errors.length > 0) {
+    throw new StorageError("Some lines exceed the quantity still to be received", 409, errors);
+  }
+  // Product order keeps row locks in a fixed order across documents
+  return received.sort((a, b) => a.item.productId.localeCompare(b.item.productId));
+}
+
+// Partially received until every line has arrived in full
+function statusAfterReceipt(items: PurchaseOrderItem[]): "partially_received" | "closed" {
+  return items.every((item) => item.quantityReceived >= item.quantityOrdered) ? "closed" : "partially_received";
+}
+
+function receiptMovements(
+  purchaseOrder: PurchaseOrder,
+  received: { item: PurchaseOrderItem; quantity: number }[],
+  supplier: Supplier | undefined,
+  notes?: string
+): InsertStockMovement[] {
+  const source = `${purchaseOrder.poNumber}${supplier ? ` from ${supplier.name}` : ""}`;
+  return received.map(({ item, quantity }) => ({
+    productId: item.productId,
+    productName: item.productName,
+    sku: item.sku,
+    type: "in",
+    quantity,
+    reason: "purchase",
+    sourceType: "purchase_order",
+    sourceId: purchaseOrder.id,
+    notes: notes ? `${source}: ${notes}` : source,
+    locationId: purchaseOrder.locationId,
+  }));
+}
+
+// Units sold per product: sales net of cancelled orders
+function unitsSold(movements: StockMovement[]): Map<string, number> {
+  const sold = new Map<string, number>();
+  for (const movement of movements) {
+    const sign = movement.type === "out" && movement.reason === "sale"
+      ? 1
+      : movement.type === "in" && movement.reason === "order_cancelled"
+        ? -1
+        : 0;
+    if (sign !== 0) {
+      sold.set(movement.productId, (sold.get(movement.productId) ?? 0) + sign * movement.quantity);
+    }
+  }
+  return sold;
+}
+
+// Units still to arrive per product on purchase orders that aren't closed
+function unitsOnOrder(purchaseOrders: PurchaseOrderWithItems[]): Map<string, number> {
+  const onOrder = new Map<string, number>();
+  for (const purchaseOrder of purchaseOrders) {
+    if (purchaseOrder.status === "closed") continue;
+    for (const item of purchaseOrder.items) {
+      const outstanding = item.quantityOrdered - item.quantityReceived;
+      onOrder.set(item.productId, (onOrder.get(item.productId) ?? 0) + outstanding);
+    }
+  }
+  return onOrder;
+}
+
+function reorderSuggestions(
+  productList: Product[],
+  movements: StockMovement[],
+  purchaseOrderList: PurchaseOrderWithItems[],
+  windowDays: number
+): ReorderSuggestion[] {
+  const sold = unitsSold(movements);
+  const onOrder = unitsOnOrder(purchaseOrderList);
+  return productList
+    .map((product) =>
+      reorderSuggestion(product, sold.get(product.id) ?? 0, onOrder.get(product.id) ?? 0, windowDays)
+    )
+    .sort((a, b) => b.suggestedQuantity - a.suggestedQuantity || a.productName.localeCompare(b.productName));
+}
+
+// One draft purchase order per supplier, in the order suppliers first appear
+function reorderPurchaseOrderDrafts(reorder: ReorderPurchaseOrders): CreatePurchaseOrder[] {
+  const drafts = new Map<string, CreatePurchaseOrder>();
+  for (const { supplierId, ...item } of reorder.items) {
+    const draft = drafts.get(supplierId);
+    if (draft) {
+      draft.items.push(item);
+    } else {
+      drafts.set(supplierId, {
+        supplierId,
+        locationId: reorder.locationId,
+        notes: "Created from reorder suggestions",
+        items: [item],
+      });
+    }
+  }
+  return Array.from(drafts.values());
+}
+
+// Products with their own reorder point are low once they reach it; the
+// rest fall back to the threshold
+function isLowStock(product: Product, threshold: number): boolean {
+  return product.reorderPoint == null
+    ? product.stockQuantity < threshold
+    : product.stockQuantity <= product.reorderPoint;
+}
+
+function poNumber(): string {
+  return `PO-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+}
+
+function normalizeEmail(email?: string | null): string | null {
+  return email?.trim().toLowerCase() || null;
+}
+
+// Phone numbers are matched on their digits alone, so "+1 (555) 010-0000"
+// and "15550100000" are the same customer
+function phoneDigits(phone?: string | null): string | null {
+  return phone?.replace(/\D/g, "") || null;
+}
+
+type CustomerFields = Pick<Customer, "name" | "email" | "phone" | "notes">;
+type CustomerContact = { email?: string | null; phone?: string | null };
+
+function customerFields(data: InsertCustomer): CustomerFields {
+  return {
+    ...data,
+    email: normalizeEmail(data.email),
+    phone: data.phone?.trim() || null,
+    notes: data.notes || null,
+  };
+}
+
+// Whether there's anything to match a customer on later. Walk-ins who
+// leave neither stay off the customer list.
+function hasContact(data: CustomerContact): boolean {
+  return !!(normalizeEmail(data.email) || phoneDigits(data.phone));
+}
+
+// The customer record an order's details describe, for orders placed by
+// someone not on file yet
+function orderCustomerFields(order: OrderDetails): CustomerFields {
+  return customerFields({
+    name: order.customerName,
+    email: order.customerEmail,
+    phone: order.customerPhone,
+  });
+}
+
+// Picks the customer that `data` duplicates, preferring an email match
+function matchingCustomer(candidates: Customer[], data: CustomerContact): Customer | undefined {
+  const email = normalizeEmail(data.email);
+  const digits = phoneDigits(data.phone);
+  return (
+    (email ? candidates.find((customer) => customer.email === email) : undefined) ??
+    (digits ? candidates.find((customer) => phoneDigits(customer.phone) === digits) : undefined)
+  );
+}
+
+function assertNotDuplicate(duplicate: Customer | undefined, data: CustomerContact): void {
+  if (!duplicate) return;
+
+  const field = duplicate.email && duplicate.email === normalizeEmail(data.email) ? "email" : "phone number";
+  throw new StorageError(`A customer with this ${field} already exists`, 409, { customerId: duplicate.id });
+}
+
+function customerStats(
+  customer: Customer,
+  orders: OrderWithItems[],
+  returns: ReturnWithItems[],
+  credits: DiscountCodeWithBalance[]
+): CustomerWithStats {
+  const placed = orders.filter((order) => order.status !== "cancelled");
+  const accepted = returns.filter((ret) => ret.status === "approved" || ret.status === "completed");
+  const counted = returns.filter((ret) => ret.status !== "rejected");
+
+  const paid = placed.reduce((sum, order) => sum + toCents(order.totalAmount) - toCents(order.creditApplied), 0);
+  const refunded = accepted.reduce((sum, ret) => sum + toCents(ret.refundAmount ?? "0"), 0);
+  const openCredit = credits
+    .filter((code) => !code.voidedAt && !code.expiredAt)
+    .reduce((sum, code) => sum + toCents(code.balance), 0);
+  const unitsOrdered = placed.reduce(
+    (sum, order) => sum + order.items.reduce((total, item) => total + item.quantity, 0),
+    0
+  );
+  const unitsReturned = counted.reduce(
+    (sum, ret) => sum + ret.items.reduce((total, item) => total + item.quantity, 0),
+    0
+  );
+
+  return {
+    ...customer,
+    orderCount: placed.length,
+    lifetimeValue: fromCents(paid - refunded),
+    openCredit: fromCents(openCredit),
+    unitsOrdered,
+    unitsReturned,
+    returnRate: unitsOrdered > 0 ? unitsReturned / unitsOrdered : 0,
+  };
+}
+
+function assertCustomerRemovable(linked: { orders: number; returns: number; credits: number }): void {
+  if (linked.orders > 0 || linked.returns > 0 || linked.credits > 0) {
+    throw new StorageError("Customers with orders, returns or store credit on record cannot be deleted", 409);
+  }
+}
+
+// Keyset pagination. A sort key reads the value a row is ordered by, as it
+// is written into cursors, and gives the SQL expression for the same value;
+// ties are broken by id so every row keeps a stable position between pages.
+type SortValue = string | number;
+
+interface SortKey<T> {
+  value: (row: T) => SortValue;
+  expression: SQL;
+}
+
+interface PageQuery {
+  cursor?: string;
+  limit: number;
+  order: SortOrder;
+}
+
+function columnSort<T>(column: AnyPgColumn, value: (row: T) => SortValue): SortKey<T> {
+  return { value, expression: sql`${column}` };
+}
+
+// Postgres keeps microseconds but a JS Date only milliseconds, so rows are
+// ordered by the value that survives the round trip through a cursor
+function createdAtSort<T extends { createdAt: Date | null }>(column: AnyPgColumn): SortKey<T> {
+  return {
+    value: (row) => (row.createdAt ? new Date(row.createdAt).toISOString() : ""),
+    expression: sql`date_trunc('milliseconds', ${column})`,
+  };
+}
+
+function encodeCursor(value: SortValue, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [SortValue, string] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if ((typeof value === "string" || typeof value === "number") && typeof id === "string") {
+      return [value, id];
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new StorageError("Invalid cursor", 400);
+}
+
+function compareSortValues(a: SortValue, b: SortValue): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// `rows` holds up to one more than the limit; the extra row only shows that
+// another page follows
+function pageOf<T extends { id: string }>(rows: T[], sortKey: SortKey<T>, limit: number, total: number): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit ? encodeCursor(sortKey.value(last), last.id) : null,
+    total,
+  };
+}
+
+// Sorts rows already filtered in memory and cuts out the page after the cursor
+function memoryPage<T extends { id: string }>(rows: T[], sortKey: SortKey<T>, query: PageQuery): Page<T> {
+  const direction = query.order === "desc" ? -1 : 1;
+  const position = (row: T): [SortValue, string] => [sortKey.value(row), row.id];
+  const compare = (a: [SortValue, string], b: [SortValue, string]) =>
+    direction * (compareSortValues(a[0], b[0]) || compareSortValues(a[1], b[1]));
+
+  const sorted = [...rows].sort((a, b) => compare(position(a), position(b)));
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? sorted.filter((row) => compare(position(row), after) > 0) : sorted;
+  return pageOf(remaining.slice(0, query.limit + 1), sortKey, query.limit, rows.length);
+}
+
+// The rows after the cursor, for a query ordered by keysetOrder
+function keysetCondition<T>(sortKey: SortKey<T>, idColumn: AnyPgColumn, query: PageQuery): SQL | undefined {
+  if (!query.cursor) return undefined;
+  const [value, id] = decodeCursor(query.cursor);
+  return query.order === "desc"
+    ? sql`(${sortKey.expression}, ${idColumn}) < (${value}, ${id})`
+    : sql`(${sortKey.expression}, ${idColumn}) > (${value}, ${id})`;
+}
+
+function keysetOrder<T>(sortKey: SortKey<T>, idColumn: AnyPgColumn, order: SortOrder): SQL[] {
+  const direction = order === "desc" ? desc : asc;
+  return [direction(sortKey.expression), direction(idColumn)];
+}
+
+// A `to` date takes in the whole of that day
+function dateRangeEnd(to: Date): Date {
+  return new Date(to.getTime() + 24 * 60 * 60 * 1000);
+}
+
+function inDateRange(createdAt: Date | null, range: { from?: Date; to?: Date }): boolean {
+  const time = createdAt ? new Date(createdAt).getTime() : 0;
+  return (!range.from || time >= range.from.getTime()) && (!range.to || time < dateRangeEnd(range.to).getTime());
+}
+
+function dateRangeConditions(column: AnyPgColumn, range: { from?: Date; to?: Date }): SQL[] {
+  return [
+    ...(range.from ? [gte(column, range.from)] : []),
+    ...(range.to ? [lt(column, dateRangeEnd(range.to))] : []),
+  ];
+}
+
+function matchesSearch(search: string | undefined, ...fields: (string | null)[]): boolean {
+  if (!search) return true;
+  const term = search.toLowerCase();
+  return fields.some((field) => field?.toLowerCase().includes(term));
+}
+
+function searchCondition(search: string | undefined, ...columns: AnyPgColumn[]): SQL | undefined {
+  return search ? or(...columns.map((column) => ilike(column, `%${search}%`))) : undefined;
+}
+
+const productSorts: Record<ProductSortKey, SortKey<Product>> = {
+  productName: columnSort(products.productName, (product) => product.productName),
+  sku: columnSort(products.sku, (product) => product.sku),
+  price: columnSort(products.price, (product) => Number(product.price)),
+  stockQuantity: columnSort(products.stockQuantity, (product) => product.stockQuantity),
+  createdAt: createdAtSort(products.createdAt),
+};
+
+const orderSorts: Record<OrderSortKey, SortKey<Order>> = {
+  createdAt: createdAtSort(orders.createdAt),
+  orderNumber: columnSort(orders.orderNumber, (order) => order.orderNumber),
+  customerName: columnSort(orders.customerName, (order) => order.customerName),
+  totalAmount: columnSort(orders.totalAmount, (order) => Number(order.totalAmount)),
+};
+
+const returnSorts: Record<ReturnSortKey, SortKey<Return>> = {
+  createdAt: createdAtSort(returns.createdAt),
+  returnNumber: columnSort(returns.returnNumber, (ret) => ret.returnNumber),
+  customerName: columnSort(returns.customerName, (ret) => ret.customerName),
+  // Returns not yet approved have no refund; they sort as zero, since a null
+  // would drop out of the cursor comparison
+  refundAmount: {
+    value: (ret) => Number(ret.refundAmount ?? 0),
+    expression: sql`coalesce(${returns.refundAmount}, 0)`,
+  },
+};
+
+const stockMovementSorts: Record<StockMovementSortKey, SortKey<StockMovement>> = {
+  createdAt: createdAtSort(stockMovements.createdAt),
+  productName: columnSort(stockMovements.productName, (movement) => movement.productName),
+  quantity: columnSort(stockMovements.quantity, (movement) => movement.quantity),
+};
+
+// Units a movement sold and returned. A restock from a cancelled or deleted
+// order undoes the sale it came from.
+function soldBy(movement: StockMovement): number {
+  if (movement.type === "out" && movement.reason === "sale") return movement.quantity;
+  if (movement.type === "in" && movement.reason === "order_cancelled") return -movement.quantity;
+  return 0;
+}
+
+function returnedBy(movement: StockMovement): number {
+  return movement.type === "in" && movement.reason === "return" ? movement.quantity : 0;
+}
+
+const soldQuantity = sql`case
+  when ${stockMovements.type} = 'out' and ${stockMovements.reason} = 'sale' then ${stockMovements.quantity}
+  when ${stockMovements.type} = 'in' and ${stockMovements.reason} = 'order_cancelled' then -${stockMovements.quantity}
+  else 0 end`;
+
+const returnedQuantity = sql`case
+  when ${stockMovements.type} = 'in' and ${stockMovements.reason} = 'return' then ${stockMovements.quantity}
+  else 0 end`;
+
+// Movements at a location, or anywhere without one. Movements recorded
+// before locations existed belong to the default location.
+function movedAt(location: Location | null): SQL | undefined {
+  if (!location) return undefined;
+  return location.isDefault
+    ? or(eq(stockMovements.locationId, location.id), isNull(stockMovements.locationId))
+    : eq(stockMovements.locationId, location.id);
+}
+
+// A product's units on hand at a location, or in total; the SQL version of
+// quantityAt
+function availableAt(location: Location | null): SQL {
+  if (!location) return sql`${products.stockQuantity}`;
+  if (location.isDefault) {
+    return sql`(${products.stockQuantity} - coalesce((select sum(${stockLevels.quantity}) from ${stockLevels} where ${eq(stockLevels.productId, products.id)}), 0))::int`;
+  }
+  return sql`coalesce((select ${stockLevels.quantity} from ${stockLevels} where ${and(eq(stockLevels.productId, products.id), eq(stockLevels.locationId, location.id))}), 0)`;
+}
+
+// Stock figures depend on the location asked about, so their sort keys are
+// built for each query
+function stockFigureSorts(location: Location | null): Record<StockFigureSortKey, SortKey<ProductStockFigures>> {
+  const movedUnits = (quantity: SQL) =>
+    sql`(select coalesce(sum(${quantity}), 0)::int from ${stockMovements} where ${and(eq(stockMovements.productId, products.id), movedAt(location))})`;
+  return {
+    productName: columnSort(products.productName, (row) => row.productName),
+    sku: columnSort(products.sku, (row) => row.sku),
+    category: columnSort(products.category, (row) => row.category),
+    available: { value: (row) => row.available, expression: availableAt(location) },
+    sold: { value: (row) => row.sold, expression: movedUnits(soldQuantity) },
+    returned: { value: (row) => row.returned, expression: movedUnits(returnedQuantity) },
+  };
+}
+
+const auditEventSort = createdAtSort<AuditEvent>(auditEvents.createdAt);
+
+function sortedFacets(values: string[]): string[] {
+  return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+}
+
+function byNewest(a: { createdAt: Date | null }, b: { createdAt: Date | null }): number {
+  return (b.createdAt ? new Date(b.createdAt).getTime() : 0) - (a.createdAt ? new Date(a.createdAt).getTime() : 0);
+}
+
+function assertOrderTransition(from: string, to: string): void {
+  if (!canTransitionOrder(from, to)) {
+    throw new StorageError(`Order cannot move from ${from} to ${to}`, 409);
+  }
+}
+
+// Returns restock what they take back and may have shipped a replacement
+// order, so deleting an order they point at would put that stock back twice
+// and leave them dangling; such orders are cancelled instead.
+function assertOrderRemovable(order: Order, linkedReturns: Pick<Return, "orderId" | "replacementOrderId">[]): void {
+  if (linkedReturns.some((ret) => ret.orderId === order.id)) {
+    throw new StorageError(`Order ${order.orderNumber} has returns on record and cannot be deleted`, 409);
+  }
+  if (linkedReturns.some((ret) => ret.replacementOrderId === order.id)) {
+    throw new StorageError(`Order ${order.orderNumber} replaces exchanged items on a return and cannot be deleted`, 409);
+  }
+}
+
+function assertReturnable(order: Order | undefined): void {
+  if (!order) {
+    throw new StorageError("Order not found", 404);
+  }
+  if (order.status !== "delivered") {
+    throw new StorageError("Returns can only be created for delivered orders", 409);
+  }
+}
+
+function returnableQuantities(items: OrderItem[], priorItems: ReturnItem[]): ReturnableQuantity[] {
+  const lines = new Map<string, ReturnableQuantity>();
+  for (const item of items) {
+    const line = lines.get(item.productId) ?? { productId: item.productId, ordered: 0, returned: 0, returnable: 0 };
+    line.ordered += item.quantity;
+    lines.set(item.productId, line);
+  }
+  for (const item of priorItems) {
+    const line = lines.get(item.productId);
+    if (line) line.returned += item.quantity;
+  }
+  return Array.from(lines.values()).map((line) => ({
+    ...line,
+    returnable: Math.max(0, line.ordered - line.returned),
+  }));
+}
+
+// Checks each requested line against what is still returnable on the order.
+// Lines for the same product are added up before comparing.
+function assertReturnQuantities(returnable: ReturnableQuantity[], items: Pick<ReturnLine, "productId" | "quantity">[]): void {
+  const requested = new Map<string, number>();
+  for (const item of items) {
+    requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity);
+  }
+
+  const errors: ReturnItemError[] = [];
+  for (const [productId, quantity] of Array.from(requested.entries())) {
+    const line = returnable.find((entry) => entry.productId === productId);
+    if (!line) {
+      errors.push({ productId, message: "This product is not part of the order" });
+    } else if (quantity > line.returnable) {
+      errors.push({
+        productId,
+        message: line.returnable === 0
+          ? `All ${line.ordered} ordered have already been returned`
+          : line.returned === 0
+            ? `Only ${line.ordered} were ordered`
+            : `Only ${line.returnable} of ${line.ordered} ordered can still be returned`,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new StorageError("Some items exceed the quantity that can be returned", 409, errors);
+  }
+}
+
+type ReturnAmounts = Pick<
+  Return,
+  "returnValue" | "taxAmount" | "refundAmount" | "creditAmount" | "exchangeValue" | "additionalPayment"
+>;
+const returnAmountFields = [
+  "returnValue",
+  "taxAmount",
+  "refundAmount",
+  "creditAmount",
+  "exchangeValue",
+  "additionalPayment",
+] as const;
+
+// Prices a return from what was paid on the order, whatever the client
+// worked out: returned products at their share of what the customer paid,
+// tax included, and exchange products at their current price, taxed as the
+// order was. What the customer is owed is
+// refunded or kept as store credit, as they chose; what they owe is a
+// balance due, collected separately before the return can be completed.
+function priceReturn(
+  order: Order,
+  orderItems: OrderItem[],
+  returnable: ReturnableQuantity[],
+  data: ReturnDetails,
+  lines: ReturnLine[],
+  exchangeProducts: Product[],
+  classes: TaxClassWithRates[]
+): {
+  items: Omit<ReturnItem, "id" | "returnId">[];
+  exchangeItems: InsertOrderItem[];
+  amounts: ReturnAmounts;
+  settlement: Pick<Return, "paymentMethod" | "paymentStatus">;
+} {
+  const paid = paidByProduct(order, orderItems);
+  const returned = new Map(returnable.map((line) => [line.productId, line.returned]));
+  const jurisdiction = order.taxJurisdiction ?? taxPolicy.jurisdiction;
+  let returnCents = 0;
+  let returnTax = 0;
+  let exchangeCents = 0;
+
+  const items: Omit<ReturnItem, "id" | "returnId">[] = [];
+  const exchangeItems: InsertOrderItem[] = [];
+  for (const line of lines) {
+    const orderItem = orderItems.find((item) => item.productId === line.productId);
+    const productPaid = paid.get(line.productId);
+    if (!orderItem || !productPaid) {
+      throw new StorageError(`Product ${line.productId} is not part of the order`);
+    }
+    const before = returned.get(line.productId) ?? 0;
+    const value = returnValueCents(productPaid, before, line.quantity);
+    const tax = returnTaxCents(productPaid, before, line.quantity);
+    returned.set(line.productId, before + line.quantity);
+    returnCents += value;
+    returnTax += tax;
+
+    let exchangeProduct: Product | undefined;
+    if (line.exchangeProductId) {
+      exchangeProduct = exchangeProducts.find((candidate) => candidate.id === line.exchangeProductId);
+      if (!exchangeProduct) {
+        throw new StorageError(`Exchange product ${line.exchangeProductId} not found`, 404);
+      }
+      const exchangeLine = toCents(exchangeProduct.price) * line.quantity;
+      const rate = taxRateFor(classes, exchangeProduct.category, jurisdiction);
+      const exchangeTax = rate ? taxCents(exchangeLine, parseFloat(rate.rate), order.pricesIncludeTax) : 0;
+      exchangeCents += exchangeLine + (order.pricesIncludeTax ? 0 : exchangeTax);
+      exchangeItems.push({
+        productId: exchangeProduct.id,
+        productName: exchangeProduct.productName,
+        sku: exchangeProduct.sku,
+        quantity: line.quantity,
+        unitPrice: exchangeProduct.price,
+        subtotal: fromCents(exchangeLine),
+        ...taxColumns(rate, exchangeTax),
+      });
+    }
+
+    items.push({
+      productId: orderItem.productId,
+      productName: orderItem.productName,
+      sku: orderItem.sku,
+      quantity: line.quantity,
+      unitPrice: fromCents(Math.round(value / line.quantity)),
+      subtotal: fromCents(value),
+      taxAmount: fromCents(tax),
+      exchangeProductId: exchangeProduct?.id ?? null,
+      exchangeProductName: exchangeProduct?.productName ?? null,
+    });
+  }
+
+  const owed = Math.max(0, returnCents - exchangeCents);
+  const balanceDue = Math.max(0, exchangeCents - returnCents);
+  return {
+    items,
+    exchangeItems,
+    amounts: {
+      returnValue: fromCents(returnCents),
+      taxAmount: fromCents(returnTax),
+      refundAmount: fromCents(data.settleAs === "refund" ? owed : 0),
+      creditAmount: fromCents(data.settleAs === "credit" ? owed : 0),
+      exchangeValue: fromCents(exchangeCents),
+      additionalPayment: fromCents(balanceDue),
+    },
+    settlement: {
+      paymentMethod: balanceDue > 0 ? data.paymentMethod ?? null : null,
+      paymentStatus: balanceDue > 0 ? "pending" : "not_required",
+    },
+  };
+}
+
+// Amounts the client sent with a return have to agree with the server's,
+// so nobody is refunded or credited on the strength of a stale or edited
+// figure. Amounts left out aren't checked.
+function assertReturnAmountsMatch(data: ReturnDetails, amounts: ReturnAmounts): void {
+  const mismatched = returnAmountFields.filter((field) => {
+    const sent = data[field];
+    return sent != null && sent !== "" && toCents(sent) !== toCents(amounts[field] ?? "0");
+  });
+  if (mismatched.length > 0) {
+    throw new StorageError("The return's amounts don't match what was paid on the order", 409, {
+      mismatched,
+      expected: amounts,
+    });
+  }
+}
+
+// The order that ships exchange products to the customer, taxed as the
+// original order was. It is charged only the balance due when the exchange
+// is worth more than what comes back, and the tax on that balance is the
+// exchange's tax less the returned items'. Null when no line asks for an
+// exchange.
+function replacementOrderFor(
+  returnNumber: string,
+  order: Order,
+  exchangeItems: InsertOrderItem[],
+  amounts: ReturnAmounts
+): { order: PricedOrder; items: InsertOrderItem[] } | null {
+  if (exchangeItems.length === 0) return null;
+
+  const balanceDue = toCents(amounts.additionalPayment ?? "0");
+  const exchangeTax = exchangeItems.reduce((sum, item) => sum + toCents(item.taxAmount ?? "0"), 0);
+  const balanceTax = Math.min(balanceDue, Math.max(0, exchangeTax - toCents(amounts.taxAmount)));
+  return {
+    order: {
+      customerId: order.customerId,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail ?? undefined,
+      status: "pending",
+      notes: `Exchange for return ${returnNumber} (order ${order.orderNumber})`,
+      totalAmount: fromCents(balanceDue),
+      taxJurisdiction: order.taxJurisdiction,
+      pricesIncludeTax: order.pricesIncludeTax,
+      taxAmount: fromCents(balanceTax),
+    },
+    items: exchangeItems,
+  };
+}
+
+// The columns a new return is stored with: what was entered, less the
+// settlement choice and any amounts sent, plus the order's customer and the
+// amounts worked out
+function newReturnColumns(data: ReturnDetails, order: Order, amounts: ReturnAmounts) {
+  const {
+    settleAs: _settleAs,
+    returnValue: _returnValue,
+    taxAmount: _taxAmount,
+    refundAmount: _refundAmount,
+    creditAmount: _creditAmount,
+    exchangeValue: _exchangeValue,
+    additionalPayment: _additionalPayment,
+    ...details
+  } = data;
+  return {
+    ...details,
+    notes: details.notes ?? null,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    ...amounts,
+  };
+}
+
+function assertPaymentDue(ret: Return): void {
+  if (ret.status === "rejected") {
+    throw new StorageError("Rejected returns cannot take payment", 409);
+  }
+  if (ret.paymentStatus !== "pending") {
+    throw new StorageError(
+      ret.paymentStatus === "paid" ? "Additional payment has already been collected" : "This return has no balance due",
+      409
+    );
+  }
+}
+
+// Rejecting an exchange cancels the order shipping its replacement, which is
+// only possible until that order ships. Already cancelled ones are left alone.
+function cancelsReplacement(replacement: Order | undefined): replacement is Order {
+  if (!replacement || replacement.status === "cancelled") return false;
+  if (!canTransitionOrder(replacement.status, "cancelled")) {
+    throw new StorageError(
+      `Replacement order ${replacement.orderNumber} has already shipped and must be returned separately`,
+      409
+    );
+  }
+  return true;
+}
+
+function assertPaidInFull(ret: Return): void {
+  if (ret.paymentStatus === "pending") {
+    throw new StorageError(
+      `Additional payment of $${ret.additionalPayment} must be marked paid before the return can be completed`,
+      409
+    );
+  }
+}
+
+function assertReturnTransition(from: string, to: string): void {
+  if (!canTransitionReturn(from, to)) {
+    throw new StorageError(`Return cannot move from ${from} to ${to}`, 409);
+  }
+}
+
+// Store credit minted when a return with a credit amount is approved
+function storeCreditFor(ret: Return): InsertDiscountCode | null {
+  if (!ret.creditAmount || parseFloat(ret.creditAmount) <= 0 || !ret.customerEmail) {
+    return null;
+  }
+
+  return {
+    code: `CREDIT-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+    customerId: ret.customerId,
+    customerEmail: ret.customerEmail,
+    amount: ret.creditAmount,
+    expiresAt: creditExpiryDate(),
+  };
+}
+
+// An order as it is stored: its total worked out, with the discount and
+// tax columns that aren't part of what's entered for it
+type PricedOrder = InsertOrder &
+  Partial<
+    Pick<
+      Order,
+      | "discountType"
+      | "discountValue"
+      | "discountAmount"
+      | "discountReason"
+      | "discountApprovedBy"
+      | "taxJurisdiction"
+      | "pricesIncludeTax"
+      | "taxAmount"
+    >
+  >;
+
+// What's taken off `cents` by a manual discount, never more than all of it
+function discountCents(discount: ManualDiscount | undefined, cents: number, label: string): number {
+  const off = manualDiscountCents(discount, cents);
+  if (off > cents) {
+    throw new StorageError(`The discount on ${label} is more than its ${fromCents(cents)} value`);
+  }
+  return off;
+}
+
+function discountColumns(discount: ManualDiscount | undefined, off: number) {
+  return {
+    discountType: discount?.type ?? null,
+    discountValue: discount?.value ?? null,
+    discountAmount: fromCents(off),
+    discountReason: discount?.reason ?? null,
+  };
+}
+
+// A tax class as it is stored, its categories without repeats
+function taxClassFields(data: InsertTaxClass): Omit<TaxClass, "id" | "createdAt"> {
+  return {
+    name: data.name,
+    categories: Array.from(new Set(data.categories)),
+  };
+}
+
+// Rates are kept to the three decimal places the column holds
+function taxClassRates(taxClassId: string, data: InsertTaxClass): TaxRate[] {
+  return data.rates.map((rate) => ({ ...rate, rate: parseFloat(rate.rate).toFixed(3), id: randomUUID(), taxClassId }));
+}
+
+function withRates(taxClass: TaxClass, rates: TaxRate[]): TaxClassWithRates {
+  return {
+    ...taxClass,
+    rates: rates
+      .filter((rate) => rate.taxClassId === taxClass.id)
+      .sort((a, b) => a.jurisdiction.localeCompare(b.jurisdiction)),
+  };
+}
+
+// Class names are unique, and a category is taxed under one class at most
+function assertTaxClassFree(classes: TaxClassWithRates[], data: InsertTaxClass, id?: string): void {
+  const others = classes.filter((taxClass) => taxClass.id !== id);
+  if (others.some((taxClass) => taxClass.name.toLowerCase() === data.name.toLowerCase())) {
+    throw new StorageError(`A tax class named ${data.name} already exists`, 409);
+  }
+
+  const taken = data.categories.flatMap((category) => {
+    const owner = others.find((taxClass) => taxClass.categories.includes(category));
+    return owner ? [`${category} (${owner.name})`] : [];
+  });
+  if (taken.length > 0) {
+    throw new StorageError(`Already taxed under another class: ${taken.join(", ")}`, 409);
+  }
+}
+
+function taxColumns(rate: TaxRate | undefined, tax: number) {
+  return {
+    taxName: rate?.name ?? null,
+    taxRate: rate?.rate ?? "0",
+    taxAmount: fromCents(tax),
+  };
+}
+
+// Prices an order from its products' current prices, whatever the till
+// showed. Line discounts come off each line, then the order's discount off
+// what's left, and each line is taxed on what remains of it at its
+// category's rate. Discounts that together take more than the approval
+// limit off the list price need a manager; `approvedBy` names them.
+function priceOrder(
+  details: OrderDetails,
+  lines: OrderLine[],
+  options: NewOrderOptions,
+  products: Product[],
+  classes: TaxClassWithRates[]
+): { order: PricedOrder; items: InsertOrderItem[] } {
+  const jurisdiction = options.taxJurisdiction ?? taxPolicy.jurisdiction;
+  const { pricesIncludeTax } = taxPolicy;
+  let listCents = 0;
+  let linesCents = 0;
+
+  const priced = lines.map((line) => {
+    const product = products.find((candidate) => candidate.id === line.productId);
+    if (!product) {
+      throw new StorageError(`Product ${line.productId} not found`, 404);
+    }
+    const lineCents = toCents(product.price) * line.quantity;
+    const off = discountCents(line.discount, lineCents, product.sku);
+    listCents += lineCents;
+    linesCents += lineCents - off;
+    return {
+      rate: taxRateFor(classes, product.category, jurisdiction),
+      cents: lineCents - off,
+      item: {
+        productId: product.id,
+        productName: product.productName,
+        sku: product.sku,
+        quantity: line.quantity,
+        unitPrice: product.price,
+        ...discountColumns(line.discount, off),
+        subtotal: fromCents(lineCents - off),
+      },
+    };
+  });
+
+  const orderOff = discountCents(options.discount, linesCents, "the order");
+  const taxes = orderLineTaxCents(
+    priced.map((line) => ({ cents: line.cents, rate: line.rate ? parseFloat(line.rate.rate) : 0 })),
+    orderOff,
+    pricesIncludeTax
+  );
+  const taxTotal = taxes.reduce((sum, tax) => sum + tax, 0);
+  const items = priced.map((line, index) => ({ ...line.item, ...taxColumns(line.rate, taxes[index]) }));
+  const needsApproval = discountNeedsApproval(listCents, listCents - linesCents + orderOff);
+  if (needsApproval && !options.approvedBy) {
+    throw new StorageError(
+      `Discounts over ${discountPolicy.approvalLimitPercent}% need a manager's approval`,
+      403,
+      { approvalRequired: true }
+    );
+  }
+
+  const totalAmount = fromCents(linesCents - orderOff + (pricesIncludeTax ? 0 : taxTotal));
+  if (options.expectedTotal !== undefined && toCents(options.expectedTotal) !== toCents(totalAmount)) {
+    throw new StorageError("The order's total doesn't match its products' prices", 409, {
+      expectedTotal: totalAmount,
+    });
+  }
+
+  return {
+    order: {
+      ...details,
+      totalAmount,
+      ...discountColumns(options.discount, orderOff),
+      discountApprovedBy: needsApproval ? options.approvedBy : null,
+      taxJurisdiction: jurisdiction,
+      pricesIncludeTax,
+      taxAmount: fromCents(taxTotal),
+    },
+    items,
+  };
+}
+
+function assertCreditActive(discountCode: DiscountCode): void {
+  if (discountCode.voidedAt) {
+    throw new StorageError(`Store credit ${discountCode.code} has been voided`, 409);
+  }
+}
+
+function assertRedeemable(discountCode: DiscountCodeWithBalance, amountUsed: string): void {
+  assertCreditActive(discountCode);
+  if (discountCode.expiredAt || isCreditExpired(discountCode.expiresAt)) {
+    const expiredOn = discountCode.expiresAt ?? discountCode.expiredAt;
+    throw new StorageError(
+      `Credit code ${discountCode.code} expired${expiredOn ? ` on ${new Date(expiredOn).toISOString().slice(0, 10)}` : ""}`,
+      409
+    );
+  }
+
+  const usedAmount = parseFloat(amountUsed);
+  if (isNaN(usedAmount) || usedAmount <= 0) {
+    throw new StorageError("Amount used must be a positive number");
+  }
+  if (toCents(amountUsed) > toCents(discountCode.balance)) {
+    throw new StorageError(
+      `Amount used ($${usedAmount.toFixed(2)}) exceeds available credit on ${discountCode.code} ($${discountCode.balance})`
+    );
+  }
+}
+
+function assertAdjustable(discountCode: DiscountCodeWithBalance, amount: string): void {
+  assertCreditActive(discountCode);
+  if (toCents(discountCode.balance) + toCents(amount) < 0) {
+    throw new StorageError(`Adjustment would leave a negative balance (available $${discountCode.balance})`);
+  }
+}
+
+// Credit linked to a customer record follows that customer even if their
+// email changes; older credit is matched on the email it was issued to.
+function creditBelongsTo(
+  discountCode: DiscountCode,
+  order: { customerId?: string | null; customerEmail?: string | null }
+): boolean {
+  if (discountCode.customerId && order.customerId) {
+    return discountCode.customerId === order.customerId;
+  }
+  return normalizeEmail(discountCode.customerEmail) === normalizeEmail(order.customerEmail);
+}
+
+// Checks every credit named on an order against its code before any of
+// them is redeemed: the code must belong to the order's customer, be
+// unexpired and cover the amount, and together with credit already on the
+// order they can't exceed the total.
+function assertCreditsApplicable(
+  codes: DiscountCodeWithBalance[],
+  credits: OrderCredit[],
+  order: {
+    customerId?: string | null;
+    customerEmail?: string | null;
+    totalAmount: string;
+    creditApplied?: string;
+  }
+): void {
+  if (credits.length === 0) return;
+
+  if (!order.customerId && !normalizeEmail(order.customerEmail)) {
+    throw new StorageError("Store credit can only be applied to orders with a customer email");
+  }
+
+  const seen = new Set<string>();
+  for (const credit of credits) {
+    if (seen.has(credit.code)) {
+      throw new StorageError(`Credit code ${credit.code} is listed more than once`);
+    }
+    seen.add(credit.code);
+
+    const discountCode = codes.find((code) => code.code === credit.code);
+    if (!discountCode) {
+      throw new StorageError(`Credit code ${credit.code} not found`, 404);
+    }
+    if (!creditBelongsTo(discountCode, order)) {
+      throw new StorageError(`Credit code ${credit.code} belongs to a different customer`, 403);
+    }
+    assertRedeemable(discountCode, credit.amount);
+  }
+
+  if (creditTotal(credits) + toCents(order.creditApplied ?? "0") > toCents(order.totalAmount)) {
+    throw new StorageError("Store credit applied exceeds the order total");
+  }
+}
+
+// Order columns recording the credit applied to it, after adding `credits`
+function orderCreditState(
+  order: Pick<Order, "creditApplied" | "creditCodes">,
+  credits: OrderCredit[]
+): Pick<Order, "creditApplied" | "creditCodes"> {
+  const codes = Array.from(new Set([...(order.creditCodes ?? []), ...credits.map((credit) => credit.code)]));
+  return {
+    creditApplied: fromCents(toCents(order.creditApplied) + creditTotal(credits)),
+    creditCodes: codes.length ? codes : null,
+  };
+}
+
+function creditTotal(credits: OrderCredit[]): number {
+  return credits.reduce((sum, credit) => sum + toCents(credit.amount), 0);
+}
+
+// Credit (in cents) each code has given an order, net of earlier reversals
+function netCreditRedeemed(transactions: CreditTransaction[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const transaction of transactions) {
+    totals.set(transaction.code, (totals.get(transaction.code) ?? 0) - toCents(transaction.amount));
+  }
+  return totals;
+}
+
+// A code counts as used once its ledger balance reaches zero
+function usageState(discountCode: DiscountCode, balanceCents: number): Pick<DiscountCode, "isUsed" | "usedAt"> {
+  return balanceCents <= 0
+    ? { isUsed: true, usedAt: discountCode.usedAt ?? new Date() }
+    : { isUsed: false, usedAt: null };
+}
+
+function assertStatusUnchanged(ret: Return, data: UpdateReturn): void {
+  if (data.status && data.status !== ret.status) {
+    throw new StorageError("Use the approve, reject or complete actions to change a return's status", 409);
+  }
+}
+
+// Net quantity per product that an order's movements took out of stock.
+function netQuantityOut(movements: StockMovement[]): Map<string, { movement: StockMovement; quantity: number }> {
+  const totals = new Map<string, { movement: StockMovement; quantity: number }>();
+  for (const movement of movements) {
+    const entry = totals.get(movement.productId) ?? { movement, quantity: 0 };
+    if (movement.type === "out") entry.quantity += movement.quantity;
+    if (movement.type === "in") entry.quantity -= movement.quantity;
+    totals.set(movement.productId, entry);
+  }
+  return totals;
+}
+
+// Discount and store credit on a new order. `approvedBy` names the manager
+// who approved discounts over the limit, when someone has; `expectedTotal`
+// is the total the till showed, checked against the one worked out here.
+// Orders are taxed in the store's own jurisdiction unless `taxJurisdiction`
+// names another.
+// A status change as the history records it, with the name of whoever made it
+type RecordedStatusChange = OrderStatusChange & { changedBy?: string | null };
+
+export interface NewOrderOptions {
+  discount?: ManualDiscount;
+  credits?: OrderCredit[];
+  approvedBy?: string | null;
+  expectedTotal?: string;
+  taxJurisdiction?: string;
+}
+
+// Users reach storage with their password already hashed (see server/auth.ts)
+export type NewUser = Omit<InsertUser, "password"> & { passwordHash: string };
+export type UserChanges = Omit<UpdateUser, "password"> & { passwordHash?: string };
+
+function publicUser({ passwordHash: _passwordHash, ...user }: UserRecord): User {
+  return user;
+}
+
+function assertUsernameFree(existing: UserRecord | undefined, username: string): void {
+  if (existing) {
+    throw new StorageError(`The username ${username} is already taken`, 409, { userId: existing.id });
+  }
+}
+
+// Someone must always be able to manage the user accounts, so the last
+// active owner can't be demoted or deactivated
+function assertOwnerRemains(all: UserRecord[], user: UserRecord, changes: UserChanges): void {
+  const updated = { ...user, ...changes };
+  if (updated.role === "owner" && updated.active) return;
+
+  const otherOwners = all.filter((other) => other.id !== user.id && other.role === "owner" && other.active);
+  if (otherOwners.length === 0) {
+    throw new StorageError("At least one active owner is required", 409);
+  }
+}
 
 export interface IStorage {
+  // Runs `work` against a storage whose changes are all saved when it
+  // returns, or none of them if it throws
+  transaction<T>(work: (store: IStorage) => Promise<T>): Promise<T>;
+  // Holds a record against other changes until the transaction ends, so
+  // what is read of it in the meantime is still current when it's changed
+  lockEntity(entityType: AuditEntityType, id: string): Promise<void>;
+
+  // Users. Credentials are only looked up to sign someone in; everything
+  // else works with users without their password hash.
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserCredentials(username: string): Promise<UserRecord | undefined>;
+  countUsers(): Promise<number>;
+  createUser(user: NewUser): Promise<User>;
+  // The first account, as the owner; undefined once anyone has an account
+  createOwner(owner: Omit<NewUser, "role">): Promise<User | undefined>;
+  updateUser(id: string, changes: UserChanges): Promise<User | undefined>;
+
+  // Audit log
+  createAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]>;
+  listAuditEvents(query: AuditEventListQuery): Promise<Page<AuditEvent>>;
+  // Everyone who appears in the log, including users since removed or renamed
+  getAuditActors(): Promise<AuditActor[]>;
+
+  // Customers
+  getCustomers(search?: string): Promise<CustomerWithStats[]>;
+  getCustomer(id: string): Promise<CustomerWithStats | undefined>;
+  getCustomerHistory(id: string): Promise<CustomerHistory | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: string, customer: InsertCustomer): Promise<Customer | undefined>;
+  deleteCustomer(id: string): Promise<boolean>;
+
+  // Products
+  getProducts(): Promise<Product[]>;
+  listProducts(query: ProductListQuery): Promise<Page<Product>>;
+  getProductFacets(): Promise<ProductFacets>;
+  getProduct(id: string): Promise<Product | undefined>;
+  getProductBySKU(sku: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, product: InsertProduct): Promise<Product | undefined>;
+  deleteProduct(id: string): Promise<boolean>;
+
+  // Product styles
+  getProductStyles(): Promise<ProductStyleWithVariants[]>;
+  getProductStyle(id: string): Promise<ProductStyleWithVariants | undefined>;
+  createProductStyle(style: InsertProductStyle, matrix: VariantMatrix): Promise<ProductStyleWithVariants>;
+  updateProductStyle(id: string, style: InsertProductStyle): Promise<ProductStyleWithVariants | undefined>;
+  addStyleVariants(id: string, matrix: VariantMatrix): Promise<ProductStyleWithVariants | undefined>;
+  updateStyleVariants(id: string, updates: VariantUpdate[]): Promise<ProductStyleWithVariants | undefined>;
+  deleteProductStyle(id: string): Promise<boolean>;
+
+  // Tax classes, each with its rates. Orders keep the rates they were
+  // priced at, so classes can change or go without touching them.
+  getTaxClasses(): Promise<TaxClassWithRates[]>;
+  getTaxClass(id: string): Promise<TaxClassWithRates | undefined>;
+  createTaxClass(taxClass: InsertTaxClass): Promise<TaxClassWithRates>;
+  updateTaxClass(id: string, taxClass: InsertTaxClass): Promise<TaxClassWithRates | undefined>;
+  deleteTaxClass(id: string): Promise<boolean>;
+
+  // Orders
+  getOrders(): Promise<OrderWithItems[]>;
+  listOrders(query: OrderListQuery): Promise<Page<OrderWithItems>>;
+  getOrder(id: string): Promise<OrderWithItems | undefined>;
+  getOrdersByCustomerEmail(email: string): Promise<OrderWithItems[]>;
+  createOrder(order: OrderDetails, lines: OrderLine[], options?: NewOrderOptions): Promise<OrderWithItems>;
+  updateOrder(id: string, order: OrderDetails): Promise<Order | undefined>;
+  updateOrderStatus(id: string, change: OrderStatusChange, changedBy?: string | null): Promise<Order | undefined>;
+  deleteOrder(id: string): Promise<boolean>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
+
+  // Order Items
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+
+  // Stock Movements
+  getStockMovements(productId?: string): Promise<StockMovement[]>;
+  listStockMovements(query: StockMovementListQuery): Promise<Page<StockMovement>>;
+  listStockFigures(query: StockFigureListQuery): Promise<Page<ProductStockFigures>>;
+  getStockTotals(locationId?: string): Promise<StockFigures>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  // Products whose stock differs from what their movements replay to, and
+  // resetting them (or only the given ones) to the replayed figures
+  getStockDrift(): Promise<StockDrift[]>;
+  rebuildStock(rebuild: RebuildStock): Promise<StockDrift[]>;
+  // Rewrites free-text reasons on existing movements as reason codes;
+  // returns how many movements changed
+  migrateMovementReasons(): Promise<number>;
+  // Links movements recorded before sourceType/sourceId existed to the
+  // document their notes name; returns how many were linked
+  linkMovementSources(): Promise<number>;
+  getLowStockProducts(threshold?: number): Promise<Product[]>;
+
+  // Reorder suggestions for every product, with sales velocity measured over
+  // the last `windowDays`. Creating purchase orders from them makes one
+  // draft per supplier, all or nothing.
+  getReorderSuggestions(windowDays: number): Promise<ReorderSuggestion[]>;
+  createReorderPurchaseOrders(reorder: ReorderPurchaseOrders): Promise<PurchaseOrderWithItems[]>;
+
+  // Locations. Balances for one product cover every location; without a
+  // product only non-zero balances are returned.
+  getLocations(): Promise<LocationWithStock[]>;
+  getLocation(id: string): Promise<LocationWithStock | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: string, location: InsertLocation): Promise<Location | undefined>;
+  deleteLocation(id: string): Promise<boolean>;
+  getStockBalances(productId?: string): Promise<StockBalance[]>;
+
+  // Stock transfers
+  getStockTransfers(): Promise<StockTransferWithItems[]>;
+  getStockTransfer(id: string): Promise<StockTransferWithItems | undefined>;
+  createStockTransfer(transfer: CreateStockTransfer): Promise<StockTransferWithItems>;
+  receiveStockTransfer(id: string): Promise<StockTransferWithItems | undefined>;
+  cancelStockTransfer(id: string): Promise<StockTransferWithItems | undefined>;
+
+  // Stocktakes
+  getStocktakes(): Promise<StocktakeWithItems[]>;
+  getStocktake(id: string): Promise<StocktakeWithItems | undefined>;
+  createStocktake(stocktake: CreateStocktake): Promise<StocktakeWithItems>;
+  recordStocktakeCounts(id: string, counts: RecordStocktakeCounts): Promise<StocktakeWithItems | undefined>;
+  postStocktake(id: string): Promise<StocktakeWithItems | undefined>;
+  cancelStocktake(id: string): Promise<StocktakeWithItems | undefined>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: InsertSupplier): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<boolean>;
+
+  // Purchase orders
+  getPurchaseOrders(): Promise<PurchaseOrderWithItems[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined>;
+  createPurchaseOrder(purchaseOrder: CreatePurchaseOrder): Promise<PurchaseOrderWithItems>;
+  updatePurchaseOrder(id: string, purchaseOrder: CreatePurchaseOrder): Promise<PurchaseOrderWithItems | undefined>;
+  deletePurchaseOrder(id: string): Promise<boolean>;
+  sendPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined>;
+  receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder): Promise<PurchaseOrderWithItems | undefined>;
+  closePurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined>;
+
+  // Returns
+  getReturns(): Promise<ReturnWithItems[]>;
+  listReturns(query: ReturnListQuery): Promise<Page<ReturnWithItems>>;
+  getReturn(id: string): Promise<ReturnWithItems | null>;
+  getOrderReturns(orderId: string): Promise<ReturnWithItems[]>;
+  getReturnableQuantities(orderId: string): Promise<ReturnableQuantity[] | undefined>;
+  createReturn(data: ReturnDetails, lines: ReturnLine[]): Promise<ReturnWithItems>;
+  updateReturn(id: string, data: UpdateReturn): Promise<Return | null>;
+  approveReturn(id: string): Promise<ReturnWithItems | null>;
+  rejectReturn(id: string, reason?: string, rejectedBy?: string | null): Promise<ReturnWithItems | null>;
+  completeReturn(id: string): Promise<ReturnWithItems | null>;
+  markReturnPaid(id: string, paymentMethod: ReturnPaymentMethod): Promise<ReturnWithItems | null>;
+
+  // Discount Codes (store credit)
+  getDiscountCodes(customerEmail?: string): Promise<DiscountCodeWithBalance[]>;
+  getDiscountCode(code: string): Promise<DiscountCodeWithBalance | null>;
+  getDiscountCodeById(id: string): Promise<DiscountCodeWithBalance | null>;
+  createDiscountCode(data: InsertDiscountCode): Promise<DiscountCodeWithBalance>;
+  adjustDiscountCode(code: string, amount: string, note: string): Promise<DiscountCodeWithBalance | null>;
+  voidDiscountCode(id: string): Promise<DiscountCodeWithBalance | null>;
+  expireDiscountCodes(now?: Date): Promise<DiscountCodeWithBalance[]>;
+  getCreditTransactions(code: string): Promise<CreditTransaction[]>;
+}
+
+export class MemStorage implements IStorage {
+  private customers: Map<string, Customer>;
+  private productStyles: Map<string, ProductStyle>;
+  private products: Map<string, Product>;
+  private orders: Map<string, Order>;
+  private orderItems: Map<string, OrderItem>;
+  private stockMovements: Map<string, StockMovement>;
+  private locations: Map<string, Location>;
+  private stockLevels: Map<string, StockLevel>;
+  private stockTransfers: Map<string, StockTransfer>;
+  private stockTransferItems: Map<string, StockTransferItem>;
+  private stocktakes: Map<string, Stocktake>;
+  private stocktakeItems: Map<string, StocktakeItem>;
+  private suppliers: Map<string, Supplier>;
+  private purchaseOrders: Map<string, PurchaseOrder>;
+  private purchaseOrderItems: Map<string, PurchaseOrderItem>;
+  private returns: Map<string, Return>;
+  private returnItems: Map<string, ReturnItem>;
+  private discountCodes: Map<string, DiscountCode>;
+  private creditTransactions: Map<string, CreditTransaction>;
+  private orderStatusHistory: Map<string, OrderStatusHistory>;
+  private users: Map<string, UserRecord>;
+  private auditEvents: Map<string, AuditEvent>;
+  private taxClasses: Map<string, TaxClass>;
+  private taxRates: Map<string, TaxRate>;
+
+  constructor() {
+    this.customers = new Map();
+    this.productStyles = new Map();
+    this.products = new Map();
+    this.orders = new Map();
+    this.orderItems = new Map();
+    this.stockMovements = new Map();
+    this.locations = new Map();
+    this.stockLevels = new Map();
+    this.stockTransfers = new Map();
+    this.stockTransferItems = new Map();
+    this.stocktakes = new Map();
+    this.stocktakeItems = new Map();
+    this.suppliers = new Map();
+    this.purchaseOrders = new Map();
+    this.purchaseOrderItems = new Map();
+    this.returns = new Map();
+    this.returnItems = new Map();
+    this.discountCodes = new Map();
+    this.creditTransactions = new Map();
+    this.orderStatusHistory = new Map();
+    this.users = new Map();
+    this.auditEvents = new Map();
+    this.taxClasses = new Map();
+    this.taxRates = new Map();
+
+    const mainLocation: Location = { ...defaultLocationFields, id: randomUUID(), createdAt: new Date() };
+    this.locations.set(mainLocation.id, mainLocation);
+  }
+
+  // Each method checks everything before it changes anything, and adding
+  // audit events can't fail, so a change and its events go in together
+  async transaction<T>(work: (store: IStorage) => Promise<T>): Promise<T> {
+    return work(this);
+  }
+
+  async lockEntity(): Promise<void> {}
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .sort((a, b) => a.displayName.localeCompare(b.displayName))
+      .map(publicUser);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && publicUser(user);
+  }
+
+  async getUserCredentials(username: string): Promise<UserRecord | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(data: NewUser): Promise<User> {
+    assertUsernameFree(await this.getUserCredentials(data.username), data.username);
+
+    const user: UserRecord = { ...data, id: randomUUID(), active: true, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return publicUser(user);
+  }
+
+  async createOwner(owner: Omit<NewUser, "role">): Promise<User | undefined> {
+    // Checked and added without awaiting in between, so concurrent setups
+    // can't both see no users
+    if (this.users.size > 0) return undefined;
+    const user: UserRecord = { ...owner, role: "owner", id: randomUUID(), active: true, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return publicUser(user);
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    assertOwnerRemains(Array.from(this.users.values()), existing, changes);
+    const updated: UserRecord = { ...existing, ...changes };
+    this.users.set(id, updated);
+    return publicUser(updated);
+  }
+
+  // Audit log
+  async createAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]> {
+    return events.map((event) => {
+      const created: AuditEvent = { ...event, id: randomUUID(), createdAt: new Date() };
+      this.auditEvents.set(created.id, created);
+      return created;
+    });
+  }
+
+  async listAuditEvents(query: AuditEventListQuery): Promise<Page<AuditEvent>> {
+    const rows = Array.from(this.auditEvents.values()).filter(
+      (event) =>
+        matchesSearch(query.search, event.actorName, event.entityLabel, event.entityId) &&
+        (!query.entityType || event.entityType === query.entityType) &&
+        (!query.entityId || event.entityId === query.entityId) &&
+        (!query.actorId || event.actorId === query.actorId) &&
+        (!query.action || event.action === query.action) &&
+        inDateRange(event.createdAt, query)
+    );
+    return memoryPage(rows, auditEventSort, query);
+  }
+
+  async getAuditActors(): Promise<AuditActor[]> {
+    const actors = new Map<string, AuditActor>();
+    // Newest first, so each actor carries the name they last acted under
+    for (const event of Array.from(this.auditEvents.values()).sort(byNewest)) {
+      const key = event.actorId ?? "";
+      if (!actors.has(key)) actors.set(key, { actorId: event.actorId, actorName: event.actorName });
+    }
+    return Array.from(actors.values()).sort((a, b) => a.actorName.localeCompare(b.actorName));
+  }
+
+  // Customers
+  async getCustomers(search?: string): Promise<CustomerWithStats[]> {
+    const term = search?.trim().toLowerCase();
+    const matches = Array.from(this.customers.values())
+      .filter((customer) =>
+        !term ||
+        customer.name.toLowerCase().includes(term) ||
+        !!customer.email?.includes(term) ||
+        !!customer.phone?.includes(term)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return Promise.all(matches.map(async (customer) => (await this.customerHistory(customer)).customer));
+  }
+
+  async getCustomer(id: string): Promise<CustomerWithStats | undefined> {
+    const customer = this.customers.get(id);
+    return customer ? (await this.customerHistory(customer)).customer : undefined;
+  }
+
+  async getCustomerHistory(id: string): Promise<CustomerHistory | undefined> {
+    const customer = this.customers.get(id);
+    return customer ? this.customerHistory(customer) : undefined;
+  }
+
+  async createCustomer(data: InsertCustomer): Promise<Customer> {
+    const fields = customerFields(data);
+    assertNotDuplicate(matchingCustomer(Array.from(this.customers.values()), fields), fields);
+    return this.insertCustomer(fields);
+  }
+
+  private insertCustomer(fields: CustomerFields): Customer {
+    const id = randomUUID();
+    const customer: Customer = { ...fields, id, createdAt: new Date() };
+    this.customers.set(id, customer);
+    return customer;
+  }
+
+  async updateCustomer(id: string, data: InsertCustomer): Promise<Customer | undefined> {
+    const existing = this.customers.get(id);
+    if (!existing) return undefined;
+
+    const fields = customerFields(data);
+    const others = Array.from(this.customers.values()).filter((customer) => customer.id !== id);
+    assertNotDuplicate(matchingCustomer(others, fields), fields);
+
+    const updated: Customer = { ...existing, ...fields };
+    this.customers.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    if (!this.customers.has(id)) return false;
+
+    const linked = <T extends { customerId: string | null }>(rows: Map<string, T>) =>
+      Array.from(rows.values()).filter((row) => row.customerId === id).length;
+    assertCustomerRemovable({
+      orders: linked(this.orders),
+      returns: linked(this.returns),
+      credits: linked(this.discountCodes),
+    });
+
+    return this.customers.delete(id);
+  }
+
+  private async customerHistory(customer: Customer): Promise<CustomerHistory> {
+    const orders = (await this.getOrders()).filter((order) => order.customerId === customer.id).sort(byNewest);
+    const returns = (await this.getReturns()).filter((ret) => ret.customerId === customer.id).sort(byNewest);
+    const credits = Array.from(this.discountCodes.values())
+      .filter((code) => code.customerId === customer.id)
+      .sort(byNewest)
+      .map((code) => this.withBalance(code));
+
+    return { customer: customerStats(customer, orders, returns, credits), orders, returns, credits };
+  }
+
+  // The existing customer an order belongs to: the one it names, or else
+  // the one its email or phone matches
+  private findOrderCustomer(order: OrderDetails): Customer | undefined {
+    if (order.customerId) {
+      const customer = this.customers.get(order.customerId);
+      if (!customer) {
+        throw new StorageError("Customer not found", 404);
+      }
+      return customer;
+    }
+    return matchingCustomer(Array.from(this.customers.values()), orderCustomerFields(order));
+  }
+
+  private insertOrderCustomer(order: OrderDetails): Customer | undefined {
+    const fields = orderCustomerFields(order);
+    return hasContact(fields) ? this.insertCustomer(fields) : undefined;
+  }
+
+  // Products
+  async getProducts(): Promise<Product[]> {
+    return Array.from(this.products.values());
+  }
+
+  async listProducts(query: ProductListQuery): Promise<Page<Product>> {
+    const location = query.locationId ? this.resolveLocation(query.locationId) : null;
+    const levels = this.levelsOf();
+    const rows = Array.from(this.products.values()).filter(
+      (product) =>
+        matchesSearch(query.search, product.productName, product.sku, product.brand) &&
+        (!query.category || product.category === query.category) &&
+        (!query.brand || product.brand === query.brand) &&
+        (query.standalone === undefined || !product.styleId === query.standalone) &&
+        (!location || quantityAt(product, location, levels) > 0)
+    );
+    return memoryPage(rows, productSorts[query.sort], query);
+  }
+
+  async getProductFacets(): Promise<ProductFacets> {
+    const all = Array.from(this.products.values());
+    return {
+      categories: sortedFacets(all.map((product) => product.category)),
+      brands: sortedFacets(all.map((product) => product.brand)),
+    };
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+
+  async getProductBySKU(sku: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find(
+      (product) => product.sku === sku
+    );
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const id = randomUUID();
+    const product: Product = {
+      ...productColumns(insertProduct),
+      id,
+      styleId: null,
+      stockQuantity: 0,
+      createdAt: new Date(),
+    };
+    this.products.set(id, product);
+
+    const opening = openingStock(product, insertProduct.stockQuantity);
+    if (opening) await this.createStockMovement(opening);
+    return this.products.get(id)!;
+  }
+
+  async updateProduct(
+    id: string,
+    insertProduct: InsertProduct
+  ): Promise<Product | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+
+    const correction = stockCorrection(existing, insertProduct.stockQuantity, "Product edited");
+    if (correction) await this.createStockMovement(correction);
+
+    const updated: Product = {
+      ...productColumns(insertProduct),
+      id,
+      styleId: existing.styleId,
+      stockQuantity: this.products.get(id)!.stockQuantity,
+      createdAt: existing.createdAt,
+    };
+    this.products.set(id, updated);
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    const product = this.products.get(id);
+    if (!product) return false;
+    assertProductRemovable(product, this.productCommitments(id));
+
+    this.levelsOf(id).forEach((level) => this.stockLevels.delete(this.levelKey(level.productId, level.locationId)));
+    return this.products.delete(id);
+  }
+
+  private productCommitments(productId: string): ProductCommitments {
+    const onOpen = <T extends { productId: string }>(items: Map<string, T>, isOpen: (item: T) => boolean) =>
+      Array.from(items.values()).filter((item) => item.productId === productId && isOpen(item)).length;
+    return {
+      transfers: onOpen(this.stockTransferItems, (item) => this.stockTransfers.get(item.transferId)?.status === "in_transit"),
+      returns: onOpen(this.returnItems, (item) => this.returns.get(item.returnId)?.status === "pending"),
+      stocktakes: onOpen(this.stocktakeItems, (item) => this.stocktakes.get(item.stocktakeId)?.status === "open"),
+      purchaseOrders: onOpen(
+        this.purchaseOrderItems,
+        (item) => this.purchaseOrders.get(item.purchaseOrderId)?.status !== "closed"
+      ),
+    };
+  }
+
+  // Product styles
+  async getProductStyles(): Promise<ProductStyleWithVariants[]> {
+    return Array.from(this.productStyles.values()).map((style) => this.withVariants(style));
+  }
+
+  async getProductStyle(id: string): Promise<ProductStyleWithVariants | undefined> {
+    const style = this.productStyles.get(id);
+    return style ? this.withVariants(style) : undefined;
+  }
+
+  async createProductStyle(data: InsertProductStyle, matrix: VariantMatrix): Promise<ProductStyleWithVariants> {
+    const row = styleRow(data);
+    if (Array.from(this.productStyles.values()).some((style) => style.styleCode === row.styleCode)) {
+      throw new StorageError(`A style with code ${row.styleCode} already exists`, 409);
+    }
+
+    const style: ProductStyle = { ...row, id: randomUUID(), createdAt: new Date() };
+    const variants = matrixVariants(style, matrix, []);
+    assertSkusAvailable(variants.map((variant) => variant.sku), Array.from(this.products.values()).map((p) => p.sku));
+
+    this.productStyles.set(style.id, style);
+    for (const variant of variants) await this.insertVariant(variant);
+    return this.withVariants(style);
+  }
+
+  // The style code is fixed once variants carry it in their SKUs
+  async updateProductStyle(id: string, data: InsertProductStyle): Promise<ProductStyleWithVariants | undefined> {
+    const existing = this.productStyles.get(id);
+    if (!existing) return undefined;
+
+    const style: ProductStyle = { ...existing, ...styleRow(data), styleCode: existing.styleCode };
+    this.productStyles.set(id, style);
+    for (const variant of this.variantsOf(id)) {
+      this.products.set(variant.id, { ...variant, ...styleFields(style) });
+    }
+    return this.withVariants(style);
+  }
+
+  async addStyleVariants(id: string, matrix: VariantMatrix): Promise<ProductStyleWithVariants | undefined> {
+    const style = this.productStyles.get(id);
+    if (!style) return undefined;
+
+    const variants = matrixVariants(style, matrix, this.variantsOf(id));
+    assertSkusAvailable(variants.map((variant) => variant.sku), Array.from(this.products.values()).map((p) => p.sku));
+
+    for (const variant of variants) await this.insertVariant(variant);
+    return this.withVariants(style);
+  }
+
+  async updateStyleVariants(id: string, updates: VariantUpdate[]): Promise<ProductStyleWithVariants | undefined> {
+    const style = this.productStyles.get(id);
+    if (!style) return undefined;
+
+    assertVariantsOfStyle(this.variantsOf(id), updates);
+
+    for (const update of updates) {
+      const variant = this.products.get(update.id)!;
+      if (update.price !== undefined) {
+        this.products.set(variant.id, { ...variant, price: update.price });
+      }
+      if (update.stockQuantity !== undefined && update.stockQuantity !== variant.stockQuantity) {
+        await this.createStockMovement(
+          stockCorrection(variant, update.stockQuantity, `Variant grid for style ${style.styleCode}`)!
+        );
+      }
+    }
+    return this.withVariants(style);
+  }
+
+  async deleteProductStyle(id: string): Promise<boolean> {
+    const variants = this.variantsOf(id);
+    variants.forEach((variant) => assertProductRemovable(variant, this.productCommitments(variant.id)));
+    for (const variant of variants) {
+      await this.deleteProduct(variant.id);
+    }
+    return this.productStyles.delete(id);
+  }
+
+  private variantsOf(styleId: string): Product[] {
+    return Array.from(this.products.values()).filter((product) => product.styleId === styleId);
+  }
+
+  private withVariants(style: ProductStyle): ProductStyleWithVariants {
+    return { ...style, variants: this.variantsOf(style.id) };
+  }
+
+  private async insertVariant(variant: Omit<Product, "id" | "createdAt">): Promise<void> {
+    const product: Product = { ...variant, id: randomUUID(), stockQuantity: 0, createdAt: new Date() };
+    this.products.set(product.id, product);
+
+    const opening = openingStock(product, variant.stockQuantity);
+    if (opening) await this.createStockMovement(opening);
+  }
+
+  // Tax classes
+  async getTaxClasses(): Promise<TaxClassWithRates[]> {
+    const rates = Array.from(this.taxRates.values());
+    return Array.from(this.taxClasses.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((taxClass) => withRates(taxClass, rates));
+  }
+
+  async getTaxClass(id: string): Promise<TaxClassWithRates | undefined> {
+    const taxClass = this.taxClasses.get(id);
+    return taxClass && withRates(taxClass, Array.from(this.taxRates.values()));
+  }
+
+  async createTaxClass(data: InsertTaxClass): Promise<TaxClassWithRates> {
+    assertTaxClassFree(await this.getTaxClasses(), data);
+
+    const taxClass: TaxClass = { ...taxClassFields(data), id: randomUUID(), createdAt: new Date() };
+    this.taxClasses.set(taxClass.id, taxClass);
+    taxClassRates(taxClass.id, data).forEach((rate) => this.taxRates.set(rate.id, rate));
+    return (await this.getTaxClass(taxClass.id))!;
+  }
+
+  async updateTaxClass(id: string, data: InsertTaxClass): Promise<TaxClassWithRates | undefined> {
+    const existing = this.taxClasses.get(id);
+    if (!existing) return undefined;
+
+    assertTaxClassFree(await this.getTaxClasses(), data, id);
+
+    this.taxClasses.set(id, { ...existing, ...taxClassFields(data) });
+    this.removeTaxRates(id);
+    taxClassRates(id, data).forEach((rate) => this.taxRates.set(rate.id, rate));
+    return this.getTaxClass(id);
+  }
+
+  async deleteTaxClass(id: string): Promise<boolean> {
+    this.removeTaxRates(id);
+    return this.taxClasses.delete(id);
+  }
+
+  private removeTaxRates(taxClassId: string): void {
+    Array.from(this.taxRates.values())
+      .filter((rate) => rate.taxClassId === taxClassId)
+      .forEach((rate) => this.taxRates.delete(rate.id));
+  }
+
+  // Orders
+  async getOrders(): Promise<OrderWithItems[]> {
+    const orders = Array.from(this.orders.values());
+    return Promise.all(
+      orders.map(async (order) => {
+        const items = await this.getOrderItems(order.id);
+        return { ...order, items };
+      })
+    );
+  }
+
+  async listOrders(query: OrderListQuery): Promise<Page<OrderWithItems>> {
+    const rows = Array.from(this.orders.values()).filter(
+      (order) =>
+        matchesSearch(query.search, order.orderNumber, order.customerName, order.customerEmail) &&
+        (!query.status || order.status === query.status) &&
+        inDateRange(order.createdAt, query)
+    );
+    const page = memoryPage(rows, orderSorts[query.sort], query);
+    const items = await Promise.all(
+      page.items.map(async (order) => ({ ...order, items: await this.getOrderItems(order.id) }))
+    );
+    return { ...page, items };
+  }
+
+  async getOrder(id: string): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const items = await this.getOrderItems(id);
+    return { ...order, items };
+  }
+
+  async getOrdersByCustomerEmail(email: string): Promise<OrderWithItems[]> {
+    const orders = Array.from(this.orders.values()).filter(
+      (order) => order.customerEmail === email
+    );
+    return Promise.all(
+      orders.map(async (order) => {
+        const items = await this.getOrderItems(order.id);
+        return { ...order, items };
+      })
+    );
+  }
+
+  async createOrder(
+    details: OrderDetails,
+    lines: OrderLine[],
+    options: NewOrderOptions = {}
+  ): Promise<OrderWithItems> {
+    if (details.status === "cancelled") {
+      throw new StorageError("New orders cannot be created as cancelled");
+    }
+
+    const products = lines.flatMap((line) => this.products.get(line.productId) ?? []);
+    const priced = priceOrder(details, lines, options, products, await this.getTaxClasses());
+    return this.insertOrder(priced.order, priced.items, options.credits);
+  }
+
+  private async insertOrder(
+    insertOrder: PricedOrder,
+    insertItems: InsertOrderItem[],
+    credits: OrderCredit[] = []
+  ): Promise<OrderWithItems> {
+    const id = randomUUID();
+    const orderNumber = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+
+    // Validate every line and credit before touching anything so a failed order leaves no trace
+    await this.assertStockAvailable(insertItems);
+    const existingCustomer = this.findOrderCustomer(insertOrder);
+    assertCreditsApplicable(
+      await this.getDiscountCodes(),
+      credits,
+      { ...insertOrder, customerId: existingCustomer?.id }
+    );
+
+    const customer = existingCustomer ?? this.insertOrderCustomer(insertOrder);
+    const order: Order = {
+      discountType: null,
+      discountValue: null,
+      discountAmount: "0",
+      discountReason: null,
+      discountApprovedBy: null,
+      taxJurisdiction: null,
+      pricesIncludeTax: false,
+      taxAmount: "0",
+      ...insertOrder,
+      id,
+      orderNumber,
+      customerId: customer?.id ?? null,
+      customerEmail: insertOrder.customerEmail ?? null,
+      customerPhone: insertOrder.customerPhone ?? null,
+      notes: insertOrder.notes ?? null,
+      ...orderCreditState({ creditApplied: "0", creditCodes: null }, credits),
+      createdAt: new Date(),
+    };
+    this.orders.set(id, order);
+
+    // Create order items
+    const items: OrderItem[] = insertItems.map((item) => {
+      const itemId = randomUUID();
+      const orderItem: OrderItem = {
+        discountType: null,
+        discountValue: null,
+        discountAmount: "0",
+        discountReason: null,
+        taxName: null,
+        taxRate: "0",
+        taxAmount: "0",
+        ...item,
+        id: itemId,
+        orderId: id,
+      };
+      this.orderItems.set(itemId, orderItem);
+      return orderItem;
+    });
+
+    await this.deductOrderStock(order, items);
+    this.redeemOrderCredits(order, credits);
+    this.recordStatusChange(order, null, { status: insertOrder.status });
+
+    return { ...order, items };
+  }
+
+  async updateOrder(
+    id: string,
+    insertOrder: OrderDetails
+  ): Promise<Order | undefined> {
+    const existing = this.orders.get(id);
+    if (!existing) return undefined;
+
+    if (insertOrder.customerId && !this.customers.has(insertOrder.customerId)) {
+      throw new StorageError("Customer not found", 404);
+    }
+    if (insertOrder.status !== existing.status) {
+      await this.transitionOrder(existing, { status: insertOrder.status });
+    }
+
+    const updated: Order = {
+      ...insertOrder,
+      id,
+      orderNumber: existing.orderNumber,
+      customerId: insertOrder.customerId ?? existing.customerId,
+      customerEmail: insertOrder.customerEmail ?? null,
+      customerPhone: insertOrder.customerPhone ?? null,
+      notes: insertOrder.notes ?? null,
+      // Prices and discounts stay as they were when the order was placed
+      totalAmount: existing.totalAmount,
+      discountType: existing.discountType,
+      discountValue: existing.discountValue,
+      discountAmount: existing.discountAmount,
+      discountReason: existing.discountReason,
+      discountApprovedBy: existing.discountApprovedBy,
+      taxJurisdiction: existing.taxJurisdiction,
+      pricesIncludeTax: existing.pricesIncludeTax,
+      taxAmount: existing.taxAmount,
+      creditApplied: existing.creditApplied,
+      creditCodes: existing.creditCodes,
+      createdAt: existing.createdAt,
+    };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async deleteOrder(id: string): Promise<boolean> {
+    const order = this.orders.get(id);
+    if (order) {
+      assertOrderRemovable(order, Array.from(this.returns.values()));
+    }
+    if (order && order.status !== "cancelled") {
+      await this.restoreOrderStock(order, `Order ${order.orderNumber} deleted`);
+      this.reverseOrderCredits(order, `Order ${order.orderNumber} deleted`);
+    }
+
+    // Delete order items and history first
+    const items = await this.getOrderItems(id);
+    items.forEach((item) => this.orderItems.delete(item.id));
+    const history = await this.getOrderStatusHistory(id);
+    history.forEach((entry) => this.orderStatusHistory.delete(entry.id));
+
+    // Delete order
+    return this.orders.delete(id);
+  }
+
+  async updateOrderStatus(id: string, change: OrderStatusChange, changedBy?: string | null): Promise<Order | undefined> {
+    const existing = this.orders.get(id);
+    if (!existing) return undefined;
+
+    await this.transitionOrder(existing, { ...change, changedBy });
+
+    const updated: Order = { ...existing, status: change.status };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return Array.from(this.orderStatusHistory.values())
+      .filter((entry) => entry.orderId === orderId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  private async transitionOrder(order: Order, change: RecordedStatusChange): Promise<void> {
+    assertOrderTransition(order.status, change.status);
+
+    if (change.status === "cancelled") {
+      await this.restoreOrderStock(order, `Order ${order.orderNumber} cancelled`);
+      this.reverseOrderCredits(order, `Order ${order.orderNumber} cancelled`);
+    }
+
+    this.recordStatusChange(order, order.status, change);
+  }
+
+  private recordStatusChange(order: Order, fromStatus: string | null, change: RecordedStatusChange): void {
+    const id = randomUUID();
+    this.orderStatusHistory.set(id, {
+      id,
+      orderId: order.id,
+      fromStatus,
+      toStatus: change.status,
+      changedBy: change.changedBy || null,
+      reason: change.reason || null,
+      createdAt: new Date(),
+    });
+  }
+
+  private async assertStockAvailable(items: Pick<InsertOrderItem, "productId" | "quantity">[]): Promise<void> {
+    const requested = new Map<string, number>();
+    for (const item of items) {
+      requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity);
+    }
+
+    const location = this.defaultLocation();
+    for (const [productId, quantity] of Array.from(requested)) {
+      const product = this.products.get(productId);
+      if (!product) {
+        throw new StorageError(`Product ${productId} not found`);
+      }
+      const available = quantityAt(product, location, this.levelsOf(productId));
+      if (available < quantity) {
+        throw insufficientStockError(product, quantity, available, location);
+      }
+    }
+  }
+
+  private async deductOrderStock(order: Order, items: OrderItem[]): Promise<void> {
+    for (const item of items) {
+      await this.createStockMovement({
+        productId: item.productId,
+        productName: item.productName,
+        sku: item.sku,
+        type: "out",
+        quantity: item.quantity,
+        reason: "sale",
+        notes: `Order ${order.orderNumber}`,
+        sourceType: "order",
+        sourceId: order.id,
+      });
+    }
+  }
+
+  // Puts back whatever the order's own movements took out, so orders created
+  // before stock was reserved are never restocked twice. Products deleted
+  // since have no stock left to put back.
+  private async restoreOrderStock(order: Order, notes: string): Promise<void> {
+    const movements = Array.from(this.stockMovements.values()).filter(
+      (movement) => movement.sourceType === "order" && movement.sourceId === order.id
+    );
+
+    for (const { movement, quantity } of Array.from(netQuantityOut(movements).values())) {
+      if (quantity <= 0 || !this.products.has(movement.productId)) continue;
+      await this.createStockMovement({
+        productId: movement.productId,
+        productName: movement.productName,
+        sku: movement.sku,
+        type: "in",
+        quantity,
+        reason: "order_cancelled",
+        notes,
+        sourceType: "order",
+        sourceId: order.id,
+      });
+    }
+  }
+
+  private redeemOrderCredits(order: Order, credits: OrderCredit[]): void {
+    for (const credit of credits) {
+      const discountCode = this.findDiscountCode(credit.code);
+      if (!discountCode) continue;
+      this.applyCreditChange(discountCode, {
+        code: credit.code,
+        orderId: order.id,
+        type: "redeem",
+        amount: fromCents(-toCents(credit.amount)),
+        note: `Order ${order.orderNumber}`,
+      });
+    }
+  }
+
+  // Gives back whatever credit the order still holds
+  private reverseOrderCredits(order: Order, note: string): void {
+    const transactions = Array.from(this.creditTransactions.values()).filter(
+      (transaction) => transaction.orderId === order.id
+    );
+
+    for (const [code, cents] of Array.from(netCreditRedeemed(transactions).entries())) {
+      const discountCode = this.findDiscountCode(code);
+      if (cents <= 0 || !discountCode) continue;
+      this.applyCreditChange(discountCode, {
+        code,
+        orderId: order.id,
+        type: "reverse",
+        amount: fromCents(cents),
+        note,
+      });
+    }
+  }
+
+  // Order Items
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter(
+      (item) => item.orderId === orderId
+    );
+  }
+
+  // Stock Movements
+  async getStockMovements(productId?: string): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter((movement) => !productId || movement.productId === productId)
+      .sort(byNewest);
+  }
+
+  async listStockMovements(query: StockMovementListQuery): Promise<Page<StockMovement>> {
+    const location = query.locationId ? this.resolveLocation(query.locationId) : null;
+    const rows = Array.from(this.stockMovements.values()).filter(
+      (movement) =>
+        matchesSearch(query.search, movement.productName, movement.sku, movement.notes) &&
+        (!query.productId || movement.productId === query.productId) &&
+        (!query.type || movement.type === query.type) &&
+        (!query.reason || movement.reason === query.reason) &&
+        (!query.sourceType || movement.sourceType === query.sourceType) &&
+        (!location || (movement.locationId ?? this.defaultLocation().id) === location.id) &&
+        inDateRange(movement.createdAt, query)
+    );
+    return memoryPage(rows, stockMovementSorts[query.sort], query);
+  }
+
+  async listStockFigures(query: StockFigureListQuery): Promise<Page<ProductStockFigures>> {
+    const location = query.locationId ? this.resolveLocation(query.locationId) : null;
+    const levels = this.levelsOf();
+    const moved = new Map<string, StockMovement[]>();
+    for (const movement of this.movementsAt(location)) {
+      moved.set(movement.productId, [...(moved.get(movement.productId) ?? []), movement]);
+    }
+    const rows = Array.from(this.products.values())
+      .filter(
+        (product) =>
+          matchesSearch(query.search, product.productName, product.sku, product.brand) &&
+          (!query.category || product.category === query.category)
+      )
+      .map((product) => {
+        const movements = moved.get(product.id) ?? [];
+        return {
+          ...product,
+          available: location ? quantityAt(product, location, levels) : product.stockQuantity,
+          sold: movements.reduce((units, movement) => units + soldBy(movement), 0),
+          returned: movements.reduce((units, movement) => units + returnedBy(movement), 0),
+        };
+      });
+    return memoryPage(rows, stockFigureSorts(location)[query.sort], query);
+  }
+
+  async getStockTotals(locationId?: string): Promise<StockFigures> {
+    const location = locationId ? this.resolveLocation(locationId) : null;
+    const levels = this.levelsOf();
+    const movements = this.movementsAt(location);
+    return {
+      available: Array.from(this.products.values()).reduce(
+        (units, product) => units + (location ? quantityAt(product, location, levels) : product.stockQuantity),
+        0
+      ),
+      sold: movements.reduce((units, movement) => units + soldBy(movement), 0),
+      returned: movements.reduce((units, movement) => units + returnedBy(movement), 0),
+    };
+  }
+
+  async createStockMovement(insertMovement: InsertStockMovement): Promise<StockMovement> {
+    const location = this.resolveLocation(insertMovement.locationId);
+    const product = await this.getProduct(insertMovement.productId);
+    if (!product) {
+      throw new StorageError("Product not found", 404);
+    }
+
+    // Update the location's level and the product total by the same amount
+    const current = quantityAt(product, location, this.levelsOf(product.id));
+    const next = levelAfter(current, insertMovement);
+    assertLevelAllowed(product, location, current, next, insertMovement);
+    if (!location.isDefault) {
+      this.setLevel(product.id, location.id, next);
+    }
+    this.products.set(product.id, { ...product, stockQuantity: product.stockQuantity + next - current });
+
+    const movement: StockMovement = {
+      ...recordedMovement(insertMovement, location, { before: current, after: next }),
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.stockMovements.set(movement.id, movement);
+    return movement;
+  }
+
+  async getStockDrift(): Promise<StockDrift[]> {
+    const ledger = ledgerLevels(Array.from(this.stockMovements.values()), this.defaultLocation().id);
+    return stockDrift(Array.from(this.products.values()), ledger);
+  }
+
+  // Sets each product's stock, and its levels at every location, to what
+  // its movements replay to
+  async rebuildStock(rebuild: RebuildStock): Promise<StockDrift[]> {
+    const defaultId = this.defaultLocation().id;
+    const ledger = ledgerLevels(Array.from(this.stockMovements.values()), defaultId);
+    const rebuilt = driftToRebuild(stockDrift(Array.from(this.products.values()), ledger), rebuild);
+
+    for (const row of rebuilt) {
+      const levels = ledger.get(row.productId) ?? new Map<string, number>();
+      this.levelsOf(row.productId).forEach((level) => this.stockLevels.delete(this.levelKey(row.productId, level.locationId)));
+      for (const [locationId, quantity] of Array.from(levels)) {
+        if (locationId !== defaultId) this.setLevel(row.productId, locationId, quantity);
+      }
+      const product = this.products.get(row.productId)!;
+      this.products.set(product.id, { ...product, stockQuantity: row.ledgerQuantity });
+    }
+    return rebuilt;
+  }
+
+  async migrateMovementReasons(): Promise<number> {
+    let migrated = 0;
+    for (const movement of Array.from(this.stockMovements.values())) {
+      const reason = migratedReason(movement);
+      if (!reason) continue;
+      this.stockMovements.set(movement.id, { ...movement, ...reason });
+      migrated++;
+    }
+    return migrated;
+  }
+
+  async linkMovementSources(): Promise<number> {
+    const documents: SourceDocument[] = [
+      ...Array.from(this.orders.values()).map((order) => ({ sourceType: "order" as const, id: order.id, number: order.orderNumber })),
+      ...Array.from(this.returns.values()).map((ret) => ({ sourceType: "return" as const, id: ret.id, number: ret.returnNumber })),
+      ...Array.from(this.purchaseOrders.values()).map((po) => ({ sourceType: "purchase_order" as const, id: po.id, number: po.poNumber })),
+      ...Array.from(this.stockTransfers.values()).map((transfer) => ({ sourceType: "transfer" as const, id: transfer.id, number: transfer.transferNumber })),
+      ...Array.from(this.stocktakes.values()).map((stocktake) => ({ sourceType: "stocktake" as const, id: stocktake.id, number: stocktake.stocktakeNumber })),
+    ];
+
+    let linked = 0;
+    for (const movement of Array.from(this.stockMovements.values())) {
+      const source = inferredSource(movement, documents);
+      if (!source) continue;
+      this.stockMovements.set(movement.id, { ...movement, ...source });
+      linked++;
+    }
+    return linked;
+  }
+
+  async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
+    return Array.from(this.products.values()).filter((product) => isLowStock(product, threshold));
+  }
+
+  // Reordering
+  async getReorderSuggestions(windowDays: number): Promise<ReorderSuggestion[]> {
+    const since = velocityWindowStart(windowDays);
+    const movements = Array.from(this.stockMovements.values()).filter(
+      (movement) => movement.createdAt && movement.createdAt >= since
+    );
+    return reorderSuggestions(
+      Array.from(this.products.values()),
+      movements,
+      await this.getPurchaseOrders(),
+      windowDays
+    );
+  }
+
+  async createReorderPurchaseOrders(reorder: ReorderPurchaseOrders): Promise<PurchaseOrderWithItems[]> {
+    const drafts = reorderPurchaseOrderDrafts(reorder);
+    // Check every draft before creating any
+    for (const draft of drafts) {
+      if (!this.suppliers.has(draft.supplierId)) {
+        throw new StorageError("Supplier not found", 404);
+      }
+      this.resolveLocation(draft.locationId);
+      purchaseOrderLines(draft, this.products);
+    }
+
+    const created: PurchaseOrderWithItems[] = [];
+    for (const draft of drafts) {
+      created.push(await this.createPurchaseOrder(draft));
+    }
+    return created;
+  }
+
+  // Locations
+  async getLocations(): Promise<LocationWithStock[]> {
+    const totalOnHand = Array.from(this.products.values()).reduce(
+      (sum, product) => sum + product.stockQuantity,
+      0
+    );
+    return withUnitsOnHand(Array.from(this.locations.values()), totalOnHand, this.levelsOf());
+  }
+
+  async getLocation(id: string): Promise<LocationWithStock | undefined> {
+    return (await this.getLocations()).find((location) => location.id === id);
+  }
+
+  async createLocation(data: InsertLocation): Promise<Location> {
+    const fields = locationFields(data);
+    assertLocationCodeFree(this.findLocationByCode(fields.code), fields.code);
+
+    const location: Location = { ...fields, id: randomUUID(), isDefault: false, createdAt: new Date() };
+    this.locations.set(location.id, location);
+    return location;
+  }
+
+  async updateLocation(id: string, data: InsertLocation): Promise<Location | undefined> {
+    const existing = this.locations.get(id);
+    if (!existing) return undefined;
+
+    const fields = locationFields(data);
+    const duplicate = this.findLocationByCode(fields.code);
+    assertLocationCodeFree(duplicate?.id === id ? undefined : duplicate, fields.code);
+
+    const updated: Location = { ...existing, ...fields };
+    this.locations.set(id, updated);
+    return updated;
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    const location = await this.getLocation(id);
+    if (!location) return false;
+
+    const inTransit = Array.from(this.stockTransfers.values()).filter(
+      (transfer) =>
+        transfer.status === "in_transit" && (transfer.fromLocationId === id || transfer.toLocationId === id)
+    );
+    assertLocationRemovable(location, inTransit.length);
+
+    this.levelsOf()
+      .filter((level) => level.locationId === id)
+      .forEach((level) => this.stockLevels.delete(this.levelKey(level.productId, id)));
+    return this.locations.delete(id);
+  }
+
+  async getStockBalances(productId?: string): Promise<StockBalance[]> {
+    const locationRows = Array.from(this.locations.values()).sort(byDefaultThenName);
+    if (productId) {
+      const product = this.products.get(productId);
+      return product ? stockBalances([product], locationRows, this.levelsOf(productId)) : [];
+    }
+    return stockBalances(Array.from(this.products.values()), locationRows, this.levelsOf()).filter(
+      (balance) => balance.quantity !== 0
+    );
+  }
+
+  private defaultLocation(): Location {
+    return Array.from(this.locations.values()).find((location) => location.isDefault)!;
+  }
+
+  // Movements at a location, or all of them without one
+  private movementsAt(location: Location | null): StockMovement[] {
+    const defaultId = this.defaultLocation().id;
+    return Array.from(this.stockMovements.values()).filter(
+      (movement) => !location || (movement.locationId ?? defaultId) === location.id
+    );
+  }
+
+  private resolveLocation(id?: string | null): Location {
+    if (!id) return this.defaultLocation();
+    const location = this.locations.get(id);
+    if (!location) {
+      throw new StorageError(`Location ${id} not found`, 404);
+    }
+    return location;
+  }
+
+  private findLocationByCode(code: string): Location | undefined {
+    return Array.from(this.locations.values()).find((location) => location.code === code);
+  }
+
+  private levelKey(productId: string, locationId: string): string {
+    return `${productId}|${locationId}`;
+  }
+
+  private levelsOf(productId?: string): StockLevel[] {
+    const levels = Array.from(this.stockLevels.values());
+    return productId ? levels.filter((level) => level.productId === productId) : levels;
+  }
+
+  private setLevel(productId: string, locationId: string, quantity: number): void {
+    const key = this.levelKey(productId, locationId);
+    const id = this.stockLevels.get(key)?.id ?? randomUUID();
+    this.stockLevels.set(key, { id, productId, locationId, quantity });
+  }
+
+  // Stock transfers
+  async getStockTransfers(): Promise<StockTransferWithItems[]> {
+    return Array.from(this.stockTransfers.values())
+      .sort(byNewest)
+      .map((transfer) => this.withTransferItems(transfer));
+  }
+
+  async getStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    const transfer = this.stockTransfers.get(id);
+    return transfer ? this.withTransferItems(transfer) : undefined;
+  }
+
+  async createStockTransfer(data: CreateStockTransfer): Promise<StockTransferWithItems> {
+    const { from, to } = transferLocations(
+      this.locations.get(data.fromLocationId),
+      this.locations.get(data.toLocationId)
+    );
+    const items = transferItems(data, this.products, from, this.levelsOf());
+
+    const transfer: StockTransfer = {
+      id: randomUUID(),
+      transferNumber: transferNumber(),
+      fromLocationId: from.id,
+      toLocationId: to.id,
+      status: "in_transit",
+      notes: data.notes || null,
+      createdAt: new Date(),
+      receivedAt: null,
+      cancelledAt: null,
+    };
+    this.stockTransfers.set(transfer.id, transfer);
+    for (const item of items) {
+      const row: StockTransferItem = { ...item, id: randomUUID(), transferId: transfer.id };
+      this.stockTransferItems.set(row.id, row);
+    }
+
+    const created = this.withTransferItems(transfer);
+    const notes = `Transfer ${transfer.transferNumber} to ${to.name}`;
+    for (const movement of transferMovements(created, "out", from, "transfer_out", notes)) {
+      await this.createStockMovement(movement);
+    }
+    return created;
+  }
+
+  async receiveStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    const transfer = await this.getStockTransfer(id);
+    if (!transfer) return undefined;
+    assertTransferInTransit(transfer);
+
+    const from = this.resolveLocation(transfer.fromLocationId);
+    const to = this.resolveLocation(transfer.toLocationId);
+    const notes = `Transfer ${transfer.transferNumber} from ${from.name}`;
+    for (const movement of transferMovements(transfer, "in", to, "transfer_in", notes)) {
+      await this.createStockMovement(movement);
+    }
+    return this.saveTransfer(transfer, { status: "received", receivedAt: new Date() });
+  }
+
+  async cancelStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    const transfer = await this.getStockTransfer(id);
+    if (!transfer) return undefined;
+    assertTransferInTransit(transfer);
+
+    const from = this.resolveLocation(transfer.fromLocationId);
+    const notes = `Transfer ${transfer.transferNumber} cancelled`;
+    for (const movement of transferMovements(transfer, "in", from, "transfer_cancelled", notes)) {
+      await this.createStockMovement(movement);
+    }
+    return this.saveTransfer(transfer, { status: "cancelled", cancelledAt: new Date() });
+  }
+
+  private withTransferItems(transfer: StockTransfer): StockTransferWithItems {
+    const items = Array.from(this.stockTransferItems.values()).filter(
+      (item) => item.transferId === transfer.id
+    );
+    return { ...transfer, items };
+  }
+
+  private saveTransfer({ items, ...transfer }: StockTransferWithItems, changes: Partial<StockTransfer>): StockTransferWithItems {
+    const updated: StockTransfer = { ...transfer, ...changes };
+    this.stockTransfers.set(updated.id, updated);
+    return { ...updated, items };
+  }
+
+  // Stocktakes
+  async getStocktakes(): Promise<StocktakeWithItems[]> {
+    return Array.from(this.stocktakes.values())
+      .sort(byNewest)
+      .map((stocktake) => this.withStocktakeItems(stocktake));
+  }
+
+  async getStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    return stocktake ? this.withStocktakeItems(stocktake) : undefined;
+  }
+
+  async createStocktake(data: CreateStocktake): Promise<StocktakeWithItems> {
+    const location = this.resolveLocation(data.locationId);
+    const category = data.category || null;
+    const lines = stocktakeLines(Array.from(this.products.values()), location, this.levelsOf(), category);
+
+    const stocktake: Stocktake = {
+      id: randomUUID(),
+      stocktakeNumber: stocktakeNumber(),
+      locationId: location.id,
+      category,
+      status: "open",
+      notes: data.notes || null,
+      createdAt: new Date(),
+      postedAt: null,
+      cancelledAt: null,
+    };
+    this.stocktakes.set(stocktake.id, stocktake);
+    for (const line of lines) {
+      const item: StocktakeItem = { ...line, id: randomUUID(), stocktakeId: stocktake.id };
+      this.stocktakeItems.set(item.id, item);
+    }
+    return this.withStocktakeItems(stocktake);
+  }
+
+  async recordStocktakeCounts(id: string, counts: RecordStocktakeCounts): Promise<StocktakeWithItems | undefined> {
+    const stocktake = await this.getStocktake(id);
+    if (!stocktake) return undefined;
+    assertStocktakeOpen(stocktake);
+
+    const location = this.resolveLocation(stocktake.locationId);
+    countedLines(stocktake, counts, this.products, location, this.levelsOf())
+      .forEach((item) => this.stocktakeItems.set(item.id, item));
+    return this.withStocktakeItems(stocktake);
+  }
+
+  async postStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    const stocktake = await this.getStocktake(id);
+    if (!stocktake) return undefined;
+    assertStocktakeOpen(stocktake);
+
+    const location = this.resolveLocation(stocktake.locationId);
+    for (const movement of stocktakeMovements(stocktake, location)) {
+      await this.createStockMovement(movement);
+    }
+    return this.saveStocktake(stocktake, { status: "posted", postedAt: new Date() });
+  }
+
+  async cancelStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    const stocktake = await this.getStocktake(id);
+    if (!stocktake) return undefined;
+    assertStocktakeOpen(stocktake);
+
+    return this.saveStocktake(stocktake, { status: "cancelled", cancelledAt: new Date() });
+  }
+
+  private withStocktakeItems(stocktake: Stocktake): StocktakeWithItems {
+    const items = Array.from(this.stocktakeItems.values()).filter((item) => item.stocktakeId === stocktake.id);
+    return { ...stocktake, items };
+  }
+
+  private saveStocktake({ items, ...stocktake }: StocktakeWithItems, changes: Partial<Stocktake>): StocktakeWithItems {
+    const updated: Stocktake = { ...stocktake, ...changes };
+    this.stocktakes.set(updated.id, updated);
+    return { ...updated, items };
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async createSupplier(data: InsertSupplier): Promise<Supplier> {
+    const supplier: Supplier = { ...supplierFields(data), id: randomUUID(), createdAt: new Date() };
+    this.suppliers.set(supplier.id, supplier);
+    return supplier;
+  }
+
+  async updateSupplier(id: string, data: InsertSupplier): Promise<Supplier | undefined> {
+    const existing = this.suppliers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Supplier = { ...existing, ...supplierFields(data) };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    if (!this.suppliers.has(id)) return false;
+
+    const purchaseOrderCount = Array.from(this.purchaseOrders.values()).filter(
+      (purchaseOrder) => purchaseOrder.supplierId === id
+    ).length;
+    assertSupplierRemovable(purchaseOrderCount);
+
+    Array.from(this.products.values())
+      .filter((product) => product.supplierId === id)
+      .forEach((product) => this.products.set(product.id, { ...product, supplierId: null }));
+    return this.suppliers.delete(id);
+  }
+
+  // Purchase orders
+  async getPurchaseOrders(): Promise<PurchaseOrderWithItems[]> {
+    return Array.from(this.purchaseOrders.values())
+      .sort(byNewest)
+      .map((purchaseOrder) => this.withPurchaseOrderItems(purchaseOrder));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    return purchaseOrder ? this.withPurchaseOrderItems(purchaseOrder) : undefined;
+  }
+
+  async createPurchaseOrder(data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    if (!this.suppliers.has(data.supplierId)) {
+      throw new StorageError("Supplier not found", 404);
+    }
+    const location = this.resolveLocation(data.locationId);
+    const lines = purchaseOrderLines(data, this.products);
+
+    const purchaseOrder: PurchaseOrder = {
+      id: randomUUID(),
+      poNumber: poNumber(),
+      supplierId: data.supplierId,
+      locationId: location.id,
+      status: "draft",
+      notes: data.notes || null,
+      createdAt: new Date(),
+      sentAt: null,
+      closedAt: null,
+    };
+    this.purchaseOrders.set(purchaseOrder.id, purchaseOrder);
+    this.insertPurchaseOrderItems(purchaseOrder.id, lines);
+    return this.withPurchaseOrderItems(purchaseOrder);
+  }
+
+  async updatePurchaseOrder(id: string, data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems | undefined> {
+    const existing = this.purchaseOrders.get(id);
+    if (!existing) return undefined;
+    assertPurchaseOrderDraft(existing);
+
+    if (!this.suppliers.has(data.supplierId)) {
+      throw new StorageError("Supplier not found", 404);
+    }
+    const location = this.resolveLocation(data.locationId);
+    const lines = purchaseOrderLines(data, this.products);
+
+    const updated: PurchaseOrder = {
+      ...existing,
+      supplierId: data.supplierId,
+      locationId: location.id,
+      notes: data.notes || null,
+    };
+    this.purchaseOrders.set(id, updated);
+    this.deletePurchaseOrderItems(id);
+    this.insertPurchaseOrderItems(id, lines);
+    return this.withPurchaseOrderItems(updated);
+  }
+
+  async deletePurchaseOrder(id: string): Promise<boolean> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    if (!purchaseOrder) return false;
+    assertPurchaseOrderDraft(purchaseOrder);
+
+    this.deletePurchaseOrderItems(id);
+    return this.purchaseOrders.delete(id);
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = await this.getPurchaseOrder(id);
+    if (!purchaseOrder) return undefined;
+    assertPurchaseOrderTransition(purchaseOrder, "sent");
+
+    return this.savePurchaseOrder(purchaseOrder, { status: "sent", sentAt: new Date() });
+  }
+
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = await this.getPurchaseOrder(id);
+    if (!purchaseOrder) return undefined;
+    assertPurchaseOrderReceivable(purchaseOrder);
+
+    const received = receivedLines(purchaseOrder, receipt);
+    const items = purchaseOrder.items.map((item) => {
+      const line = received.find((entry) => entry.item.id === item.id);
+      return line ? { ...item, quantityReceived: item.quantityReceived + line.quantity } : item;
+    });
+    const status = statusAfterReceipt(items);
+
+    const supplier = this.suppliers.get(purchaseOrder.supplierId);
+    for (const movement of receiptMovements(purchaseOrder, received, supplier, receipt.notes)) {
+      await this.createStockMovement(movement);
+    }
+    items.forEach((item) => this.purchaseOrderItems.set(item.id, item));
+    return this.savePurchaseOrder(
+      { ...purchaseOrder, items },
+      { status, closedAt: status === "closed" ? new Date() : null }
+    );
+  }
+
+  async closePurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = await this.getPurchaseOrder(id);
+    if (!purchaseOrder) return undefined;
+    assertPurchaseOrderTransition(purchaseOrder, "closed");
+
+    return this.savePurchaseOrder(purchaseOrder, { status: "closed", closedAt: new Date() });
+  }
+
+  private withPurchaseOrderItems(purchaseOrder: PurchaseOrder): PurchaseOrderWithItems {
+    const items = Array.from(this.purchaseOrderItems.values()).filter(
+      (item) => item.purchaseOrderId === purchaseOrder.id
+    );
+    return { ...purchaseOrder, items };
+  }
+
+  private insertPurchaseOrderItems(
+    purchaseOrderId: string,
+    lines: Omit<PurchaseOrderItem, "id" | "purchaseOrderId">[]
+  ): void {
+    for (const line of lines) {
+      const item: PurchaseOrderItem = { ...line, id: randomUUID(), purchaseOrderId };
+      this.purchaseOrderItems.set(item.id, item);
+    }
+  }
+
+  private deletePurchaseOrderItems(purchaseOrderId: string): void {
+    Array.from(this.purchaseOrderItems.values())
+      .filter((item) => item.purchaseOrderId === purchaseOrderId)
+      .forEach((item) => this.purchaseOrderItems.delete(item.id));
+  }
+
+  private savePurchaseOrder(
+    { items, ...purchaseOrder }: PurchaseOrderWithItems,
+    changes: Partial<PurchaseOrder>
+  ): PurchaseOrderWithItems {
+    const updated: PurchaseOrder = { ...purchaseOrder, ...changes };
+    this.purchaseOrders.set(updated.id, updated);
+    return { ...updated, items };
+  }
+
+  // Returns
+  async getReturns(): Promise<ReturnWithItems[]> {
+    const allReturns = Array.from(this.returns.values());
+    const returnsWithItems = await Promise.all(
+      allReturns.map(async (ret) => {
+        const items = Array.from(this.returnItems.values()).filter(
+          (item) => item.returnId === ret.id
+        );
+        return { ...ret, items };
+      })
+    );
+    return returnsWithItems;
+  }
+
+  async listReturns(query: ReturnListQuery): Promise<Page<ReturnWithItems>> {
+    const rows = Array.from(this.returns.values()).filter(
+      (ret) =>
+        matchesSearch(query.search, ret.returnNumber, ret.orderNumber, ret.customerName, ret.customerEmail) &&
+        (!query.status || ret.status === query.status) &&
+        inDateRange(ret.createdAt, query)
+    );
+    const page = memoryPage(rows, returnSorts[query.sort], query);
+    const items = page.items.map((ret) => ({
+      ...ret,
+      items: Array.from(this.returnItems.values()).filter((item) => item.returnId === ret.id),
+    }));
+    return { ...page, items };
+  }
+
+  async getReturn(id: string): Promise<ReturnWithItems | null> {
+    const ret = this.returns.get(id);
+    if (!ret) return null;
+
+    const items = Array.from(this.returnItems.values()).filter(
+      (item) => item.returnId === id
+    );
+
+    return { ...ret, items };
+  }
+
+  async getOrderReturns(orderId: string): Promise<ReturnWithItems[]> {
+    return (await this.getReturns()).filter((ret) => ret.orderId === orderId).sort(byNewest);
+  }
+
+  async getReturnableQuantities(orderId: string): Promise<ReturnableQuantity[] | undefined> {
+    if (!this.orders.has(orderId)) return undefined;
+    return this.returnableQuantities(orderId);
+  }
+
+  private async returnableQuantities(orderId: string): Promise<ReturnableQuantity[]> {
+    const returnIds = new Set(
+      Array.from(this.returns.values())
+        .filter((ret) => ret.orderId === orderId && ret.status !== "rejected")
+        .map((ret) => ret.id)
+    );
+    const priorItems = Array.from(this.returnItems.values()).filter((item) => returnIds.has(item.returnId));
+    return returnableQuantities(await this.getOrderItems(orderId), priorItems);
+  }
+
+  async createReturn(data: ReturnDetails, lines: ReturnLine[]): Promise<ReturnWithItems> {
+    const returnId = randomUUID();
+    const returnNumber = `RET-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+
+    const order = this.orders.get(data.orderId);
+    assertReturnable(order);
+    const returnable = await this.returnableQuantities(data.orderId);
+    assertReturnQuantities(returnable, lines);
+
+    const exchangeProducts = lines.flatMap((line) => {
+      const product = line.exchangeProductId ? this.products.get(line.exchangeProductId) : undefined;
+      return product ? [product] : [];
+    });
+    const { items, exchangeItems, amounts, settlement } = priceReturn(
+      order!,
+      await this.getOrderItems(data.orderId),
+      returnable,
+      data,
+      lines,
+      exchangeProducts,
+      await this.getTaxClasses()
+    );
+    assertReturnAmountsMatch(data, amounts);
+
+    // Exchange products are reserved straight away by their replacement
+    // order, which fails the return if any of them is out of stock
+    const replacement = replacementOrderFor(returnNumber, order!, exchangeItems, amounts);
+    const replacementOrder = replacement
+      ? await this.insertOrder(replacement.order, replacement.items)
+      : null;
+
+    // Every return starts pending; returned stock and credit wait for approval
+    const newReturn: Return = {
+      id: returnId,
+      returnNumber,
+      ...newReturnColumns(data, order!, amounts),
+      ...settlement,
+      status: "pending",
+      creditCode: null,
+      replacementOrderId: replacementOrder?.id ?? null,
+      paidAt: null,
+      rejectionReason: null,
+      approvedAt: null,
+      rejectedAt: null,
+      completedAt: null,
+      createdAt: new Date(),
+    };
+
+    this.returns.set(returnId, newReturn);
+
+    const createdItems: ReturnItem[] = items.map(item => {
+      const itemId = randomUUID();
+      const returnItem: ReturnItem = {
+        id: itemId,
+        returnId,
+        ...item,
+      };
+      this.returnItems.set(itemId, returnItem);
+      return returnItem;
+    });
+
+    return { ...newReturn, items: createdItems };
+  }
+
+  async updateReturn(id: string, data: UpdateReturn): Promise<Return | null> {
+    const existing = this.returns.get(id);
+    if (!existing) return null;
+
+    assertStatusUnchanged(existing, data);
+
+    const updated: Return = {
+      ...existing,
+      ...data,
+    };
+    this.returns.set(id, updated);
+    return updated;
+  }
+
+  async approveReturn(id: string): Promise<ReturnWithItems | null> {
+    const ret = await this.getReturn(id);
+    if (!ret) return null;
+
+    assertReturnTransition(ret.status, "approved");
+
+    // Restock returned items (the stock movement updates the product quantity)
+    for (const item of ret.items) {
+      await this.createStockMovement({
+        productId: item.productId,
+        productName: item.productName,
+        sku: item.sku,
+        type: 'in',
+        quantity: item.quantity,
+        reason: 'return',
+        notes: `Return ${ret.returnNumber}`,
+        sourceType: 'return',
+        sourceId: ret.id,
+      });
+    }
+
+    const credit = storeCreditFor(ret);
+    const discountCode = credit ? await this.createDiscountCode(credit) : null;
+
+    return this.saveReturn(ret, {
+      status: "approved",
+      creditCode: discountCode?.code ?? null,
+      approvedAt: new Date(),
+    });
+  }
+
+  async rejectReturn(id: string, reason?: string, rejectedBy?: string | null): Promise<ReturnWithItems | null> {
+    const ret = await this.getReturn(id);
+    if (!ret) return null;
+
+    assertReturnTransition(ret.status, "rejected");
+
+    const replacement = ret.replacementOrderId ? this.orders.get(ret.replacementOrderId) : undefined;
+    if (cancelsReplacement(replacement)) {
+      await this.updateOrderStatus(
+        replacement.id,
+        { status: "cancelled", reason: `Return ${ret.returnNumber} rejected` },
+        rejectedBy
+      );
+    }
+
+    return this.saveReturn(ret, {
+      status: "rejected",
+      rejectionReason: reason || null,
+      rejectedAt: new Date(),
+    });
+  }
+
+  async completeReturn(id: string): Promise<ReturnWithItems | null> {
+    const ret = await this.getReturn(id);
+    if (!ret) return null;
+
+    assertReturnTransition(ret.status, "completed");
+    assertPaidInFull(ret);
+
+    return this.saveReturn(ret, {
+      status: "completed",
+      completedAt: new Date(),
+    });
+  }
+
+  async markReturnPaid(id: string, paymentMethod: ReturnPaymentMethod): Promise<ReturnWithItems | null> {
+    const ret = await this.getReturn(id);
+    if (!ret) return null;
+
+    assertPaymentDue(ret);
+
+    return this.saveReturn(ret, {
+      paymentStatus: "paid",
+      paymentMethod,
+      paidAt: new Date(),
+    });
+  }
+
+  private saveReturn({ items, ...ret }: ReturnWithItems, changes: Partial<Return>): ReturnWithItems {
+    const updated: Return = { ...ret, ...changes };
+    this.returns.set(ret.id, updated);
+    return { ...updated, items };
+  }
+
+  // Discount codes
+  async getDiscountCodes(customerEmail?: string): Promise<DiscountCodeWithBalance[]> {
+    const codes = Array.from(this.discountCodes.values());
+    if (customerEmail) {
+      return codes.filter(code => code.customerEmail === customerEmail).map(code => this.withBalance(code));
+    }
+    return codes.map(code => this.withBalance(code));
+  }
+
+  async getDiscountCode(code: string): Promise<DiscountCodeWithBalance | null> {
+    const discountCode = this.findDiscountCode(code);
+    return discountCode ? this.withBalance(discountCode) : null;
+  }
+
+  async getDiscountCodeById(id: string): Promise<DiscountCodeWithBalance | null> {
+    const discountCode = this.discountCodes.get(id);
+    return discountCode ? this.withBalance(discountCode) : null;
+  }
+
+  async createDiscountCode(data: InsertDiscountCode): Promise<DiscountCodeWithBalance> {
+    const id = randomUUID();
+    const discountCode: DiscountCode = {
+      id,
+      ...data,
+      customerId: data.customerId ?? null,
+      expiresAt: data.expiresAt ?? null,
+      isUsed: false,
+      usedAt: null,
+      voidedAt: null,
+      expiredAt: null,
+      createdAt: new Date(),
+    };
+    this.discountCodes.set(id, discountCode);
+    return this.applyCreditChange(discountCode, {
+      code: discountCode.code,
+      type: "issue",
+      amount: fromCents(toCents(data.amount)),
+    });
+  }
+
+  async adjustDiscountCode(code: string, amount: string, note: string): Promise<DiscountCodeWithBalance | null> {
+    const discountCode = this.findDiscountCode(code);
+    if (!discountCode) return null;
+
+    assertAdjustable(this.withBalance(discountCode), amount);
+
+    return this.applyCreditChange(discountCode, {
+      code,
+      type: "adjust",
+      amount: fromCents(toCents(amount)),
+      note,
+    });
+  }
+
+  async voidDiscountCode(id: string): Promise<DiscountCodeWithBalance | null> {
+    const discountCode = this.discountCodes.get(id);
+    if (!discountCode) return null;
+
+    assertCreditActive(discountCode);
+
+    // The remaining balance is written off so the ledger still adds up
+    const voided: DiscountCode = { ...discountCode, voidedAt: new Date() };
+    this.discountCodes.set(id, voided);
+    return this.applyCreditChange(voided, {
+      code: voided.code,
+      type: "adjust",
+      amount: fromCents(-this.balanceOf(voided.code)),
+      note: "Voided",
+    });
+  }
+
+  async expireDiscountCodes(now: Date = new Date()): Promise<DiscountCodeWithBalance[]> {
+    const due = Array.from(this.discountCodes.values()).filter(
+      (code) => !code.voidedAt && !code.expiredAt && isCreditExpired(code.expiresAt, now)
+    );
+
+    return due.map((discountCode) => {
+      const expired: DiscountCode = { ...discountCode, expiredAt: now };
+      this.discountCodes.set(expired.id, expired);
+
+      const balance = this.balanceOf(expired.code);
+      if (balance <= 0) return this.withBalance(expired);
+      return this.applyCreditChange(expired, {
+        code: expired.code,
+        type: "expire",
+        amount: fromCents(-balance),
+        note: "Expired",
+      });
+    });
+  }
+
+  async getCreditTransactions(code: string): Promise<CreditTransaction[]> {
+    return Array.from(this.creditTransactions.values())
+      .filter((transaction) => transaction.code === code)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  private findDiscountCode(code: string): DiscountCode | undefined {
+    return Array.from(this.discountCodes.values()).find(dc => dc.code === code);
+  }
+
+  private balanceOf(code: string): number {
+    return Array.from(this.creditTransactions.values())
+      .filter((transaction) => transaction.code === code)
+      .reduce((sum, transaction) => sum + toCents(transaction.amount), 0);
+  }
+
+  private withBalance(discountCode: DiscountCode): DiscountCodeWithBalance {
+    return { ...discountCode, balance: fromCents(this.balanceOf(discountCode.code)) };
+  }
+
+  private applyCreditChange(discountCode: DiscountCode, data: InsertCreditTransaction): DiscountCodeWithBalance {
+    const id = randomUUID();
+    this.creditTransactions.set(id, {
+      id,
+      orderId: null,
+      note: null,
+      ...data,
+      createdAt: new Date(),
+    });
+
+    const updated: DiscountCode = {
+      ...discountCode,
+      ...usageState(discountCode, this.balanceOf(discountCode.code)),
+    };
+    this.discountCodes.set(updated.id, updated);
+    return this.withBalance(updated);
+  }
+}
+
+// The id column of each kind of record the audit log covers
+const auditedIds: Record<AuditEntityType, AnyPgColumn> = {
+  product: products.id,
+  product_style: productStyles.id,
+  order: orders.id,
+  return: returns.id,
+  stock_movement: stockMovements.id,
+  stock_transfer: stockTransfers.id,
+  stocktake: stocktakes.id,
+  purchase_order: purchaseOrders.id,
+  discount_code: discountCodes.id,
+  customer: customers.id,
+  supplier: suppliers.id,
+  location: locations.id,
+  tax_class: taxClasses.id,
+  user: users.id,
+};
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Transactions the methods open themselves become savepoints within this one
+  async transaction<T>(work: (store: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => work(new DatabaseStorage(tx)));
+  }
+
+  async lockEntity(entityType: AuditEntityType, id: string): Promise<void> {
+    const column = auditedIds[entityType];
+    await this.db.execute(sql`select 1 from ${column.table} where ${column} = ${id} for update`);
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    const rows = await this.db.select().from(users).orderBy(asc(users.displayName));
+    return rows.map(publicUser);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user && publicUser(user);
+  }
+
+  async getUserCredentials(username: string): Promise<UserRecord | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`cast(count(*) as int)` }).from(users);
+    return count;
+  }
+
+  async createUser(data: NewUser): Promise<User> {
+    assertUsernameFree(await this.getUserCredentials(data.username), data.username);
+
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...data, id: randomUUID() })
+      .returning();
+    return publicUser(user);
+  }
+
+  async createOwner(owner: Omit<NewUser, "role">): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      // There is no row to lock while the table is empty, so the table itself
+      // is locked against concurrent setups until this one commits
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [{ count }] = await tx.select({ count: sql<number>`cast(count(*) as int)` }).from(users);
+      if (count > 0) return undefined;
+
+      const [user] = await tx
+        .insert(users)
+        .values({ ...owner, role: "owner", id: randomUUID() })
+        .returning();
+      return publicUser(user);
+    });
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Owners are locked so two concurrent demotions can't both pass the check
+      const owners = await tx.select().from(users).where(eq(users.role, "owner")).for("update");
+      const [existing] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!existing) return undefined;
+
+      assertOwnerRemains(owners, existing, changes);
+      const [updated] = await tx.update(users).set(changes).where(eq(users.id, id)).returning();
+      return publicUser(updated);
+    });
+  }
+
+  // Audit log
+  async createAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]> {
+    if (events.length === 0) return [];
+    return this.db
+      .insert(auditEvents)
+      .values(events.map((event) => ({ ...event, id: randomUUID() })))
+      .returning();
+  }
+
+  async listAuditEvents(query: AuditEventListQuery): Promise<Page<AuditEvent>> {
+    const filters = and(
+      searchCondition(query.search, auditEvents.actorName, auditEvents.entityLabel, auditEvents.entityId),
+      query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditEvents.entityId, query.entityId) : undefined,
+      query.actorId ? eq(auditEvents.actorId, query.actorId) : undefined,
+      query.action ? eq(auditEvents.action, query.action) : undefined,
+      ...dateRangeConditions(auditEvents.createdAt, query)
+    );
+
+    const rows = await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(filters, keysetCondition(auditEventSort, auditEvents.id, query)))
+      .orderBy(...keysetOrder(auditEventSort, auditEvents.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(auditEvents)
+      .where(filters);
+    return pageOf(rows, auditEventSort, query.limit, total);
+  }
+
+  async getAuditActors(): Promise<AuditActor[]> {
+    // Each actor with the name they last acted under
+    const rows = await this.db
+      .selectDistinctOn([auditEvents.actorId], { actorId: auditEvents.actorId, actorName: auditEvents.actorName })
+      .from(auditEvents)
+      .orderBy(auditEvents.actorId, desc(auditEvents.createdAt));
+    return rows.sort((a, b) => a.actorName.localeCompare(b.actorName));
+  }
+
+  private async withItems(orderRows: Order[]): Promise<OrderWithItems[]> {
+    if (orderRows.length === 0) return [];
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, orderRows.map((order) => order.id)));
+
+    return orderRows.map((order) => ({
+      ...order,
+      items: items.filter((item) => item.orderId === order.id),
+    }));
+  }
+
+  private async withReturnItems(returnRows: Return[]): Promise<ReturnWithItems[]> {
+    if (returnRows.length === 0) return [];
+
+    const items = await this.db
+      .select()
+      .from(returnItems)
+      .where(inArray(returnItems.returnId, returnRows.map((ret) => ret.id)));
+
+    return returnRows.map((ret) => ({
+      ...ret,
+      items: items.filter((item) => item.returnId === ret.id),
+    }));
+  }
+
+  // Customers
+  async getCustomers(search?: string): Promise<CustomerWithStats[]> {
+    const term = search?.trim();
+    const query = this.db.select().from(customers);
+    const rows = term
+      ? await query
+          .where(or(
+            ilike(customers.name, `%${term}%`),
+            ilike(customers.email, `%${term}%`),
+            ilike(customers.phone, `%${term}%`)
+          ))
+          .orderBy(asc(customers.name))
+      : await query.orderBy(asc(customers.name));
+    const histories = await this.customerHistories(rows);
+    return histories.map((history) => history.customer);
+  }
+
+  async getCustomer(id: string): Promise<CustomerWithStats | undefined> {
+    const history = await this.getCustomerHistory(id);
+    return history?.customer;
+  }
+
+  async getCustomerHistory(id: string): Promise<CustomerHistory | undefined> {
+    const rows = await this.db.select().from(customers).where(eq(customers.id, id));
+    const [history] = await this.customerHistories(rows);
+    return history;
+  }
+
+  async createCustomer(data: InsertCustomer): Promise<Customer> {
+    return this.db.transaction(async (tx) => {
+      const fields = customerFields(data);
+      assertNotDuplicate(await this.findMatchingCustomer(tx, fields), fields);
+
+      const [customer] = await tx
+        .insert(customers)
+        .values({ ...fields, id: randomUUID() })
+        .returning();
+      return customer;
+    });
+  }
+
+  async updateCustomer(id: string, data: InsertCustomer): Promise<Customer | undefined> {
+    return this.db.transaction(async (tx) => {
+      const fields = customerFields(data);
+      assertNotDuplicate(await this.findMatchingCustomer(tx, fields, id), fields);
+
+      const [customer] = await tx
+        .update(customers)
+        .set(fields)
+        .where(eq(customers.id, id))
+        .returning();
+      return customer;
+    });
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [customer] = await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      if (!customer) return false;
+
+      const count = sql<number>`cast(count(*) as int)`;
+      const [{ count: orderCount }] = await tx.select({ count }).from(orders).where(eq(orders.customerId, id));
+      const [{ count: returnCount }] = await tx.select({ count }).from(returns).where(eq(returns.customerId, id));
+      const [{ count: creditCount }] = await tx
+        .select({ count })
+        .from(discountCodes)
+        .where(eq(discountCodes.customerId, id));
+      assertCustomerRemovable({ orders: orderCount, returns: returnCount, credits: creditCount });
+
+      await tx.delete(customers).where(eq(customers.id, id));
+      return true;
+    });
+  }
+
+  private async customerHistories(customerRows: Customer[]): Promise<CustomerHistory[]> {
+    if (customerRows.length === 0) return [];
+
+    const ids = customerRows.map((customer) => customer.id);
+    const orderRows = await this.withItems(
+      await this.db.select().from(orders).where(inArray(orders.customerId, ids)).orderBy(desc(orders.createdAt))
+    );
+    const returnRows = await this.withReturnItems(
+      await this.db.select().from(returns).where(inArray(returns.customerId, ids)).orderBy(desc(returns.createdAt))
+    );
+    const creditRows = await this.withBalances(
+      this.db,
+      await this.db
+        .select()
+        .from(discountCodes)
+        .where(inArray(discountCodes.customerId, ids))
+        .orderBy(desc(discountCodes.createdAt))
+    );
+
+    return customerRows.map((customer) => {
+      const orders = orderRows.filter((order) => order.customerId === customer.id);
+      const returns = returnRows.filter((ret) => ret.customerId === customer.id);
+      const credits = creditRows.filter((code) => code.customerId === customer.id);
+      return { customer: customerStats(customer, orders, returns, credits), orders, returns, credits };
+    });
+  }
+
+  private async findMatchingCustomer(
+    tx: Database,
+    data: CustomerContact,
+    excludeId?: string
+  ): Promise<Customer | undefined> {
+    const email = normalizeEmail(data.email);
+    const digits = phoneDigits(data.phone);
+    const conditions = [
+      ...(email ? [eq(customers.email, email)] : []),
+      ...(digits ? [sql`regexp_replace(${customers.phone}, '\\D', '', 'g') = ${digits}`] : []),
+    ];
+    if (conditions.length === 0) return undefined;
+
+    const candidates = await tx
+      .select()
+      .from(customers)
+      .where(and(or(...conditions), excludeId ? ne(customers.id, excludeId) : undefined));
+    return matchingCustomer(candidates, data);
+  }
+
+  // The existing customer an order belongs to: the one it names, or else
+  // the one its email or phone matches
+  private async findOrderCustomer(tx: Database, order: OrderDetails): Promise<Customer | undefined> {
+    if (order.customerId) {
+      const [customer] = await tx.select().from(customers).where(eq(customers.id, order.customerId));
+      if (!customer) {
+        throw new StorageError("Customer not found", 404);
+      }
+      return customer;
+    }
+    return this.findMatchingCustomer(tx, orderCustomerFields(order));
+  }
+
+  private async insertOrderCustomer(tx: Database, order: OrderDetails): Promise<Customer | undefined> {
+    const fields = orderCustomerFields(order);
+    if (!hasContact(fields)) return undefined;
+
+    const [customer] = await tx
+      .insert(customers)
+      .values({ ...fields, id: randomUUID() })
+      .onConflictDoNothing({ target: customers.email })
+      .returning();
+    // Lost a race with another order for the same new customer
+    return customer ?? (await this.findMatchingCustomer(tx, fields))!;
+  }
+
   // Products
-  getProducts(): Promise<Product[]>;
-  getProduct(id: string): Promise<Product | undefined>;
-  getProductBySKU(sku: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProduct(id: string, product: InsertProduct): Promise<Product | undefined>;
-  deleteProduct(id: string): Promise<boolean>;
+  async getProducts(): Promise<Product[]> {
+    return this.db.select().from(products);
+  }
+
+  async listProducts(query: ProductListQuery): Promise<Page<Product>> {
+    const sortKey = productSorts[query.sort];
+    const filters = and(
+      searchCondition(query.search, products.productName, products.sku, products.brand),
+      query.category ? eq(products.category, query.category) : undefined,
+      query.brand ? eq(products.brand, query.brand) : undefined,
+      query.standalone === undefined
+        ? undefined
+        : query.standalone
+          ? isNull(products.styleId)
+          : isNotNull(products.styleId),
+      query.locationId ? await this.inStockAt(query.locationId) : undefined
+    );
+
+    const rows = await this.db
+      .select()
+      .from(products)
+      .where(and(filters, keysetCondition(sortKey, products.id, query)))
+      .orderBy(...keysetOrder(sortKey, products.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` }).from(products).where(filters);
+    return pageOf(rows, sortKey, query.limit, total);
+  }
+
+  async getProductFacets(): Promise<ProductFacets> {
+    const categoryRows = await this.db.selectDistinct({ category: products.category }).from(products);
+    const brandRows = await this.db.selectDistinct({ brand: products.brand }).from(products);
+    return {
+      categories: sortedFacets(categoryRows.map((row) => row.category)),
+      brands: sortedFacets(brandRows.map((row) => row.brand)),
+    };
+  }
+
+  // Products with stock on hand at a location
+  private async inStockAt(locationId: string): Promise<SQL> {
+    const location = await this.resolveLocation(this.db, locationId);
+    return sql`${availableAt(location)} > 0`;
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async getProductBySKU(sku: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.sku, sku));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx
+        .insert(products)
+        .values({ ...insertProduct, id: randomUUID(), stockQuantity: 0 })
+        .returning();
+
+      const opening = openingStock(product, insertProduct.stockQuantity);
+      if (!opening) return product;
+      await this.applyStockMovement(tx, opening);
+      return { ...product, stockQuantity: insertProduct.stockQuantity };
+    });
+  }
+
+  // A changed stock quantity is recorded as a correction rather than
+  // overwritten, so the ledger still explains the new figure
+  async updateProduct(
+    id: string,
+    insertProduct: InsertProduct
+  ): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const correction = stockCorrection(existing, insertProduct.stockQuantity, "Product edited");
+      if (correction) await this.applyStockMovement(tx, correction);
+
+      const { stockQuantity: _, ...fields } = insertProduct;
+      const [product] = await tx
+        .update(products)
+        .set(fields)
+        .where(eq(products.id, id))
+        .returning();
+      return product;
+    });
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!product) return false;
+      assertProductRemovable(product, await this.productCommitments(tx, id));
+
+      await tx.delete(stockLevels).where(eq(stockLevels.productId, id));
+      await tx.delete(products).where(eq(products.id, id));
+      return true;
+    });
+  }
+
+  private async productCommitments(tx: Database, productId: string): Promise<ProductCommitments> {
+    const count = sql<number>`cast(count(*) as int)`;
+    const [{ count: transfers }] = await tx
+      .select({ count })
+      .from(stockTransferItems)
+      .innerJoin(stockTransfers, eq(stockTransfers.id, stockTransferItems.transferId))
+      .where(and(eq(stockTransferItems.productId, productId), eq(stockTransfers.status, "in_transit")));
+    const [{ count: pendingReturns }] = await tx
+      .select({ count })
+      .from(returnItems)
+      .innerJoin(returns, eq(returns.id, returnItems.returnId))
+      .where(and(eq(returnItems.productId, productId), eq(returns.status, "pending")));
+    const [{ count: openStocktakes }] = await tx
+      .select({ count })
+      .from(stocktakeItems)
+      .innerJoin(stocktakes, eq(stocktakes.id, stocktakeItems.stocktakeId))
+      .where(and(eq(stocktakeItems.productId, productId), eq(stocktakes.status, "open")));
+    const [{ count: purchaseOrderCount }] = await tx
+      .select({ count })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderItems.purchaseOrderId))
+      .where(and(eq(purchaseOrderItems.productId, productId), ne(purchaseOrders.status, "closed")));
+    return {
+      transfers,
+      returns: pendingReturns,
+      stocktakes: openStocktakes,
+      purchaseOrders: purchaseOrderCount,
+    };
+  }
+
+  // Product styles
+  async getProductStyles(): Promise<ProductStyleWithVariants[]> {
+    const rows = await this.db.select().from(productStyles).orderBy(asc(productStyles.styleName));
+    return this.withVariants(this.db, rows);
+  }
+
+  async getProductStyle(id: string): Promise<ProductStyleWithVariants | undefined> {
+    const rows = await this.db.select().from(productStyles).where(eq(productStyles.id, id));
+    const [style] = await this.withVariants(this.db, rows);
+    return style;
+  }
+
+  async createProductStyle(data: InsertProductStyle, matrix: VariantMatrix): Promise<ProductStyleWithVariants> {
+    return this.db.transaction(async (tx) => {
+      const row = styleRow(data);
+      const [existing] = await tx.select().from(productStyles).where(eq(productStyles.styleCode, row.styleCode));
+      if (existing) {
+        throw new StorageError(`A style with code ${row.styleCode} already exists`, 409);
+      }
+
+      const [style] = await tx
+        .insert(productStyles)
+        .values({ ...row, id: randomUUID() })
+        .returning();
+      await this.insertVariants(tx, matrixVariants(style, matrix, []));
+
+      const [withVariants] = await this.withVariants(tx, [style]);
+      return withVariants;
+    });
+  }
+
+  // The style code is fixed once variants carry it in their SKUs
+  async updateProductStyle(id: string, data: InsertProductStyle): Promise<ProductStyleWithVariants | undefined> {
+    return this.db.transaction(async (tx) => {
+      const { styleCode: _styleCode, ...row } = styleRow(data);
+      const [style] = await tx
+        .update(productStyles)
+        .set(row)
+        .where(eq(productStyles.id, id))
+        .returning();
+      if (!style) return undefined;
+
+      await tx.update(products).set(styleFields(style)).where(eq(products.styleId, id));
+
+      const [withVariants] = await this.withVariants(tx, [style]);
+      return withVariants;
+    });
+  }
+
+  async addStyleVariants(id: string, matrix: VariantMatrix): Promise<ProductStyleWithVariants | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [style] = await tx.select().from(productStyles).where(eq(productStyles.id, id)).for("update");
+      if (!style) return undefined;
+
+      const existing = await tx.select().from(products).where(eq(products.styleId, id));
+      await this.insertVariants(tx, matrixVariants(style, matrix, existing));
+
+      const [withVariants] = await this.withVariants(tx, [style]);
+      return withVariants;
+    });
+  }
+
+  async updateStyleVariants(id: string, updates: VariantUpdate[]): Promise<ProductStyleWithVariants | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [style] = await tx.select().from(productStyles).where(eq(productStyles.id, id)).for("update");
+      if (!style) return undefined;
+
+      const variants = await tx.select().from(products).where(eq(products.styleId, id)).for("update");
+      assertVariantsOfStyle(variants, updates);
+
+      for (const update of updates) {
+        const variant = variants.find((candidate) => candidate.id === update.id)!;
+        if (update.price !== undefined) {
+          await tx.update(products).set({ price: update.price }).where(eq(products.id, variant.id));
+        }
+        if (update.stockQuantity !== undefined && update.stockQuantity !== variant.stockQuantity) {
+          await this.applyStockMovement(
+            tx,
+            stockCorrection(variant, update.stockQuantity, `Variant grid for style ${style.styleCode}`)!
+          );
+        }
+      }
+
+      const [withVariants] = await this.withVariants(tx, [style]);
+      return withVariants;
+    });
+  }
+
+  async deleteProductStyle(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const variants = await tx.select().from(products).where(eq(products.styleId, id)).for("update");
+      for (const variant of variants) {
+        assertProductRemovable(variant, await this.productCommitments(tx, variant.id));
+      }
+
+      const variantIds = tx.select({ id: products.id }).from(products).where(eq(products.styleId, id));
+      await tx.delete(stockLevels).where(inArray(stockLevels.productId, variantIds));
+      await tx.delete(products).where(eq(products.styleId, id));
+      const deleted = await tx
+        .delete(productStyles)
+        .where(eq(productStyles.id, id))
+        .returning({ id: productStyles.id });
+      return deleted.length > 0;
+    });
+  }
+
+  private async withVariants(tx: Database, styleRows: ProductStyle[]): Promise<ProductStyleWithVariants[]> {
+    if (styleRows.length === 0) return [];
+
+    const variants = await tx
+      .select()
+      .from(products)
+      .where(inArray(products.styleId, styleRows.map((style) => style.id)))
+      .orderBy(asc(products.createdAt));
+
+    return styleRows.map((style) => ({
+      ...style,
+      variants: variants.filter((variant) => variant.styleId === style.id),
+    }));
+  }
+
+  private async insertVariants(tx: Database, variants: Omit<Product, "id" | "createdAt">[]): Promise<void> {
+    const skus = variants.map((variant) => variant.sku);
+    const taken = await tx.select({ sku: products.sku }).from(products).where(inArray(products.sku, skus));
+    assertSkusAvailable(skus, taken.map((row) => row.sku));
+
+    const inserted = await tx
+      .insert(products)
+      .values(variants.map((variant) => ({ ...variant, id: randomUUID(), stockQuantity: 0 })))
+      .returning();
+    for (const [index, product] of Array.from(inserted.entries())) {
+      const opening = openingStock(product, variants[index].stockQuantity);
+      if (opening) await this.applyStockMovement(tx, opening);
+    }
+  }
+
+  // Tax classes
+  async getTaxClasses(): Promise<TaxClassWithRates[]> {
+    return this.taxClassesWithRates(this.db);
+  }
+
+  async getTaxClass(id: string): Promise<TaxClassWithRates | undefined> {
+    const [taxClass] = await this.db.select().from(taxClasses).where(eq(taxClasses.id, id));
+    if (!taxClass) return undefined;
+    const rates = await this.db.select().from(taxRates).where(eq(taxRates.taxClassId, id));
+    return withRates(taxClass, rates);
+  }
+
+  async createTaxClass(data: InsertTaxClass): Promise<TaxClassWithRates> {
+    return this.db.transaction(async (tx) => {
+      assertTaxClassFree(await this.taxClassesWithRates(tx), data);
+
+      const [taxClass] = await tx
+        .insert(taxClasses)
+        .values({ ...taxClassFields(data), id: randomUUID() })
+        .returning();
+      const rates = data.rates.length
+        ? await tx.insert(taxRates).values(taxClassRates(taxClass.id, data)).returning()
+        : [];
+      return withRates(taxClass, rates);
+    });
+  }
+
+  async updateTaxClass(id: string, data: InsertTaxClass): Promise<TaxClassWithRates | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(taxClasses).where(eq(taxClasses.id, id)).for("update");
+      if (!existing) return undefined;
+
+      assertTaxClassFree(await this.taxClassesWithRates(tx), data, id);
+
+      const [taxClass] = await tx
+        .update(taxClasses)
+        .set(taxClassFields(data))
+        .where(eq(taxClasses.id, id))
+        .returning();
+      await tx.delete(taxRates).where(eq(taxRates.taxClassId, id));
+      const rates = data.rates.length
+        ? await tx.insert(taxRates).values(taxClassRates(id, data)).returning()
+        : [];
+      return withRates(taxClass, rates);
+    });
+  }
+
+  async deleteTaxClass(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(taxRates).where(eq(taxRates.taxClassId, id));
+      const deleted = await tx
+        .delete(taxClasses)
+        .where(eq(taxClasses.id, id))
+        .returning({ id: taxClasses.id });
+      return deleted.length > 0;
+    });
+  }
+
+  private async taxClassesWithRates(tx: Database): Promise<TaxClassWithRates[]> {
+    const classRows = await tx.select().from(taxClasses).orderBy(asc(taxClasses.name));
+    const rates = await tx.select().from(taxRates);
+    return classRows.map((taxClass) => withRates(taxClass, rates));
+  }
+
+  // Orders
+  async getOrders(): Promise<OrderWithItems[]> {
+    const rows = await this.db.select().from(orders).orderBy(desc(orders.createdAt));
+    return this.withItems(rows);
+  }
+
+  async listOrders(query: OrderListQuery): Promise<Page<OrderWithItems>> {
+    const sortKey = orderSorts[query.sort];
+    const filters = and(
+      searchCondition(query.search, orders.orderNumber, orders.customerName, orders.customerEmail),
+      query.status ? eq(orders.status, query.status) : undefined,
+      ...dateRangeConditions(orders.createdAt, query)
+    );
+
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(and(filters, keysetCondition(sortKey, orders.id, query)))
+      .orderBy(...keysetOrder(sortKey, orders.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` }).from(orders).where(filters);
+    const page = pageOf(rows, sortKey, query.limit, total);
+    return { ...page, items: await this.withItems(page.items) };
+  }
+
+  async getOrder(id: string): Promise<OrderWithItems | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    if (!order) return undefined;
+
+    const [withItems] = await this.withItems([order]);
+    return withItems;
+  }
+
+  async getOrdersByCustomerEmail(email: string): Promise<OrderWithItems[]> {
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.customerEmail, email))
+      .orderBy(desc(orders.createdAt));
+    return this.withItems(rows);
+  }
+
+  async createOrder(
+    details: OrderDetails,
+    lines: OrderLine[],
+    options: NewOrderOptions = {}
+  ): Promise<OrderWithItems> {
+    if (details.status === "cancelled") {
+      throw new StorageError("New orders cannot be created as cancelled");
+    }
+
+    return this.db.transaction(async (tx) => {
+      const productIds = lines.map((line) => line.productId);
+      const lineProducts = productIds.length
+        ? await tx.select().from(products).where(inArray(products.id, productIds))
+        : [];
+      const priced = priceOrder(details, lines, options, lineProducts, await this.taxClassesWithRates(tx));
+      return this.insertOrder(tx, priced.order, priced.items, options.credits);
+    });
+  }
+
+  private async insertOrder(
+    tx: Database,
+    insertOrder: PricedOrder,
+    insertItems: InsertOrderItem[],
+    credits: OrderCredit[] = []
+  ): Promise<OrderWithItems> {
+    const id = randomUUID();
+    const orderNumber = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+
+    // Lock the codes first so their balances can't change under the order
+    const codes = credits.length
+      ? await this.withBalances(
+          tx,
+          await tx
+            .select()
+            .from(discountCodes)
+            .where(inArray(discountCodes.code, credits.map((credit) => credit.code)))
+            .for("update")
+        )
+      : [];
+    const existingCustomer = await this.findOrderCustomer(tx, insertOrder);
+    assertCreditsApplicable(codes, credits, { ...insertOrder, customerId: existingCustomer?.id });
+
+    const customer = existingCustomer ?? (await this.insertOrderCustomer(tx, insertOrder));
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        ...insertOrder,
+        id,
+        orderNumber,
+        customerId: customer?.id ?? null,
+        ...orderCreditState({ creditApplied: "0", creditCodes: null }, credits),
+      })
+      .returning();
+
+    const items = insertItems.length
+      ? await tx
+          .insert(orderItems)
+          .values(insertItems.map((item) => ({ ...item, id: randomUUID(), orderId: id })))
+          .returning()
+      : [];
+
+    await this.deductOrderStock(tx, order, items);
+    await this.redeemOrderCredits(tx, order, codes, credits);
+    await this.recordStatusChange(tx, order, null, { status: insertOrder.status });
+
+    return { ...order, items };
+  }
 
-  // Orders
-  getOrders(): Promise<OrderWithItems[]>;
-  getOrder(id: string): Promise<OrderWithItems | undefined>;
-  getOrdersByCustomerEmail(email: string): Promise<OrderWithItems[]>;
-  createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems>;
-  updateOrder(id: string, order: InsertOrder): Promise<Order | undefined>;
-  deleteOrder(id: string): Promise<boolean>;
+  async updateOrder(
+    id: string,
+    insertOrder: OrderDetails
+  ): Promise<Order | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!existing) return undefined;
+
+      if (insertOrder.customerId) {
+        await this.findOrderCustomer(tx, insertOrder);
+      }
+      if (insertOrder.status !== existing.status) {
+        await this.transitionOrder(tx, existing, { status: insertOrder.status });
+      }
+
+      const [order] = await tx
+        .update(orders)
+        .set({ ...insertOrder, customerId: insertOrder.customerId ?? existing.customerId })
+        .where(eq(orders.id, id))
+        .returning();
+      return order;
+    });
+  }
+
+  async deleteOrder(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (order) {
+        const linkedReturns = await tx
+          .select({ orderId: returns.orderId, replacementOrderId: returns.replacementOrderId })
+          .from(returns)
+          .where(or(eq(returns.orderId, id), eq(returns.replacementOrderId, id)));
+        assertOrderRemovable(order, linkedReturns);
+      }
+      if (order && order.status !== "cancelled") {
+        await this.restoreOrderStock(tx, order, `Order ${order.orderNumber} deleted`);
+        await this.reverseOrderCredits(tx, order, `Order ${order.orderNumber} deleted`);
+      }
+
+      await tx.delete(orderItems).where(eq(orderItems.orderId, id));
+      await tx.delete(orderStatusHistory).where(eq(orderStatusHistory.orderId, id));
+      const deleted = await tx
+        .delete(orders)
+        .where(eq(orders.id, id))
+        .returning({ id: orders.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async updateOrderStatus(id: string, change: OrderStatusChange, changedBy?: string | null): Promise<Order | undefined> {
+    return this.db.transaction((tx) => this.changeOrderStatus(tx, id, { ...change, changedBy }));
+  }
+
+  private async changeOrderStatus(tx: Database, id: string, change: RecordedStatusChange): Promise<Order | undefined> {
+    const [existing] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, id))
+      .for("update");
+    if (!existing) return undefined;
+
+    await this.transitionOrder(tx, existing, change);
+
+    const [order] = await tx
+      .update(orders)
+      .set({ status: change.status })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return this.db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.createdAt);
+  }
+
+  private async transitionOrder(tx: Database, order: Order, change: RecordedStatusChange): Promise<void> {
+    assertOrderTransition(order.status, change.status);
+
+    if (change.status === "cancelled") {
+      await this.restoreOrderStock(tx, order, `Order ${order.orderNumber} cancelled`);
+      await this.reverseOrderCredits(tx, order, `Order ${order.orderNumber} cancelled`);
+    }
+
+    await this.recordStatusChange(tx, order, order.status, change);
+  }
+
+  private async recordStatusChange(
+    tx: Database,
+    order: Order,
+    fromStatus: string | null,
+    change: RecordedStatusChange
+  ): Promise<void> {
+    await tx.insert(orderStatusHistory).values({
+      id: randomUUID(),
+      orderId: order.id,
+      fromStatus,
+      toStatus: change.status,
+      changedBy: change.changedBy || null,
+      reason: change.reason || null,
+    });
+  }
+
+  // Takes stock from the default location only where enough is on hand; any
+  // shortfall throws and rolls back the surrounding transaction.
+  private async deductOrderStock(tx: Database, order: Order, items: OrderItem[]): Promise<void> {
+    const location = await this.defaultLocation(tx);
+    for (const item of items) {
+      const [product] = await tx.select().from(products).where(eq(products.id, item.productId)).for("update");
+      if (!product) {
+        throw new StorageError(`Product ${item.productId} not found`);
+      }
+      const available = await this.quantityAt(tx, product, location);
+      if (available < item.quantity) {
+        throw insufficientStockError(product, item.quantity, available, location);
+      }
+
+      await this.applyStockMovement(tx, {
+        productId: item.productId,
+        productName: item.productName,
+        sku: item.sku,
+        type: "out",
+        quantity: item.quantity,
+        reason: "sale",
+        notes: `Order ${order.orderNumber}`,
+        sourceType: "order",
+        sourceId: order.id,
+        locationId: location.id,
+      });
+    }
+  }
+
+  // Puts back whatever the order's own movements took out, so orders created
+  // before stock was reserved are never restocked twice. Products deleted
+  // since have no stock left to put back.
+  private async restoreOrderStock(tx: Database, order: Order, notes: string): Promise<void> {
+    const movements = await tx
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.sourceType, "order"), eq(stockMovements.sourceId, order.id)));
+    const productIds = Array.from(new Set(movements.map((movement) => movement.productId)));
+    const existing = new Set(
+      productIds.length > 0
+        ? (await tx.select({ id: products.id }).from(products).where(inArray(products.id, productIds))).map((row) => row.id)
+        : []
+    );
+
+    for (const { movement, quantity } of Array.from(netQuantityOut(movements).values())) {
+      if (quantity <= 0 || !existing.has(movement.productId)) continue;
+      await this.applyStockMovement(tx, {
+        productId: movement.productId,
+        productName: movement.productName,
+        sku: movement.sku,
+        type: "in",
+        quantity,
+        reason: "order_cancelled",
+        notes,
+        sourceType: "order",
+        sourceId: order.id,
+      });
+    }
+  }
+
+  private async redeemOrderCredits(
+    tx: Database,
+    order: Order,
+    codes: DiscountCodeWithBalance[],
+    credits: OrderCredit[]
+  ): Promise<void> {
+    for (const credit of credits) {
+      const discountCode = codes.find((code) => code.code === credit.code);
+      if (!discountCode) continue;
+      await this.applyCreditChange(tx, discountCode, {
+        code: credit.code,
+        orderId: order.id,
+        type: "redeem",
+        amount: fromCents(-toCents(credit.amount)),
+        note: `Order ${order.orderNumber}`,
+      });
+    }
+  }
+
+  // Gives back whatever credit the order still holds
+  private async reverseOrderCredits(tx: Database, order: Order, note: string): Promise<void> {
+    const transactions = await tx
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.orderId, order.id));
+
+    for (const [code, cents] of Array.from(netCreditRedeemed(transactions).entries())) {
+      if (cents <= 0) continue;
+      const discountCode = await this.lockDiscountCode(tx, eq(discountCodes.code, code));
+      if (!discountCode) continue;
+      await this.applyCreditChange(tx, discountCode, {
+        code,
+        orderId: order.id,
+        type: "reverse",
+        amount: fromCents(cents),
+        note,
+      });
+    }
+  }
 
   // Order Items
-  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return this.db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  }
 
   // Stock Movements
-  getStockMovements(productId?: string): Promise<StockMovement[]>;
-  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
-  getLowStockProducts(threshold?: number): Promise<Product[]>;
+  async getStockMovements(productId?: string): Promise<StockMovement[]> {
+    const query = this.db.select().from(stockMovements);
+    if (productId) {
+      return query
+        .where(eq(stockMovements.productId, productId))
+        .orderBy(desc(stockMovements.createdAt));
+    }
+    return query.orderBy(desc(stockMovements.createdAt));
+  }
 
-  // Returns
-  getReturns(): Promise<ReturnWithItems[]>;
-  getReturn(id: string): Promise<ReturnWithItems | null>;
-  createReturn(data: InsertReturn, items: InsertReturnItem[]): Promise<ReturnWithItems>;
-  updateReturn(id: string, data: Partial<InsertReturn>): Promise<Return | null>;
+  async listStockMovements(query: StockMovementListQuery): Promise<Page<StockMovement>> {
+    const sortKey = stockMovementSorts[query.sort];
+    const location = query.locationId ? await this.resolveLocation(this.db, query.locationId) : null;
+    const filters = and(
+      searchCondition(query.search, stockMovements.productName, stockMovements.sku, stockMovements.notes),
+      query.productId ? eq(stockMovements.productId, query.productId) : undefined,
+      query.type ? eq(stockMovements.type, query.type) : undefined,
+      query.reason ? eq(stockMovements.reason, query.reason) : undefined,
+      query.sourceType ? eq(stockMovements.sourceType, query.sourceType) : undefined,
+      movedAt(location),
+      ...dateRangeConditions(stockMovements.createdAt, query)
+    );
 
-  // Discount Codes
-  getDiscountCodes(customerEmail?: string): Promise<DiscountCode[]>;
-  getDiscountCode(code: string): Promise<DiscountCode | null>;
-  createDiscountCode(data: InsertDiscountCode): Promise<DiscountCode>;
-  useDiscountCode(code: string, amountUsed: string): Promise<{ updated: DiscountCode | null; wasDeleted: boolean; wasFound: boolean; error?: string }>;
-  deleteDiscountCode(id: string): Promise<boolean>;
-}
+    const rows = await this.db
+      .select()
+      .from(stockMovements)
+      .where(and(filters, keysetCondition(sortKey, stockMovements.id, query)))
+      .orderBy(...keysetOrder(sortKey, stockMovements.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(stockMovements)
+      .where(filters);
+    return pageOf(rows, sortKey, query.limit, total);
+  }
 
-export class MemStorage implements IStorage {
-  private products: Map<string, Product>;
-  private orders: Map<string, Order>;
-  private orderItems: Map<string, OrderItem>;
-  private stockMovements: Map<string, StockMovement>;
-  private returns: Map<string, Return>;
-  private returnItems: Map<string, ReturnItem>;
-  private discountCodes: Map<string, DiscountCode>;
+  async listStockFigures(query: StockFigureListQuery): Promise<Page<ProductStockFigures>> {
+    const location = query.locationId ? await this.resolveLocation(this.db, query.locationId) : null;
+    const sorts = stockFigureSorts(location);
+    const sortKey = sorts[query.sort];
+    const filters = and(
+      searchCondition(query.search, products.productName, products.sku, products.brand),
+      query.category ? eq(products.category, query.category) : undefined
+    );
 
-  constructor() {
-    this.products = new Map();
-    this.orders = new Map();
-    this.orderItems = new Map();
-    this.stockMovements = new Map();
-    this.returns = new Map();
-    this.returnItems = new Map();
-    this.discountCodes = new Map();
+    const rows = await this.db
+      .select({
+        ...getTableColumns(products),
+        available: sorts.available.expression.mapWith(Number),
+        sold: sorts.sold.expression.mapWith(Number),
+        returned: sorts.returned.expression.mapWith(Number),
+      })
+      .from(products)
+      .where(and(filters, keysetCondition(sortKey, products.id, query)))
+      .orderBy(...keysetOrder(sortKey, products.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` }).from(products).where(filters);
+    return pageOf(rows, sortKey, query.limit, total);
   }
 
-  // Products
-  async getProducts(): Promise<Product[]> {
-    return Array.from(this.products.values());
+  async getStockTotals(locationId?: string): Promise<StockFigures> {
+    const location = locationId ? await this.resolveLocation(this.db, locationId) : null;
+    const [{ available }] = await this.db
+      .select({ available: sql<number>`coalesce(sum(${availableAt(location)}), 0)::int` })
+      .from(products);
+    const [moved] = await this.db
+      .select({
+        sold: sql<number>`coalesce(sum(${soldQuantity}), 0)::int`,
+        returned: sql<number>`coalesce(sum(${returnedQuantity}), 0)::int`,
+      })
+      .from(stockMovements)
+      .where(movedAt(location));
+    return { available, ...moved };
   }
 
-  async getProduct(id: string): Promise<Product | undefined> {
-    return this.products.get(id);
+  async createStockMovement(insertMovement: InsertStockMovement): Promise<StockMovement> {
+    return this.db.transaction((tx) => this.applyStockMovement(tx, insertMovement));
   }
 
-  async getProductBySKU(sku: string): Promise<Product | undefined> {
-    return Array.from(this.products.values()).find(
-      (product) => product.sku === sku
+  async getStockDrift(): Promise<StockDrift[]> {
+    const defaultId = (await this.defaultLocation(this.db)).id;
+    const movements = await this.db.select().from(stockMovements).orderBy(asc(stockMovements.createdAt));
+    return stockDrift(await this.db.select().from(products), ledgerLevels(movements, defaultId));
+  }
+
+  // Sets each product's stock, and its levels at every location, to what
+  // its movements replay to
+  async rebuildStock(rebuild: RebuildStock): Promise<StockDrift[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: products.id }).from(products).for("update");
+      const defaultId = (await this.defaultLocation(tx)).id;
+      const movements = await tx.select().from(stockMovements).orderBy(asc(stockMovements.createdAt));
+      const ledger = ledgerLevels(movements, defaultId);
+      const rebuilt = driftToRebuild(stockDrift(await tx.select().from(products), ledger), rebuild);
+
+      for (const row of rebuilt) {
+        const levels = Array.from(ledger.get(row.productId) ?? new Map<string, number>())
+          .filter(([locationId]) => locationId !== defaultId)
+          .map(([locationId, quantity]) => ({ id: randomUUID(), productId: row.productId, locationId, quantity }));
+        await tx.delete(stockLevels).where(eq(stockLevels.productId, row.productId));
+        if (levels.length > 0) await tx.insert(stockLevels).values(levels);
+        await tx.update(products).set({ stockQuantity: row.ledgerQuantity }).where(eq(products.id, row.productId));
+      }
+      return rebuilt;
+    });
+  }
+
+  async migrateMovementReasons(): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const legacy = await tx
+        .select()
+        .from(stockMovements)
+        .where(notInArray(stockMovements.reason, [...movementReasonCodes]));
+      for (const movement of legacy) {
+        await tx.update(stockMovements).set(migratedReason(movement)!).where(eq(stockMovements.id, movement.id));
+      }
+      return legacy.length;
+    });
+  }
+
+  async linkMovementSources(): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const unlinked = await tx
+        .select()
+        .from(stockMovements)
+        .where(
+          and(
+            isNull(stockMovements.sourceId),
+            isNotNull(stockMovements.notes),
+            inArray(stockMovements.reason, Object.keys(documentReasons))
+          )
+        );
+      if (unlinked.length === 0) return 0;
+
+      const documents: SourceDocument[] = [
+        ...(await tx.select({ id: orders.id, number: orders.orderNumber }).from(orders)).map((row) => ({ ...row, sourceType: "order" as const })),
+        ...(await tx.select({ id: returns.id, number: returns.returnNumber }).from(returns)).map((row) => ({ ...row, sourceType: "return" as const })),
+        ...(await tx.select({ id: purchaseOrders.id, number: purchaseOrders.poNumber }).from(purchaseOrders)).map((row) => ({ ...row, sourceType: "purchase_order" as const })),
+        ...(await tx.select({ id: stockTransfers.id, number: stockTransfers.transferNumber }).from(stockTransfers)).map((row) => ({ ...row, sourceType: "transfer" as const })),
+        ...(await tx.select({ id: stocktakes.id, number: stocktakes.stocktakeNumber }).from(stocktakes)).map((row) => ({ ...row, sourceType: "stocktake" as const })),
+      ];
+
+      let linked = 0;
+      for (const movement of unlinked) {
+        const source = inferredSource(movement, documents);
+        if (!source) continue;
+        await tx.update(stockMovements).set(source).where(eq(stockMovements.id, movement.id));
+        linked++;
+      }
+      return linked;
+    });
+  }
+
+  // Records a movement and updates the location's level and the product
+  // total using the caller's transaction, so multi-line documents commit or
+  // roll back as a whole.
+  private async applyStockMovement(tx: Database, insertMovement: InsertStockMovement): Promise<StockMovement> {
+    const location = await this.resolveLocation(tx, insertMovement.locationId);
+    const [product] = await tx
+      .select()
+      .from(products)
+      .where(eq(products.id, insertMovement.productId))
+      .for("update");
+    if (!product) {
+      throw new StorageError("Product not found", 404);
+    }
+
+    const current = await this.quantityAt(tx, product, location);
+    const next = levelAfter(current, insertMovement);
+    assertLevelAllowed(product, location, current, next, insertMovement);
+    const [movement] = await tx
+      .insert(stockMovements)
+      .values({ ...recordedMovement(insertMovement, location, { before: current, after: next }), id: randomUUID() })
+      .returning();
+
+    if (!location.isDefault) {
+      await tx
+        .insert(stockLevels)
+        .values({ id: randomUUID(), productId: product.id, locationId: location.id, quantity: next })
+        .onConflictDoUpdate({
+          target: [stockLevels.productId, stockLevels.locationId],
+          set: { quantity: next },
+        });
+    }
+
+    await tx
+      .update(products)
+      .set({ stockQuantity: product.stockQuantity + next - current })
+      .where(eq(products.id, product.id));
+
+    return movement;
+  }
+
+  async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
+    return this.db
+      .select()
+      .from(products)
+      .where(
+        or(
+          and(isNull(products.reorderPoint), lt(products.stockQuantity, threshold)),
+          and(isNotNull(products.reorderPoint), lte(products.stockQuantity, products.reorderPoint))
+        )
+      );
+  }
+
+  // Reordering
+  async getReorderSuggestions(windowDays: number): Promise<ReorderSuggestion[]> {
+    const movements = await this.db
+      .select()
+      .from(stockMovements)
+      .where(
+        and(
+          gte(stockMovements.createdAt, velocityWindowStart(windowDays)),
+          inArray(stockMovements.reason, ["sale", "order_cancelled"])
+        )
+      );
+    const openOrders = await this.db.select().from(purchaseOrders).where(ne(purchaseOrders.status, "closed"));
+    return reorderSuggestions(
+      await this.db.select().from(products),
+      movements,
+      await this.withPurchaseOrderItems(this.db, openOrders),
+      windowDays
     );
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const id = randomUUID();
-    const product: Product = {
-      ...insertProduct,
-      id,
-      createdAt: new Date(),
-    };
-    this.products.set(id, product);
-    return product;
+  async createReorderPurchaseOrders(reorder: ReorderPurchaseOrders): Promise<PurchaseOrderWithItems[]> {
+    return this.db.transaction(async (tx) => {
+      const created: PurchaseOrderWithItems[] = [];
+      for (const draft of reorderPurchaseOrderDrafts(reorder)) {
+        created.push(await this.insertPurchaseOrder(tx, draft));
+      }
+      return created;
+    });
   }
 
-  async updateProduct(
-    id: string,
-    insertProduct: InsertProduct
-  ): Promise<Product | undefined> {
-    const existing = this.products.get(id);
-    if (!existing) return undefined;
+  // Locations
+  async getLocations(): Promise<LocationWithStock[]> {
+    return this.locationsWithStock(this.db);
+  }
 
-    const updated: Product = {
-      ...insertProduct,
-      id,
-      createdAt: existing.createdAt,
-    };
-    this.products.set(id, updated);
-    return updated;
+  async getLocation(id: string): Promise<LocationWithStock | undefined> {
+    return (await this.getLocations()).find((location) => location.id === id);
+  }
+
+  async createLocation(data: InsertLocation): Promise<Location> {
+    const fields = locationFields(data);
+    return this.db.transaction(async (tx) => {
+      await this.defaultLocation(tx);
+      const [duplicate] = await tx.select().from(locations).where(eq(locations.code, fields.code));
+      assertLocationCodeFree(duplicate, fields.code);
+
+      const [location] = await tx
+        .insert(locations)
+        .values({ ...fields, id: randomUUID(), isDefault: false })
+        .returning();
+      return location;
+    });
+  }
+
+  async updateLocation(id: string, data: InsertLocation): Promise<Location | undefined> {
+    const fields = locationFields(data);
+    return this.db.transaction(async (tx) => {
+      const [duplicate] = await tx
+        .select()
+        .from(locations)
+        .where(and(eq(locations.code, fields.code), ne(locations.id, id)));
+      assertLocationCodeFree(duplicate, fields.code);
+
+      const [location] = await tx.update(locations).set(fields).where(eq(locations.id, id)).returning();
+      return location;
+    });
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.select().from(locations).where(eq(locations.id, id)).for("update");
+      if (!row) return false;
+
+      const location = (await this.locationsWithStock(tx)).find((candidate) => candidate.id === id)!;
+      const inTransit = await tx
+        .select({ id: stockTransfers.id })
+        .from(stockTransfers)
+        .where(
+          and(
+            eq(stockTransfers.status, "in_transit"),
+            or(eq(stockTransfers.fromLocationId, id), eq(stockTransfers.toLocationId, id))
+          )
+        );
+      assertLocationRemovable(location, inTransit.length);
+
+      await tx.delete(stockLevels).where(eq(stockLevels.locationId, id));
+      await tx.delete(locations).where(eq(locations.id, id));
+      return true;
+    });
+  }
+
+  async getStockBalances(productId?: string): Promise<StockBalance[]> {
+    await this.defaultLocation(this.db);
+    const locationRows = (await this.db.select().from(locations)).sort(byDefaultThenName);
+    if (productId) {
+      const [product] = await this.db.select().from(products).where(eq(products.id, productId));
+      if (!product) return [];
+      const levels = await this.db.select().from(stockLevels).where(eq(stockLevels.productId, productId));
+      return stockBalances([product], locationRows, levels);
+    }
+
+    const productRows = await this.db.select().from(products);
+    const levels = await this.db.select().from(stockLevels);
+    return stockBalances(productRows, locationRows, levels).filter((balance) => balance.quantity !== 0);
+  }
+
+  private async locationsWithStock(tx: Database): Promise<LocationWithStock[]> {
+    await this.defaultLocation(tx);
+    const locationRows = await tx.select().from(locations);
+    const [{ total }] = await tx
+      .select({ total: sql<number>`coalesce(sum(${products.stockQuantity}), 0)::int` })
+      .from(products);
+    const levels = await tx
+      .select({
+        locationId: stockLevels.locationId,
+        quantity: sql<number>`sum(${stockLevels.quantity})::int`,
+      })
+      .from(stockLevels)
+      .groupBy(stockLevels.locationId);
+    return withUnitsOnHand(locationRows, total, levels);
+  }
+
+  // The default location is created the first time it's needed; the unique
+  // code keeps concurrent callers from creating two.
+  private async defaultLocation(tx: Database): Promise<Location> {
+    const [existing] = await tx.select().from(locations).where(eq(locations.isDefault, true));
+    if (existing) return existing;
+
+    await tx
+      .insert(locations)
+      .values({ ...defaultLocationFields, id: randomUUID() })
+      .onConflictDoNothing({ target: locations.code });
+    const [created] = await tx.select().from(locations).where(eq(locations.isDefault, true));
+    if (!created) {
+      throw new StorageError(`Location code ${defaultLocationFields.code} is taken by another location`, 409);
+    }
+    return created;
+  }
+
+  private async resolveLocation(tx: Database, id?: string | null): Promise<Location> {
+    if (!id) return this.defaultLocation(tx);
+    const [location] = await tx.select().from(locations).where(eq(locations.id, id));
+    if (!location) {
+      throw new StorageError(`Location ${id} not found`, 404);
+    }
+    return location;
+  }
+
+  private async quantityAt(tx: Database, product: Product, location: Location): Promise<number> {
+    const levels = await tx.select().from(stockLevels).where(eq(stockLevels.productId, product.id));
+    return quantityAt(product, location, levels);
+  }
+
+  // Stock transfers
+  async getStockTransfers(): Promise<StockTransferWithItems[]> {
+    const rows = await this.db.select().from(stockTransfers).orderBy(desc(stockTransfers.createdAt));
+    return this.withTransferItems(this.db, rows);
+  }
+
+  async getStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    const rows = await this.db.select().from(stockTransfers).where(eq(stockTransfers.id, id));
+    const [transfer] = await this.withTransferItems(this.db, rows);
+    return transfer;
+  }
+
+  async createStockTransfer(data: CreateStockTransfer): Promise<StockTransferWithItems> {
+    return this.db.transaction(async (tx) => {
+      const [fromRow] = await tx.select().from(locations).where(eq(locations.id, data.fromLocationId));
+      const [toRow] = await tx.select().from(locations).where(eq(locations.id, data.toLocationId));
+      const { from, to } = transferLocations(fromRow, toRow);
+
+      // Lock in a fixed order so concurrent transfers can't deadlock
+      const productIds = Array.from(new Set(data.items.map((item) => item.productId))).sort();
+      const productRows = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.id))
+        .for("update");
+      const levels = await tx.select().from(stockLevels).where(inArray(stockLevels.productId, productIds));
+      const items = transferItems(data, new Map(productRows.map((product) => [product.id, product])), from, levels);
+
+      const [transfer] = await tx
+        .insert(stockTransfers)
+        .values({
+          id: randomUUID(),
+          transferNumber: transferNumber(),
+          fromLocationId: from.id,
+          toLocationId: to.id,
+          status: "in_transit",
+          notes: data.notes || null,
+        })
+        .returning();
+      const itemRows = await tx
+        .insert(stockTransferItems)
+        .values(items.map((item) => ({ ...item, id: randomUUID(), transferId: transfer.id })))
+        .returning();
+
+      const created = { ...transfer, items: itemRows };
+      const notes = `Transfer ${transfer.transferNumber} to ${to.name}`;
+      for (const movement of transferMovements(created, "out", from, "transfer_out", notes)) {
+        await this.applyStockMovement(tx, movement);
+      }
+      return created;
+    });
+  }
+
+  async receiveStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const transfer = await this.lockTransfer(tx, id);
+      if (!transfer) return undefined;
+      assertTransferInTransit(transfer);
+
+      const from = await this.resolveLocation(tx, transfer.fromLocationId);
+      const to = await this.resolveLocation(tx, transfer.toLocationId);
+      const notes = `Transfer ${transfer.transferNumber} from ${from.name}`;
+      for (const movement of transferMovements(transfer, "in", to, "transfer_in", notes)) {
+        await this.applyStockMovement(tx, movement);
+      }
+      return this.saveTransfer(tx, transfer, { status: "received", receivedAt: new Date() });
+    });
+  }
+
+  async cancelStockTransfer(id: string): Promise<StockTransferWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const transfer = await this.lockTransfer(tx, id);
+      if (!transfer) return undefined;
+      assertTransferInTransit(transfer);
+
+      const from = await this.resolveLocation(tx, transfer.fromLocationId);
+      const notes = `Transfer ${transfer.transferNumber} cancelled`;
+      for (const movement of transferMovements(transfer, "in", from, "transfer_cancelled", notes)) {
+        await this.applyStockMovement(tx, movement);
+      }
+      return this.saveTransfer(tx, transfer, { status: "cancelled", cancelledAt: new Date() });
+    });
+  }
+
+  private async withTransferItems(tx: Database, rows: StockTransfer[]): Promise<StockTransferWithItems[]> {
+    if (rows.length === 0) return [];
+
+    const items = await tx
+      .select()
+      .from(stockTransferItems)
+      .where(inArray(stockTransferItems.transferId, rows.map((transfer) => transfer.id)));
+
+    return rows.map((transfer) => ({
+      ...transfer,
+      items: items.filter((item) => item.transferId === transfer.id),
+    }));
+  }
+
+  private async lockTransfer(tx: Database, id: string): Promise<StockTransferWithItems | undefined> {
+    const rows = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+    const [transfer] = await this.withTransferItems(tx, rows);
+    return transfer;
+  }
+
+  private async saveTransfer(
+    tx: Database,
+    { items, ...transfer }: StockTransferWithItems,
+    changes: Partial<StockTransfer>
+  ): Promise<StockTransferWithItems> {
+    const [updated] = await tx
+      .update(stockTransfers)
+      .set(changes)
+      .where(eq(stockTransfers.id, transfer.id))
+      .returning();
+    return { ...updated, items };
+  }
+
+  // Stocktakes
+  async getStocktakes(): Promise<StocktakeWithItems[]> {
+    const rows = await this.db.select().from(stocktakes).orderBy(desc(stocktakes.createdAt));
+    return this.withStocktakeItems(this.db, rows);
+  }
+
+  async getStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    const rows = await this.db.select().from(stocktakes).where(eq(stocktakes.id, id));
+    const [stocktake] = await this.withStocktakeItems(this.db, rows);
+    return stocktake;
+  }
+
+  async createStocktake(data: CreateStocktake): Promise<StocktakeWithItems> {
+    return this.db.transaction(async (tx) => {
+      const location = await this.resolveLocation(tx, data.locationId);
+      const category = data.category || null;
+      const productRows = await tx
+        .select()
+        .from(products)
+        .where(category ? eq(products.category, category) : undefined);
+      const levels = await tx.select().from(stockLevels);
+      const lines = stocktakeLines(productRows, location, levels, category);
+
+      const [stocktake] = await tx
+        .insert(stocktakes)
+        .values({
+          id: randomUUID(),
+          stocktakeNumber: stocktakeNumber(),
+          locationId: location.id,
+          category,
+          status: "open",
+          notes: data.notes || null,
+        })
+        .returning();
+      const items = await tx
+        .insert(stocktakeItems)
+        .values(lines.map((line) => ({ ...line, id: randomUUID(), stocktakeId: stocktake.id })))
+        .returning();
+      return { ...stocktake, items };
+    });
+  }
+
+  async recordStocktakeCounts(id: string, counts: RecordStocktakeCounts): Promise<StocktakeWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, id);
+      if (!stocktake) return undefined;
+      assertStocktakeOpen(stocktake);
+
+      const location = await this.resolveLocation(tx, stocktake.locationId);
+      const productIds = Array.from(new Set(counts.items.map((count) => count.productId)));
+      const productRows = await tx.select().from(products).where(inArray(products.id, productIds));
+      const levels = await tx.select().from(stockLevels).where(inArray(stockLevels.productId, productIds));
+      const lines = countedLines(
+        stocktake,
+        counts,
+        new Map(productRows.map((product) => [product.id, product])),
+        location,
+        levels
+      );
+
+      const updatedItems = new Map<string, StocktakeItem>();
+      for (const { id: itemId, ...line } of lines) {
+        const [updated] = await tx
+          .update(stocktakeItems)
+          .set({
+            systemQuantity: line.systemQuantity,
+            countedQuantity: line.countedQuantity,
+            countedAt: line.countedAt,
+            approved: line.approved,
+          })
+          .where(eq(stocktakeItems.id, itemId))
+          .returning();
+        updatedItems.set(updated.id, updated);
+      }
+      return { ...stocktake, items: stocktake.items.map((item) => updatedItems.get(item.id) ?? item) };
+    });
+  }
+
+  async postStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, id);
+      if (!stocktake) return undefined;
+      assertStocktakeOpen(stocktake);
+
+      const location = await this.resolveLocation(tx, stocktake.locationId);
+      for (const movement of stocktakeMovements(stocktake, location)) {
+        await this.applyStockMovement(tx, movement);
+      }
+      return this.saveStocktake(tx, stocktake, { status: "posted", postedAt: new Date() });
+    });
+  }
+
+  async cancelStocktake(id: string): Promise<StocktakeWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, id);
+      if (!stocktake) return undefined;
+      assertStocktakeOpen(stocktake);
+
+      return this.saveStocktake(tx, stocktake, { status: "cancelled", cancelledAt: new Date() });
+    });
+  }
+
+  private async withStocktakeItems(tx: Database, rows: Stocktake[]): Promise<StocktakeWithItems[]> {
+    if (rows.length === 0) return [];
+
+    const items = await tx
+      .select()
+      .from(stocktakeItems)
+      .where(inArray(stocktakeItems.stocktakeId, rows.map((stocktake) => stocktake.id)))
+      .orderBy(asc(stocktakeItems.productName), asc(stocktakeItems.sku));
+
+    return rows.map((stocktake) => ({
+      ...stocktake,
+      items: items.filter((item) => item.stocktakeId === stocktake.id),
+    }));
+  }
+
+  private async lockStocktake(tx: Database, id: string): Promise<StocktakeWithItems | undefined> {
+    const rows = await tx.select().from(stocktakes).where(eq(stocktakes.id, id)).for("update");
+    const [stocktake] = await this.withStocktakeItems(tx, rows);
+    return stocktake;
+  }
+
+  private async saveStocktake(
+    tx: Database,
+    { items, ...stocktake }: StocktakeWithItems,
+    changes: Partial<Stocktake>
+  ): Promise<StocktakeWithItems> {
+    const [updated] = await tx
+      .update(stocktakes)
+      .set(changes)
+      .where(eq(stocktakes.id, stocktake.id))
+      .returning();
+    return { ...updated, items };
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).orderBy(asc(suppliers.name));
   }
 
-  async deleteProduct(id: string): Promise<boolean> {
-    return this.products.delete(id);
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
   }
 
-  // Orders
-  async getOrders(): Promise<OrderWithItems[]> {
-    const orders = Array.from(this.orders.values());
-    return Promise.all(
-      orders.map(async (order) => {
-        const items = await this.getOrderItems(order.id);
-        return { ...order, items };
-      })
-    );
+  async createSupplier(data: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await this.db
+      .insert(suppliers)
+      .values({ ...supplierFields(data), id: randomUUID() })
+      .returning();
+    return supplier;
   }
 
-  async getOrder(id: string): Promise<OrderWithItems | undefined> {
-    const order = this.orders.get(id);
-    if (!order) return undefined;
+  async updateSupplier(id: string, data: InsertSupplier): Promise<Supplier | undefined> {
+    const [supplier] = await this.db
+      .update(suppliers)
+      .set(supplierFields(data))
+      .where(eq(suppliers.id, id))
+      .returning();
+    return supplier;
+  }
 
-    const items = await this.getOrderItems(id);
-    return { ...order, items };
+  async deleteSupplier(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, id)).for("update");
+      if (!supplier) return false;
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`cast(count(*) as int)` })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.supplierId, id));
+      assertSupplierRemovable(count);
+
+      await tx.update(products).set({ supplierId: null }).where(eq(products.supplierId, id));
+      await tx.delete(suppliers).where(eq(suppliers.id, id));
+      return true;
+    });
   }
 
-  async getOrdersByCustomerEmail(email: string): Promise<OrderWithItems[]> {
-    const orders = Array.from(this.orders.values()).filter(
-      (order) => order.customerEmail === email
-    );
-    return Promise.all(
-      orders.map(async (order) => {
-        const items = await this.getOrderItems(order.id);
-        return { ...order, items };
-      })
-    );
+  // Purchase orders
+  async getPurchaseOrders(): Promise<PurchaseOrderWithItems[]> {
+    const rows = await this.db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.createdAt));
+    return this.withPurchaseOrderItems(this.db, rows);
   }
 
-  async createOrder(
-    insertOrder: InsertOrder,
-    insertItems: InsertOrderItem[]
-  ): Promise<OrderWithItems> {
-    const id = randomUUID();
-    const orderNumber = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`;
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const rows = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    const [purchaseOrder] = await this.withPurchaseOrderItems(this.db, rows);
+    return purchaseOrder;
+  }
 
-    const order: Order = {
-      ...insertOrder,
-      id,
-      orderNumber,
-      createdAt: new Date(),
-    };
-    this.orders.set(id, order);
+  async createPurchaseOrder(data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    return this.db.transaction((tx) => this.insertPurchaseOrder(tx, data));
+  }
 
-    // Create order items
-    const items: OrderItem[] = insertItems.map((item) => {
-      const itemId = randomUUID();
-      const orderItem: OrderItem = {
-        ...item,
-        id: itemId,
-        orderId: id,
-      };
-      this.orderItems.set(itemId, orderItem);
-      return orderItem;
-    });
+  async updatePurchaseOrder(id: string, data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const existing = await this.lockPurchaseOrder(tx, id);
+      if (!existing) return undefined;
+      assertPurchaseOrderDraft(existing);
 
-    return { ...order, items };
+      const { location, lines } = await this.purchaseOrderFields(tx, data);
+      const [purchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({ supplierId: data.supplierId, locationId: location.id, notes: data.notes || null })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const items = await this.insertPurchaseOrderItems(tx, id, lines);
+      return { ...purchaseOrder, items };
+    });
   }
 
-  async updateOrder(
-    id: string,
-    insertOrder: InsertOrder
-  ): Promise<Order | undefined> {
-    const existing = this.orders.get(id);
-    if (!existing) return undefined;
+  async deletePurchaseOrder(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const purchaseOrder = await this.lockPurchaseOrder(tx, id);
+      if (!purchaseOrder) return false;
+      assertPurchaseOrderDraft(purchaseOrder);
 
-    const updated: Order = {
-      ...insertOrder,
-      id,
-      orderNumber: existing.orderNumber,
-      createdAt: existing.createdAt,
-    };
-    this.orders.set(id, updated);
-    return updated;
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+      return true;
+    });
   }
 
-  async deleteOrder(id: string): Promise<boolean> {
-    // Delete order items first
-    const items = await this.getOrderItems(id);
-    items.forEach((item) => this.orderItems.delete(item.id));
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const purchaseOrder = await this.lockPurchaseOrder(tx, id);
+      if (!purchaseOrder) return undefined;
+      assertPurchaseOrderTransition(purchaseOrder, "sent");
 
-    // Delete order
-    return this.orders.delete(id);
+      return this.savePurchaseOrder(tx, purchaseOrder, { status: "sent", sentAt: new Date() });
+    });
   }
 
-  // Order Items
-  async getOrderItems(orderId: string): Promise<OrderItem[]> {
-    return Array.from(this.orderItems.values()).filter(
-      (item) => item.orderId === orderId
-    );
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder): Promise<PurchaseOrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const purchaseOrder = await this.lockPurchaseOrder(tx, id);
+      if (!purchaseOrder) return undefined;
+      assertPurchaseOrderReceivable(purchaseOrder);
+
+      const received = receivedLines(purchaseOrder, receipt);
+      const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, purchaseOrder.supplierId));
+      for (const movement of receiptMovements(purchaseOrder, received, supplier, receipt.notes)) {
+        await this.applyStockMovement(tx, movement);
+      }
+
+      const updatedItems = new Map<string, PurchaseOrderItem>();
+      for (const { item, quantity } of received) {
+        const [updated] = await tx
+          .update(purchaseOrderItems)
+          .set({ quantityReceived: item.quantityReceived + quantity })
+          .where(eq(purchaseOrderItems.id, item.id))
+          .returning();
+        updatedItems.set(updated.id, updated);
+      }
+      const items = purchaseOrder.items.map((item) => updatedItems.get(item.id) ?? item);
+      const status = statusAfterReceipt(items);
+      return this.savePurchaseOrder(
+        tx,
+        { ...purchaseOrder, items },
+        { status, closedAt: status === "closed" ? new Date() : null }
+      );
+    });
   }
 
-  // Stock Movements
-  async getStockMovements(productId?: string): Promise<StockMovement[]> {
-    const movements = Array.from(this.stockMovements.values());
-    if (productId) {
-      return movements.filter((m) => m.productId === productId);
-    }
-    return movements.sort((a, b) => {
-      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-      return dateB - dateA;
+  async closePurchaseOrder(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const purchaseOrder = await this.lockPurchaseOrder(tx, id);
+      if (!purchaseOrder) return undefined;
+      assertPurchaseOrderTransition(purchaseOrder, "closed");
+
+      return this.savePurchaseOrder(tx, purchaseOrder, { status: "closed", closedAt: new Date() });
     });
   }
 
-  async createStockMovement(insertMovement: InsertStockMovement): Promise<StockMovement> {
-    const id = randomUUID();
-    const movement: StockMovement = {
-      ...insertMovement,
-      id,
-      createdAt: new Date(),
-    };
-    this.stockMovements.set(id, movement);
+  private async insertPurchaseOrder(tx: Database, data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    const { location, lines } = await this.purchaseOrderFields(tx, data);
+    const [purchaseOrder] = await tx
+      .insert(purchaseOrders)
+      .values({
+        id: randomUUID(),
+        poNumber: poNumber(),
+        supplierId: data.supplierId,
+        locationId: location.id,
+        status: "draft",
+        notes: data.notes || null,
+      })
+      .returning();
+    const items = await this.insertPurchaseOrderItems(tx, purchaseOrder.id, lines);
+    return { ...purchaseOrder, items };
+  }
 
-    // Update product stock quantity
-    const product = await this.getProduct(insertMovement.productId);
-    if (product) {
-      let newQuantity = product.stockQuantity;
-      if (insertMovement.type === "in") {
-        newQuantity += insertMovement.quantity;
-      } else if (insertMovement.type === "out") {
-        newQuantity -= insertMovement.quantity;
-      } else if (insertMovement.type === "adjustment") {
-        newQuantity = insertMovement.quantity;
-      }
-
-      await this.updateProduct(insertMovement.productId, {
-        ...product,
-        stockQuantity: Math.max(0, newQuantity),
-      });
+  private async purchaseOrderFields(
+    tx: Database,
+    data: CreatePurchaseOrder
+  ): Promise<{ location: Location; lines: Omit<PurchaseOrderItem, "id" | "purchaseOrderId">[] }> {
+    const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, data.supplierId));
+    if (!supplier) {
+      throw new StorageError("Supplier not found", 404);
     }
+    const location = await this.resolveLocation(tx, data.locationId);
+    const productIds = Array.from(new Set(data.items.map((item) => item.productId)));
+    const productRows = await tx.select().from(products).where(inArray(products.id, productIds));
+    const lines = purchaseOrderLines(data, new Map(productRows.map((product) => [product.id, product])));
+    return { location, lines };
+  }
 
-    return movement;
+  private async insertPurchaseOrderItems(
+    tx: Database,
+    purchaseOrderId: string,
+    lines: Omit<PurchaseOrderItem, "id" | "purchaseOrderId">[]
+  ): Promise<PurchaseOrderItem[]> {
+    return tx
+      .insert(purchaseOrderItems)
+      .values(lines.map((line) => ({ ...line, id: randomUUID(), purchaseOrderId })))
+      .returning();
   }
 
-  async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
-    return Array.from(this.products.values()).filter(
-      (product) => product.stockQuantity < threshold && product.stockQuantity > 0
-    );
+  private async withPurchaseOrderItems(tx: Database, rows: PurchaseOrder[]): Promise<PurchaseOrderWithItems[]> {
+    if (rows.length === 0) return [];
+
+    const items = await tx
+      .select()
+      .from(purchaseOrderItems)
+      .where(inArray(purchaseOrderItems.purchaseOrderId, rows.map((purchaseOrder) => purchaseOrder.id)));
+
+    return rows.map((purchaseOrder) => ({
+      ...purchaseOrder,
+      items: items.filter((item) => item.purchaseOrderId === purchaseOrder.id),
+    }));
+  }
+
+  private async lockPurchaseOrder(tx: Database, id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const rows = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    const [purchaseOrder] = await this.withPurchaseOrderItems(tx, rows);
+    return purchaseOrder;
+  }
+
+  private async savePurchaseOrder(
+    tx: Database,
+    { items, ...purchaseOrder }: PurchaseOrderWithItems,
+    changes: Partial<PurchaseOrder>
+  ): Promise<PurchaseOrderWithItems> {
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set(changes)
+      .where(eq(purchaseOrders.id, purchaseOrder.id))
+      .returning();
+    return { ...updated, items };
   }
 
   // Returns
   async getReturns(): Promise<ReturnWithItems[]> {
-    const allReturns = Array.from(this.returns.values());
-    const returnsWithItems = await Promise.all(
-      allReturns.map(async (ret) => {
-        const items = Array.from(this.returnItems.values()).filter(
-          (item) => item.returnId === ret.id
-        );
-        return { ...ret, items };
-      })
+    const rows = await this.db.select().from(returns).orderBy(desc(returns.createdAt));
+    return this.withReturnItems(rows);
+  }
+
+  async listReturns(query: ReturnListQuery): Promise<Page<ReturnWithItems>> {
+    const sortKey = returnSorts[query.sort];
+    const filters = and(
+      searchCondition(query.search, returns.returnNumber, returns.orderNumber, returns.customerName, returns.customerEmail),
+      query.status ? eq(returns.status, query.status) : undefined,
+      ...dateRangeConditions(returns.createdAt, query)
     );
-    return returnsWithItems;
+
+    const rows = await this.db
+      .select()
+      .from(returns)
+      .where(and(filters, keysetCondition(sortKey, returns.id, query)))
+      .orderBy(...keysetOrder(sortKey, returns.id, query.order))
+      .limit(query.limit + 1);
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` }).from(returns).where(filters);
+    const page = pageOf(rows, sortKey, query.limit, total);
+    return { ...page, items: await this.withReturnItems(page.items) };
   }
 
   async getReturn(id: string): Promise<ReturnWithItems | null> {
-    const ret = this.returns.get(id);
+    const [ret] = await this.db.select().from(returns).where(eq(returns.id, id));
     if (!ret) return null;
 
-    const items = Array.from(this.returnItems.values()).filter(
-      (item) => item.returnId === id
-    );
+    const [withItems] = await this.withReturnItems([ret]);
+    return withItems;
+  }
 
-    return { ...ret, items };
+  async getOrderReturns(orderId: string): Promise<ReturnWithItems[]> {
+    const rows = await this.db
+      .select()
+      .from(returns)
+      .where(eq(returns.orderId, orderId))
+      .orderBy(desc(returns.createdAt));
+    return this.withReturnItems(rows);
+  }
+
+  async getReturnableQuantities(orderId: string): Promise<ReturnableQuantity[] | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) return undefined;
+    return this.returnableQuantities(this.db, orderId);
   }
 
-  async createReturn(data: InsertReturn, items: InsertReturnItem[]): Promise<ReturnWithItems> {
+  private async returnableQuantities(tx: Database, orderId: string): Promise<ReturnableQuantity[]> {
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    const priorItems = await tx
+      .select({ item: returnItems })
+      .from(returnItems)
+      .innerJoin(returns, eq(returnItems.returnId, returns.id))
+      .where(and(eq(returns.orderId, orderId), ne(returns.status, "rejected")));
+    return returnableQuantities(items, priorItems.map((row) => row.item));
+  }
+
+  async createReturn(data: ReturnDetails, lines: ReturnLine[]): Promise<ReturnWithItems> {
     const returnId = randomUUID();
     const returnNumber = `RET-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 
-    const newReturn: Return = {
-      id: returnId,
-      returnNumber,
-      ...data,
-      createdAt: new Date(),
-    };
+    return this.db.transaction(async (tx) => {
+      // Locking the order serialises concurrent returns against it
+      const [order] = await tx.select().from(orders).where(eq(orders.id, data.orderId)).for("update");
+      assertReturnable(order);
+      const returnable = await this.returnableQuantities(tx, data.orderId);
+      assertReturnQuantities(returnable, lines);
 
-    this.returns.set(returnId, newReturn);
+      const exchangeProductIds = lines.flatMap((line) => line.exchangeProductId ? [line.exchangeProductId] : []);
+      const exchangeProducts = exchangeProductIds.length
+        ? await tx.select().from(products).where(inArray(products.id, exchangeProductIds))
+        : [];
+      const orderLines = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      const { items, exchangeItems, amounts, settlement } = priceReturn(
+        order,
+        orderLines,
+        returnable,
+        data,
+        lines,
+        exchangeProducts,
+        await this.taxClassesWithRates(tx)
+      );
+      assertReturnAmountsMatch(data, amounts);
 
-    const createdItems: ReturnItem[] = items.map(item => {
-      const itemId = randomUUID();
-      const returnItem: ReturnItem = {
-        id: itemId,
-        returnId,
-        ...item,
-      };
-      this.returnItems.set(itemId, returnItem);
-      return returnItem;
+      // Exchange products are reserved straight away by their replacement
+      // order, which fails the return if any of them is out of stock
+      const replacement = replacementOrderFor(returnNumber, order, exchangeItems, amounts);
+      const replacementOrder = replacement
+        ? await this.insertOrder(tx, replacement.order, replacement.items)
+        : null;
+
+      // Every return starts pending; returned stock and credit wait for approval
+      const [newReturn] = await tx
+        .insert(returns)
+        .values({
+          ...newReturnColumns(data, order, amounts),
+          ...settlement,
+          id: returnId,
+          returnNumber,
+          status: "pending",
+          replacementOrderId: replacementOrder?.id ?? null,
+        })
+        .returning();
+
+      const createdItems = await tx
+        .insert(returnItems)
+        .values(items.map((item) => ({ ...item, id: randomUUID(), returnId })))
+        .returning();
+
+      return { ...newReturn, items: createdItems };
     });
+  }
 
-    // Update stock quantities for returned items
-    for (const item of items) {
-      const product = await this.getProduct(item.productId);
-      if (product) {
-        await this.updateProduct(item.productId, {
-          ...product,
-          stockQuantity: product.stockQuantity + item.quantity,
+  async updateReturn(id: string, data: UpdateReturn): Promise<Return | null> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(returns)
+        .where(eq(returns.id, id))
+        .for("update");
+      if (!existing) return null;
+
+      assertStatusUnchanged(existing, data);
+      if (Object.keys(data).length === 0) return existing;
+
+      const [ret] = await tx
+        .update(returns)
+        .set(data)
+        .where(eq(returns.id, id))
+        .returning();
+      return ret;
+    });
+  }
+
+  async approveReturn(id: string): Promise<ReturnWithItems | null> {
+    return this.db.transaction(async (tx) => {
+      const ret = await this.lockReturn(tx, id);
+      if (!ret) return null;
+
+      assertReturnTransition(ret.status, "approved");
+
+      // Restock returned items
+      for (const item of ret.items) {
+        await this.applyStockMovement(tx, {
+          productId: item.productId,
+          productName: item.productName,
+          sku: item.sku,
+          type: "in",
+          quantity: item.quantity,
+          reason: "return",
+          notes: `Return ${ret.returnNumber}`,
+          sourceType: "return",
+          sourceId: ret.id,
         });
       }
 
-      // Create stock movement
-      await this.createStockMovement({
-        productId: item.productId,
-        productName: item.productName,
-        sku: item.sku,
-        type: 'in',
-        quantity: item.quantity,
-        reason: 'return',
-        notes: `Return ${returnNumber}`,
+      const credit = storeCreditFor(ret);
+      if (credit) {
+        await this.issueDiscountCode(tx, credit);
+      }
+
+      return this.saveReturn(tx, ret, {
+        status: "approved",
+        creditCode: credit?.code ?? null,
+        approvedAt: new Date(),
       });
-    }
+    });
+  }
 
-    return { ...newReturn, items: createdItems };
+  async rejectReturn(id: string, reason?: string, rejectedBy?: string | null): Promise<ReturnWithItems | null> {
+    return this.db.transaction(async (tx) => {
+      const ret = await this.lockReturn(tx, id);
+      if (!ret) return null;
+
+      assertReturnTransition(ret.status, "rejected");
+
+      const [replacement] = ret.replacementOrderId
+        ? await tx.select().from(orders).where(eq(orders.id, ret.replacementOrderId)).for("update")
+        : [];
+      if (cancelsReplacement(replacement)) {
+        await this.changeOrderStatus(tx, replacement.id, {
+          status: "cancelled",
+          reason: `Return ${ret.returnNumber} rejected`,
+          changedBy: rejectedBy,
+        });
+      }
+
+      return this.saveReturn(tx, ret, {
+        status: "rejected",
+        rejectionReason: reason || null,
+        rejectedAt: new Date(),
+      });
+    });
   }
 
-  async updateReturn(id: string, data: Partial<InsertReturn>): Promise<Return | null> {
-    const existing = this.returns.get(id);
-    if (!existing) return null;
+  async completeReturn(id: string): Promise<ReturnWithItems | null> {
+    return this.db.transaction(async (tx) => {
+      const ret = await this.lockReturn(tx, id);
+      if (!ret) return null;
 
-    const updated: Return = {
-      ...existing,
-      ...data,
-    };
-    this.returns.set(id, updated);
-    return updated;
+      assertReturnTransition(ret.status, "completed");
+      assertPaidInFull(ret);
+
+      return this.saveReturn(tx, ret, {
+        status: "completed",
+        completedAt: new Date(),
+      });
+    });
+  }
+
+  async markReturnPaid(id: string, paymentMethod: ReturnPaymentMethod): Promise<ReturnWithItems | null> {
+    return this.db.transaction(async (tx) => {
+      const ret = await this.lockReturn(tx, id);
+      if (!ret) return null;
+
+      assertPaymentDue(ret);
+
+      return this.saveReturn(tx, ret, {
+        paymentStatus: "paid",
+        paymentMethod,
+        paidAt: new Date(),
+      });
+    });
+  }
+
+  private async lockReturn(tx: Database, id: string): Promise<ReturnWithItems | null> {
+    const [ret] = await tx.select().from(returns).where(eq(returns.id, id)).for("update");
+    if (!ret) return null;
+
+    const items = await tx.select().from(returnItems).where(eq(returnItems.returnId, id));
+    return { ...ret, items };
+  }
+
+  private async saveReturn(
+    tx: Database,
+    { items, ...ret }: ReturnWithItems,
+    changes: Partial<Return>
+  ): Promise<ReturnWithItems> {
+    const [updated] = await tx
+      .update(returns)
+      .set(changes)
+      .where(eq(returns.id, ret.id))
+      .returning();
+    return { ...updated, items };
   }
 
   // Discount codes
-  async getDiscountCodes(customerEmail?: string): Promise<DiscountCode[]> {
-    const codes = Array.from(this.discountCodes.values());
-    if (customerEmail) {
-      return codes.filter(code => code.customerEmail === customerEmail);
-    }
-    return codes;
+  async getDiscountCodes(customerEmail?: string): Promise<DiscountCodeWithBalance[]> {
+    const query = this.db.select().from(discountCodes);
+    const rows = customerEmail
+      ? await query.where(eq(discountCodes.customerEmail, customerEmail))
+      : await query;
+    return this.withBalances(this.db, rows);
   }
 
-  async getDiscountCode(code: string): Promise<DiscountCode | null> {
-    return Array.from(this.discountCodes.values()).find(dc => dc.code === code) || null;
+  async getDiscountCode(code: string): Promise<DiscountCodeWithBalance | null> {
+    const rows = await this.db
+      .select()
+      .from(discountCodes)
+      .where(eq(discountCodes.code, code));
+    const [discountCode] = await this.withBalances(this.db, rows);
+    return discountCode ?? null;
   }
 
-  async createDiscountCode(data: InsertDiscountCode): Promise<DiscountCode> {
-    const id = randomUUID();
-    const discountCode: DiscountCode = {
-      id,
-      ...data,
-      isUsed: false,
-      usedAt: null,
-      createdAt: new Date(),
-    };
-    this.discountCodes.set(id, discountCode);
-    return discountCode;
+  async getDiscountCodeById(id: string): Promise<DiscountCodeWithBalance | null> {
+    const rows = await this.db
+      .select()
+      .from(discountCodes)
+      .where(eq(discountCodes.id, id));
+    const [discountCode] = await this.withBalances(this.db, rows);
+    return discountCode ?? null;
   }
 
-  async useDiscountCode(code: string, amountUsed: string): Promise<{ updated: DiscountCode | null; wasDeleted: boolean; wasFound: boolean; error?: string }> {
-    const discountCode = await this.getDiscountCode(code);
-    if (!discountCode) {
-      return { updated: null, wasDeleted: false, wasFound: false };
-    }
+  async createDiscountCode(data: InsertDiscountCode): Promise<DiscountCodeWithBalance> {
+    return this.db.transaction((tx) => this.issueDiscountCode(tx, data));
+  }
 
-    const currentAmount = parseFloat(discountCode.amount);
-    const usedAmount = parseFloat(amountUsed);
+  async adjustDiscountCode(code: string, amount: string, note: string): Promise<DiscountCodeWithBalance | null> {
+    return this.db.transaction(async (tx) => {
+      const discountCode = await this.lockDiscountCode(tx, eq(discountCodes.code, code));
+      if (!discountCode) return null;
 
-    if (isNaN(usedAmount) || usedAmount <= 0) {
-      return { 
-        updated: null, 
-        wasDeleted: false, 
-        wasFound: true, 
-        error: "Amount used must be a positive number" 
-      };
-    }
+      assertAdjustable(discountCode, amount);
 
-    if (usedAmount > currentAmount) {
-      return { 
-        updated: null, 
-        wasDeleted: false, 
-        wasFound: true, 
-        error: `Amount used ($${usedAmount.toFixed(2)}) exceeds available credit ($${currentAmount.toFixed(2)})` 
-      };
-    }
+      return this.applyCreditChange(tx, discountCode, {
+        code,
+        type: "adjust",
+        amount: fromCents(toCents(amount)),
+        note,
+      });
+    });
+  }
 
-    const remainingAmount = currentAmount - usedAmount;
+  async voidDiscountCode(id: string): Promise<DiscountCodeWithBalance | null> {
+    return this.db.transaction(async (tx) => {
+      const discountCode = await this.lockDiscountCode(tx, eq(discountCodes.id, id));
+      if (!discountCode) return null;
 
-    if (remainingAmount <= 0) {
-      this.discountCodes.delete(discountCode.id);
-      return { updated: null, wasDeleted: true, wasFound: true };
-    }
+      assertCreditActive(discountCode);
 
-    const updated: DiscountCode = {
-      ...discountCode,
-      amount: remainingAmount.toFixed(2),
-    };
-    this.discountCodes.set(discountCode.id, updated);
-    return { updated, wasDeleted: false, wasFound: true };
+      // The remaining balance is written off so the ledger still adds up
+      const [voided] = await tx
+        .update(discountCodes)
+        .set({ voidedAt: new Date() })
+        .where(eq(discountCodes.id, id))
+        .returning();
+      return this.applyCreditChange(tx, voided, {
+        code: voided.code,
+        type: "adjust",
+        amount: fromCents(-toCents(discountCode.balance)),
+        note: "Voided",
+      });
+    });
+  }
+
+  async expireDiscountCodes(now: Date = new Date()): Promise<DiscountCodeWithBalance[]> {
+    return this.db.transaction(async (tx) => {
+      const candidates = await tx
+        .select()
+        .from(discountCodes)
+        .where(and(isNull(discountCodes.voidedAt), isNull(discountCodes.expiredAt), lt(discountCodes.expiresAt, now)))
+        .for("update");
+      const due = await this.withBalances(
+        tx,
+        candidates.filter((code) => isCreditExpired(code.expiresAt, now))
+      );
+
+      const expired: DiscountCodeWithBalance[] = [];
+      for (const discountCode of due) {
+        const [marked] = await tx
+          .update(discountCodes)
+          .set({ expiredAt: now })
+          .where(eq(discountCodes.id, discountCode.id))
+          .returning();
+
+        if (toCents(discountCode.balance) <= 0) {
+          expired.push({ ...marked, balance: discountCode.balance });
+          continue;
+        }
+        expired.push(await this.applyCreditChange(tx, marked, {
+          code: marked.code,
+          type: "expire",
+          amount: fromCents(-toCents(discountCode.balance)),
+          note: "Expired",
+        }));
+      }
+      return expired;
+    });
+  }
+
+  async getCreditTransactions(code: string): Promise<CreditTransaction[]> {
+    return this.db
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.code, code))
+      .orderBy(creditTransactions.createdAt);
+  }
+
+  private async issueDiscountCode(tx: Database, data: InsertDiscountCode): Promise<DiscountCodeWithBalance> {
+    const [discountCode] = await tx
+      .insert(discountCodes)
+      .values({ ...data, id: randomUUID(), isUsed: false, usedAt: null })
+      .returning();
+    return this.applyCreditChange(tx, discountCode, {
+      code: discountCode.code,
+      type: "issue",
+      amount: fromCents(toCents(data.amount)),
+    });
+  }
+
+  private async lockDiscountCode(tx: Database, where: SQL): Promise<DiscountCodeWithBalance | undefined> {
+    const rows = await tx.select().from(discountCodes).where(where).for("update");
+    const [discountCode] = await this.withBalances(tx, rows);
+    return discountCode;
+  }
+
+  private async withBalances(tx: Database, rows: DiscountCode[]): Promise<DiscountCodeWithBalance[]> {
+    if (rows.length === 0) return [];
+
+    const totals = await tx
+      .select({ code: creditTransactions.code, balance: sql<string>`coalesce(sum(${creditTransactions.amount}), 0)` })
+      .from(creditTransactions)
+      .where(inArray(creditTransactions.code, rows.map((row) => row.code)))
+      .groupBy(creditTransactions.code);
+
+    return rows.map((row) => {
+      const total = totals.find((entry) => entry.code === row.code);
+      return { ...row, balance: fromCents(total ? toCents(total.balance) : 0) };
+    });
   }
 
-  async deleteDiscountCode(id: string): Promise<boolean> {
-    return this.discountCodes.delete(id);
+  private async applyCreditChange(
+    tx: Database,
+    discountCode: DiscountCode,
+    data: InsertCreditTransaction
+  ): Promise<DiscountCodeWithBalance> {
+    await tx.insert(creditTransactions).values({ ...data, id: randomUUID() });
+
+    const [withBalance] = await this.withBalances(tx, [discountCode]);
+    const [updated] = await tx
+      .update(discountCodes)
+      .set(usageState(discountCode, toCents(withBalance.balance)))
+      .where(eq(discountCodes.id, discountCode.id))
+      .returning();
+    return { ...updated, balance: withBalance.balance };
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// Persist to Postgres whenever DATABASE_URL is configured; otherwise keep
+// everything in memory for local development.
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
\ No newline at end of file
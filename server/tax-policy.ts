@@ -0,0 +1,11 @@
+import type { TaxSettings } from '@shared/schema';
+import { readBoolean, readString } from './env';
+
+// Orders keep the jurisdiction and pricing they were placed under, so
+// changing either only affects new orders.
+export const taxPolicy: TaxSettings = {
+  // Where orders are taxed unless they name another
+  jurisdiction: readString('TAX_JURISDICTION', 'DEFAULT').toUpperCase(),
+  // Whether product prices already include tax; otherwise it is added on top
+  pricesIncludeTax: readBoolean('TAX_PRICES_INCLUDE_TAX', false),
+};
@@ -1,11 +1,77 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Product styles table. A style holds what its variants share; each
+// size/color combination is a products row linked by styleId, which keeps
+// its own copy of the shared fields so orders and stock work per SKU.
+export const productStyles = pgTable("product_styles", {
+  id: varchar("id").primaryKey(),
+  styleName: text("style_name").notNull(),
+  styleCode: text("style_code").notNull().unique(), // prefix of every variant SKU
+  category: text("category").notNull(),
+  brand: text("brand").notNull(),
+  description: text("description"),
+  gender: text("gender").notNull(),
+  fabric: text("fabric"),
+  pattern: text("pattern"),
+  productImage: text("product_image"),
+  galleryImages: text("gallery_images").array(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertProductStyleSchema = createInsertSchema(productStyles, {
+  styleName: z.string().min(1, "Style name is required"),
+  styleCode: z.string().regex(/^[A-Za-z0-9-]+$/, "Style code may only contain letters, numbers and dashes"),
+  category: z.string().min(1, "Category is required"),
+  brand: z.string().min(1, "Brand is required"),
+  gender: z.string().min(1, "Gender is required"),
+  productImage: z.string().optional(),
+  galleryImages: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true });
+
+// Size x color combinations to generate variants for, all starting at the
+// same price and stock
+export const variantMatrixSchema = z.object({
+  colors: z.array(z.string().trim().min(1)).min(1, "At least one color is required"),
+  sizes: z.array(z.string().trim().min(1)).min(1, "At least one size is required"),
+  price: z.string().min(1, "Price is required"),
+  costPrice: z.string().optional(),
+  stockQuantity: z.number().int().min(0, "Stock quantity must be 0 or greater").default(0),
+});
+
+export const createProductStyleSchema = z.object({
+  style: insertProductStyleSchema,
+  matrix: variantMatrixSchema,
+});
+
+// One edited cell of the variant grid
+export const variantUpdateSchema = z.object({
+  id: z.string().min(1),
+  price: z.string().min(1, "Price is required").optional(),
+  stockQuantity: z.number().int().min(0, "Stock quantity must be 0 or greater").optional(),
+});
+
+export const variantGridSchema = z.object({
+  variants: z.array(variantUpdateSchema).min(1, "No variants to update"),
+});
+
+export type InsertProductStyle = z.infer<typeof insertProductStyleSchema>;
+export type ProductStyle = typeof productStyles.$inferSelect;
+export type VariantMatrix = z.infer<typeof variantMatrixSchema>;
+export type VariantUpdate = z.infer<typeof variantUpdateSchema>;
+
+// SKU of the variant of a style in one color and size, e.g. TEE-NAVYBLUE-XL
+export function variantSku(styleCode: string, color: string, size: string): string {
+  const part = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return [styleCode.toUpperCase(), part(color), part(size)].join("-");
+}
+
 // Products table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey(),
+  styleId: varchar("style_id"), // null for standalone products
   productName: text("product_name").notNull(),
   sku: text("sku").notNull().unique(),
   category: text("category").notNull(),
@@ -24,6 +90,11 @@ export const products = pgTable("products", {
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
   stockQuantity: integer("stock_quantity").notNull().default(0),
   warehouse: text("warehouse"),
+
+  // Replenishment; see server/reorder-policy.ts for the defaults
+  reorderPoint: integer("reorder_point"), // null derives it from sales velocity over the lead time
+  leadTimeDays: integer("lead_time_days"), // null uses the default lead time
+  supplierId: varchar("supplier_id"), // preferred supplier for reorders
   
   // Media
   productImage: text("product_image"),
@@ -48,24 +119,146 @@ export const insertProductSchema = createInsertSchema(products, {
   gender: z.string().min(1, "Gender is required"),
   price: z.string().min(1, "Price is required"),
   stockQuantity: z.number().int().min(0, "Stock quantity must be 0 or greater"),
+  reorderPoint: z.number().int().min(0, "Reorder point must be 0 or greater").nullable().optional(),
+  leadTimeDays: z.number().int().min(0, "Lead time must be 0 or greater").nullable().optional(),
+  supplierId: z.string().nullable().optional(),
   productImage: z.string().optional(),
   galleryImages: z.array(z.string()).optional(),
   rating: z.string().optional(),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, styleId: true, createdAt: true });
 
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
+export type ProductStyleWithVariants = ProductStyle & {
+  variants: Product[];
+};
+
+// Customers table. Orders, returns and store credit link here through
+// customerId; the customer details copied onto those rows are a snapshot
+// taken when they were created.
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").unique(), // stored lowercased
+  phone: text("phone"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: z.string().min(1, "Customer name is required"),
+  email: z.string().email("Valid email is required").optional().or(z.literal("")),
+}).omit({ id: true, createdAt: true });
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// Lifetime figures for a customer. Lifetime value is what they have paid
+// for orders that weren't cancelled, less store credit spent on them and
+// refunds on approved returns. Return rate is returned units over ordered
+// units, ignoring rejected returns.
+export type CustomerWithStats = Customer & {
+  orderCount: number;
+  lifetimeValue: string;
+  openCredit: string;
+  unitsOrdered: number;
+  unitsReturned: number;
+  returnRate: number;
+};
+
+// Tax classes. Each product category is taxed under at most one class, at
+// the class's rate for the jurisdiction an order is taxed in. Categories
+// without a class, and jurisdictions a class has no rate for, are untaxed.
+export const taxClasses = pgTable("tax_classes", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  categories: text("categories").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const taxRates = pgTable("tax_rates", {
+  id: varchar("id").primaryKey(),
+  taxClassId: varchar("tax_class_id").notNull(),
+  jurisdiction: text("jurisdiction").notNull(), // e.g. a country or state code
+  name: text("name").notNull(), // printed on invoices, e.g. "VAT"
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // percent
+}, (table) => [unique().on(table.taxClassId, table.jurisdiction)]);
+
+export const taxJurisdictionSchema = z.string().trim().toUpperCase().min(1, "Jurisdiction is required");
+
+// A class is saved together with its categories and rates
+export const insertTaxClassSchema = z.object({
+  name: z.string().trim().min(1, "Tax class name is required"),
+  categories: z.array(z.string().trim().min(1)).default([]),
+  rates: z
+    .array(z.object({
+      jurisdiction: taxJurisdictionSchema,
+      name: z.string().trim().min(1, "Tax name is required"),
+      rate: z.string().refine((val) => {
+        const num = parseFloat(val);
+        return !isNaN(num) && num >= 0 && num <= 100;
+      }, { message: "Rate must be a percentage between 0 and 100" }),
+    }))
+    .refine(
+      (rates) => new Set(rates.map((rate) => rate.jurisdiction)).size === rates.length,
+      { message: "Each jurisdiction can only have one rate" }
+    ),
+});
+
+export type InsertTaxClass = z.infer<typeof insertTaxClassSchema>;
+export type TaxClass = typeof taxClasses.$inferSelect;
+export type TaxRate = typeof taxRates.$inferSelect;
+
+export type TaxClassWithRates = TaxClass & {
+  rates: TaxRate[];
+};
+
+// How the store charges tax; see server/tax-policy.ts
+export type TaxSettings = {
+  jurisdiction: string;
+  pricesIncludeTax: boolean;
+};
+
+// The rate a product in `category` is taxed at in `jurisdiction`, if any
+export function taxRateFor(
+  classes: TaxClassWithRates[],
+  category: string,
+  jurisdiction: string
+): TaxRate | undefined {
+  const taxClass = classes.find((candidate) => candidate.categories.includes(category));
+  return taxClass?.rates.find((rate) => rate.jurisdiction === jurisdiction);
+}
+
+// Every jurisdiction some class has a rate for, in order
+export function taxJurisdictions(classes: TaxClassWithRates[]): string[] {
+  return Array.from(new Set(classes.flatMap((taxClass) => taxClass.rates.map((rate) => rate.jurisdiction)))).sort();
+}
+
 // Orders table
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey(),
   orderNumber: text("order_number").notNull().unique(),
+  customerId: varchar("customer_id"),
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email"),
   customerPhone: text("customer_phone"),
   status: text("status").notNull().default("pending"),
   notes: text("notes"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  // Manual discount on the whole order, taken off after the line discounts
+  discountType: text("discount_type"),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountReason: text("discount_reason"),
+  discountApprovedBy: text("discount_approved_by"), // manager who approved discounts over the limit
+  // Tax as charged when the order was placed. totalAmount is what the
+  // customer pays, tax included; less taxAmount it is the order's net value.
+  taxJurisdiction: text("tax_jurisdiction"),
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  creditApplied: decimal("credit_applied", { precision: 10, scale: 2 }).notNull().default("0"), // store credit redeemed for this order
+  creditCodes: text("credit_codes").array(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -77,16 +270,143 @@ export const orderItems = pgTable("order_items", {
   productName: text("product_name").notNull(),
   sku: text("sku").notNull(),
   quantity: integer("quantity").notNull(),
-  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // the product's price when ordered
+  discountType: text("discount_type"),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountReason: text("discount_reason"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // quantity × unit price, less the line's discount
+  // Tax on the line once its share of the order's discount is taken off:
+  // part of the subtotal when the order's prices include tax, on top otherwise
+  taxName: text("tax_name"),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }).notNull().default("0"), // percent
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
 });
 
+export const orderStatuses = ["pending", "processing", "shipped", "delivered", "cancelled"] as const;
+export type OrderStatus = (typeof orderStatuses)[number];
+
+// Allowed next statuses for each order status. Orders only move forward;
+// delivered and cancelled are final.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "shipped", "delivered", "cancelled"],
+  processing: ["shipped", "delivered", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return orderStatusTransitions[from as OrderStatus]?.includes(to as OrderStatus) ?? false;
+}
+
 export const insertOrderSchema = createInsertSchema(orders, {
   customerName: z.string().min(1, "Customer name is required"),
   customerEmail: z.string().email().optional().or(z.literal("")),
-  status: z.enum(["pending", "processing", "shipped", "delivered", "cancelled"]),
+  status: z.enum(orderStatuses),
   totalAmount: z.string().min(1, "Total amount is required"),
-}).omit({ id: true, createdAt: true, orderNumber: true });
+}).omit({
+  id: true,
+  createdAt: true,
+  orderNumber: true,
+  creditApplied: true,
+  creditCodes: true,
+  discountType: true,
+  discountValue: true,
+  discountAmount: true,
+  discountReason: true,
+  discountApprovedBy: true,
+  taxJurisdiction: true,
+  pricesIncludeTax: true,
+  taxAmount: true,
+});
+
+// What's entered for an order; its prices and total are worked out on the
+// server from the products' current prices
+export const orderDetailsSchema = insertOrderSchema.omit({ totalAmount: true });
+
+export const discountTypes = ["percent", "fixed"] as const;
+export type DiscountType = (typeof discountTypes)[number];
+
+// A discount given by hand at the till, on a line or the whole order
+export const manualDiscountSchema = z
+  .object({
+    type: z.enum(discountTypes),
+    value: z.string().refine((val) => {
+      const num = parseFloat(val);
+      return !isNaN(num) && num > 0;
+    }, { message: "Discount must be a positive number" }),
+    reason: z.string().trim().min(1, "Give a reason for the discount"),
+  })
+  .refine((discount) => discount.type !== "percent" || parseFloat(discount.value) <= 100, {
+    message: "A percentage discount can't be more than 100%",
+    path: ["value"],
+  });
+
+// Money is worked out in whole cents, so sums and splits come out exact
+export function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export const moneySchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Must be an amount like 12.50");
+
+// Cents taken off `cents` by a discount, rounded to the nearest cent
+export function manualDiscountCents(discount: ManualDiscount | undefined, cents: number): number {
+  if (!discount) return 0;
+  return discount.type === "percent"
+    ? Math.round((cents * parseFloat(discount.value)) / 100)
+    : toCents(discount.value);
+}
+
+// Splits `cents` across `weights` in proportion to them, with any cent left
+// over going to the largest
+export function prorateCents(cents: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) => (total > 0 ? Math.floor((weight * cents) / total) : 0));
+  let leftover = total > 0 ? cents - shares.reduce((sum, share) => sum + share, 0) : 0;
+  const largestFirst = weights.map((_, index) => index).sort((a, b) => weights[b] - weights[a]);
+  for (const index of largestFirst) {
+    if (leftover === 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+  return shares;
+}
+
+// Tax at `rate` percent on `cents`: already part of it when prices include
+// tax, added on top of it otherwise
+export function taxCents(cents: number, rate: number, pricesIncludeTax: boolean): number {
+  return pricesIncludeTax
+    ? Math.round((cents * rate) / (100 + rate))
+    : Math.round((cents * rate) / 100);
+}
+
+// Tax on each line of an order. The order's discount is shared out across
+// the lines first, so tax is charged on what the customer actually pays.
+export function orderLineTaxCents(
+  lines: { cents: number; rate: number }[],
+  orderDiscountCents: number,
+  pricesIncludeTax: boolean
+): number[] {
+  const shares = prorateCents(orderDiscountCents, lines.map((line) => line.cents));
+  return lines.map((line, index) => taxCents(line.cents - shares[index], line.rate, pricesIncludeTax));
+}
+
+export const orderLineSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  discount: manualDiscountSchema.optional(),
+});
+
+// Store credit to redeem against a new order
+export const orderCreditSchema = z.object({
+  code: z.string().min(1, "Credit code is required"),
+  amount: moneySchema.refine((val) => toCents(val) > 0, "Credit amount must be more than 0"),
+});
 
 export const insertOrderItemSchema = createInsertSchema(orderItems, {
   quantity: z.number().int().min(1, "Quantity must be at least 1"),
@@ -95,6 +415,10 @@ export const insertOrderItemSchema = createInsertSchema(orderItems, {
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderCredit = z.infer<typeof orderCreditSchema>;
+export type OrderDetails = z.infer<typeof orderDetailsSchema>;
+export type ManualDiscount = z.infer<typeof manualDiscountSchema>;
+export type OrderLine = z.infer<typeof orderLineSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 
 // Combined order with items type
@@ -102,16 +426,111 @@ export type OrderWithItems = Order & {
   items: OrderItem[];
 };
 
-// Stock movements table
+// Order status history table
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey(),
+  orderId: varchar("order_id").notNull(),
+  fromStatus: text("from_status"), // null for the status the order was created with
+  toStatus: text("to_status").notNull(),
+  changedBy: text("changed_by"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Who changed the status is taken from the signed-in user, not the request
+export const orderStatusChangeSchema = z.object({
+  status: z.enum(orderStatuses),
+  reason: z.string().optional(),
+});
+
+export type OrderStatusChange = z.infer<typeof orderStatusChangeSchema>;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+
+export const stockMovementTypes = ["in", "out", "adjustment"] as const;
+export type StockMovementType = (typeof stockMovementTypes)[number];
+
+// Why stock moved. Every movement records one of these codes; `direction`
+// is the movement type the reason applies to ("any" fits all three),
+// `manual` reasons are offered when recording a movement by hand, and
+// `affectsCogs` marks movements that count toward cost of goods sold:
+// sales and their reversals, and stock written off.
+export const movementReasonCodes = [
+  "purchase",
+  "return",
+  "order_cancelled",
+  "transfer_in",
+  "transfer_cancelled",
+  "opening_stock",
+  "sale",
+  "damaged",
+  "lost",
+  "transfer_out",
+  "physical_count",
+  "stocktake",
+  "correction",
+  "other",
+] as const;
+export type MovementReasonCode = (typeof movementReasonCodes)[number];
+
+export interface MovementReason {
+  code: MovementReasonCode;
+  label: string;
+  direction: StockMovementType | "any";
+  manual: boolean;
+  affectsCogs: boolean;
+}
+
+export const movementReasons: Record<MovementReasonCode, MovementReason> = {
+  purchase: { code: "purchase", label: "New Purchase", direction: "in", manual: true, affectsCogs: false },
+  return: { code: "return", label: "Customer Return", direction: "in", manual: true, affectsCogs: true },
+  order_cancelled: { code: "order_cancelled", label: "Order Cancelled", direction: "in", manual: false, affectsCogs: true },
+  transfer_in: { code: "transfer_in", label: "Transfer In", direction: "in", manual: false, affectsCogs: false },
+  transfer_cancelled: { code: "transfer_cancelled", label: "Transfer Cancelled", direction: "in", manual: false, affectsCogs: false },
+  opening_stock: { code: "opening_stock", label: "Opening Stock", direction: "in", manual: true, affectsCogs: false },
+  sale: { code: "sale", label: "Sale", direction: "out", manual: true, affectsCogs: true },
+  damaged: { code: "damaged", label: "Damaged/Defective", direction: "out", manual: true, affectsCogs: true },
+  lost: { code: "lost", label: "Lost/Stolen", direction: "out", manual: true, affectsCogs: true },
+  transfer_out: { code: "transfer_out", label: "Transfer Out", direction: "out", manual: false, affectsCogs: false },
+  physical_count: { code: "physical_count", label: "Physical Count", direction: "adjustment", manual: true, affectsCogs: true },
+  stocktake: { code: "stocktake", label: "Stocktake", direction: "adjustment", manual: false, affectsCogs: true },
+  correction: { code: "correction", label: "Correction", direction: "adjustment", manual: true, affectsCogs: false },
+  other: { code: "other", label: "Other", direction: "any", manual: true, affectsCogs: false },
+};
+
+export function isMovementReasonCode(reason: string): reason is MovementReasonCode {
+  return (movementReasonCodes as readonly string[]).includes(reason);
+}
+
+export function reasonAppliesTo(code: MovementReasonCode, type: StockMovementType): boolean {
+  const { direction } = movementReasons[code];
+  return direction === "any" || direction === type;
+}
+
+// The document a stock movement was recorded for. Movements entered by
+// hand, and corrections from editing a product, are "manual" and have no
+// sourceId.
+export const movementSourceTypes = ["order", "return", "purchase_order", "transfer", "stocktake", "manual"] as const;
+export type MovementSourceType = (typeof movementSourceTypes)[number];
+
+// Stock movements table. The movements for a product replay to its stock:
+// in and out move `quantity` units and adjustments carry a signed change.
+// quantityBefore/quantityAfter are the level at the movement's location
+// either side of it; they are null on movements recorded before the ledger
+// kept them, when adjustments set an absolute quantity and outs stopped at 0.
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey(),
   productId: varchar("product_id").notNull(),
   productName: text("product_name").notNull(),
   sku: text("sku").notNull(),
   type: text("type").notNull(), // 'in' | 'out' | 'adjustment'
-  quantity: integer("quantity").notNull(),
-  reason: text("reason").notNull(),
+  quantity: integer("quantity").notNull(), // signed for adjustments
+  quantityBefore: integer("quantity_before"),
+  quantityAfter: integer("quantity_after"),
+  reason: text("reason").notNull(), // a MovementReasonCode
   notes: text("notes"),
+  sourceType: text("source_type").notNull().default("manual"), // a MovementSourceType
+  sourceId: varchar("source_id"), // id of the order, return, purchase order, transfer or stocktake
+  locationId: varchar("location_id"), // null for movements recorded before locations existed (default location)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -119,20 +538,329 @@ export const insertStockMovementSchema = createInsertSchema(stockMovements, {
   productId: z.string().min(1, "Product ID is required"),
   productName: z.string().min(1, "Product name is required"),
   sku: z.string().min(1, "SKU is required"),
-  type: z.enum(["in", "out", "adjustment"]),
-  quantity: z.number().int().min(1, "Quantity must be at least 1"),
-  reason: z.string().min(1, "Reason is required"),
-}).omit({ id: true, createdAt: true });
+  type: z.enum(stockMovementTypes),
+  quantity: z.number().int(),
+  reason: z.enum(movementReasonCodes, { errorMap: () => ({ message: "Select a valid reason" }) }),
+  sourceType: z.enum(movementSourceTypes).optional(),
+}).omit({ id: true, quantityBefore: true, quantityAfter: true, createdAt: true }).extend({
+  // Lets an out movement take the location below zero, as a backorder
+  allowBackorder: z.boolean().optional(),
+}).refine((movement) => (movement.type === "adjustment" ? movement.quantity !== 0 : movement.quantity >= 1), {
+  message: "Quantity must be at least 1, or a non-zero change for adjustments",
+  path: ["quantity"],
+}).refine((movement) => reasonAppliesTo(movement.reason, movement.type), {
+  message: "This reason doesn't apply to that movement type",
+  path: ["reason"],
+});
 
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
 
+// A product whose stock doesn't match what its movements replay to
+export type StockDrift = {
+  productId: string;
+  productName: string;
+  sku: string;
+  stockQuantity: number;
+  ledgerQuantity: number;
+  drift: number; // stockQuantity - ledgerQuantity
+};
+
+// Without productIds, every drifting product is rebuilt
+export const rebuildStockSchema = z.object({
+  productIds: z.array(z.string()).optional(),
+});
+
+export type RebuildStock = z.infer<typeof rebuildStockSchema>;
+
+// Locations table. products.stockQuantity stays the total on hand; stock
+// held at other locations is recorded in stock_levels and the default
+// location holds the rest, so products created before locations existed
+// need no migration. Orders, returns and cancellations move stock at the
+// default location.
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  code: text("code").notNull().unique(),
+  address: text("address"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: z.string().min(1, "Location name is required"),
+  code: z.string().regex(/^[A-Za-z0-9-]+$/, "Code may only contain letters, numbers and dashes"),
+}).omit({ id: true, isDefault: true, createdAt: true });
+
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type Location = typeof locations.$inferSelect;
+
+export type LocationWithStock = Location & {
+  unitsOnHand: number;
+};
+
+export const stockLevels = pgTable("stock_levels", {
+  id: varchar("id").primaryKey(),
+  productId: varchar("product_id").notNull(),
+  locationId: varchar("location_id").notNull(),
+  quantity: integer("quantity").notNull().default(0),
+}, (table) => [unique().on(table.productId, table.locationId)]);
+
+export type StockLevel = typeof stockLevels.$inferSelect;
+
+// Quantity of one product at one location, including the default location's
+// share that isn't stored as a stock_levels row
+export type StockBalance = Pick<StockLevel, "productId" | "locationId" | "quantity">;
+
+// Stock transfers. Creating a transfer takes the stock out of the source
+// location; it is in transit, and in no location's balance, until the
+// destination receives it or the transfer is cancelled and it goes back.
+export const transferStatuses = ["in_transit", "received", "cancelled"] as const;
+export type TransferStatus = (typeof transferStatuses)[number];
+
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey(),
+  transferNumber: text("transfer_number").notNull().unique(),
+  fromLocationId: varchar("from_location_id").notNull(),
+  toLocationId: varchar("to_location_id").notNull(),
+  status: text("status").notNull().default("in_transit"), // 'in_transit' | 'received' | 'cancelled'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  receivedAt: timestamp("received_at"),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+export const stockTransferItems = pgTable("stock_transfer_items", {
+  id: varchar("id").primaryKey(),
+  transferId: varchar("transfer_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  productName: text("product_name").notNull(),
+  sku: text("sku").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+export const createStockTransferSchema = z.object({
+  fromLocationId: z.string().min(1, "Source location is required"),
+  toLocationId: z.string().min(1, "Destination location is required"),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1, "Product is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  })).min(1, "Add at least one product to transfer"),
+}).refine((data) => data.fromLocationId !== data.toLocationId, {
+  message: "Source and destination must be different locations",
+  path: ["toLocationId"],
+});
+
+export type CreateStockTransfer = z.infer<typeof createStockTransferSchema>;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type StockTransferItem = typeof stockTransferItems.$inferSelect;
+
+export type StockTransferWithItems = StockTransfer & {
+  items: StockTransferItem[];
+};
+
+// Stocktakes. A session lists every product in its category (or all of
+// them) for counting at one location. systemQuantity is what the location
+// held when the line was last counted, so sales during the count don't show
+// up as variances. Posting applies the approved variances as corrections
+// for the difference; lines that weren't counted or approved are left alone.
+export const stocktakeStatuses = ["open", "posted", "cancelled"] as const;
+export type StocktakeStatus = (typeof stocktakeStatuses)[number];
+
+export const stocktakes = pgTable("stocktakes", {
+  id: varchar("id").primaryKey(),
+  stocktakeNumber: text("stocktake_number").notNull().unique(),
+  locationId: varchar("location_id").notNull(),
+  category: text("category"), // null counts every category
+  status: text("status").notNull().default("open"), // 'open' | 'posted' | 'cancelled'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  postedAt: timestamp("posted_at"),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+export const stocktakeItems = pgTable("stocktake_items", {
+  id: varchar("id").primaryKey(),
+  stocktakeId: varchar("stocktake_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  productName: text("product_name").notNull(),
+  sku: text("sku").notNull(),
+  systemQuantity: integer("system_quantity").notNull(),
+  countedQuantity: integer("counted_quantity"), // null until counted
+  approved: boolean("approved").notNull().default(false),
+  countedAt: timestamp("counted_at"),
+});
+
+export const createStocktakeSchema = z.object({
+  locationId: z.string().optional(),
+  category: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// Counts are absolute; a null count clears the line
+export const recordStocktakeCountsSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().min(1, "Product is required"),
+    countedQuantity: z.number().int().min(0, "Counted quantity must be 0 or greater").nullable().optional(),
+    approved: z.boolean().optional(),
+  })).min(1, "Record at least one count"),
+});
+
+export type CreateStocktake = z.infer<typeof createStocktakeSchema>;
+export type RecordStocktakeCounts = z.infer<typeof recordStocktakeCountsSchema>;
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type StocktakeItem = typeof stocktakeItems.$inferSelect;
+
+export type StocktakeWithItems = Stocktake & {
+  items: StocktakeItem[];
+};
+
+export type StocktakeLineError = {
+  productId: string;
+  message: string;
+};
+
+// Suppliers table
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  email: text("email"), // stored lowercased
+  phone: text("phone"),
+  address: text("address"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: z.string().min(1, "Supplier name is required"),
+  email: z.string().email("Valid email is required").optional().or(z.literal("")),
+}).omit({ id: true, createdAt: true });
+
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+// Purchase orders. Lines are costed at the product's cost price unless a
+// unit cost is given. Receiving writes an 'in' movement per line at the
+// purchase order's location; the order is partially received until every
+// line has arrived in full and then closes. Closing it early gives up on
+// whatever is still outstanding.
+export const purchaseOrderStatuses = ["draft", "sent", "partially_received", "closed"] as const;
+export type PurchaseOrderStatus = (typeof purchaseOrderStatuses)[number];
+
+// Only drafts can be edited or deleted; once sent, a purchase order moves
+// forward by receiving or closing.
+export const purchaseOrderStatusTransitions: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent"],
+  sent: ["partially_received", "closed"],
+  partially_received: ["closed"],
+  closed: [],
+};
+
+export function canTransitionPurchaseOrder(from: string, to: string): boolean {
+  return purchaseOrderStatusTransitions[from as PurchaseOrderStatus]?.includes(to as PurchaseOrderStatus) ?? false;
+}
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  supplierId: varchar("supplier_id").notNull(),
+  locationId: varchar("location_id").notNull(), // where received stock goes
+  status: text("status").notNull().default("draft"), // 'draft' | 'sent' | 'partially_received' | 'closed'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  closedAt: timestamp("closed_at"),
+});
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey(),
+  purchaseOrderId: varchar("purchase_order_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  productName: text("product_name").notNull(),
+  sku: text("sku").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+});
+
+// Used for both creating and editing a draft; the lines replace any existing ones
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  locationId: z.string().optional(), // default location when omitted
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1, "Product is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    unitCost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Unit cost must be a valid amount").optional(),
+  })).min(1, "Add at least one product to order"),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    itemId: z.string().min(1, "Purchase order line is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  })).min(1, "Receive at least one line"),
+});
+
+export type CreatePurchaseOrder = z.infer<typeof createPurchaseOrderSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  items: PurchaseOrderItem[];
+};
+
+// Per-line problem reported when a receipt asks for more than is outstanding
+export type PurchaseOrderLineError = {
+  itemId: string;
+  message: string;
+};
+
+// Sales velocity and stock cover for one product. Units sold are sales net
+// of cancellations over the velocity window; on order counts what is still
+// outstanding on purchase orders that aren't closed, drafts included.
+// suggestedQuantity is 0 when the product doesn't need reordering.
+export type ReorderSuggestion = {
+  productId: string;
+  productName: string;
+  sku: string;
+  supplierId: string | null;
+  unitCost: string | null;
+  onHand: number;
+  onOrder: number;
+  unitsSold: number;
+  windowDays: number;
+  dailyVelocity: number;
+  daysOfCover: number | null; // null when nothing has sold in the window
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+};
+
+// Turns selected suggestions into one draft purchase order per supplier
+export const reorderPurchaseOrdersSchema = z.object({
+  locationId: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1, "Product is required"),
+    supplierId: z.string().min(1, "Choose a supplier for every product"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    unitCost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Unit cost must be a valid amount").optional(),
+  })).min(1, "Select at least one product to reorder"),
+});
+
+export type ReorderPurchaseOrders = z.infer<typeof reorderPurchaseOrdersSchema>;
+
 // Returns table
 export const returns = pgTable("returns", {
   id: varchar("id").primaryKey(),
   returnNumber: text("return_number").notNull().unique(),
   orderId: varchar("order_id").notNull(),
   orderNumber: text("order_number").notNull(),
+  customerId: varchar("customer_id"), // taken from the order
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email"),
   status: text("status").notNull().default("pending"), // 'pending' | 'approved' | 'rejected' | 'completed'
@@ -140,8 +868,19 @@ export const returns = pgTable("returns", {
   notes: text("notes"),
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
   creditAmount: decimal("credit_amount", { precision: 10, scale: 2 }),
+  returnValue: decimal("return_value", { precision: 10, scale: 2 }), // what the returned items were paid for
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"), // tax included in returnValue
   exchangeValue: decimal("exchange_value", { precision: 10, scale: 2 }),
   additionalPayment: decimal("additional_payment", { precision: 10, scale: 2 }),
+  paymentMethod: text("payment_method"), // how the additional payment was collected
+  paymentStatus: text("payment_status").notNull().default("not_required"), // 'not_required' | 'pending' | 'paid'
+  paidAt: timestamp("paid_at"),
+  creditCode: text("credit_code"), // store credit issued on approval
+  replacementOrderId: varchar("replacement_order_id"), // order shipping the exchange products
+  rejectionReason: text("rejection_reason"),
+  approvedAt: timestamp("approved_at"),
+  rejectedAt: timestamp("rejected_at"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -155,18 +894,96 @@ export const returnItems = pgTable("return_items", {
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"), // tax included in the subtotal
   exchangeProductId: varchar("exchange_product_id"),
   exchangeProductName: text("exchange_product_name"),
 });
 
+export const returnStatuses = ["pending", "approved", "rejected", "completed"] as const;
+export type ReturnStatus = (typeof returnStatuses)[number];
+
+// Restocking and credit issuance happen on approval, so a return can only
+// be rejected while nothing has been done yet.
+export const returnStatusTransitions: Record<ReturnStatus, ReturnStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["completed"],
+  rejected: [],
+  completed: [],
+};
+
+export const returnPaymentMethods = ["cash", "card", "bank_transfer", "other"] as const;
+export type ReturnPaymentMethod = (typeof returnPaymentMethods)[number];
+
+export const returnPaymentStatuses = ["not_required", "pending", "paid"] as const;
+export type ReturnPaymentStatus = (typeof returnPaymentStatuses)[number];
+
+export function canTransitionReturn(from: string, to: string): boolean {
+  return returnStatusTransitions[from as ReturnStatus]?.includes(to as ReturnStatus) ?? false;
+}
+
+// The customer is always the order's, so store credit can only ever be sent
+// to the address the order was placed with
 export const insertReturnSchema = createInsertSchema(returns, {
-  customerName: z.string().min(1, "Customer name is required"),
-  customerEmail: z.string().email().optional().or(z.literal("")),
-  status: z.enum(["pending", "approved", "rejected", "completed"]),
+  status: z.enum(returnStatuses),
   reason: z.string().min(1, "Return reason is required"),
-}).omit({ id: true, createdAt: true, returnNumber: true });
+  paymentMethod: z.enum(returnPaymentMethods).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  returnNumber: true,
+  customerId: true,
+  customerName: true,
+  customerEmail: true,
+  creditCode: true,
+  replacementOrderId: true,
+  paymentStatus: true,
+  paidAt: true,
+  rejectionReason: true,
+  approvedAt: true,
+  rejectedAt: true,
+  completedAt: true,
+});
+
+export const returnSettlements = ["refund", "credit"] as const;
+export type ReturnSettlement = (typeof returnSettlements)[number];
+
+// What's entered for a return. Its amounts are worked out on the server
+// from what was paid on the order; any sent along are checked against them.
+export const returnDetailsSchema = insertReturnSchema.extend({
+  settleAs: z.enum(returnSettlements).default("refund"),
+});
+
+// Amounts are fixed once a return is created, and so is the order it's
+// for, since what can be returned and who the customer is both come from it
+export const updateReturnSchema = insertReturnSchema
+  .omit({
+    orderId: true,
+    orderNumber: true,
+    returnValue: true,
+    taxAmount: true,
+    refundAmount: true,
+    creditAmount: true,
+    exchangeValue: true,
+    additionalPayment: true,
+  })
+  .partial();
+
+export const returnLineSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  exchangeProductId: z.string().optional().or(z.literal("")),
+});
+
+export const rejectReturnSchema = z.object({
+  reason: z.string().optional(),
+});
+
+export const returnPaymentSchema = z.object({
+  paymentMethod: z.enum(returnPaymentMethods),
+});
 
 export const insertReturnItemSchema = createInsertSchema(returnItems, {
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
   exchangeProductId: z.string().optional().or(z.literal("")),
   exchangeProductName: z.string().optional().or(z.literal("")),
 }).omit({ 
@@ -177,21 +994,91 @@ export const insertReturnItemSchema = createInsertSchema(returnItems, {
 export type InsertReturn = z.infer<typeof insertReturnSchema>;
 export type Return = typeof returns.$inferSelect;
 export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+export type ReturnDetails = z.infer<typeof returnDetailsSchema>;
+export type UpdateReturn = z.infer<typeof updateReturnSchema>;
+export type ReturnLine = z.infer<typeof returnLineSchema>;
 export type ReturnItem = typeof returnItems.$inferSelect;
 
 export type ReturnWithItems = Return & {
   items: ReturnItem[];
 };
 
-// Discount codes table
+// What was paid for a product on an order, tax included, and how much of
+// that was tax
+export type PaidQuantity = { cents: number; taxCents: number; quantity: number };
+
+// What was paid for each product on an order: its lines' subtotals less a
+// share of the order's discount, plus their tax when it was added on top.
+// The discount is split in proportion to the subtotals.
+export function paidByProduct(
+  order: Pick<Order, "discountAmount" | "pricesIncludeTax">,
+  items: Pick<OrderItem, "productId" | "quantity" | "subtotal" | "taxAmount">[]
+): Map<string, PaidQuantity> {
+  const subtotals = items.map((item) => toCents(item.subtotal));
+  const itemsTotal = subtotals.reduce((sum, cents) => sum + cents, 0);
+  const discount = Math.min(toCents(order.discountAmount ?? "0"), itemsTotal);
+  const shares = prorateCents(discount, subtotals);
+
+  const paid = new Map<string, PaidQuantity>();
+  items.forEach((item, index) => {
+    const entry = paid.get(item.productId) ?? { cents: 0, taxCents: 0, quantity: 0 };
+    const tax = toCents(item.taxAmount ?? "0");
+    entry.cents += subtotals[index] - shares[index] + (order.pricesIncludeTax ? 0 : tax);
+    entry.taxCents += tax;
+    entry.quantity += item.quantity;
+    paid.set(item.productId, entry);
+  });
+  return paid;
+}
+
+// The part of `cents`, spread over `total` units, that `quantity` more units
+// carry once `returned` already have. Once all of them are back the parts
+// add up to exactly `cents`.
+function unitShareCents(cents: number, total: number, returned: number, quantity: number): number {
+  if (total === 0) return 0;
+  const upTo = (units: number) => Math.floor((cents * Math.min(units, total)) / total);
+  return upTo(returned + quantity) - upTo(returned);
+}
+
+// What `quantity` more units of a product are worth coming back once
+// `returned` already have, tax included
+export function returnValueCents(paid: PaidQuantity, returned: number, quantity: number): number {
+  return unitShareCents(paid.cents, paid.quantity, returned, quantity);
+}
+
+// The tax included in returnValueCents for the same units
+export function returnTaxCents(paid: PaidQuantity, returned: number, quantity: number): number {
+  return unitShareCents(paid.taxCents, paid.quantity, returned, quantity);
+}
+
+// How much of each ordered product is still open for return. Quantities on
+// rejected returns are not counted as returned.
+export type ReturnableQuantity = {
+  productId: string;
+  ordered: number;
+  returned: number;
+  returnable: number;
+};
+
+// Per-line problem reported when a return asks for more than is returnable
+export type ReturnItemError = {
+  productId: string;
+  message: string;
+};
+
+// Discount codes table. `amount` is what was issued; the spendable balance
+// is derived from the credit_transactions ledger.
 export const discountCodes = pgTable("discount_codes", {
   id: varchar("id").primaryKey(),
   code: text("code").notNull().unique(),
+  customerId: varchar("customer_id"),
   customerEmail: text("customer_email").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   isUsed: boolean("is_used").default(false),
   usedAt: timestamp("used_at"),
+  voidedAt: timestamp("voided_at"),
   expiresAt: timestamp("expires_at"),
+  expiredAt: timestamp("expired_at"), // set when the expiry job writes off the balance
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -199,7 +1086,399 @@ export const insertDiscountCodeSchema = createInsertSchema(discountCodes, {
   code: z.string().min(1, "Code is required"),
   customerEmail: z.string().email("Valid email is required"),
   amount: z.string().min(1, "Amount is required"),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, createdAt: true, voidedAt: true, expiredAt: true });
 
 export type InsertDiscountCode = z.infer<typeof insertDiscountCodeSchema>;
 export type DiscountCode = typeof discountCodes.$inferSelect;
+
+export type DiscountCodeWithBalance = DiscountCode & {
+  balance: string;
+};
+
+// Store credit ledger. Every change to a code's balance is a row here:
+// positive amounts add credit (issue, reverse, upward adjust), negative
+// amounts take it away (redeem, expire, downward adjust).
+export const creditTransactionTypes = ["issue", "redeem", "expire", "adjust", "reverse"] as const;
+export type CreditTransactionType = (typeof creditTransactionTypes)[number];
+
+export const creditTransactions = pgTable("credit_transactions", {
+  id: varchar("id").primaryKey(),
+  code: text("code").notNull(),
+  orderId: varchar("order_id"),
+  type: text("type").notNull(), // 'issue' | 'redeem' | 'expire' | 'adjust' | 'reverse'
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCreditTransactionSchema = createInsertSchema(creditTransactions, {
+  type: z.enum(creditTransactionTypes),
+}).omit({ id: true, createdAt: true });
+
+export const creditAdjustmentSchema = z.object({
+  amount: z.string().refine((val) => {
+    const num = parseFloat(val);
+    return !isNaN(num) && num !== 0;
+  }, { message: "Adjustment must be a non-zero amount" }),
+  note: z.string().min(1, "A note explaining the adjustment is required"),
+});
+
+export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+
+// Everything on record for one customer, newest first
+export type CustomerHistory = {
+  customer: CustomerWithStats;
+  orders: OrderWithItems[];
+  returns: ReturnWithItems[];
+  credits: DiscountCodeWithBalance[];
+};
+
+// Cursor-paginated lists. A page holds up to `limit` rows in sort order;
+// passing its `nextCursor` back as `cursor` fetches the rows after it, and
+// it is null on the last page. `total` counts every row matching the filters.
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+};
+
+export const sortOrders = ["asc", "desc"] as const;
+export type SortOrder = (typeof sortOrders)[number];
+
+const listQueryFields = {
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  search: z.string().trim().optional(),
+};
+
+// Dates filter on createdAt, both ends inclusive of the whole day given
+const dateRangeFields = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+export const productSortKeys = ["productName", "sku", "price", "stockQuantity", "createdAt"] as const;
+export type ProductSortKey = (typeof productSortKeys)[number];
+
+export const productListQuerySchema = z.object({
+  ...listQueryFields,
+  category: z.string().optional(),
+  brand: z.string().optional(),
+  // Only products with stock on hand at this location
+  locationId: z.string().optional(),
+  // Leave out style variants, which are listed with their style
+  standalone: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(productSortKeys).default("productName"),
+  order: z.enum(sortOrders).default("asc"),
+});
+
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+export type ProductFacets = {
+  categories: string[];
+  brands: string[];
+};
+
+export const orderSortKeys = ["createdAt", "orderNumber", "customerName", "totalAmount"] as const;
+export type OrderSortKey = (typeof orderSortKeys)[number];
+
+export const orderListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  status: z.enum(orderStatuses).optional(),
+  sort: z.enum(orderSortKeys).default("createdAt"),
+  order: z.enum(sortOrders).default("desc"),
+});
+
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+export const returnSortKeys = ["createdAt", "returnNumber", "customerName", "refundAmount"] as const;
+export type ReturnSortKey = (typeof returnSortKeys)[number];
+
+export const returnListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  status: z.enum(returnStatuses).optional(),
+  sort: z.enum(returnSortKeys).default("createdAt"),
+  order: z.enum(sortOrders).default("desc"),
+});
+
+export type ReturnListQuery = z.infer<typeof returnListQuerySchema>;
+
+export const stockMovementSortKeys = ["createdAt", "productName", "quantity"] as const;
+export type StockMovementSortKey = (typeof stockMovementSortKeys)[number];
+
+export const stockMovementListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  productId: z.string().optional(),
+  type: z.enum(stockMovementTypes).optional(),
+  reason: z.enum(movementReasonCodes).optional(),
+  sourceType: z.enum(movementSourceTypes).optional(),
+  locationId: z.string().optional(),
+  sort: z.enum(stockMovementSortKeys).default("createdAt"),
+  order: z.enum(sortOrders).default("desc"),
+});
+
+export type StockMovementListQuery = z.infer<typeof stockMovementListQuerySchema>;
+
+// What the ledger says about stock, at one location or across all of them:
+// units on hand, units sold less those restocked from cancelled orders, and
+// units returned
+export type StockFigures = {
+  available: number;
+  sold: number;
+  returned: number;
+};
+
+export type ProductStockFigures = Product & StockFigures;
+
+export const stockFigureSortKeys = ["productName", "sku", "category", "available", "sold", "returned"] as const;
+export type StockFigureSortKey = (typeof stockFigureSortKeys)[number];
+
+export const stockFigureListQuerySchema = z.object({
+  ...listQueryFields,
+  category: z.string().optional(),
+  locationId: z.string().optional(),
+  sort: z.enum(stockFigureSortKeys).default("productName"),
+  order: z.enum(sortOrders).default("asc"),
+});
+
+export type StockFigureListQuery = z.infer<typeof stockFigureListQuerySchema>;
+
+// Users table. Everyone signs in; what they can do follows from their role.
+export const userRoles = ["owner", "manager", "cashier", "warehouse"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  displayName: text("display_name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull(), // 'owner' | 'manager' | 'cashier' | 'warehouse'
+  active: boolean("active").notNull().default(true), // inactive users can't sign in
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const userRoleLabels: Record<UserRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  cashier: "Cashier",
+  warehouse: "Warehouse",
+};
+
+export const permissions = [
+  "products.view",
+  "products.manage",
+  "customers.view",
+  "customers.manage",
+  "orders.view",
+  "orders.manage",
+  "orders.delete",
+  "discounts.approve",
+  "taxes.manage",
+  "returns.manage",
+  "returns.approve",
+  "stock.view",
+  "stock.adjust",
+  "stock.rebuild",
+  "locations.manage",
+  "stocktakes.count",
+  "stocktakes.post",
+  "purchasing.view",
+  "purchasing.manage",
+  "purchasing.receive",
+  "credits.view",
+  "credits.manage",
+  "audit.view",
+  "users.manage",
+] as const;
+export type Permission = (typeof permissions)[number];
+
+// Cashiers sell and take returns; warehouse staff move, count and receive
+// stock; managers do both, settle what needs sign-off (approving returns and
+// large discounts, posting counts, adjusting credit), set tax rates and read
+// the audit log; owners also manage the user accounts.
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  owner: permissions,
+  manager: permissions.filter((permission) => permission !== "users.manage"),
+  cashier: [
+    "products.view",
+    "customers.view",
+    "customers.manage",
+    "orders.view",
+    "orders.manage",
+    "returns.manage",
+    "stock.view",
+    "credits.view",
+  ],
+  warehouse: [
+    "products.view",
+    "orders.view",
+    "stock.view",
+    "stock.adjust",
+    "stocktakes.count",
+    "purchasing.view",
+    "purchasing.receive",
+  ],
+};
+
+export function isUserRole(value: string): value is UserRole {
+  return (userRoles as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return isUserRole(role) && rolePermissions[role].includes(permission);
+}
+
+const passwordField = z.string().min(8, "Password must be at least 8 characters");
+
+export const insertUserSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9._-]{3,32}$/, "Username must be 3-32 letters, numbers, dots, dashes or underscores"),
+  displayName: z.string().trim().min(1, "Name is required"),
+  password: passwordField,
+  role: z.enum(userRoles, { errorMap: () => ({ message: "Select a valid role" }) }),
+});
+
+// Leaving the password out keeps the current one
+export const updateUserSchema = insertUserSchema
+  .omit({ username: true, password: true })
+  .extend({ password: passwordField.optional(), active: z.boolean() })
+  .partial();
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// The first account, created before anyone can sign in, is always an owner
+export const setupOwnerSchema = insertUserSchema.omit({ role: true });
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type Login = z.infer<typeof loginSchema>;
+export type SetupOwner = z.infer<typeof setupOwnerSchema>;
+export type UserRecord = typeof users.$inferSelect;
+// A user as the API returns it, without the password hash
+export type User = Omit<UserRecord, "passwordHash">;
+
+// Audit log. One event per change someone made through the API, naming who
+// made it and, field by field, what the record looked like before and after.
+export const auditEntityTypes = [
+  "product",
+  "product_style",
+  "order",
+  "return",
+  "stock_movement",
+  "stock_transfer",
+  "stocktake",
+  "purchase_order",
+  "discount_code",
+  "customer",
+  "supplier",
+  "location",
+  "tax_class",
+  "user",
+] as const;
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  product: "Product",
+  product_style: "Product style",
+  order: "Order",
+  return: "Return",
+  stock_movement: "Stock movement",
+  stock_transfer: "Stock transfer",
+  stocktake: "Stocktake",
+  purchase_order: "Purchase order",
+  discount_code: "Store credit",
+  customer: "Customer",
+  supplier: "Supplier",
+  location: "Location",
+  tax_class: "Tax class",
+  user: "User",
+};
+
+export const auditActions = [
+  "create",
+  "update",
+  "delete",
+  "status_change",
+  "approve",
+  "reject",
+  "complete",
+  "payment",
+  "receive",
+  "cancel",
+  "count",
+  "post",
+  "rebuild",
+  "redeem",
+  "adjust",
+  "void",
+  "send",
+  "close",
+] as const;
+export type AuditAction = (typeof auditActions)[number];
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  status_change: "Status changed",
+  approve: "Approved",
+  reject: "Rejected",
+  complete: "Completed",
+  payment: "Refund paid",
+  receive: "Received",
+  cancel: "Cancelled",
+  count: "Counted",
+  post: "Posted",
+  rebuild: "Stock rebuilt",
+  redeem: "Redeemed",
+  adjust: "Adjusted",
+  void: "Voided",
+  send: "Sent",
+  close: "Closed",
+};
+
+// Only the fields that changed; a created record has nothing before, a
+// deleted one nothing after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey(),
+  actorId: varchar("actor_id"), // null for changes made by the system
+  actorName: text("actor_name").notNull(), // kept as it was when the change was made
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  entityLabel: text("entity_label"), // SKU, order number and so on, to recognise the record by
+  action: text("action").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<AuditEvent, "id" | "createdAt">;
+
+export type AuditActor = {
+  actorId: string | null;
+  actorName: string;
+};
+
+export const auditEventListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: z.enum(auditActions).optional(),
+  order: z.enum(sortOrders).default("desc"),
+});
+
+export type AuditEventListQuery = z.infer<typeof auditEventListQuerySchema>;